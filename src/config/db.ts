@@ -1,32 +1,106 @@
-import { MongoClient, Db } from "mongodb";
+import { MongoClient, Db, IndexSpecification, CreateIndexesOptions } from "mongodb";
+import { seedDefaultRoles } from "../models/roles/role.engine";
 
 const MONGODB_URI = process.env.MONGODB_URI!;
 
 let db: Db | null = null;
 let client: MongoClient | null = null;
 
-// Connect using MongoDB native driver
-export const connectDB = async (): Promise<Db> => {
+/**
+ * Connect using the MongoDB native driver. The connection is only handed out once the
+ * indexes exist, so a failed unique index keeps the app from serving requests without
+ * its uniqueness guarantees. Maintenance scripts that repair the data those indexes
+ * need (see migrateUsers.ts) pass `skipIndexes`.
+ */
+export const connectDB = async (options: { skipIndexes?: boolean } = {}): Promise<Db> => {
   if (db) {
     return db;
   }
 
+  const connection = new MongoClient(MONGODB_URI, {
+    tls: true,
+    tlsAllowInvalidCertificates: false,
+    serverSelectionTimeoutMS: 5000,
+  });
+
   try {
-    client = new MongoClient(MONGODB_URI, {
-      tls: true,
-      tlsAllowInvalidCertificates: false,
-      serverSelectionTimeoutMS: 5000,
-    });
-    await client.connect();
-    db = client.db();
+    await connection.connect();
+    const database = connection.db();
     console.log("MongoDB (native driver) connected successfully");
+
+    if (!options.skipIndexes) {
+      await createIndexes(database);
+      await seedDefaultRoles(database).catch((error) => console.error("Error seeding default roles:", error));
+    }
+
+    client = connection;
+    db = database;
     return db;
   } catch (error) {
     console.error("MongoDB connection error:", error);
+    await connection.close().catch(() => undefined);
     throw error;
   }
 };
 
+// Indexes the application relies on for correctness, as [collection, keys, options]
+const INDEXES: [string, IndexSpecification, CreateIndexesOptions?][] = [
+  ["orders", { orderNumber: 1 }, { unique: true }],
+  ["orders", { invoiceNumber: 1 }, { unique: true, partialFilterExpression: { invoiceNumber: { $type: "string" } } }],
+  ["invoices", { orderId: 1 }, { unique: true }],
+  ["coupons", { code: 1 }, { unique: true }],
+  ["exchangeRates", { base: 1, quote: 1, effectiveDate: -1 }, { unique: true }],
+  ["couponRedemptions", { couponId: 1, email: 1 }, { unique: true }],
+  ["emailTemplates", { key: 1 }, { unique: true }],
+  ["emailTemplateVersions", { key: 1, version: -1 }, { unique: true }],
+  ["email_outbox", { status: 1, nextAttemptAt: 1 }],
+  ["email_outbox", { createdAt: -1 }],
+  ["contacts", { "submission.ip": 1, createdAt: -1 }],
+  ["contacts", { email: 1, createdAt: -1 }],
+  ["quotes", { quoteNumber: 1 }, { unique: true }],
+  ["quotes", { contactId: 1 }],
+  ["quotes", { status: 1, validUntil: 1 }],
+  ["orders", { quoteId: 1 }, { unique: true, partialFilterExpression: { quoteId: { $type: "objectId" } } }],
+  ["roles", { key: 1 }, { unique: true }],
+  ["paymentEvents", { provider: 1, eventId: 1 }, { unique: true }],
+  ["orders", { "payment.providerReference": 1 }, { partialFilterExpression: { "payment.providerReference": { $type: "string" } } }],
+  ["passwordresettokens", { email: 1 }],
+  ["passwordresettokens", { token: 1 }, { unique: true }],
+  ["passwordresettokens", { expiresAt: 1 }, { expireAfterSeconds: 0 }],
+  ["sessions", { uid: 1, lastSeenAt: -1 }],
+  ["sessions", { expiresAt: 1 }, { expireAfterSeconds: 0 }],
+  ["sessions", { refreshTokenHash: 1 }, { unique: true, partialFilterExpression: { refreshTokenHash: { $type: "string" } } }],
+  ["sessions", { rotatedTokenHashes: 1 }],
+  ["authAttempts", { action: 1, scope: 1, key: 1 }, { unique: true }],
+  ["authAttempts", { expiresAt: 1 }, { expireAfterSeconds: 0 }],
+  // Fails while legacy users without a firebaseUid remain (see `npm run migrate:users`)
+  ["users", { email: 1 }],
+  ["users", { firebaseUid: 1 }, { unique: true }]
+];
+
+/**
+ * Create every index on its own so one failure does not skip the rest. A missing
+ * non-unique index only costs performance and is logged; a missing unique index would
+ * let duplicates in, so startup fails once all indexes have been attempted.
+ */
+export const createIndexes = async (database: Db): Promise<void> => {
+  const failedUnique: string[] = [];
+
+  for (const [collection, keys, options] of INDEXES) {
+    const name = `${collection} ${JSON.stringify(keys)}`;
+    try {
+      await database.collection(collection).createIndex(keys, options);
+    } catch (error) {
+      console.error(`Error creating index ${name}:`, error);
+      if (options?.unique) failedUnique.push(name);
+    }
+  }
+
+  if (failedUnique.length) {
+    throw new Error(`Could not create unique indexes: ${failedUnique.join(", ")}. Resolve the duplicate documents (for users, run \`npm run migrate:users\`) and restart.`);
+  }
+};
+
 // Get the database instance
 export const getDB = (): Db => {
   if (!db) {
@@ -1,71 +1,54 @@
 import { Request, Response } from 'express'
 import { auth } from '../firebase'
-import { getUsersCollection } from '../db'
+import { upsertUserProfile } from '../models/user/user.store'
 
 /**
- * POST /api/create-user
- * Admin-only endpoint to create users via Firebase Admin SDK
+ * Whether the request carries the configured ADMIN_SECRET in X-Admin-Secret
  */
-export async function createUser(req: Request, res: Response) {
+export function hasAdminSecret(req: Request) {
   const adminSecretEnv = process.env.ADMIN_SECRET
   const headerSecret = (req.headers['x-admin-secret'] as string) || undefined
+  return !!(headerSecret && adminSecretEnv && headerSecret === adminSecretEnv)
+}
 
-  const firebaseUser = (req as any).firebaseUser
-  const hasAdminClaim = !!(firebaseUser && firebaseUser.admin === true)
-  const hasHeaderSecret = !!(headerSecret && adminSecretEnv && headerSecret === adminSecretEnv)
-
-  if (!hasAdminClaim && !hasHeaderSecret) {
-    return res.status(403).json({ error: 'Forbidden' })
-  }
-
+/**
+ * POST /api/create-user
+ * Create users via Firebase Admin SDK (users:manage or the admin secret, see adminRoutes)
+ */
+export async function createUser(req: Request, res: Response) {
   const { email, password, displayName, phoneNumber, photoURL, disabled, uid, customClaims } = req.body
   if (!email && !phoneNumber && !uid) {
     return res.status(400).json({ error: 'email or phoneNumber or uid required' })
   }
 
+  // Access comes from roles; assign one with PATCH /api/users/:id/role instead
+  if (customClaims !== undefined) {
+    return res.status(400).json({ error: 'customClaims are not supported. Assign a role with PATCH /api/users/:id/role' })
+  }
+
+  const userRecord = await auth.createUser({
+    email,
+    password,
+    displayName,
+    phoneNumber,
+    photoURL,
+    disabled,
+    uid,
+  })
+
+  // upsert user into MongoDB so profile is stored
   try {
-    const userRecord = await auth.createUser({
-      email,
-      password,
-      displayName,
-      phoneNumber,
-      photoURL,
-      disabled,
-      uid,
+    await upsertUserProfile({
+      firebaseUid: userRecord.uid,
+      email: userRecord.email || email || '',
+      displayName: userRecord.displayName || displayName || '',
+      phoneNumber: userRecord.phoneNumber || phoneNumber || '',
+      photoURL: userRecord.photoURL || photoURL || '',
+      termsAccepted: true
     })
-
-    if (customClaims && typeof customClaims === 'object') {
-      await auth.setCustomUserClaims(userRecord.uid, customClaims)
-    }
-
-    // upsert user into MongoDB so profile is stored
-    try {
-      await getUsersCollection().updateOne(
-        { firebaseUid: userRecord.uid },
-        {
-          $set: {
-            firebaseUid: userRecord.uid,
-            email: userRecord.email || email,
-            displayName: userRecord.displayName || displayName || '',
-            phoneNumber: userRecord.phoneNumber || phoneNumber || '',
-            photoURL: userRecord.photoURL || photoURL || '',
-            updatedAt: new Date()
-          },
-          $setOnInsert: {
-            role: 'user',
-            status: 'active',
-            termsAccepted: true,
-            createdAt: new Date()
-          }
-        },
-        { upsert: true }
-      )
-    } catch (dbErr) {
-      console.error('Failed to upsert user to MongoDB on admin create:', dbErr)
-    }
-
-    return res.status(201).json({ uid: userRecord.uid, email: userRecord.email })
-  } catch (err) {
-    return res.status(500).json({ error: (err as Error).message })
+  } catch (dbErr) {
+    console.error('Failed to upsert user to MongoDB on admin create:', dbErr)
   }
+
+  return res.status(201).json({ uid: userRecord.uid, email: userRecord.email })
 }
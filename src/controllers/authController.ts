@@ -1,10 +1,133 @@
 import { Request, Response } from 'express'
 import { auth } from '../firebase'
-import { getUsersCollection, upsertUserProfile, getPasswordResetTokensCollection } from '../db'
+import { getDB } from '../config/db'
+import { getUsersCollection, normalizeEmail, upsertUserProfile } from '../models/user/user.store'
+import { PasswordResetToken } from '../models/auth/auth.model'
 import axios from 'axios'
 import { signSessionToken } from '../firebase'
+import {
+  ACCESS_TOKEN_TTL_MINUTES,
+  IssuedSession,
+  createSession,
+  findSessionByRefreshToken,
+  listSessions,
+  markSessionTwoFactorVerified,
+  revokeSession,
+  revokeAllSessions,
+  rotateRefreshToken,
+} from '../models/auth/session.engine'
+import {
+  beginTwoFactorSetup,
+  confirmTwoFactorSetup,
+  disableTwoFactor,
+  isTwoFactorEnabled,
+  regenerateRecoveryCodes,
+  signTwoFactorChallenge,
+  verifySecondFactor,
+  verifyTwoFactorChallenge,
+} from '../models/auth/twoFactor.engine'
+import {
+  EMAIL_VERIFICATION_TTL_HOURS,
+  buildEmailVerificationLink,
+  createEmailVerificationToken,
+  isEmailVerified,
+  verifyEmailToken,
+} from '../models/auth/emailVerification.engine'
+import { AppError, ConflictError, ForbiddenError, NotFoundError, UnauthorizedError } from '../utils/errors'
 import crypto from 'crypto'
-import { sendPasswordResetEmail, sendPasswordResetConfirmationEmail } from '../emailService'
+import {
+  sendPasswordResetEmail,
+  sendPasswordResetConfirmationEmail,
+  sendAccountLockedEmail,
+  sendEmailVerificationEmail,
+} from '../emailService'
+import { AUTH_THROTTLE_POLICIES, ThrottleSubject, assertNotThrottled, clearAuthAttempts, recordAuthAttempt } from '../models/auth/throttle.engine'
+import { getClientIp } from '../models/contact/contact.spam'
+
+const getPasswordResetTokensCollection = () => getDB().collection<PasswordResetToken>('passwordresettokens')
+
+const sessionCookieOptions = () => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax' as const,
+})
+
+// The refresh token is only sent to /api routes, never to pages served from the same host
+const REFRESH_COOKIE = 'refresh_token'
+const refreshCookieOptions = () => ({ ...sessionCookieOptions(), path: '/api' })
+
+function assertNotSuspended(user: { status?: string } | null) {
+  if (user?.status === 'suspended') {
+    throw new ForbiddenError('This account has been suspended', 'ACCOUNT_SUSPENDED')
+  }
+}
+
+// Set the short-lived access cookie and the rotating refresh cookie for a session
+function setSessionCookies(res: Response, issued: IssuedSession) {
+  const { session, refreshToken } = issued
+  res.cookie('session', signSessionToken(session.uid, session._id!.toHexString()), {
+    ...sessionCookieOptions(),
+    maxAge: ACCESS_TOKEN_TTL_MINUTES * 60 * 1000,
+  })
+  res.cookie(REFRESH_COOKIE, refreshToken, {
+    ...refreshCookieOptions(),
+    expires: session.expiresAt,
+  })
+}
+
+function clearSessionCookies(res: Response) {
+  res.clearCookie('session', sessionCookieOptions())
+  res.clearCookie(REFRESH_COOKIE, refreshCookieOptions())
+}
+
+// Record a server-side session for this device and hand out its cookies
+async function startSession(req: Request, res: Response, uid: string, options: { twoFactorVerified?: boolean } = {}) {
+  assertNotSuspended(await getUsersCollection().findOne({ firebaseUid: uid }, { projection: { status: 1 } }))
+  setSessionCookies(res, await createSession(getDB(), uid, req, options))
+}
+
+/**
+ * Start a session after the password (or Google) step, unless the account uses two-factor
+ * authentication. Then no cookie is set; the returned challenge is exchanged for the session
+ * together with a code at POST /api/auth/2fa/login.
+ */
+async function beginSignIn(req: Request, res: Response, uid: string) {
+  const user = await getUsersCollection().findOne({ firebaseUid: uid }, { projection: { status: 1, twoFactor: 1 } })
+  assertNotSuspended(user)
+
+  if (isTwoFactorEnabled(user)) {
+    return {
+      twoFactorRequired: true,
+      challengeToken: signTwoFactorChallenge(uid),
+      message: 'Enter the code from your authenticator app to finish signing in'
+    }
+  }
+
+  setSessionCookies(res, await createSession(getDB(), uid, req))
+  return null
+}
+
+// Count a failed sign-in and, when it locks the account, let the owner know
+async function recordFailedLogin(subject: ThrottleSubject) {
+  const { accountLockedUntil } = await recordAuthAttempt(getDB(), 'login', subject)
+  if (!accountLockedUntil) return
+
+  // Locks apply to any address, but only real accounts get an email
+  const user = await getUsersCollection().findOne({ email: subject.account })
+  if (!user) return
+
+  sendAccountLockedEmail(user.email, {
+    userName: user.displayName,
+    lockoutMinutes: AUTH_THROTTLE_POLICIES.login.lockoutMinutes,
+    ip: subject.ip
+  }).catch(() => {})
+}
+
+// Queue the link that confirms the address of a pending account
+function sendVerificationEmail(uid: string, email: string, displayName?: string) {
+  const link = buildEmailVerificationLink(createEmailVerificationToken(uid, email))
+  return sendEmailVerificationEmail(email, link, EMAIL_VERIFICATION_TTL_HOURS, displayName)
+}
 
 /**
  * POST /api/register-cookie
@@ -90,26 +213,18 @@ export async function registerWithCookie(req: Request, res: Response) {
       photoURL: photo
     })
 
-    const token = signSessionToken(userRecord.uid)
-
-    const cookieOptions = {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax' as const,
-      maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
-    }
-
     // Create user profile in MongoDB
     try {
       await getUsersCollection().insertOne({
         firebaseUid: userRecord.uid,
-        email: userRecord.email || email,
+        email: normalizeEmail(userRecord.email || email),
         displayName: userRecord.displayName || fullName,
         phoneNumber: formattedPhone || phoneNum || '',
         address: address || '',
         photoURL: photo || '',
+        provider: 'password',
         role: 'user', // Default role
-        status: 'active',
+        status: 'pending', // Until the emailed link is opened
         termsAccepted: true, // Auto-accept since user filled the form
         createdAt: new Date(),
         updatedAt: new Date()
@@ -119,14 +234,19 @@ export async function registerWithCookie(req: Request, res: Response) {
       // Continue anyway - Firebase user is created
     }
 
-    res.cookie('session', token, cookieOptions)
+    // A failed email can be retried with POST /api/auth/resend-verification
+    sendVerificationEmail(userRecord.uid, normalizeEmail(userRecord.email || email), userRecord.displayName || fullName)
+      .catch(() => {})
+
+    await startSession(req, res, userRecord.uid)
     return res.status(201).json({
       success: true,
       uid: userRecord.uid,
       email: userRecord.email,
       displayName: userRecord.displayName,
       role: 'user',
-      message: 'User registered successfully'
+      emailVerified: false,
+      message: 'User registered successfully. Check your inbox to verify your email address.'
     })
   } catch (err: any) {
     console.error('Registration error:', err)
@@ -159,7 +279,7 @@ export async function registerWithCookie(req: Request, res: Response) {
     // Generic error
     return res.status(500).json({
       error: 'Registration failed',
-      message: err.message || 'An error occurred during registration. Please try again.',
+      message: 'An error occurred during registration. Please try again.',
       code: 'REGISTRATION_ERROR'
     })
   }
@@ -190,6 +310,9 @@ export async function loginWithCookie(req: Request, res: Response) {
     })
   }
 
+  const throttle = { account: normalizeEmail(email), ip: getClientIp(req) }
+  await assertNotThrottled(getDB(), 'login', throttle)
+
   try {
     const signInUrl = `https://identitytoolkit.googleapis.com/v1/accounts:signInWithPassword?key=${apiKey}`
     const resp = await axios.post(signInUrl, { email, password, returnSecureToken: true })
@@ -201,38 +324,24 @@ export async function loginWithCookie(req: Request, res: Response) {
 
     // ensure user in DB (upsert)
     try {
-      await getUsersCollection().updateOne(
-        { firebaseUid: uid },
-        {
-          $set: {
-            firebaseUid: uid,
-            email,
-            displayName: decoded.name || '',
-            phoneNumber: decoded.phone_number || '',
-            photoURL: decoded.picture || '',
-            updatedAt: new Date()
-          },
-          $setOnInsert: {
-            role: 'user',
-            status: 'active',
-            termsAccepted: true,
-            createdAt: new Date()
-          }
-        },
-        { upsert: true }
-      )
+      await upsertUserProfile({
+        firebaseUid: uid,
+        email: decoded.email || email,
+        displayName: decoded.name || '',
+        phoneNumber: decoded.phone_number || '',
+        photoURL: decoded.picture || '',
+        provider: 'password'
+      })
     } catch (dbErr) {
       console.error('Failed to update user in MongoDB on login:', dbErr)
       // Continue anyway - authentication succeeded
     }
 
-    const token = signSessionToken(uid)
-    res.cookie('session', token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 7 * 24 * 60 * 60 * 1000,
-    })
+    // The password was right, so the failures so far no longer count
+    await clearAuthAttempts(getDB(), 'login', throttle.account)
+
+    const challenge = await beginSignIn(req, res, uid)
+    if (challenge) return res.json({ success: true, uid, ...challenge })
 
     return res.json({
       success: true,
@@ -241,6 +350,7 @@ export async function loginWithCookie(req: Request, res: Response) {
       message: 'Login successful'
     })
   } catch (err: any) {
+    if (err instanceof AppError) throw err
     console.error('Login error:', err)
 
     // Handle Axios errors from Firebase REST API
@@ -250,6 +360,7 @@ export async function loginWithCookie(req: Request, res: Response) {
       if (errorData?.message === 'INVALID_LOGIN_CREDENTIALS' ||
           errorData?.message === 'EMAIL_NOT_FOUND' ||
           errorData?.message === 'INVALID_PASSWORD') {
+        await recordFailedLogin(throttle)
         return res.status(401).json({
           error: 'Invalid credentials',
           message: 'The email or password you entered is incorrect',
@@ -277,7 +388,7 @@ export async function loginWithCookie(req: Request, res: Response) {
     // Generic error
     return res.status(500).json({
       error: 'Login failed',
-      message: err.message || 'An error occurred during login. Please try again.',
+      message: 'An error occurred during login. Please try again.',
       code: 'LOGIN_ERROR'
     })
   }
@@ -314,6 +425,7 @@ export async function googleLogin(req: Request, res: Response) {
         displayName: userRecord.displayName || decoded.name || '',
         phoneNumber: userRecord.phoneNumber || decoded.phone_number || '',
         photoURL: userRecord.photoURL || decoded.picture || '',
+        provider: 'google.com'
       })
     } catch (dbErr) {
       console.error('Failed to upsert user to MongoDB on Google login:', dbErr)
@@ -321,13 +433,8 @@ export async function googleLogin(req: Request, res: Response) {
     }
 
     // Create session token and set cookie
-    const token = signSessionToken(uid)
-    res.cookie('session', token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 7 * 24 * 60 * 60 * 1000,
-    })
+    const challenge = await beginSignIn(req, res, uid)
+    if (challenge) return res.json({ success: true, uid, ...challenge })
 
     return res.json({
       success: true,
@@ -338,6 +445,7 @@ export async function googleLogin(req: Request, res: Response) {
       message: 'Google login successful'
     })
   } catch (err: any) {
+    if (err instanceof AppError) throw err
     console.error('Google login error:', err)
 
     if (err.code === 'auth/id-token-expired') {
@@ -366,7 +474,7 @@ export async function googleLogin(req: Request, res: Response) {
 
     return res.status(500).json({
       error: 'Google login failed',
-      message: err.message || 'An error occurred during Google login. Please try again.',
+      message: 'An error occurred during Google login. Please try again.',
       code: 'GOOGLE_LOGIN_ERROR'
     })
   }
@@ -404,10 +512,11 @@ export async function googleRegister(req: Request, res: Response) {
         // Create new user with role
         await getUsersCollection().insertOne({
           firebaseUid: uid,
-          email: userRecord.email || decoded.email || '',
+          email: normalizeEmail(userRecord.email || decoded.email || ''),
           displayName: userRecord.displayName || decoded.name || '',
           phoneNumber: userRecord.phoneNumber || decoded.phone_number || '',
           photoURL: userRecord.photoURL || decoded.picture || '',
+          provider: 'google.com',
           role: 'user', // Default role
           status: 'active',
           termsAccepted: true,
@@ -420,7 +529,7 @@ export async function googleRegister(req: Request, res: Response) {
           { firebaseUid: uid },
           {
             $set: {
-              email: userRecord.email || decoded.email || '',
+              email: normalizeEmail(userRecord.email || decoded.email || ''),
               displayName: userRecord.displayName || decoded.name || '',
               photoURL: userRecord.photoURL || decoded.picture || '',
               updatedAt: new Date()
@@ -434,13 +543,8 @@ export async function googleRegister(req: Request, res: Response) {
     }
 
     // Create session token and set cookie
-    const token = signSessionToken(uid)
-    res.cookie('session', token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 7 * 24 * 60 * 60 * 1000,
-    })
+    const challenge = await beginSignIn(req, res, uid)
+    if (challenge) return res.json({ success: true, uid, ...challenge })
 
     return res.status(existingUser ? 200 : 201).json({
       success: true,
@@ -453,6 +557,7 @@ export async function googleRegister(req: Request, res: Response) {
       message: existingUser ? 'Welcome back!' : 'Account created successfully'
     })
   } catch (err: any) {
+    if (err instanceof AppError) throw err
     console.error('Google register error:', err)
 
     if (err.code === 'auth/id-token-expired') {
@@ -473,7 +578,7 @@ export async function googleRegister(req: Request, res: Response) {
 
     return res.status(500).json({
       error: 'Google registration failed',
-      message: err.message || 'An error occurred during Google registration. Please try again.',
+      message: 'An error occurred during Google registration. Please try again.',
       code: 'GOOGLE_REGISTER_ERROR'
     })
   }
@@ -483,11 +588,97 @@ export async function googleRegister(req: Request, res: Response) {
  * POST /api/logout
  * Clear session cookie
  */
-export async function logout(_req: Request, res: Response) {
-  res.clearCookie('session')
+export async function logout(req: Request, res: Response) {
+  const sessionUser = (req as any).sessionUser
+  const refreshToken = req.cookies?.[REFRESH_COOKIE]
+
+  if (sessionUser?.sessionId) {
+    await revokeSession(getDB(), sessionUser.uid, sessionUser.sessionId)
+  } else if (refreshToken) {
+    // The access token may already have expired; the refresh token still identifies the session
+    const session = await findSessionByRefreshToken(getDB(), refreshToken)
+    if (session) await revokeSession(getDB(), session.uid, session._id!.toHexString())
+  }
+
+  clearSessionCookies(res)
   return res.json({ ok: true })
 }
 
+/**
+ * POST /api/auth/refresh
+ * Exchange the refresh cookie for a new access cookie and a new refresh cookie
+ */
+export async function refreshSession(req: Request, res: Response) {
+  const refreshToken = req.cookies?.[REFRESH_COOKIE]
+  if (!refreshToken) throw new UnauthorizedError('Refresh token missing', 'INVALID_REFRESH_TOKEN')
+
+  let issued: IssuedSession
+  try {
+    issued = await rotateRefreshToken(getDB(), refreshToken, req)
+  } catch (err) {
+    clearSessionCookies(res)
+    throw err
+  }
+
+  // Normally revoked on suspension already; covers sessions that slipped through
+  const user = await getUsersCollection().findOne({ firebaseUid: issued.session.uid }, { projection: { status: 1 } })
+  if (user?.status === 'suspended') {
+    await revokeAllSessions(getDB(), issued.session.uid)
+    clearSessionCookies(res)
+    assertNotSuspended(user)
+  }
+
+  setSessionCookies(res, issued)
+  return res.json({
+    success: true,
+    uid: issued.session.uid,
+    expiresIn: ACCESS_TOKEN_TTL_MINUTES * 60
+  })
+}
+
+/**
+ * GET /api/auth/sessions
+ * Devices currently signed in to the caller's account
+ */
+export async function getSessions(req: Request, res: Response) {
+  const uid = (req as any).user?.uid
+  if (!uid) throw new UnauthorizedError()
+
+  const currentId = (req as any).sessionUser?.sessionId
+  const sessions = await listSessions(getDB(), uid)
+
+  return res.json({
+    success: true,
+    data: sessions.map((session) => ({
+      id: session._id!.toHexString(),
+      userAgent: session.userAgent,
+      ip: session.ip,
+      createdAt: session.createdAt,
+      lastSeenAt: session.lastSeenAt,
+      current: session._id!.toHexString() === currentId
+    }))
+  })
+}
+
+/**
+ * DELETE /api/auth/sessions/:id
+ * Sign one of the caller's devices out
+ */
+export async function deleteSession(req: Request, res: Response) {
+  const uid = (req as any).user?.uid
+  if (!uid) throw new UnauthorizedError()
+
+  const id = req.params.id as string
+  const revoked = await revokeSession(getDB(), uid, id)
+  if (!revoked) throw new NotFoundError('Session not found')
+
+  if (id === (req as any).sessionUser?.sessionId) {
+    clearSessionCookies(res)
+  }
+
+  return res.json({ success: true, message: 'Session revoked' })
+}
+
 /**
  * GET /api/profile
  * Get current user profile from Firebase token (accepts Authorization header)
@@ -496,32 +687,28 @@ export async function getProfile(req: Request, res: Response) {
   const firebaseUser = (req as any).firebaseUser
   if (!firebaseUser) return res.status(401).json({ error: 'Unauthorized' })
 
-  try {
-    // Try to get user from MongoDB
-    const user = await getUsersCollection().findOne({ firebaseUid: firebaseUser.uid })
+  // Try to get user from MongoDB
+  const user = await getUsersCollection().findOne({ firebaseUid: firebaseUser.uid })
 
-    if (!user) {
-      // User not in DB yet, return Firebase data only
-      return res.json({
-        uid: firebaseUser.uid,
-        email: firebaseUser.email,
-        displayName: firebaseUser.name || '',
-        photoURL: firebaseUser.picture || '',
-      })
-    }
-
-    // Return full profile from MongoDB
+  if (!user) {
+    // User not in DB yet, return Firebase data only
     return res.json({
-      uid: user.firebaseUid,
-      email: user.email,
-      displayName: user.displayName,
-      phoneNumber: user.phoneNumber,
-      photoURL: user.photoURL,
-      createdAt: user.createdAt,
+      uid: firebaseUser.uid,
+      email: firebaseUser.email,
+      displayName: firebaseUser.name || '',
+      photoURL: firebaseUser.picture || '',
     })
-  } catch (err) {
-    return res.status(500).json({ error: (err as Error).message })
   }
+
+  // Return full profile from MongoDB
+  return res.json({
+    uid: user.firebaseUid,
+    email: user.email,
+    displayName: user.displayName,
+    phoneNumber: user.phoneNumber,
+    photoURL: user.photoURL,
+    createdAt: user.createdAt,
+  })
 }
 
 /**
@@ -538,30 +725,66 @@ export async function getMe(req: Request, res: Response) {
     return res.status(401).json({ error: 'Unauthorized - No session or token provided' })
   }
 
-  try {
-    const user = await getUsersCollection().findOne({ firebaseUid: uid })
-
-    if (!user) {
-      // User not in DB yet
-      return res.json({
-        uid,
-        email: firebaseUser?.email || '',
-        displayName: firebaseUser?.name || '',
-        photoURL: firebaseUser?.picture || '',
-      })
-    }
+  const user = await getUsersCollection().findOne({ firebaseUid: uid })
 
+  if (!user) {
+    // User not in DB yet
     return res.json({
-      uid: user.firebaseUid,
-      email: user.email,
-      displayName: user.displayName,
-      phoneNumber: user.phoneNumber,
-      photoURL: user.photoURL,
-      createdAt: user.createdAt,
+      uid,
+      email: firebaseUser?.email || '',
+      displayName: firebaseUser?.name || '',
+      photoURL: firebaseUser?.picture || '',
     })
+  }
+
+  return res.json({
+    uid: user.firebaseUid,
+    email: user.email,
+    displayName: user.displayName,
+    phoneNumber: user.phoneNumber,
+    photoURL: user.photoURL,
+    emailVerified: isEmailVerified(user),
+    createdAt: user.createdAt,
+  })
+}
+
+/**
+ * POST /api/auth/verify-email
+ * Confirm the email address with the token from the verification link
+ */
+export async function verifyEmail(req: Request, res: Response) {
+  const user = await verifyEmailToken(getDB(), req.body.token)
+
+  // Keep Firebase in step so clients reading the ID token see the same thing
+  try {
+    await auth.updateUser(user.firebaseUid, { emailVerified: true })
   } catch (err) {
-    return res.status(500).json({ error: (err as Error).message })
+    console.error('Failed to mark email verified in Firebase:', err)
+  }
+
+  return res.json({ success: true, emailVerified: true, message: 'Email address verified' })
+}
+
+/**
+ * POST /api/auth/resend-verification
+ * Send a new verification link to the signed-in user
+ */
+export async function resendVerificationEmail(req: Request, res: Response) {
+  const uid = (req as any).user?.uid
+  if (!uid) throw new UnauthorizedError()
+
+  const user = await getUsersCollection().findOne({ firebaseUid: uid })
+  if (!user) throw new NotFoundError('User not found')
+  if (isEmailVerified(user)) {
+    throw new ConflictError('Email address is already verified', 'EMAIL_ALREADY_VERIFIED')
   }
+
+  const throttle = { account: uid, ip: getClientIp(req) }
+  await assertNotThrottled(getDB(), 'verify-email', throttle)
+  await recordAuthAttempt(getDB(), 'verify-email', throttle)
+
+  await sendVerificationEmail(uid, user.email, user.displayName)
+  return res.json({ success: true, message: 'Verification email sent' })
 }
 
 /**
@@ -575,6 +798,11 @@ export async function forgotPassword(req: Request, res: Response) {
     return res.status(400).json({ error: 'Email is required' })
   }
 
+  // Every request counts, whether or not the account exists
+  const throttle = { account: normalizeEmail(email), ip: getClientIp(req) }
+  await assertNotThrottled(getDB(), 'forgot-password', throttle)
+  await recordAuthAttempt(getDB(), 'forgot-password', throttle)
+
   try {
     // Check if user exists in Firebase
     let userRecord
@@ -595,7 +823,7 @@ export async function forgotPassword(req: Request, res: Response) {
     const expiresAt = new Date(Date.now() + 60 * 60 * 1000) // 1 hour
 
     await getPasswordResetTokensCollection().insertOne({
-      email,
+      email: normalizeEmail(email),
       token: hashedToken,
       expiresAt,
       used: false,
@@ -636,19 +864,23 @@ export async function resetPassword(req: Request, res: Response) {
     return res.status(400).json({ error: 'Password must be at least 6 characters' })
   }
 
+  const throttle = { account: normalizeEmail(email), ip: getClientIp(req) }
+  await assertNotThrottled(getDB(), 'reset-password', throttle)
+
   try {
     // Hash the token to compare with database
     const hashedToken = crypto.createHash('sha256').update(token).digest('hex')
 
     // Find valid token
     const resetTokenDoc = await getPasswordResetTokensCollection().findOne({
-      email,
+      email: normalizeEmail(email),
       token: hashedToken,
       used: false,
       expiresAt: { $gt: new Date() },
     })
 
     if (!resetTokenDoc) {
+      await recordAuthAttempt(getDB(), 'reset-password', throttle)
       return res.status(400).json({ error: 'Invalid or expired reset token' })
     }
 
@@ -671,6 +903,13 @@ export async function resetPassword(req: Request, res: Response) {
       { $set: { used: true } }
     )
 
+    // Whoever knew the old password may still be signed in somewhere
+    await revokeAllSessions(getDB(), userRecord.uid)
+    await auth.revokeRefreshTokens(userRecord.uid)
+    await clearAuthAttempts(getDB(), 'reset-password', throttle.account)
+    // A fresh password also lifts a sign-in lockout
+    await clearAuthAttempts(getDB(), 'login', throttle.account)
+
     // Get user display name
     const mongoUser = await getUsersCollection().findOne({ firebaseUid: userRecord.uid })
     const displayName = mongoUser?.displayName || userRecord.displayName
@@ -689,3 +928,88 @@ export async function resetPassword(req: Request, res: Response) {
     return res.status(500).json({ error: 'Failed to reset password' })
   }
 }
+
+/**
+ * POST /api/auth/2fa/setup
+ * Start TOTP enrollment; returns the secret and an otpauth:// URL for a QR code
+ */
+export async function setupTwoFactor(req: Request, res: Response) {
+  const uid = (req as any).user?.uid
+  if (!uid) throw new UnauthorizedError()
+
+  const { secret, otpauthUrl } = await beginTwoFactorSetup(getDB(), uid)
+  return res.json({ success: true, data: { secret, otpauthUrl } })
+}
+
+/**
+ * POST /api/auth/2fa/verify
+ * Confirm enrollment with a first code; returns the recovery codes once
+ */
+export async function verifyTwoFactorSetup(req: Request, res: Response) {
+  const uid = (req as any).user?.uid
+  if (!uid) throw new UnauthorizedError()
+
+  const recoveryCodes = await confirmTwoFactorSetup(getDB(), uid, req.body.code)
+
+  // The code just proved possession, so this sign-in need not be repeated
+  const sessionId = (req as any).sessionUser?.sessionId
+  if (sessionId) await markSessionTwoFactorVerified(getDB(), sessionId)
+
+  return res.json({
+    success: true,
+    message: 'Two-factor authentication enabled. Store these recovery codes somewhere safe; they are shown only once.',
+    data: { recoveryCodes }
+  })
+}
+
+/**
+ * POST /api/auth/2fa/recovery-codes
+ * Replace the recovery codes (requires a current code)
+ */
+export async function regenerateTwoFactorRecoveryCodes(req: Request, res: Response) {
+  const uid = (req as any).user?.uid
+  if (!uid) throw new UnauthorizedError()
+
+  const recoveryCodes = await regenerateRecoveryCodes(getDB(), uid, req.body.code)
+  return res.json({ success: true, data: { recoveryCodes } })
+}
+
+/**
+ * POST /api/auth/2fa/disable
+ * Turn two-factor authentication off (requires a current code or a recovery code)
+ */
+export async function disableTwoFactorAuth(req: Request, res: Response) {
+  const uid = (req as any).user?.uid
+  if (!uid) throw new UnauthorizedError()
+
+  await disableTwoFactor(getDB(), uid, req.body.code)
+  return res.json({ success: true, message: 'Two-factor authentication disabled' })
+}
+
+/**
+ * POST /api/auth/2fa/login
+ * Second sign-in step: exchange the challenge from login and a code for the session cookies
+ */
+export async function loginWithTwoFactor(req: Request, res: Response) {
+  const { challengeToken, code } = req.body
+  const uid = verifyTwoFactorChallenge(challengeToken)
+
+  const throttle = { account: uid, ip: getClientIp(req) }
+  await assertNotThrottled(getDB(), 'two-factor', throttle)
+
+  const user = await getUsersCollection().findOne({ firebaseUid: uid })
+  if (!user || !(await verifySecondFactor(getDB(), user, code))) {
+    await recordAuthAttempt(getDB(), 'two-factor', throttle)
+    throw new UnauthorizedError('Invalid verification code', 'INVALID_TWO_FACTOR_CODE')
+  }
+
+  await clearAuthAttempts(getDB(), 'two-factor', uid)
+  await startSession(req, res, uid, { twoFactorVerified: true })
+
+  return res.json({
+    success: true,
+    uid,
+    email: user.email,
+    message: 'Login successful'
+  })
+}
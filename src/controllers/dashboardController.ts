@@ -1,5 +1,23 @@
 import { Request, Response } from "express";
 import { getDB } from "../config/db";
+import { DEFAULT_REPORTING_CURRENCY, normalizeCurrency, sumInCurrency } from "../models/currency/currency.engine";
+
+// Orders that were paid, whatever has been refunded since. Revenue is counted net of
+// the refund ledger, the same way getOrderStats does.
+const REVENUE_PAYMENT_STATUSES = ["paid", "partially_refunded", "refunded"];
+// Orders that still carry some revenue
+const PAID_PAYMENT_STATUSES = ["paid", "partially_refunded"];
+
+const netRevenueByCurrency = [
+  {
+    $group: {
+      _id: "$pricing.currency",
+      gross: { $sum: "$pricing.grandTotal" },
+      refunded: { $sum: { $ifNull: ["$payment.refundedAmount", 0] } }
+    }
+  },
+  { $addFields: { total: { $subtract: ["$gross", "$refunded"] } } }
+];
 
 export const getDashboardStats = async (req: Request, res: Response) => {
   try {
@@ -9,15 +27,31 @@ export const getDashboardStats = async (req: Request, res: Response) => {
     const productsCol = db.collection("products");
     const pricingCol = db.collection("pricing");
 
+    // Orders are stored in their own currency; totals are converted into this one
+    const reportingCurrency = req.query.currency
+      ? normalizeCurrency(req.query.currency as string)
+      : DEFAULT_REPORTING_CURRENCY;
+    const missingRates = new Set<string>();
+
+    const toReportingCurrency = async (groups: any[]) => {
+      const result = await sumInCurrency(
+        db,
+        groups.map((group) => ({ currency: group._id, total: group.total })),
+        reportingCurrency
+      );
+      result.missingRates.forEach((currency) => missingRates.add(currency));
+      return result.total;
+    };
+
     const monthNames = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
 
-    // Total revenue from paid orders
+    // Total revenue from paid orders, net of refunds
     const revenueAgg = await ordersCol.aggregate([
-      { $match: { "payment.status": "paid" } },
-      { $group: { _id: null, total: { $sum: "$pricing.grandTotal" } } }
+      { $match: { "payment.status": { $in: REVENUE_PAYMENT_STATUSES } } },
+      ...netRevenueByCurrency
     ]).toArray();
 
-    const totalRevenue = revenueAgg[0]?.total || 0;
+    const totalRevenue = await toReportingCurrency(revenueAgg);
 
     // Get basic counts
     const [
@@ -29,7 +63,7 @@ export const getDashboardStats = async (req: Request, res: Response) => {
       ordersCol.countDocuments(),
       usersCol.countDocuments(),
       productsCol.countDocuments(),
-      ordersCol.countDocuments({ "payment.status": "paid" })
+      ordersCol.countDocuments({ "payment.status": { $in: PAID_PAYMENT_STATUSES } })
     ]);
 
     // Calculate monthly growth rate
@@ -45,26 +79,26 @@ export const getDashboardStats = async (req: Request, res: Response) => {
       ordersCol.aggregate([
         {
           $match: {
-            "payment.status": "paid",
+            "payment.status": { $in: REVENUE_PAYMENT_STATUSES },
             createdAt: { $gte: lastMonthStart, $lte: lastMonthEnd }
           }
         },
-        { $group: { _id: null, total: { $sum: "$pricing.grandTotal" } } }
+        ...netRevenueByCurrency
       ]).toArray(),
 
       ordersCol.aggregate([
         {
           $match: {
-            "payment.status": "paid",
+            "payment.status": { $in: REVENUE_PAYMENT_STATUSES },
             createdAt: { $gte: prevMonthStart, $lte: prevMonthEnd }
           }
         },
-        { $group: { _id: null, total: { $sum: "$pricing.grandTotal" } } }
+        ...netRevenueByCurrency
       ]).toArray()
     ]);
 
-    const lastMonthTotal = lastMonthAgg[0]?.total || 0;
-    const prevMonthTotal = prevMonthAgg[0]?.total || 0;
+    const lastMonthTotal = await toReportingCurrency(lastMonthAgg);
+    const prevMonthTotal = await toReportingCurrency(prevMonthAgg);
 
     const growthRate =
       prevMonthTotal > 0
@@ -86,20 +120,20 @@ export const getDashboardStats = async (req: Request, res: Response) => {
       const agg = await ordersCol.aggregate([
         {
           $match: {
-            "payment.status": "paid",
+            "payment.status": { $in: REVENUE_PAYMENT_STATUSES },
             createdAt: { $gte: start, $lte: end }
           }
         },
-        { $group: { _id: null, total: { $sum: "$pricing.grandTotal" } } }
+        ...netRevenueByCurrency
       ]).toArray();
 
       revenueOverview.months.push(monthNames[d.getMonth()]);
-      revenueOverview.values.push(agg[0]?.total || 0);
+      revenueOverview.values.push(await toReportingCurrency(agg));
     }
 
     // Product distribution by category
     const itemsAgg = await ordersCol.aggregate([
-      { $match: { "payment.status": "paid" } },
+      { $match: { "payment.status": { $in: PAID_PAYMENT_STATUSES } } },
       { $unwind: "$items" },
       {
         $group: {
@@ -173,6 +207,7 @@ export const getDashboardStats = async (req: Request, res: Response) => {
       success: true,
       stats: {
         totalRevenue: Math.round(totalRevenue),
+        currency: reportingCurrency,
         totalOrders,
         totalUsers,
         activeProducts,
@@ -185,7 +220,10 @@ export const getDashboardStats = async (req: Request, res: Response) => {
         count: paidOrdersCount,
         status: "paid"
       },
-      pricingPlans: pricingCount
+      pricingPlans: pricingCount,
+      reportingCurrency,
+      // Currencies left out of the totals because no exchange rate is configured
+      missingExchangeRates: Array.from(missingRates)
     });
 
   } catch (error) {
@@ -1,12 +1,20 @@
 import { Request, Response } from 'express'
-import { getProductsCollection } from '../db'
 import { ObjectId } from 'mongodb'
+import { getDB } from '../config/db'
+import { StoreProduct } from '../models/products/product.model'
+import { BadRequestError } from '../utils/errors'
+
+const getProductsCollection = () => getDB().collection<StoreProduct>('products')
 
 /**
- * Check if request is authenticated
+ * Product ID from the route, rejected with a 400 when it is not a valid ObjectId
  */
-function isAuthenticated(req: Request) {
-  return Boolean((req as any).firebaseUser || (req as any).sessionUser)
+function getProductId(req: Request): ObjectId {
+  const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+  if (!id || !ObjectId.isValid(id)) {
+    throw new BadRequestError('Invalid product ID', 'INVALID_PRODUCT_ID')
+  }
+  return new ObjectId(id)
 }
 
 /**
@@ -23,38 +31,34 @@ function getUserId(req: Request): string | null {
  * Get all products (public)
  */
 export async function listProducts(req: Request, res: Response) {
-  try {
-    const { category, minPrice, maxPrice, search } = req.query
-
-    // Build query
-    const query: any = {}
-
-    if (category) {
-      query.category = category
-    }
-
-    if (minPrice || maxPrice) {
-      query.price = {}
-      if (minPrice) query.price.$gte = Number(minPrice)
-      if (maxPrice) query.price.$lte = Number(maxPrice)
-    }
-
-    if (search) {
-      query.$or = [
-        { name: { $regex: search, $options: 'i' } },
-        { description: { $regex: search, $options: 'i' } },
-      ]
-    }
-
-    const products = await getProductsCollection()
-      .find(query)
-      .sort({ createdAt: -1 })
-      .toArray()
-
-    return res.json(products)
-  } catch (err) {
-    return res.status(500).json({ error: (err as Error).message })
+  const { category, minPrice, maxPrice, search } = req.query
+
+  // Build query
+  const query: any = {}
+
+  if (category) {
+    query.category = category
   }
+
+  if (minPrice || maxPrice) {
+    query.price = {}
+    if (minPrice) query.price.$gte = Number(minPrice)
+    if (maxPrice) query.price.$lte = Number(maxPrice)
+  }
+
+  if (search) {
+    query.$or = [
+      { name: { $regex: search, $options: 'i' } },
+      { description: { $regex: search, $options: 'i' } },
+    ]
+  }
+
+  const products = await getProductsCollection()
+    .find(query)
+    .sort({ createdAt: -1 })
+    .toArray()
+
+  return res.json(products)
 }
 
 /**
@@ -62,29 +66,21 @@ export async function listProducts(req: Request, res: Response) {
  * Get single product by ID (public)
  */
 export async function getProduct(req: Request, res: Response) {
-  try {
-    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
-    const product = await getProductsCollection().findOne({ _id: new ObjectId(id) })
-
-    if (!product) {
-      return res.status(404).json({ error: 'Product not found' })
-    }
+  const id = getProductId(req)
+  const product = await getProductsCollection().findOne({ _id: id })
 
-    return res.json(product)
-  } catch (err) {
-    return res.status(500).json({ error: (err as Error).message })
+  if (!product) {
+    return res.status(404).json({ error: 'Product not found' })
   }
+
+  return res.json(product)
 }
 
 /**
  * POST /api/products
- * Create new product (authenticated users only)
+ * Create new product (authenticated users, see productRoutes)
  */
 export async function createProduct(req: Request, res: Response) {
-  if (!isAuthenticated(req)) {
-    return res.status(401).json({ error: 'Unauthorized' })
-  }
-
   const userId = getUserId(req)
   if (!userId) {
     return res.status(401).json({ error: 'Unauthorized' })
@@ -96,117 +92,67 @@ export async function createProduct(req: Request, res: Response) {
     return res.status(400).json({ error: 'name, description, price, and category are required' })
   }
 
-  try {
-    const result = await getProductsCollection().insertOne({
-      name,
-      description,
-      price: Number(price),
-      category,
-      stock: Number(stock) || 0,
-      imageUrl: imageUrl || '',
-      createdBy: userId,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    })
-
-    const product = await getProductsCollection().findOne({ _id: result.insertedId })
-    return res.status(201).json(product)
-  } catch (err) {
-    return res.status(500).json({ error: (err as Error).message })
-  }
+  const result = await getProductsCollection().insertOne({
+    name,
+    description,
+    price: Number(price),
+    category,
+    stock: Number(stock) || 0,
+    imageUrl: imageUrl || '',
+    createdBy: userId,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  })
+
+  const product = await getProductsCollection().findOne({ _id: result.insertedId })
+  return res.status(201).json(product)
 }
 
 /**
  * PUT /api/products/:id
- * Update product (owner or admin only)
+ * Update product (catalog:manage)
  */
 export async function updateProduct(req: Request, res: Response) {
-  if (!isAuthenticated(req)) {
-    return res.status(401).json({ error: 'Unauthorized' })
-  }
+  const id = getProductId(req)
+  const product = await getProductsCollection().findOne({ _id: id })
 
-  const userId = getUserId(req)
-  if (!userId) {
-    return res.status(401).json({ error: 'Unauthorized' })
+  if (!product) {
+    return res.status(404).json({ error: 'Product not found' })
   }
 
-  try {
-    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
-    const product = await getProductsCollection().findOne({ _id: new ObjectId(id) })
-
-    if (!product) {
-      return res.status(404).json({ error: 'Product not found' })
-    }
-
-    // Check if user owns the product
-    if (product.createdBy !== userId) {
-      const firebaseUser = (req as any).firebaseUser
-      const isAdmin = firebaseUser && firebaseUser.admin === true
-
-      if (!isAdmin) {
-        return res.status(403).json({ error: 'Forbidden - You can only edit your own products' })
-      }
-    }
-
-    const { name, description, price, category, stock, imageUrl } = req.body
-
-    // Build update object
-    const updateDoc: any = { updatedAt: new Date() }
-    if (name !== undefined) updateDoc.name = name
-    if (description !== undefined) updateDoc.description = description
-    if (price !== undefined) updateDoc.price = Number(price)
-    if (category !== undefined) updateDoc.category = category
-    if (stock !== undefined) updateDoc.stock = Number(stock)
-    if (imageUrl !== undefined) updateDoc.imageUrl = imageUrl
-
-    await getProductsCollection().updateOne(
-      { _id: new ObjectId(id) },
-      { $set: updateDoc }
-    )
-
-    const updatedProduct = await getProductsCollection().findOne({ _id: new ObjectId(id) })
-    return res.json(updatedProduct)
-  } catch (err) {
-    return res.status(500).json({ error: (err as Error).message })
-  }
+  const { name, description, price, category, stock, imageUrl } = req.body
+
+  // Build update object
+  const updateDoc: any = { updatedAt: new Date() }
+  if (name !== undefined) updateDoc.name = name
+  if (description !== undefined) updateDoc.description = description
+  if (price !== undefined) updateDoc.price = Number(price)
+  if (category !== undefined) updateDoc.category = category
+  if (stock !== undefined) updateDoc.stock = Number(stock)
+  if (imageUrl !== undefined) updateDoc.imageUrl = imageUrl
+
+  await getProductsCollection().updateOne(
+    { _id: id },
+    { $set: updateDoc }
+  )
+
+  const updatedProduct = await getProductsCollection().findOne({ _id: id })
+  return res.json(updatedProduct)
 }
 
 /**
  * DELETE /api/products/:id
- * Delete product (owner or admin only)
+ * Delete product (catalog:manage)
  */
 export async function deleteProduct(req: Request, res: Response) {
-  if (!isAuthenticated(req)) {
-    return res.status(401).json({ error: 'Unauthorized' })
-  }
+  const id = getProductId(req)
+  const product = await getProductsCollection().findOne({ _id: id })
 
-  const userId = getUserId(req)
-  if (!userId) {
-    return res.status(401).json({ error: 'Unauthorized' })
+  if (!product) {
+    return res.status(404).json({ error: 'Product not found' })
   }
 
-  try {
-    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
-    const product = await getProductsCollection().findOne({ _id: new ObjectId(id) })
-
-    if (!product) {
-      return res.status(404).json({ error: 'Product not found' })
-    }
+  await getProductsCollection().deleteOne({ _id: id })
 
-    // Check if user owns the product
-    if (product.createdBy !== userId) {
-      const firebaseUser = (req as any).firebaseUser
-      const isAdmin = firebaseUser && firebaseUser.admin === true
-
-      if (!isAdmin) {
-        return res.status(403).json({ error: 'Forbidden - You can only delete your own products' })
-      }
-    }
-
-    await getProductsCollection().deleteOne({ _id: new ObjectId(id) })
-
-    return res.json({ message: 'Product deleted successfully' })
-  } catch (err) {
-    return res.status(500).json({ error: (err as Error).message })
-  }
+  return res.json({ message: 'Product deleted successfully' })
 }
@@ -1,15 +1,28 @@
-import nodemailer from 'nodemailer'
+import { getDB } from './config/db'
+import { renderEmailTemplate } from './models/emailTemplates/emailTemplate.engine'
+import { enqueueEmail } from './models/emailOutbox/emailOutbox.engine'
 
-// Create reusable transporter
-const transporter = nodemailer.createTransport({
-  host: process.env.SMTP_HOST || 'smtp.gmail.com',
-  port: Number(process.env.SMTP_PORT) || 587,
-  secure: false, // true for 465, false for other ports
-  auth: {
-    user: process.env.SMTP_USER,
-    pass: process.env.SMTP_PASS,
-  },
-})
+// Branding shared by every email
+export const EMAIL_BRAND = {
+  companyName: process.env.SMTP_FROM_NAME || 'Your App',
+  accentColor: process.env.EMAIL_ACCENT_COLOR || process.env.INVOICE_ACCENT_COLOR || '#4CAF50',
+  footer: 'This is an automated message, please do not reply to this email.',
+}
+
+/**
+ * Render a stored email template with the shared branding and queue it in the outbox.
+ * Delivery and retries happen in the outbox worker, so SMTP problems never fail the caller.
+ */
+export async function queueTemplatedEmail(
+  key: string,
+  to: string | string[],
+  data: Record<string, any> = {},
+  options: { replyTo?: string } = {}
+) {
+  const db = getDB()
+  const rendered = await renderEmailTemplate(db, key, { brand: EMAIL_BRAND, ...data })
+  return enqueueEmail(db, { to, ...rendered, replyTo: options.replyTo }, key)
+}
 
 /**
  * Send password reset email
@@ -19,55 +32,12 @@ export async function sendPasswordResetEmail(
   resetLink: string,
   userName?: string
 ) {
-  const mailOptions = {
-    from: `"${process.env.SMTP_FROM_NAME || 'Your App'}" <${process.env.SMTP_FROM_EMAIL || process.env.SMTP_USER}>`,
-    to,
-    subject: 'Password Reset Request',
-    html: `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <style>
-          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-          .header { background: #4CAF50; color: white; padding: 20px; text-align: center; border-radius: 5px 5px 0 0; }
-          .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 5px 5px; }
-          .button { display: inline-block; padding: 12px 30px; background: #4CAF50; color: white; text-decoration: none; border-radius: 5px; margin: 20px 0; }
-          .footer { text-align: center; margin-top: 20px; font-size: 12px; color: #666; }
-        </style>
-      </head>
-      <body>
-        <div class="container">
-          <div class="header">
-            <h1>Password Reset Request</h1>
-          </div>
-          <div class="content">
-            <p>Hello ${userName || 'there'},</p>
-            <p>We received a request to reset your password. Click the button below to create a new password:</p>
-            <div style="text-align: center;">
-              <a href="${resetLink}" class="button">Reset Password</a>
-            </div>
-            <p>Or copy and paste this link into your browser:</p>
-            <p style="word-break: break-all; color: #4CAF50;">${resetLink}</p>
-            <p><strong>This link will expire in 1 hour.</strong></p>
-            <p>If you didn't request a password reset, please ignore this email or contact support if you have concerns.</p>
-            <p>Thanks,<br>The Team</p>
-          </div>
-          <div class="footer">
-            <p>This is an automated message, please do not reply to this email.</p>
-          </div>
-        </div>
-      </body>
-      </html>
-    `,
-  }
-
   try {
-    const info = await transporter.sendMail(mailOptions)
-    console.log('Password reset email sent: %s', info.messageId)
-    return { success: true, messageId: info.messageId }
+    const email = await queueTemplatedEmail('password-reset', to, { resetLink, userName: userName || 'there' })
+    console.log('Password reset email queued: %s', email._id)
+    return { success: true, emailId: email._id }
   } catch (error) {
-    console.error('Error sending password reset email:', error)
+    console.error('Error queueing password reset email:', error)
     throw error
   }
 }
@@ -79,49 +49,52 @@ export async function sendPasswordResetConfirmationEmail(
   to: string,
   userName?: string
 ) {
-  const mailOptions = {
-    from: `"${process.env.SMTP_FROM_NAME || 'Your App'}" <${process.env.SMTP_FROM_EMAIL || process.env.SMTP_USER}>`,
-    to,
-    subject: 'Password Successfully Reset',
-    html: `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <style>
-          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-          .header { background: #4CAF50; color: white; padding: 20px; text-align: center; border-radius: 5px 5px 0 0; }
-          .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 5px 5px; }
-          .footer { text-align: center; margin-top: 20px; font-size: 12px; color: #666; }
-        </style>
-      </head>
-      <body>
-        <div class="container">
-          <div class="header">
-            <h1>✓ Password Reset Successful</h1>
-          </div>
-          <div class="content">
-            <p>Hello ${userName || 'there'},</p>
-            <p>Your password has been successfully reset.</p>
-            <p>You can now log in with your new password.</p>
-            <p>If you did not make this change or believe an unauthorized person has accessed your account, please contact support immediately.</p>
-            <p>Thanks,<br>The Team</p>
-          </div>
-          <div class="footer">
-            <p>This is an automated message, please do not reply to this email.</p>
-          </div>
-        </div>
-      </body>
-      </html>
-    `,
+  try {
+    const email = await queueTemplatedEmail('password-reset-confirmation', to, { userName: userName || 'there' })
+    console.log('Password reset confirmation email queued: %s', email._id)
+    return { success: true, emailId: email._id }
+  } catch (error) {
+    console.error('Error queueing confirmation email:', error)
+    throw error
   }
+}
 
+/**
+ * Tell the account owner that failed sign-ins locked their account
+ */
+export async function sendAccountLockedEmail(
+  to: string,
+  details: { userName?: string; lockoutMinutes: number; ip?: string }
+) {
+  try {
+    const email = await queueTemplatedEmail('account-locked', to, {
+      ...details,
+      userName: details.userName || 'there',
+      resetPasswordLink: `${process.env.FRONTEND_URL || 'http://localhost:3000'}/forgot-password`,
+    })
+    console.log('Account locked email queued: %s', email._id)
+    return { success: true, emailId: email._id }
+  } catch (error) {
+    console.error('Error queueing account locked email:', error)
+    throw error
+  }
+}
+
+/**
+ * Send the link that confirms a new account's email address
+ */
+export async function sendEmailVerificationEmail(
+  to: string,
+  verifyLink: string,
+  expiresInHours: number,
+  userName?: string
+) {
   try {
-    const info = await transporter.sendMail(mailOptions)
-    console.log('Password reset confirmation email sent: %s', info.messageId)
-    return { success: true, messageId: info.messageId }
+    const email = await queueTemplatedEmail('email-verification', to, { verifyLink, expiresInHours, userName: userName || 'there' })
+    console.log('Email verification email queued: %s', email._id)
+    return { success: true, emailId: email._id }
   } catch (error) {
-    console.error('Error sending confirmation email:', error)
+    console.error('Error queueing email verification email:', error)
     throw error
   }
 }
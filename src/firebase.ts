@@ -2,6 +2,8 @@ import admin from 'firebase-admin'
 import { Request, Response, NextFunction } from 'express'
 import jwt from 'jsonwebtoken'
 import { validateFirebaseServiceAccount, FirebaseValidationError } from './utils/validateFirebase'
+import { getDB } from './config/db'
+import { ACCESS_TOKEN_TTL_MINUTES, findActiveSession } from './models/auth/session.engine'
 import * as fs from 'fs'
 import * as path from 'path'
 
@@ -73,8 +75,9 @@ if (!admin.apps.length) {
 export const auth = admin.auth()
 export const firestore = admin.firestore()
 
-export function signSessionToken(uid: string) {
-  return jwt.sign({ uid }, JWT_SECRET, { expiresIn: '7d' })
+// Short-lived access token; `sid` points at the server-side session (see models/auth/session.engine.ts)
+export function signSessionToken(uid: string, sessionId: string) {
+  return jwt.sign({ uid, sid: sessionId }, JWT_SECRET, { expiresIn: `${ACCESS_TOKEN_TTL_MINUTES}m` })
 }
 
 // Middleware to verify Firebase ID Token sent in Authorization: Bearer <token>
@@ -96,18 +99,21 @@ export async function verifyIdTokenMiddleware(req: Request, res: Response, next:
   }
 }
 
-// Cookie auth middleware: verifies `session` cookie JWT and attaches `req.sessionUser`
-export function cookieAuthMiddleware(req: Request, _res: Response, next: NextFunction) {
+// Cookie auth middleware: verifies `session` cookie JWT and its server-side session, then attaches `req.sessionUser`
+export async function cookieAuthMiddleware(req: Request, _res: Response, next: NextFunction) {
   const token = (req as any).cookies && (req as any).cookies.session
   if (!token) return next()
   try {
     const decoded = jwt.verify(token, JWT_SECRET) as any
-    ;(req as any).sessionUser = { uid: decoded.uid }
-    return next()
+    // Cookies issued before sessions were stored have no sid and must sign in again
+    const session = decoded.sid ? await findActiveSession(getDB(), decoded.sid, decoded.uid) : null
+    ;(req as any).sessionUser = session
+      ? { uid: decoded.uid, sessionId: decoded.sid, twoFactorVerified: session.twoFactorVerified }
+      : undefined
   } catch (err) {
     ;(req as any).sessionUser = undefined
-    return next()
   }
+  return next()
 }
 
 export default admin
@@ -20,12 +20,30 @@ import express, { Request, Response } from 'express'
 import cors from 'cors'
 import cookieParser from 'cookie-parser'
 import { verifyIdTokenMiddleware, cookieAuthMiddleware } from './firebase'
-import { connectDb } from './db'
 import { connectDB } from './config/db'
 import { registerRoutes } from './routes'
+import { startEmailOutboxWorker } from './models/emailOutbox/emailOutbox.worker'
+import cronRoutes from './models/cron/cron.routes'
+import { startQuoteExpiryWorker } from './models/quotes/quote.worker'
+import { requestId, errorEnvelope, notFoundHandler, errorHandler } from './middlewares/error.middleware'
+import { ServiceUnavailableError } from './utils/errors'
 
 const app = express()
 
+// Proxies in front of the app whose X-Forwarded-For entries are believed, so req.ip is the
+// real client for rate limits and sessions: a hop count, "true", or a list of addresses.
+// Vercel adds exactly one hop; a server reached directly trusts none.
+const parseTrustProxy = (value?: string): boolean | number | string => {
+  if (!value) return process.env.VERCEL ? 1 : false
+  if (value === 'true' || value === 'false') return value === 'true'
+  return /^\d+$/.test(value) ? Number(value) : value
+}
+app.set('trust proxy', parseTrustProxy(process.env.TRUST_PROXY))
+
+// Request IDs and the error envelope come first so even CORS and body parsing failures carry them
+app.use(requestId)
+app.use(errorEnvelope)
+
 // CORS configuration for Next.js client
 app.use(cors({
   origin: ['http://localhost:3000', 'http://localhost:3001'],
@@ -37,9 +55,10 @@ app.use(cors({
     'x-admin-secret',
     'X-Requested-With',
     'Accept',
-    'Origin'
+    'Origin',
+    'X-Request-Id'
   ],
-  exposedHeaders: ['Set-Cookie'],
+  exposedHeaders: ['Set-Cookie', 'X-Request-Id'],
   preflightContinue: false,
   optionsSuccessStatus: 204
 }))
@@ -51,34 +70,36 @@ app.use((req, res, next) => {
   next()
 })
 
-app.use(express.json())
+// Keep the raw body so payment webhooks can verify their signatures
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    (req as Request).rawBody = buf;
+  }
+}))
 app.use(cookieParser())
 
 const PORT = process.env.PORT || 4000
 
-// Initialize database connections
-const initializeDatabases = async () => {
-  try {
-    await connectDb()
-    console.log('MongoDB (Mongoose) connected')
-  } catch (err) {
-    console.error('Failed to connect to MongoDB (Mongoose)', err)
+// Shared by concurrent requests; cleared after a failure so the next request retries
+let databaseReady: Promise<unknown> | null = null
+const initializeDatabase = () => {
+  if (!databaseReady) {
+    databaseReady = connectDB().catch((err) => {
+      databaseReady = null
+      throw err
+    })
   }
+  return databaseReady
+}
 
+// For serverless (Vercel), initialize on first request. Until the database and its
+// indexes are ready every request gets a 503 rather than running without them.
+app.use(async (_req, _res, next) => {
   try {
-    await connectDB()
-    console.log('MongoDB (Native Driver) connected')
+    await initializeDatabase()
   } catch (err) {
-    console.error('Failed to connect to MongoDB (Native Driver)', err)
-  }
-}
-
-// For serverless (Vercel), initialize on first request
-let dbInitialized = false
-app.use(async (req, res, next) => {
-  if (!dbInitialized) {
-    await initializeDatabases()
-    dbInitialized = true
+    console.error('Failed to connect to MongoDB', err)
+    return next(new ServiceUnavailableError('Database is unavailable. Please try again later.', 'DATABASE_UNAVAILABLE'))
   }
   next()
 })
@@ -88,6 +109,10 @@ app.get('/api/health', (_req: Request, res: Response) => {
   res.json({ status: 'ok', timestamp: Date.now() })
 })
 
+// Scheduled jobs authenticate with their own Bearer secret, so they are mounted before
+// the Firebase middleware that would reject it as an ID token
+app.use('/api/cron', cronRoutes)
+
 // Apply Firebase ID token verification middleware
 app.use(verifyIdTokenMiddleware)
 
@@ -102,11 +127,26 @@ app.get('/', (_req: Request, res: Response) => {
   res.send('Express + TypeScript server')
 })
 
-// Start server only in development (not in Vercel)
+// Unmatched routes and errors thrown by any handler end up in one consistent JSON response
+app.use(notFoundHandler)
+app.use(errorHandler)
+
+// Start server only in development (not in Vercel). On Vercel the workers below do not
+// run; the "crons" in vercel.json call /api/cron/* instead (requires CRON_SECRET).
 if (process.env.NODE_ENV !== 'production') {
-  app.listen(Number(PORT), () => {
-    console.log(`Server running on http://localhost:${PORT}`)
-  })
+  // A long-running server should not come up at all without its database and indexes
+  initializeDatabase()
+    .then(() => {
+      app.listen(Number(PORT), () => {
+        console.log(`Server running on http://localhost:${PORT}`)
+        startEmailOutboxWorker()
+        startQuoteExpiryWorker()
+      })
+    })
+    .catch((err) => {
+      console.error('Failed to start: could not initialize MongoDB', err)
+      process.exit(1)
+    })
 }
 
 // Export for Vercel
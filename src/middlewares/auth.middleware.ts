@@ -1,6 +1,12 @@
 import { Request, Response, NextFunction } from "express";
+import { createHash, timingSafeEqual } from "crypto";
 import { getDB } from "../config/db";
-import { ObjectId } from "mongodb";
+import { findUserByIdentifier } from "../models/user/user.store";
+import { getRolePermissions } from "../models/roles/role.engine";
+import { DEFAULT_USER_ROLE, Permission, hasPermission } from "../models/roles/role.permissions";
+import { ADMIN_2FA_REQUIRED, isTwoFactorEnabled } from "../models/auth/twoFactor.engine";
+import { isEmailVerified } from "../models/auth/emailVerification.engine";
+import { ForbiddenError, UnauthorizedError } from "../utils/errors";
 
 // Extend Express Request type to include firebaseUser and sessionUser
 declare global {
@@ -9,6 +15,7 @@ declare global {
       firebaseUser?: any;
       sessionUser?: any;
       user?: any;
+      rawBody?: Buffer;
     }
   }
 }
@@ -26,17 +33,7 @@ function getUser(req: Request): any {
 // Fetch user role from database
 async function getUserRole(userId: string): Promise<string | null> {
   try {
-    const db = getDB();
-    let user = null;
-
-    // Try _id first, then firebaseUid
-    if (ObjectId.isValid(userId)) {
-      user = await db.collection("users").findOne({ _id: new ObjectId(userId) }, { projection: { role: 1 } });
-    }
-    if (!user) {
-      user = await db.collection("users").findOne({ firebaseUid: userId }, { projection: { role: 1 } });
-    }
-
+    const user = await findUserByIdentifier(userId, { projection: { role: 1 } });
     return user?.role || null;
   } catch (error) {
     console.error("Error fetching user role:", error);
@@ -62,25 +59,111 @@ export const optionalToken = (req: Request, res: Response, next: NextFunction) =
   next();
 };
 
-// Require admin role
-export const requireAdmin = async (req: Request, res: Response, next: NextFunction) => {
-  if (!isAuthenticated(req)) {
-    return res.status(401).json({ message: "Authentication required" });
-  }
+// Role stored on the user's profile. Token claims are never trusted for this: anyone able
+// to set custom claims could otherwise grant themselves a role.
+async function resolveRole(user: any): Promise<string> {
+  const role = await getUserRole(user.uid || user.user_id || user._id);
+  return role || DEFAULT_USER_ROLE;
+}
+
+/**
+ * Load the caller's role and permissions and keep them on req.user for the rest of the request
+ */
+export async function resolvePermissions(req: Request): Promise<string[]> {
+  if (req.user?.permissions) return req.user.permissions;
+
+  const user = getUser(req);
+  if (!user) return [];
+
+  const role = await resolveRole(user);
+  const permissions = await getRolePermissions(getDB(), role);
+  req.user = { ...(req.user || user), role, permissions };
+  return permissions;
+}
+
+/**
+ * With ADMIN_2FA_REQUIRED, permissions are only honoured on a cookie session whose sign-in
+ * included a TOTP or recovery code. Bearer tokens never qualify: Firebase signs them in
+ * with the password alone.
+ */
+function hasVerifiedSecondFactor(req: Request): boolean {
+  if (!ADMIN_2FA_REQUIRED) return true;
+  return !req.firebaseUser && Boolean(req.sessionUser?.twoFactorVerified);
+}
 
+// Whether the caller's role grants a permission, for checks inside controllers
+export async function userHasPermission(req: Request, permission: Permission): Promise<boolean> {
+  return hasPermission(await resolvePermissions(req), permission) && hasVerifiedSecondFactor(req);
+}
+
+// Whether the route targets the caller's own account (/:id or /:uid)
+function isOwnResource(req: Request): boolean {
   const user = getUser(req);
-  const userId = user.uid || user.user_id || user._id;
+  const targetId = req.params.id || req.params.uid;
+  const currentIds = [user.uid, user.user_id, user._id?.toString()].filter(Boolean);
+  return Boolean(targetId) && currentIds.includes(targetId);
+}
 
-  // Fetch role from database
-  const role = await getUserRole(userId);
+// Respond 403 unless every required permission is granted (and, when required, a second factor was verified)
+async function checkPermissions(req: Request, res: Response, next: NextFunction, required: string[]) {
+  let permissions: string[];
+  try {
+    permissions = await resolvePermissions(req);
+  } catch (error) {
+    console.error("Error resolving permissions:", error);
+    return res.status(500).json({ message: "Failed to check permissions" });
+  }
 
-  // Check admin from database role or custom claims
-  if (role !== "admin" && user.role !== "admin" && !user.admin) {
-    return res.status(403).json({ message: "Admin access required" });
+  const missing = required.filter((permission) => !hasPermission(permissions, permission));
+  if (missing.length > 0) {
+    return res.status(403).json({ message: "Insufficient permissions", missing });
   }
 
-  req.user = { ...user, role: role || user.role };
-  next();
+  if (!hasVerifiedSecondFactor(req)) {
+    const user = await findUserByIdentifier(getUser(req).uid, { projection: { twoFactor: 1 } });
+    if (!isTwoFactorEnabled(user)) {
+      return next(new ForbiddenError("Set up two-factor authentication to use staff features", "TWO_FACTOR_SETUP_REQUIRED"));
+    }
+    return next(new ForbiddenError("Sign in with your two-factor code to use staff features", "TWO_FACTOR_REQUIRED"));
+  }
+
+  return next();
+}
+
+// Require every listed permission, e.g. requirePermission("orders:write")
+export const requirePermission = (...required: Permission[]) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!isAuthenticated(req)) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    return checkPermissions(req, res, next, required);
+  };
+};
+
+// Allow users to access their own account; everyone else needs the listed permissions
+export const requireSelfOrPermission = (...required: Permission[]) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!isAuthenticated(req)) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    if (isOwnResource(req)) {
+      await resolvePermissions(req).catch((error) => console.error("Error resolving permissions:", error));
+      return next();
+    }
+
+    return checkPermissions(req, res, next, required);
+  };
+};
+
+// Require a role with full access ("*"). Prefer requirePermission for new routes.
+export const requireAdmin = async (req: Request, res: Response, next: NextFunction) => {
+  if (!isAuthenticated(req)) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+
+  return checkPermissions(req, res, next, ["*"]);
 };
 
 // Require user role (any authenticated user)
@@ -93,24 +176,32 @@ export const requireUser = (req: Request, res: Response, next: NextFunction) =>
   next();
 };
 
-// Require user or admin (for accessing own resources or admin access)
-export const requireUserOrAdmin = async (req: Request, res: Response, next: NextFunction) => {
+// Block accounts whose email address is still unverified (status "pending"). Use after verifyToken.
+export const requireVerifiedEmail = async (req: Request, res: Response, next: NextFunction) => {
   if (!isAuthenticated(req)) {
     return res.status(401).json({ message: "Authentication required" });
   }
 
-  const user = getUser(req);
-  const userId = req.params.id || req.params.uid;
-  const currentUserId = user.uid || user.user_id || user._id;
+  const user = await findUserByIdentifier(getUser(req).uid, { projection: { status: 1 } });
+  if (!isEmailVerified(user)) {
+    return next(new ForbiddenError("Verify your email address to continue", "EMAIL_NOT_VERIFIED"));
+  }
 
-  // Fetch role from database
-  const role = await getUserRole(currentUserId);
+  next();
+};
+
+// Scheduled jobs: Vercel Cron sends CRON_SECRET as a Bearer token. Refused while the secret is unset.
+export const requireCronSecret = (req: Request, _res: Response, next: NextFunction) => {
+  const secret = process.env.CRON_SECRET;
+  const token = req.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1] || "";
+  const digest = (value: string) => createHash("sha256").update(value).digest();
 
-  // Allow if user is admin or accessing their own resource
-  if (role === "admin" || user.role === "admin" || user.admin || currentUserId === userId || user.uid === userId || user.user_id === userId) {
-    req.user = { ...user, role: role || user.role };
-    return next();
+  if (!secret || !timingSafeEqual(digest(token), digest(secret))) {
+    return next(new UnauthorizedError("Invalid cron secret", "INVALID_CRON_SECRET"));
   }
 
-  return res.status(403).json({ message: "Access denied" });
+  next();
 };
+
+// Require user or admin (for accessing own resources or admin access)
+export const requireUserOrAdmin = requireSelfOrPermission("users:manage");
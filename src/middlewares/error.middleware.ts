@@ -0,0 +1,113 @@
+import { randomUUID } from "crypto";
+import { Request, Response, NextFunction } from "express";
+import { AppError, NotFoundError, TooManyRequestsError, errorCodeForStatus } from "../utils/errors";
+
+declare global {
+  namespace Express {
+    interface Request {
+      id?: string;
+    }
+  }
+}
+
+// Accept a caller-supplied ID (e.g. from a proxy) only if it is short and printable
+const REQUEST_ID_PATTERN = /^[\w.:-]{8,128}$/;
+
+/**
+ * Give every request an ID, echoed in the X-Request-Id header and in every error body,
+ * so a failed call reported by a client can be found in the logs.
+ */
+export const requestId = (req: Request, res: Response, next: NextFunction) => {
+  const incoming = req.get("X-Request-Id");
+  req.id = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+  res.setHeader("X-Request-Id", req.id);
+  next();
+};
+
+// Build the error envelope from whatever body a handler sent
+function toErrorEnvelope(statusCode: number, body: Record<string, any>, id?: string) {
+  const { success: _success, message, error, code, details, errors, ...rest } = body;
+
+  const envelope: Record<string, any> = {
+    success: false,
+    message: typeof message === "string" ? message : typeof error === "string" ? error : "Request failed",
+    code: typeof code === "string" ? code : errorCodeForStatus(statusCode),
+    requestId: id,
+  };
+
+  const extra = details ?? errors;
+  if (extra !== undefined) envelope.details = extra;
+
+  // Server errors keep only the message; extra fields there are usually internals
+  return statusCode >= 500 ? envelope : { ...envelope, ...rest };
+}
+
+/**
+ * Error responses sent directly by handlers (`res.status(404).json({ message })`) are
+ * rewritten into the same envelope the error handler produces, so clients only ever
+ * deal with one shape. Success responses pass through untouched.
+ */
+export const errorEnvelope = (req: Request, res: Response, next: NextFunction) => {
+  const json = res.json.bind(res);
+  res.json = (body?: any) => {
+    if (res.statusCode >= 400 && body && typeof body === "object" && !Array.isArray(body)) {
+      return json(toErrorEnvelope(res.statusCode, body, req.id));
+    }
+    return json(body);
+  };
+  next();
+};
+
+// Firebase Admin errors whose message is safe to show, e.g. "auth/email-already-exists"
+function firebaseErrorStatus(code: string): number | null {
+  if (code.endsWith("-already-exists")) return 409;
+  if (code === "auth/user-not-found") return 404;
+  if (code.startsWith("auth/invalid-") || code === "auth/weak-password") return 400;
+  return null;
+}
+
+// Registered after every route
+export const notFoundHandler = (req: Request, _res: Response, next: NextFunction) => {
+  next(new NotFoundError(`Route ${req.method} ${req.path} not found`, "ROUTE_NOT_FOUND"));
+};
+
+/**
+ * Central error handler. Express 5 forwards errors thrown (or rejected) from async
+ * handlers here, so controllers can simply `throw new NotFoundError(...)`.
+ */
+export const errorHandler = (err: any, req: Request, res: Response, next: NextFunction) => {
+  if (res.headersSent) return next(err);
+
+  if (err instanceof AppError) {
+    if (err instanceof TooManyRequestsError && err.retryAfterSeconds) {
+      res.setHeader("Retry-After", String(err.retryAfterSeconds));
+    }
+    if (err.statusCode >= 500) {
+      console.error(`[${req.id}] ${req.method} ${req.originalUrl} failed:`, err);
+    }
+    return res.status(err.statusCode).json({
+      message: err.message,
+      code: err.code,
+      details: err.details,
+    });
+  }
+
+  if (typeof err?.code === "string" && err.code.startsWith("auth/")) {
+    const status = firebaseErrorStatus(err.code);
+    if (status) {
+      return res.status(status).json({ message: err.message, code: err.code.slice(5).replace(/-/g, "_").toUpperCase() });
+    }
+  }
+
+  // Errors raised by body-parser and other http-errors based middleware
+  if (err?.type === "entity.parse.failed") {
+    return res.status(400).json({ message: "Request body is not valid JSON", code: "INVALID_JSON" });
+  }
+  const status = err?.status || err?.statusCode;
+  if (typeof status === "number" && status >= 400 && status < 500 && err.expose) {
+    return res.status(status).json({ message: err.message, code: errorCodeForStatus(status) });
+  }
+
+  console.error(`[${req.id}] ${req.method} ${req.originalUrl} failed:`, err);
+  return res.status(500).json({ message: "Internal server error", code: "INTERNAL_ERROR" });
+};
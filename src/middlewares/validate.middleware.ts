@@ -0,0 +1,37 @@
+import { Request, Response, NextFunction } from "express";
+import { Schema, ValidationIssue } from "../utils/schema";
+import { ValidationError } from "../utils/errors";
+
+export interface RequestSchema {
+  body?: Schema<any>;
+  params?: Schema<any>;
+  query?: Schema<any>;
+}
+
+/**
+ * Validate the request against per-part schemas before the controller runs.
+ * Parsed values replace the raw ones, so controllers see trimmed strings, coerced
+ * numbers and filled-in defaults. Every problem is reported in one response:
+ *
+ *   400 { success: false, message: "Validation failed", code: "VALIDATION_FAILED", requestId, details: [{ path: "body.name", message: "is required" }] }
+ */
+export const validate = (schema: RequestSchema) => {
+  return (req: Request, _res: Response, next: NextFunction) => {
+    const issues: ValidationIssue[] = [];
+
+    const body = schema.body?.parse(req.body, "body", issues);
+    const params = schema.params?.parse(req.params, "params", issues);
+    const query = schema.query?.parse(req.query, "query", issues);
+
+    if (issues.length > 0) {
+      return next(new ValidationError(issues));
+    }
+
+    if (schema.body) req.body = body;
+    if (schema.params) req.params = params;
+    // req.query is a getter in Express 5, so shadow it on the request itself
+    if (schema.query) Object.defineProperty(req, "query", { value: query, writable: true, configurable: true, enumerable: true });
+
+    next();
+  };
+};
@@ -0,0 +1,108 @@
+import dotenv from 'dotenv'
+dotenv.config()
+
+import { closeDB, connectDB, createIndexes } from './config/db'
+import { USER_STATUSES } from './models/user/user.model'
+import { DEFAULT_USER_ROLE } from './models/roles/role.permissions'
+
+/**
+ * Rewrites every document in the users collection into the canonical IUser shape
+ * (src/models/user/user.model.ts):
+ *   name -> displayName, image -> photoURL, phone -> phoneNumber, uid -> firebaseUid,
+ *   email lowercased, stored passwords dropped (Firebase Auth owns credentials),
+ *   missing role/status/termsAccepted/timestamps defaulted.
+ *
+ * Usage: npm run migrate:users [-- --dry-run]
+ */
+const LEGACY_FIELDS = ['name', 'image', 'phone', 'uid', 'password']
+
+const isBlank = (value: unknown) => value === undefined || value === null || value === ''
+
+async function migrateUsers() {
+  const dryRun = process.argv.includes('--dry-run')
+  let exitCode = 0
+
+  try {
+    // The unique users indexes cannot be built until this migration has cleaned the data up
+    const db = await connectDB({ skipIndexes: true })
+    const usersCol = db.collection('users')
+
+    let scanned = 0
+    let updated = 0
+    const missingUid: string[] = []
+
+    const cursor = usersCol.find({})
+    for await (const user of cursor) {
+      scanned++
+      const set: Record<string, unknown> = {}
+      const unset: Record<string, ''> = {}
+
+      if (isBlank(user.displayName)) set.displayName = user.name || ''
+      if (isBlank(user.photoURL) && user.image) set.photoURL = user.image
+      if (isBlank(user.phoneNumber) && user.phone) set.phoneNumber = user.phone
+      if (isBlank(user.firebaseUid) && user.uid) set.firebaseUid = user.uid
+
+      if (typeof user.email === 'string' && user.email !== user.email.trim().toLowerCase()) {
+        set.email = user.email.trim().toLowerCase()
+      }
+
+      if (isBlank(user.role)) set.role = DEFAULT_USER_ROLE
+      if (!USER_STATUSES.includes(user.status)) set.status = 'active'
+      if (typeof user.termsAccepted !== 'boolean') set.termsAccepted = false
+      if (!user.createdAt) set.createdAt = user._id.getTimestamp()
+
+      for (const field of LEGACY_FIELDS) {
+        if (field in user) unset[field] = ''
+      }
+
+      if (isBlank(user.firebaseUid) && isBlank(set.firebaseUid)) {
+        missingUid.push(user._id.toString())
+      }
+
+      if (Object.keys(set).length === 0 && Object.keys(unset).length === 0) continue
+
+      if (!user.updatedAt || Object.keys(set).length > 0) set.updatedAt = new Date()
+
+      updated++
+      if (dryRun) {
+        console.log(`Would update ${user._id}:`, { $set: set, $unset: Object.keys(unset) })
+        continue
+      }
+
+      await usersCol.updateOne(
+        { _id: user._id },
+        Object.keys(unset).length > 0 ? { $set: set, $unset: unset } : { $set: set }
+      )
+    }
+
+    // Lowercasing can make two accounts share an address; those need a manual merge
+    const duplicates = await usersCol.aggregate([
+      { $group: { _id: { $toLower: '$email' }, count: { $sum: 1 }, ids: { $push: '$_id' } } },
+      { $match: { count: { $gt: 1 } } }
+    ]).toArray()
+
+    console.log(`${dryRun ? '[dry run] ' : ''}Scanned ${scanned} users, ${dryRun ? 'would update' : 'updated'} ${updated}`)
+
+    if (missingUid.length > 0) {
+      console.warn(`⚠️  ${missingUid.length} user(s) have no firebaseUid and cannot sign in:`, missingUid.join(', '))
+    }
+
+    for (const duplicate of duplicates) {
+      console.warn(`⚠️  ${duplicate.count} users share the email ${duplicate._id}:`, duplicate.ids.join(', '))
+    }
+
+    if (!dryRun) {
+      // Throws, naming each index that still fails, when records above need a manual fix
+      await createIndexes(db)
+      console.log('Indexes created; the server can start')
+    }
+  } catch (error) {
+    console.error('Error migrating users:', error)
+    exitCode = 1
+  } finally {
+    await closeDB()
+    process.exit(exitCode)
+  }
+}
+
+migrateUsers()
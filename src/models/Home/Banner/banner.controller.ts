@@ -8,9 +8,7 @@ export const createBanner = async (req: Request, res: Response) => {
     try {
         const db = getDB();
 
-        // Support both formats: direct fields or nested under heroBanner
-        const data = req.body.heroBanner || req.body;
-
+        // bannerSchema has already unwrapped { heroBanner: {...} } bodies
         const {
             badge,
             title,
@@ -19,9 +17,7 @@ export const createBanner = async (req: Request, res: Response) => {
             images,
             layout,
             isActive
-        } = data;
-
-
+        } = req.body;
 
         // If this banner is set to active, deactivate all other banners
         if (isActive) {
@@ -38,10 +34,10 @@ export const createBanner = async (req: Request, res: Response) => {
                 text: title.text
             },
             description,
-            ctaButtons: ctaButtons || [],
-            images: images || [],
-            layout: layout || "grid-5",
-            isActive: isActive !== undefined ? isActive : true,
+            ctaButtons,
+            images,
+            layout,
+            isActive,
             createdAt: new Date()
         };
 
@@ -57,7 +53,6 @@ export const createBanner = async (req: Request, res: Response) => {
         return res.status(500).json({
             success: false,
             message: "Failed to create banner",
-            error: error instanceof Error ? error.message : "Unknown error"
         });
     }
 };
@@ -136,20 +131,6 @@ export const updateBanner = async (req: Request, res: Response) => {
         const { id } = req.params;
         const updateData = req.body;
 
-        if (!id || !ObjectId.isValid(id as string)) {
-            return res.status(400).json({
-                success: false,
-                message: "Invalid banner ID"
-            });
-        }
-
-        if (!updateData || typeof updateData !== 'object' || Object.keys(updateData).length === 0) {
-            return res.status(400).json({
-                success: false,
-                message: "Request body is required and must contain update data"
-            });
-        }
-
         const db = getDB();
 
         // First check if banner exists
@@ -170,10 +151,6 @@ export const updateBanner = async (req: Request, res: Response) => {
             );
         }
 
-        // Remove fields that shouldn't be updated
-        delete updateData._id;
-        delete updateData.createdAt;
-
         // Add updated timestamp
         updateData.updatedAt = new Date();
 
@@ -195,7 +172,6 @@ export const updateBanner = async (req: Request, res: Response) => {
         return res.status(500).json({
             success: false,
             message: "Failed to update banner",
-            error: error instanceof Error ? error.message : "Unknown error"
         });
     }
 };
@@ -205,13 +181,6 @@ export const deleteBanner = async (req: Request, res: Response) => {
     try {
         const { id } = req.params;
 
-        if (!id || !ObjectId.isValid(id as string)) {
-            return res.status(400).json({
-                success: false,
-                message: "Invalid banner ID"
-            });
-        }
-
         const db = getDB();
 
         const result = await db.collection("home_banners").deleteOne({ _id: new ObjectId(id as string) });
@@ -6,18 +6,20 @@ import {
     updateBanner,
     deleteBanner
 } from "./banner.controller";
-import { verifyToken, requireAdmin } from "../../../middlewares/auth.middleware";
+import { verifyToken, requirePermission } from "../../../middlewares/auth.middleware";
+import { validate } from "../../../middlewares/validate.middleware";
+import { bannerParams, bannerSchema, updateBannerSchema } from "./banner.schema";
 
 const router = express.Router();
 
 // Public route - Get active banner
 router.get("/", getBanner);
 
-// Admin-only routes
+// Staff routes
 router.get("/all", getAllBanners);
-router.post("/", verifyToken, requireAdmin, createBanner);
-router.put("/:id", verifyToken, requireAdmin, updateBanner);
-router.patch("/:id", verifyToken, requireAdmin, updateBanner);
-router.delete("/:id", verifyToken, requireAdmin, deleteBanner);
+router.post("/", verifyToken, requirePermission("content:publish"), validate({ body: bannerSchema }), createBanner);
+router.put("/:id", verifyToken, requirePermission("content:publish"), validate({ params: bannerParams, body: updateBannerSchema }), updateBanner);
+router.patch("/:id", verifyToken, requirePermission("content:publish"), validate({ params: bannerParams, body: updateBannerSchema }), updateBanner);
+router.delete("/:id", verifyToken, requirePermission("content:publish"), validate({ params: bannerParams }), deleteBanner);
 
 export default router;
@@ -0,0 +1,42 @@
+import { Schema, s } from "../../../utils/schema";
+import { BannerImage, CTAButton, HeroBanner } from "./banner.model";
+
+export type BannerInput = Omit<HeroBanner, "_id" | "createdAt" | "updatedAt">;
+
+const ctaButtonSchema = s.object<CTAButton>({
+    text: s.string({ min: 1, max: 100 }),
+    link: s.string({ min: 1, max: 2048 }),
+    type: s.enum(["primary", "secondary"])
+});
+
+const bannerImageSchema = s.object<BannerImage>({
+    id: s.number({ integer: true }),
+    title: s.string({ max: 200 }).default(""),
+    imageUrl: s.string({ min: 1, max: 2048 })
+});
+
+const bannerFields = s.object<BannerInput>({
+    badge: s.string({ max: 200 }).default(""),
+    title: s.object<HeroBanner["title"]>({
+        highlight: s.string({ max: 200 }).default(""),
+        text: s.string({ min: 1, max: 500 })
+    }),
+    description: s.string({ max: 2000 }).default(""),
+    ctaButtons: s.array(ctaButtonSchema, { max: 5 }).default([]),
+    images: s.array(bannerImageSchema, { max: 20 }).default([]),
+    layout: s.string({ min: 1, max: 50 }).default("grid-5"),
+    isActive: s.boolean().default(true)
+});
+
+// Banners may be sent as the fields themselves or wrapped as { heroBanner: {...} }
+const unwrapHeroBanner = <T>(schema: Schema<T>): Schema<T> => new Schema((value, path, issues) => {
+    const wrapped = value && typeof value === "object" && "heroBanner" in value;
+    return wrapped
+        ? schema.parse((value as { heroBanner: unknown }).heroBanner, `${path}.heroBanner`, issues)
+        : schema.parse(value, path, issues);
+});
+
+export const bannerSchema = unwrapHeroBanner(bannerFields);
+export const updateBannerSchema = bannerFields.patch();
+
+export const bannerParams = s.object({ id: s.objectId() });
@@ -15,19 +15,11 @@ export const createFAQ = async (req: Request, res: Response) => {
             order
         } = req.body;
 
-        // Validate required fields
-        if (!question || !answer) {
-            return res.status(400).json({
-                success: false,
-                message: "Required fields missing: question and answer are required"
-            });
-        }
-
         const faq: FAQ = {
             question,
             answer,
-            isActive: isActive !== undefined ? isActive : true,
-            order: order !== undefined ? order : 0,
+            isActive,
+            order,
             createdAt: new Date()
         };
 
@@ -43,7 +35,6 @@ export const createFAQ = async (req: Request, res: Response) => {
         return res.status(500).json({
             success: false,
             message: "Failed to create FAQ",
-            error: error instanceof Error ? error.message : "Unknown error"
         });
     }
 };
@@ -123,13 +114,6 @@ export const getFAQById = async (req: Request, res: Response) => {
     try {
         const { id } = req.params;
 
-        if (!id || !ObjectId.isValid(id as string)) {
-            return res.status(400).json({
-                success: false,
-                message: "Invalid FAQ ID"
-            });
-        }
-
         const db = getDB();
 
         const faq = await db.collection("faqs").findOne({ _id: new ObjectId(id as string) });
@@ -160,20 +144,6 @@ export const updateFAQ = async (req: Request, res: Response) => {
         const { id } = req.params;
         const updateData = req.body;
 
-        if (!id || !ObjectId.isValid(id as string)) {
-            return res.status(400).json({
-                success: false,
-                message: "Invalid FAQ ID"
-            });
-        }
-
-        if (!updateData || typeof updateData !== 'object' || Object.keys(updateData).length === 0) {
-            return res.status(400).json({
-                success: false,
-                message: "Request body is required and must contain update data"
-            });
-        }
-
         const db = getDB();
 
         // First check if FAQ exists
@@ -186,10 +156,6 @@ export const updateFAQ = async (req: Request, res: Response) => {
             });
         }
 
-        // Remove fields that shouldn't be updated
-        delete updateData._id;
-        delete updateData.createdAt;
-
         // Add updated timestamp
         updateData.updatedAt = new Date();
 
@@ -211,7 +177,6 @@ export const updateFAQ = async (req: Request, res: Response) => {
         return res.status(500).json({
             success: false,
             message: "Failed to update FAQ",
-            error: error instanceof Error ? error.message : "Unknown error"
         });
     }
 };
@@ -221,13 +186,6 @@ export const deleteFAQ = async (req: Request, res: Response) => {
     try {
         const { id } = req.params;
 
-        if (!id || !ObjectId.isValid(id as string)) {
-            return res.status(400).json({
-                success: false,
-                message: "Invalid FAQ ID"
-            });
-        }
-
         const db = getDB();
 
         const result = await db.collection("faqs").deleteOne({ _id: new ObjectId(id as string) });
@@ -258,13 +216,6 @@ export const reorderFAQs = async (req: Request, res: Response) => {
     try {
         const { faqs } = req.body;
 
-        if (!faqs || !Array.isArray(faqs)) {
-            return res.status(400).json({
-                success: false,
-                message: "faqs array is required"
-            });
-        }
-
         const db = getDB();
         const bulkOps = faqs.map((faq: { _id: string; order: number }) => ({
             updateOne: {
@@ -284,7 +235,6 @@ export const reorderFAQs = async (req: Request, res: Response) => {
         return res.status(500).json({
             success: false,
             message: "Failed to reorder FAQs",
-            error: error instanceof Error ? error.message : "Unknown error"
         });
     }
 };
@@ -8,20 +8,22 @@ import {
     deleteFAQ,
     reorderFAQs
 } from "./faq.controller";
-import { verifyToken, requireAdmin } from "../../../middlewares/auth.middleware";
+import { verifyToken, requirePermission } from "../../../middlewares/auth.middleware";
+import { validate } from "../../../middlewares/validate.middleware";
+import { faqListQuery, faqParams, faqSchema, reorderFAQsSchema, updateFAQSchema } from "./faq.schema";
 
 const router = express.Router();
 
 // Public routes
-router.get("/", getAllFAQs);
-router.get("/active", getActiveFAQs);
-router.get("/:id", getFAQById);
+router.get("/", validate({ query: faqListQuery }), getAllFAQs);
+router.get("/active", validate({ query: faqListQuery }), getActiveFAQs);
+router.get("/:id", validate({ params: faqParams }), getFAQById);
 
-// Admin-only routes
-router.post("/", verifyToken, requireAdmin, createFAQ);
-router.put("/:id", verifyToken, requireAdmin, updateFAQ);
-router.patch("/:id", verifyToken, requireAdmin, updateFAQ);
-router.delete("/:id", verifyToken, requireAdmin, deleteFAQ);
-router.post("/reorder", verifyToken, requireAdmin, reorderFAQs);
+// Staff routes
+router.post("/", verifyToken, requirePermission("content:publish"), validate({ body: faqSchema }), createFAQ);
+router.put("/:id", verifyToken, requirePermission("content:publish"), validate({ params: faqParams, body: updateFAQSchema }), updateFAQ);
+router.patch("/:id", verifyToken, requirePermission("content:publish"), validate({ params: faqParams, body: updateFAQSchema }), updateFAQ);
+router.delete("/:id", verifyToken, requirePermission("content:publish"), validate({ params: faqParams }), deleteFAQ);
+router.post("/reorder", verifyToken, requirePermission("content:publish"), validate({ body: reorderFAQsSchema }), reorderFAQs);
 
 export default router;
@@ -0,0 +1,28 @@
+import { s } from "../../../utils/schema";
+import { FAQ } from "./faq.model";
+
+export type FAQInput = Omit<FAQ, "_id" | "createdAt" | "updatedAt">;
+
+export const faqSchema = s.object<FAQInput>({
+    question: s.string({ min: 1, max: 500 }),
+    answer: s.string({ min: 1, max: 5000 }),
+    isActive: s.boolean().default(true),
+    order: s.number({ integer: true }).default(0)
+});
+
+export const updateFAQSchema = faqSchema.patch();
+
+export const reorderFAQsSchema = s.object({
+    faqs: s.array(s.object({
+        _id: s.objectId(),
+        order: s.number({ integer: true })
+    }), { min: 1, max: 500 })
+});
+
+export const faqParams = s.object({ id: s.objectId() });
+
+export const faqListQuery = s.object({
+    isActive: s.enum(["true", "false"]).optional(),
+    limit: s.number({ coerce: true, integer: true, min: 1, max: 100 }).optional(),
+    skip: s.number({ coerce: true, integer: true, min: 0 }).optional()
+}).strip();
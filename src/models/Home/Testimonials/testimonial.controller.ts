@@ -18,30 +18,14 @@ export const createTestimonial = async (req: Request, res: Response) => {
             isFeatured
         } = req.body;
 
-        // Validate required fields
-        if (!name || !designation || !company || !rating || !message) {
-            return res.status(400).json({
-                success: false,
-                message: "Required fields missing: name, designation, company, rating, and message are required"
-            });
-        }
-
-        // Validate rating range
-        if (rating < 1 || rating > 5) {
-            return res.status(400).json({
-                success: false,
-                message: "Rating must be between 1 and 5"
-            });
-        }
-
         const testimonial: Testimonial = {
             name,
             designation,
             company,
             rating,
             message,
-            avatar: avatar || "",
-            isFeatured: isFeatured !== undefined ? isFeatured : false,
+            avatar,
+            isFeatured,
             createdAt: new Date()
         };
 
@@ -57,7 +41,6 @@ export const createTestimonial = async (req: Request, res: Response) => {
         return res.status(500).json({
             success: false,
             message: "Failed to create testimonial",
-            error: error instanceof Error ? error.message : "Unknown error"
         });
     }
 };
@@ -141,13 +124,6 @@ export const getTestimonialById = async (req: Request, res: Response) => {
     try {
         const { id } = req.params;
 
-        if (!id || !ObjectId.isValid(id as string)) {
-            return res.status(400).json({
-                success: false,
-                message: "Invalid testimonial ID"
-            });
-        }
-
         const db = getDB();
 
         const testimonial = await db.collection("testimonials").findOne({ _id: new ObjectId(id as string) });
@@ -178,28 +154,6 @@ export const updateTestimonial = async (req: Request, res: Response) => {
         const { id } = req.params;
         const updateData = req.body;
 
-        if (!id || !ObjectId.isValid(id as string)) {
-            return res.status(400).json({
-                success: false,
-                message: "Invalid testimonial ID"
-            });
-        }
-
-        if (!updateData || typeof updateData !== 'object' || Object.keys(updateData).length === 0) {
-            return res.status(400).json({
-                success: false,
-                message: "Request body is required and must contain update data"
-            });
-        }
-
-        // Validate rating if provided
-        if (updateData.rating !== undefined && (updateData.rating < 1 || updateData.rating > 5)) {
-            return res.status(400).json({
-                success: false,
-                message: "Rating must be between 1 and 5"
-            });
-        }
-
         const db = getDB();
 
         // First check if testimonial exists
@@ -212,10 +166,6 @@ export const updateTestimonial = async (req: Request, res: Response) => {
             });
         }
 
-        // Remove fields that shouldn't be updated
-        delete updateData._id;
-        delete updateData.createdAt;
-
         // Add updated timestamp
         updateData.updatedAt = new Date();
 
@@ -237,7 +187,6 @@ export const updateTestimonial = async (req: Request, res: Response) => {
         return res.status(500).json({
             success: false,
             message: "Failed to update testimonial",
-            error: error instanceof Error ? error.message : "Unknown error"
         });
     }
 };
@@ -247,13 +196,6 @@ export const deleteTestimonial = async (req: Request, res: Response) => {
     try {
         const { id } = req.params;
 
-        if (!id || !ObjectId.isValid(id as string)) {
-            return res.status(400).json({
-                success: false,
-                message: "Invalid testimonial ID"
-            });
-        }
-
         const db = getDB();
 
         const result = await db.collection("testimonials").deleteOne({ _id: new ObjectId(id as string) });
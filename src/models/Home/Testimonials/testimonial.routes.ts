@@ -7,19 +7,21 @@ import {
     updateTestimonial,
     deleteTestimonial
 } from "./testimonial.controller";
-import { verifyToken, requireAdmin } from "../../../middlewares/auth.middleware";
+import { verifyToken, requirePermission } from "../../../middlewares/auth.middleware";
+import { validate } from "../../../middlewares/validate.middleware";
+import { testimonialListQuery, testimonialParams, testimonialSchema, updateTestimonialSchema } from "./testimonial.schema";
 
 const router = express.Router();
 
 // Public routes
-router.get("/", getAllTestimonials);
-router.get("/featured", getFeaturedTestimonials);
-router.get("/:id", getTestimonialById);
+router.get("/", validate({ query: testimonialListQuery }), getAllTestimonials);
+router.get("/featured", validate({ query: testimonialListQuery }), getFeaturedTestimonials);
+router.get("/:id", validate({ params: testimonialParams }), getTestimonialById);
 
-// Admin-only routes
-router.post("/", verifyToken, requireAdmin, createTestimonial);
-router.put("/:id", verifyToken, requireAdmin, updateTestimonial);
-router.patch("/:id", verifyToken, requireAdmin, updateTestimonial);
-router.delete("/:id", verifyToken, requireAdmin, deleteTestimonial);
+// Staff routes
+router.post("/", verifyToken, requirePermission("content:publish"), validate({ body: testimonialSchema }), createTestimonial);
+router.put("/:id", verifyToken, requirePermission("content:publish"), validate({ params: testimonialParams, body: updateTestimonialSchema }), updateTestimonial);
+router.patch("/:id", verifyToken, requirePermission("content:publish"), validate({ params: testimonialParams, body: updateTestimonialSchema }), updateTestimonial);
+router.delete("/:id", verifyToken, requirePermission("content:publish"), validate({ params: testimonialParams }), deleteTestimonial);
 
 export default router;
@@ -0,0 +1,25 @@
+import { s } from "../../../utils/schema";
+import { Testimonial } from "./testimonial.model";
+
+export type TestimonialInput = Omit<Testimonial, "_id" | "createdAt" | "updatedAt">;
+
+export const testimonialSchema = s.object<TestimonialInput>({
+    name: s.string({ min: 1, max: 200 }),
+    designation: s.string({ min: 1, max: 200 }),
+    company: s.string({ min: 1, max: 200 }),
+    rating: s.number({ integer: true, min: 1, max: 5 }),
+    message: s.string({ min: 1, max: 5000 }),
+    avatar: s.string({ max: 2048 }).default(""),
+    isFeatured: s.boolean().default(false)
+});
+
+export const updateTestimonialSchema = testimonialSchema.patch();
+
+export const testimonialParams = s.object({ id: s.objectId() });
+
+export const testimonialListQuery = s.object({
+    isFeatured: s.enum(["true", "false"]).optional(),
+    rating: s.number({ coerce: true, integer: true, min: 1, max: 5 }).optional(),
+    limit: s.number({ coerce: true, integer: true, min: 1, max: 100 }).optional(),
+    skip: s.number({ coerce: true, integer: true, min: 0 }).optional()
+}).strip();
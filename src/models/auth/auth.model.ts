@@ -0,0 +1,40 @@
+import { ObjectId } from "mongodb";
+
+export interface PasswordResetToken {
+    _id?: ObjectId;
+    email: string;
+    token: string; // SHA-256 of the token sent in the reset link
+    expiresAt: Date; // Removed by a TTL index once passed
+    used: boolean;
+    createdAt: Date;
+}
+
+// A signed-in browser or device. Access tokens carry the id and the refresh token
+// rotates within it, so deleting the document signs that device out.
+export interface Session {
+    _id?: ObjectId;
+    uid: string; // Firebase uid
+    userAgent: string;
+    ip: string;
+    refreshTokenHash: string; // SHA-256 of the current refresh token
+    rotatedTokenHashes: string[]; // Earlier refresh tokens of this family; presenting one means it was stolen
+    twoFactorVerified: boolean; // A TOTP or recovery code was checked for this sign-in
+    createdAt: Date;
+    lastSeenAt: Date;
+    refreshedAt?: Date;
+    expiresAt: Date; // Removed by a TTL index once passed
+}
+
+export type ThrottledAuthAction = "login" | "two-factor" | "forgot-password" | "reset-password" | "verify-email";
+
+// Attempts counted against one account (by email) or one client IP
+export interface AuthAttempt {
+    _id?: ObjectId;
+    action: ThrottledAuthAction;
+    scope: "account" | "ip";
+    key: string; // Normalized email (uid for two-factor and verify-email) or IP address
+    attempts: number;
+    lastAttemptAt: Date;
+    lockedUntil?: Date;
+    expiresAt: Date; // Counts are forgotten after this; removed by a TTL index
+}
@@ -0,0 +1,15 @@
+import { s } from "../../utils/schema";
+
+export const sessionParams = s.object({ id: s.objectId() });
+
+// A 6 digit authenticator code or a recovery code such as "abcde-12345"
+const twoFactorCode = s.string({ min: 6, max: 32 });
+
+export const twoFactorCodeSchema = s.object({ code: twoFactorCode });
+
+export const twoFactorLoginSchema = s.object({
+  challengeToken: s.string({ min: 1, max: 2048 }),
+  code: twoFactorCode,
+});
+
+export const verifyEmailSchema = s.object({ token: s.string({ min: 1, max: 512 }) });
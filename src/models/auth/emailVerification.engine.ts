@@ -0,0 +1,60 @@
+import crypto from "crypto";
+import { Db } from "mongodb";
+import { IUser } from "../user/user.model";
+import { getUsersCollection } from "../user/user.store";
+import { BadRequestError } from "../../utils/errors";
+import { resolveSecret } from "../../utils/secrets";
+
+export const EMAIL_VERIFICATION_TTL_HOURS = Number(process.env.EMAIL_VERIFICATION_TTL_HOURS) || 24;
+
+// Key for signing verification links; falls back to the session secret
+const LINK_SECRET = resolveSecret("EMAIL_VERIFICATION_SECRET", "JWT_SECRET");
+
+// The signature covers the address, so a link stops working once the email is changed
+const signToken = (uid: string, email: string, expiresAt: number): string => {
+    return crypto.createHmac("sha256", LINK_SECRET).update(`verify-email:${uid}:${email}:${expiresAt}`).digest("base64url");
+};
+
+const safeEqual = (a: string, b: string): boolean => {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
+
+const invalidLink = () => new BadRequestError("Verification link is invalid or has expired", "INVALID_VERIFICATION_TOKEN");
+
+// Self-contained token "<uid>.<expiry>.<signature>"; nothing is stored until it is used
+export const createEmailVerificationToken = (uid: string, email: string): string => {
+    const expiresAt = Date.now() + EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000;
+    return `${Buffer.from(uid).toString("base64url")}.${expiresAt}.${signToken(uid, email, expiresAt)}`;
+};
+
+export const buildEmailVerificationLink = (token: string): string => {
+    return `${process.env.FRONTEND_URL || "http://localhost:3000"}/verify-email?token=${encodeURIComponent(token)}`;
+};
+
+export const isEmailVerified = (user: Pick<IUser, "status"> | null | undefined): boolean => user?.status !== "pending";
+
+/**
+ * Check a verification token and activate the pending account it belongs to. Using a
+ * link again after the account is active is harmless and returns the same user.
+ */
+export const verifyEmailToken = async (db: Db, token: string): Promise<IUser> => {
+    const [encodedUid, expiry, signature] = token.split(".");
+    const expiresAt = Number(expiry);
+    if (!encodedUid || !signature || !Number.isFinite(expiresAt) || expiresAt < Date.now()) throw invalidLink();
+
+    const uid = Buffer.from(encodedUid, "base64url").toString("utf8");
+    const user = await getUsersCollection(db).findOne({ firebaseUid: uid });
+    if (!user || !safeEqual(signToken(uid, user.email, expiresAt), signature)) throw invalidLink();
+
+    if (user.status !== "pending") return user;
+
+    // Only a pending account is activated; a suspension in the meantime stays in place
+    const updated = await getUsersCollection(db).findOneAndUpdate(
+        { _id: user._id, status: "pending" },
+        { $set: { status: "active", emailVerifiedAt: new Date(), updatedAt: new Date() } },
+        { returnDocument: "after" }
+    );
+    return updated || user;
+};
@@ -0,0 +1,142 @@
+import crypto from "crypto";
+import { Db, ObjectId } from "mongodb";
+import { Request } from "express";
+import { Session } from "./auth.model";
+import { getClientIp } from "../contact/contact.spam";
+import { UnauthorizedError } from "../../utils/errors";
+
+// Lifetime of the access token in the `session` cookie
+export const ACCESS_TOKEN_TTL_MINUTES = Number(process.env.ACCESS_TOKEN_TTL_MINUTES) || 15;
+
+// How long a sign-in lasts; the refresh token rotates within it but never extends it
+export const SESSION_TTL_DAYS = Number(process.env.SESSION_TTL_DAYS) || 7;
+
+// lastSeenAt is only written when older than this, so active clients don't cause a write per request
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+// Earlier refresh tokens remembered per session for reuse detection
+const MAX_ROTATED_TOKENS = 50;
+
+const getSessionsCollection = (db: Db) => db.collection<Session>("sessions");
+
+const hashRefreshToken = (token: string) => crypto.createHash("sha256").update(token).digest("hex");
+
+const generateRefreshToken = () => crypto.randomBytes(32).toString("base64url");
+
+export interface IssuedSession {
+    session: Session;
+    refreshToken: string;
+}
+
+export const createSession = async (
+    db: Db,
+    uid: string,
+    req: Request,
+    options: { twoFactorVerified?: boolean } = {}
+): Promise<IssuedSession> => {
+    const now = new Date();
+    const refreshToken = generateRefreshToken();
+    const session: Session = {
+        uid,
+        userAgent: (req.get("User-Agent") || "").slice(0, 512),
+        ip: getClientIp(req),
+        refreshTokenHash: hashRefreshToken(refreshToken),
+        rotatedTokenHashes: [],
+        twoFactorVerified: options.twoFactorVerified ?? false,
+        createdAt: now,
+        lastSeenAt: now,
+        expiresAt: new Date(now.getTime() + SESSION_TTL_DAYS * 24 * 60 * 60 * 1000),
+    };
+
+    const result = await getSessionsCollection(db).insertOne(session);
+    return { session: { ...session, _id: result.insertedId }, refreshToken };
+};
+
+/**
+ * Exchange a refresh token for a new one. Each token works once: presenting a token
+ * that was already rotated means two parties hold the family, so the whole session
+ * is revoked and both have to sign in again.
+ */
+export const rotateRefreshToken = async (db: Db, refreshToken: string, req: Request): Promise<IssuedSession> => {
+    const collection = getSessionsCollection(db);
+    const hash = hashRefreshToken(refreshToken);
+    const now = new Date();
+    const nextToken = generateRefreshToken();
+
+    // Matching on the current hash makes concurrent rotations of the same token race safely
+    const session = await collection.findOneAndUpdate(
+        { refreshTokenHash: hash, expiresAt: { $gt: now } },
+        {
+            $set: {
+                refreshTokenHash: hashRefreshToken(nextToken),
+                refreshedAt: now,
+                lastSeenAt: now,
+                ip: getClientIp(req),
+            },
+            $push: { rotatedTokenHashes: { $each: [hash], $slice: -MAX_ROTATED_TOKENS } },
+        },
+        { returnDocument: "after" }
+    );
+    if (session) return { session, refreshToken: nextToken };
+
+    const reused = await collection.findOneAndDelete({ rotatedTokenHashes: hash });
+    if (reused) {
+        console.warn(`Refresh token reuse detected for user ${reused.uid}; revoked session ${reused._id}`);
+        throw new UnauthorizedError("Session has been revoked. Please sign in again.", "REFRESH_TOKEN_REUSED");
+    }
+
+    throw new UnauthorizedError("Invalid or expired refresh token", "INVALID_REFRESH_TOKEN");
+};
+
+export const findSessionByRefreshToken = (db: Db, refreshToken: string): Promise<Session | null> => {
+    return getSessionsCollection(db).findOne({ refreshTokenHash: hashRefreshToken(refreshToken) });
+};
+
+/**
+ * The live session for an access token, or null when it was revoked or has expired.
+ * Also refreshes lastSeenAt for the device list.
+ */
+export const findActiveSession = async (db: Db, sessionId: string, uid: string): Promise<Session | null> => {
+    if (!ObjectId.isValid(sessionId)) return null;
+
+    const session = await getSessionsCollection(db).findOne({
+        _id: new ObjectId(sessionId),
+        uid,
+        expiresAt: { $gt: new Date() },
+    });
+    if (!session) return null;
+
+    const now = new Date();
+    if (now.getTime() - session.lastSeenAt.getTime() > LAST_SEEN_RESOLUTION_MS) {
+        await getSessionsCollection(db).updateOne({ _id: session._id }, { $set: { lastSeenAt: now } });
+        session.lastSeenAt = now;
+    }
+
+    return session;
+};
+
+export const listSessions = (db: Db, uid: string): Promise<Session[]> => {
+    return getSessionsCollection(db)
+        .find({ uid, expiresAt: { $gt: new Date() } }, { projection: { refreshTokenHash: 0, rotatedTokenHashes: 0 } })
+        .sort({ lastSeenAt: -1 })
+        .toArray();
+};
+
+// After enrolling in two-factor authentication the current sign-in counts as verified
+export const markSessionTwoFactorVerified = async (db: Db, sessionId: string): Promise<void> => {
+    if (!ObjectId.isValid(sessionId)) return;
+    await getSessionsCollection(db).updateOne({ _id: new ObjectId(sessionId) }, { $set: { twoFactorVerified: true } });
+};
+
+// Sign one device out. False when the session does not exist or belongs to someone else.
+export const revokeSession = async (db: Db, uid: string, sessionId: string): Promise<boolean> => {
+    if (!ObjectId.isValid(sessionId)) return false;
+    const result = await getSessionsCollection(db).deleteOne({ _id: new ObjectId(sessionId), uid });
+    return result.deletedCount > 0;
+};
+
+// Sign the user out everywhere, e.g. after a suspension or password reset
+export const revokeAllSessions = async (db: Db, uid: string): Promise<number> => {
+    const result = await getSessionsCollection(db).deleteMany({ uid });
+    return result.deletedCount;
+};
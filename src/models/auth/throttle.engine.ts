@@ -0,0 +1,171 @@
+import { Db } from "mongodb";
+import { AuthAttempt, ThrottledAuthAction } from "./auth.model";
+import { TooManyRequestsError } from "../../utils/errors";
+
+const numberFromEnv = (name: string, fallback: number): number => {
+    const value = Number(process.env[name]);
+    return Number.isFinite(value) && process.env[name] !== "" ? value : fallback;
+};
+
+interface ThrottlePolicy {
+    maxPerAccount: number; // Attempts before the account is locked
+    maxPerIp: number; // Attempts before the IP is locked
+    lockoutMinutes: number;
+    windowMinutes: number; // Attempts older than this no longer count
+    freeAttempts: number; // Attempts allowed before delays start
+    maxDelaySeconds: number;
+}
+
+// Tunable through the environment; see .env.example
+export const AUTH_THROTTLE_POLICIES: Record<ThrottledAuthAction, ThrottlePolicy> = {
+    // Failed sign-ins only; a successful one clears the account's count
+    login: {
+        maxPerAccount: numberFromEnv("LOGIN_MAX_ATTEMPTS", 5),
+        maxPerIp: numberFromEnv("LOGIN_MAX_ATTEMPTS_PER_IP", 20),
+        lockoutMinutes: numberFromEnv("LOGIN_LOCKOUT_MINUTES", 15),
+        windowMinutes: numberFromEnv("LOGIN_ATTEMPT_WINDOW_MINUTES", 15),
+        freeAttempts: 2,
+        maxDelaySeconds: 30,
+    },
+    // Wrong codes at the second sign-in step, counted per account (uid) and IP
+    "two-factor": {
+        maxPerAccount: 5,
+        maxPerIp: 20,
+        lockoutMinutes: 15,
+        windowMinutes: 15,
+        freeAttempts: 2,
+        maxDelaySeconds: 30,
+    },
+    // Every request counts, so nobody can flood an inbox with reset emails
+    "forgot-password": {
+        maxPerAccount: numberFromEnv("PASSWORD_RESET_REQUESTS_PER_HOUR", 3),
+        maxPerIp: numberFromEnv("PASSWORD_RESET_REQUESTS_PER_IP_PER_HOUR", 10),
+        lockoutMinutes: 60,
+        windowMinutes: 60,
+        freeAttempts: Infinity,
+        maxDelaySeconds: 0,
+    },
+    // Wrong tokens only, to stop tokens being guessed
+    "reset-password": {
+        maxPerAccount: 5,
+        maxPerIp: 20,
+        lockoutMinutes: 15,
+        windowMinutes: 15,
+        freeAttempts: 2,
+        maxDelaySeconds: 30,
+    },
+    // Verification email resends, every request counted
+    "verify-email": {
+        maxPerAccount: 3,
+        maxPerIp: 10,
+        lockoutMinutes: 60,
+        windowMinutes: 60,
+        freeAttempts: Infinity,
+        maxDelaySeconds: 0,
+    },
+};
+
+export interface ThrottleSubject {
+    account: string; // Normalized email (the uid for two-factor and verify-email)
+    ip: string;
+}
+
+const getAuthAttemptsCollection = (db: Db) => db.collection<AuthAttempt>("authAttempts");
+
+const secondsUntil = (date: Date, now: Date) => Math.max(1, Math.ceil((date.getTime() - now.getTime()) / 1000));
+
+// Wait required after `attempts` failures: 1s, 2s, 4s... once the free attempts are used up
+const delaySeconds = (policy: ThrottlePolicy, attempts: number) => {
+    if (attempts <= policy.freeAttempts) return 0;
+    return Math.min(2 ** (attempts - policy.freeAttempts - 1), policy.maxDelaySeconds);
+};
+
+/**
+ * Refuse the request while the account or IP is locked, or sooner than the progressive
+ * delay allows. Throws a TooManyRequestsError carrying Retry-After.
+ */
+export const assertNotThrottled = async (db: Db, action: ThrottledAuthAction, subject: ThrottleSubject): Promise<void> => {
+    const policy = AUTH_THROTTLE_POLICIES[action];
+    const now = new Date();
+
+    const records = await getAuthAttemptsCollection(db)
+        .find({
+            action,
+            $or: [{ scope: "account", key: subject.account }, { scope: "ip", key: subject.ip }],
+            expiresAt: { $gt: now },
+        })
+        .toArray();
+
+    for (const record of records) {
+        if (record.lockedUntil && record.lockedUntil > now) {
+            if (record.scope === "account") {
+                throw new TooManyRequestsError(
+                    "Too many failed attempts. This account is temporarily locked.",
+                    secondsUntil(record.lockedUntil, now),
+                    "ACCOUNT_LOCKED"
+                );
+            }
+            throw new TooManyRequestsError("Too many attempts. Please try again later.", secondsUntil(record.lockedUntil, now));
+        }
+
+        const readyAt = new Date(record.lastAttemptAt.getTime() + delaySeconds(policy, record.attempts) * 1000);
+        if (readyAt > now) {
+            throw new TooManyRequestsError("Please wait before trying again.", secondsUntil(readyAt, now));
+        }
+    }
+};
+
+/**
+ * Count an attempt for both the account and the IP, locking either once it reaches its
+ * limit. Returns the lock end when this attempt locked the account.
+ */
+export const recordAuthAttempt = async (
+    db: Db,
+    action: ThrottledAuthAction,
+    subject: ThrottleSubject
+): Promise<{ accountLockedUntil?: Date }> => {
+    const policy = AUTH_THROTTLE_POLICIES[action];
+    const now = new Date();
+    const lockUntil = new Date(now.getTime() + policy.lockoutMinutes * 60 * 1000);
+    const windowEnd = new Date(now.getTime() + policy.windowMinutes * 60 * 1000);
+
+    const record = (scope: AuthAttempt["scope"], key: string, max: number) => getAuthAttemptsCollection(db).findOneAndUpdate(
+        { action, scope, key },
+        [
+            // Start counting again once the previous window (or lockout) has passed
+            { $set: { attempts: { $cond: [{ $gt: ["$expiresAt", now] }, { $add: ["$attempts", 1] }, 1] }, lastAttemptAt: now } },
+            {
+                $set: {
+                    lockedUntil: {
+                        $cond: [
+                            { $and: [{ $gte: ["$attempts", max] }, { $not: [{ $gt: ["$lockedUntil", now] }] }] },
+                            lockUntil,
+                            "$lockedUntil",
+                        ],
+                    },
+                },
+            },
+            { $set: { expiresAt: { $max: [windowEnd, "$lockedUntil"] } } },
+        ],
+        { upsert: true, returnDocument: "after" }
+    );
+
+    const [account] = await Promise.all([
+        record("account", subject.account, policy.maxPerAccount),
+        record("ip", subject.ip, policy.maxPerIp),
+    ]);
+
+    const justLocked = account?.lockedUntil?.getTime() === lockUntil.getTime();
+    return justLocked ? { accountLockedUntil: lockUntil } : {};
+};
+
+// Forget the account's attempts after a successful sign-in or reset. IP counts are kept.
+export const clearAuthAttempts = async (db: Db, action: ThrottledAuthAction, account: string): Promise<void> => {
+    await getAuthAttemptsCollection(db).deleteOne({ action, scope: "account", key: account });
+};
+
+// Lift every lock and delay on an account (admin unlock). Returns whether anything was cleared.
+export const unlockAccount = async (db: Db, account: string): Promise<boolean> => {
+    const result = await getAuthAttemptsCollection(db).deleteMany({ scope: "account", key: account });
+    return result.deletedCount > 0;
+};
@@ -0,0 +1,255 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { Db } from "mongodb";
+import { IUser } from "../user/user.model";
+import { getUsersCollection } from "../user/user.store";
+import { BadRequestError, ConflictError, UnauthorizedError } from "../../utils/errors";
+import { resolveSecret } from "../../utils/secrets";
+
+// Require a verified second factor for every permission check (requirePermission, requireAdmin, ...)
+export const ADMIN_2FA_REQUIRED = process.env.ADMIN_2FA_REQUIRED === "true";
+
+// Name shown next to the account in authenticator apps
+const TOTP_ISSUER = process.env.TWO_FACTOR_ISSUER || process.env.SMTP_FROM_NAME || "Your App";
+
+// Secrets are encrypted at rest with a key derived from this
+const ENCRYPTION_KEY = crypto
+    .createHash("sha256")
+    .update(resolveSecret("TWO_FACTOR_ENCRYPTION_KEY", "JWT_SECRET"))
+    .digest();
+
+// Signs the token that links the password step of a sign-in to the code step
+const CHALLENGE_SECRET = resolveSecret("JWT_SECRET");
+const CHALLENGE_TTL = "5m";
+
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Accept codes from one window either side to allow for clock drift
+const TOTP_DRIFT_STEPS = 1;
+const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+const base32Encode = (buffer: Buffer): string => {
+    let bits = 0;
+    let value = 0;
+    let output = "";
+    for (const byte of buffer) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    return output;
+};
+
+const base32Decode = (input: string): Buffer => {
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+    for (const char of input.replace(/=+$/, "").toUpperCase()) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) continue;
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+    return Buffer.from(bytes);
+};
+
+const encryptSecret = (secret: string): string => {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv("aes-256-gcm", ENCRYPTION_KEY, iv);
+    const encrypted = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+    return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString("base64url")).join(".");
+};
+
+const decryptSecret = (stored: string): string => {
+    const [iv, tag, encrypted] = stored.split(".").map((part) => Buffer.from(part, "base64url"));
+    const decipher = crypto.createDecipheriv("aes-256-gcm", ENCRYPTION_KEY, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8");
+};
+
+// RFC 6238 code for one time step
+const totpAt = (secret: string, step: number): string => {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+    const hmac = crypto.createHmac("sha1", base32Decode(secret)).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 0xf;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+    return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, "0");
+};
+
+// The time step the code belongs to, or null when it matches none in the drift window
+const matchTotpStep = (secret: string, code: string): number | null => {
+    const currentStep = Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS);
+    for (let offset = -TOTP_DRIFT_STEPS; offset <= TOTP_DRIFT_STEPS; offset++) {
+        const expected = Buffer.from(totpAt(secret, currentStep + offset));
+        if (crypto.timingSafeEqual(expected, Buffer.from(code))) return currentStep + offset;
+    }
+    return null;
+};
+
+const isTotpCode = (code: string) => new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(code);
+
+// Recovery codes are compared without case or dashes, so "ABCDE-12345" and "abcde12345" match
+const normalizeRecoveryCode = (code: string) => code.toLowerCase().replace(/[^a-z0-9]/g, "");
+const hashRecoveryCode = (code: string) => crypto.createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+
+const generateRecoveryCodes = (): string[] => {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+        const code = base32Encode(crypto.randomBytes(7)).slice(0, 10).toLowerCase();
+        return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+};
+
+const findTwoFactorUser = async (db: Db, uid: string): Promise<IUser> => {
+    const user = await getUsersCollection(db).findOne({ firebaseUid: uid });
+    if (!user) throw new BadRequestError("User profile not found", "USER_NOT_FOUND");
+    return user;
+};
+
+export const isTwoFactorEnabled = (user: Pick<IUser, "twoFactor"> | null | undefined): boolean => Boolean(user?.twoFactor?.enabled);
+
+/**
+ * Check a TOTP code or an unused recovery code. Accepted TOTP windows and recovery
+ * codes are used up, so the same code never works twice.
+ */
+export const verifySecondFactor = async (db: Db, user: IUser, code: string): Promise<boolean> => {
+    const settings = user.twoFactor;
+    if (!settings?.enabled || !settings.secret) return false;
+
+    const candidate = code.replace(/\s+/g, "");
+
+    if (isTotpCode(candidate)) {
+        const step = matchTotpStep(decryptSecret(settings.secret), candidate);
+        if (step === null || step <= (settings.lastUsedStep ?? -1)) return false;
+
+        // Conditional on the previous step so two requests cannot both spend the same code
+        const result = await getUsersCollection(db).updateOne(
+            { _id: user._id, "twoFactor.lastUsedStep": settings.lastUsedStep ?? null },
+            { $set: { "twoFactor.lastUsedStep": step } }
+        );
+        return result.modifiedCount === 1;
+    }
+
+    const result = await getUsersCollection(db).updateOne(
+        { _id: user._id, "twoFactor.recoveryCodeHashes": hashRecoveryCode(candidate) },
+        { $pull: { "twoFactor.recoveryCodeHashes": hashRecoveryCode(candidate) } }
+    );
+    return result.modifiedCount === 1;
+};
+
+// Start enrollment: a fresh secret the user adds to their authenticator app
+export const beginTwoFactorSetup = async (db: Db, uid: string): Promise<{ secret: string; otpauthUrl: string }> => {
+    const user = await findTwoFactorUser(db, uid);
+    if (isTwoFactorEnabled(user)) {
+        throw new ConflictError("Two-factor authentication is already enabled", "TWO_FACTOR_ALREADY_ENABLED");
+    }
+
+    const secret = base32Encode(crypto.randomBytes(20));
+    await getUsersCollection(db).updateOne(
+        { _id: user._id },
+        { $set: { twoFactor: { enabled: false, pendingSecret: encryptSecret(secret), recoveryCodeHashes: [] }, updatedAt: new Date() } }
+    );
+
+    const label = encodeURIComponent(`${TOTP_ISSUER}:${user.email}`);
+    const params = new URLSearchParams({
+        secret,
+        issuer: TOTP_ISSUER,
+        algorithm: "SHA1",
+        digits: String(TOTP_DIGITS),
+        period: String(TOTP_STEP_SECONDS),
+    });
+
+    return { secret, otpauthUrl: `otpauth://totp/${label}?${params.toString()}` };
+};
+
+// Finish enrollment with a first code from the app. Returns the recovery codes, shown only this once.
+export const confirmTwoFactorSetup = async (db: Db, uid: string, code: string): Promise<string[]> => {
+    const user = await findTwoFactorUser(db, uid);
+    const pendingSecret = user.twoFactor?.pendingSecret;
+    if (isTwoFactorEnabled(user)) {
+        throw new ConflictError("Two-factor authentication is already enabled", "TWO_FACTOR_ALREADY_ENABLED");
+    }
+    if (!pendingSecret) {
+        throw new BadRequestError("Start two-factor setup first", "TWO_FACTOR_SETUP_REQUIRED");
+    }
+
+    const candidate = code.replace(/\s+/g, "");
+    const step = isTotpCode(candidate) ? matchTotpStep(decryptSecret(pendingSecret), candidate) : null;
+    if (step === null) {
+        throw new BadRequestError("Invalid verification code", "INVALID_TWO_FACTOR_CODE");
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await getUsersCollection(db).updateOne(
+        { _id: user._id },
+        {
+            $set: {
+                twoFactor: {
+                    enabled: true,
+                    secret: pendingSecret,
+                    recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+                    lastUsedStep: step,
+                    enabledAt: new Date(),
+                },
+                updatedAt: new Date(),
+            },
+        }
+    );
+
+    return recoveryCodes;
+};
+
+// Replace every recovery code, e.g. after most have been used. Requires a current code.
+export const regenerateRecoveryCodes = async (db: Db, uid: string, code: string): Promise<string[]> => {
+    const user = await findTwoFactorUser(db, uid);
+    if (!isTwoFactorEnabled(user)) {
+        throw new BadRequestError("Two-factor authentication is not enabled", "TWO_FACTOR_NOT_ENABLED");
+    }
+    if (!(await verifySecondFactor(db, user, code))) {
+        throw new BadRequestError("Invalid verification code", "INVALID_TWO_FACTOR_CODE");
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await getUsersCollection(db).updateOne(
+        { _id: user._id },
+        { $set: { "twoFactor.recoveryCodeHashes": recoveryCodes.map(hashRecoveryCode), updatedAt: new Date() } }
+    );
+    return recoveryCodes;
+};
+
+export const disableTwoFactor = async (db: Db, uid: string, code: string): Promise<void> => {
+    const user = await findTwoFactorUser(db, uid);
+    if (!isTwoFactorEnabled(user)) {
+        throw new BadRequestError("Two-factor authentication is not enabled", "TWO_FACTOR_NOT_ENABLED");
+    }
+    if (!(await verifySecondFactor(db, user, code))) {
+        throw new BadRequestError("Invalid verification code", "INVALID_TWO_FACTOR_CODE");
+    }
+
+    await getUsersCollection(db).updateOne({ _id: user._id }, { $unset: { twoFactor: "" }, $set: { updatedAt: new Date() } });
+};
+
+// Token proving the password step succeeded; exchanged for a session together with a code
+export const signTwoFactorChallenge = (uid: string): string => {
+    return jwt.sign({ uid, purpose: "two-factor" }, CHALLENGE_SECRET, { expiresIn: CHALLENGE_TTL });
+};
+
+export const verifyTwoFactorChallenge = (token: string): string => {
+    try {
+        const decoded = jwt.verify(token, CHALLENGE_SECRET) as any;
+        if (decoded.purpose === "two-factor" && typeof decoded.uid === "string") return decoded.uid;
+    } catch {
+        // Expired or tampered with; reported below
+    }
+    throw new UnauthorizedError("Sign-in challenge is invalid or has expired. Please sign in again.", "INVALID_TWO_FACTOR_CHALLENGE");
+};
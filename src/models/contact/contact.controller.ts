@@ -1,13 +1,34 @@
-import { Request, Response } from "express";
+import { NextFunction, Request, Response } from "express";
 import { getDB } from "../../config/db";
 import { ObjectId } from "mongodb";
-import { Contact } from "./contact.model";
+import { Contact, ContactReply } from "./contact.model";
+import { EMAIL_BRAND, queueTemplatedEmail } from "../../emailService";
+import { OutboxEmail } from "../emailOutbox/emailOutbox.model";
+import { checkContactRateLimit, getClientIp, isHoneypotFilled, scoreContactSubmission } from "./contact.spam";
+import { QuoteError, createQuote, sendQuoteEmail, toAdminQuote } from "../quotes/quote.engine";
+
+// Replies go out from the app mailbox; answers from the customer reach this address
+const CONTACT_REPLY_TO = process.env.CONTACT_REPLY_TO_EMAIL || process.env.SMTP_FROM_EMAIL || undefined;
+
+const CONTACT_SUCCESS_MESSAGE = "Contact form submitted successfully. We'll get back to you soon!";
+
+// Pretend honeypot submissions worked so bots do not learn they were caught. Runs before
+// validation, whose errors would tell them otherwise.
+export const ignoreHoneypotSubmissions = (req: Request, res: Response, next: NextFunction) => {
+    if (isHoneypotFilled(req.body)) {
+        return res.status(201).json({
+            success: true,
+            message: CONTACT_SUCCESS_MESSAGE
+        });
+    }
+    next();
+};
 
 // Submit a contact form (public endpoint)
 export const createContact = async (req: Request, res: Response) => {
     try {
         const db = getDB();
-        const { name, email, phone, subject, message } = req.body;
+        const { name, email, phone, subject, message, formStartedAt } = req.body;
 
         // Validate required fields
         if (!name || !email || !phone || !subject || !message) {
@@ -34,29 +55,48 @@ export const createContact = async (req: Request, res: Response) => {
             });
         }
 
+        const ip = getClientIp(req);
+        const normalizedEmail = String(email).trim().toLowerCase();
+
+        const retryAfter = await checkContactRateLimit(db, ip, normalizedEmail);
+        if (retryAfter !== null) {
+            res.setHeader("Retry-After", String(retryAfter));
+            return res.status(429).json({
+                success: false,
+                message: "Too many messages submitted. Please try again later."
+            });
+        }
+
+        const spamCheck = scoreContactSubmission({ subject, message, formStartedAt });
+
         const contact: Contact = {
             name,
-            email,
+            email: normalizedEmail,
             phone,
             subject,
             message,
-            status: "new",
+            status: spamCheck.isSpam ? "spam" : "new",
+            spam: { score: spamCheck.score, reasons: spamCheck.reasons },
+            submission: {
+                ip,
+                userAgent: req.headers["user-agent"]
+            },
             createdAt: new Date()
         };
 
         const result = await db.collection("contacts").insertOne(contact);
 
+        // Flagged messages are kept for review but the sender sees the usual response
         return res.status(201).json({
             success: true,
-            message: "Contact form submitted successfully. We'll get back to you soon!",
-            data: { ...contact, _id: result.insertedId }
+            message: CONTACT_SUCCESS_MESSAGE,
+            data: { _id: result.insertedId, name, email: normalizedEmail, phone, subject, message, createdAt: contact.createdAt }
         });
     } catch (error) {
         console.error("Create contact error:", error);
         return res.status(500).json({
             success: false,
             message: "Failed to submit contact form",
-            error: error instanceof Error ? error.message : "Unknown error"
         });
     }
 };
@@ -67,6 +107,7 @@ export const getAllContacts = async (req: Request, res: Response) => {
         const db = getDB();
         const {
             status,
+            includeSpam,
             startDate,
             endDate,
             limit,
@@ -78,8 +119,11 @@ export const getAllContacts = async (req: Request, res: Response) => {
         // Build filter object
         const filter: any = {};
 
+        // Spam is only listed when asked for
         if (status) {
             filter.status = status;
+        } else if (includeSpam !== "true") {
+            filter.status = { $ne: "spam" };
         }
 
         // Date range filter
@@ -111,6 +155,7 @@ export const getAllContacts = async (req: Request, res: Response) => {
         const readCount = await db.collection("contacts").countDocuments({ status: "read" });
         const repliedCount = await db.collection("contacts").countDocuments({ status: "replied" });
         const archivedCount = await db.collection("contacts").countDocuments({ status: "archived" });
+        const spamCount = await db.collection("contacts").countDocuments({ status: "spam" });
 
         return res.status(200).json({
             success: true,
@@ -120,7 +165,8 @@ export const getAllContacts = async (req: Request, res: Response) => {
                 new: newCount,
                 read: readCount,
                 replied: repliedCount,
-                archived: archivedCount
+                archived: archivedCount,
+                spam: spamCount
             },
             data: contacts,
             pagination: {
@@ -176,6 +222,25 @@ export const getContactById = async (req: Request, res: Response) => {
             contact.readAt = new Date();
         }
 
+        // Show each reply in the thread with its delivery status
+        const replies: ContactReply[] = contact.replies || [];
+        const emailIds = replies.map((reply) => reply.emailId).filter(Boolean) as ObjectId[];
+        const emails = emailIds.length > 0
+            ? await db.collection<OutboxEmail>("email_outbox")
+                .find({ _id: { $in: emailIds } }, { projection: { status: 1, sentAt: 1, lastError: 1 } })
+                .toArray()
+            : [];
+
+        contact.replies = replies.map((reply) => {
+            const email = emails.find((item) => item._id.equals(reply.emailId!));
+            return {
+                ...reply,
+                delivery: email
+                    ? { status: email.status, sentAt: email.sentAt, lastError: email.lastError }
+                    : undefined
+            };
+        });
+
         return res.status(200).json({
             success: true,
             data: contact
@@ -204,11 +269,11 @@ export const updateContactStatus = async (req: Request, res: Response) => {
             });
         }
 
-        const validStatuses = ["new", "read", "replied", "archived"];
+        const validStatuses = ["new", "read", "replied", "archived", "spam"];
         if (!status || !validStatuses.includes(status)) {
             return res.status(400).json({
                 success: false,
-                message: "Invalid status. Must be one of: new, read, replied, archived"
+                message: "Invalid status. Must be one of: new, read, replied, archived, spam"
             });
         }
 
@@ -250,6 +315,184 @@ export const updateContactStatus = async (req: Request, res: Response) => {
     }
 };
 
+// Reply to a contact inquiry by email and add the reply to its thread (admin only)
+export const createContactReply = async (req: Request, res: Response) => {
+    try {
+        const db = getDB();
+        const { id } = req.params;
+        const contactId = id as string;
+        const { body, subject } = req.body;
+
+        if (!ObjectId.isValid(contactId)) {
+            return res.status(400).json({
+                success: false,
+                message: "Invalid contact ID"
+            });
+        }
+
+        if (!body || typeof body !== "string" || !body.trim()) {
+            return res.status(400).json({
+                success: false,
+                message: "Reply body is required"
+            });
+        }
+
+        const contact = await db.collection<Contact>("contacts").findOne({ _id: new ObjectId(contactId) });
+
+        if (!contact) {
+            return res.status(404).json({
+                success: false,
+                message: "Contact not found"
+            });
+        }
+
+        const replySubject = (typeof subject === "string" && subject.trim()) || `Re: ${contact.subject}`;
+        const email = await queueTemplatedEmail("contact-reply", contact.email, {
+            brand: { ...EMAIL_BRAND, footer: "You can reply to this email to continue the conversation." },
+            name: contact.name,
+            replySubject,
+            body: body.trim(),
+            receivedAt: contact.createdAt.toISOString().slice(0, 10),
+            message: contact.message
+        }, { replyTo: CONTACT_REPLY_TO });
+
+        const user = req.user;
+        const now = new Date();
+        const reply: ContactReply = {
+            _id: new ObjectId(),
+            author: {
+                uid: user?.uid || user?.user_id || user?._id?.toString(),
+                name: user?.name || user?.displayName,
+                email: user?.email
+            },
+            subject: replySubject,
+            body: body.trim(),
+            emailId: email._id,
+            sentAt: now
+        };
+
+        const updatedContact = await db.collection<Contact>("contacts").findOneAndUpdate(
+            { _id: contact._id },
+            {
+                $push: { replies: reply },
+                $set: {
+                    status: "replied",
+                    repliedAt: now,
+                    readAt: contact.readAt || now
+                }
+            },
+            { returnDocument: "after" }
+        );
+
+        return res.status(201).json({
+            success: true,
+            message: "Reply sent successfully",
+            data: {
+                reply,
+                contact: updatedContact
+            }
+        });
+    } catch (error) {
+        console.error("Create contact reply error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to send reply",
+        });
+    }
+};
+
+// Convert a contact inquiry into a draft quote (admin only)
+export const convertContactToQuote = async (req: Request, res: Response) => {
+    try {
+        const db = getDB();
+        const { id } = req.params;
+        const contactId = id as string;
+        const { items, currency, discount, validUntil, validDays, terms, notes, customer, planId, categoryId, send } = req.body;
+
+        if (!ObjectId.isValid(contactId)) {
+            return res.status(400).json({
+                success: false,
+                message: "Invalid contact ID"
+            });
+        }
+
+        const contact = await db.collection<Contact>("contacts").findOne({ _id: new ObjectId(contactId) });
+
+        if (!contact) {
+            return res.status(404).json({
+                success: false,
+                message: "Contact not found"
+            });
+        }
+
+        if (contact.status === "spam") {
+            return res.status(400).json({
+                success: false,
+                message: "Inquiries marked as spam cannot be converted"
+            });
+        }
+
+        const user = req.user;
+        let quote;
+        try {
+            quote = await createQuote(db, {
+                // The inquiry provides the customer; the admin may add address details used for tax
+                customer: {
+                    name: contact.name,
+                    email: contact.email,
+                    phone: contact.phone,
+                    ...(customer && typeof customer === "object" ? customer : {})
+                },
+                items,
+                currency,
+                discount,
+                validUntil,
+                validDays,
+                terms,
+                notes,
+                contactId: contact._id,
+                planId,
+                categoryId
+            }, {
+                uid: user?.uid || user?.user_id || user?._id?.toString(),
+                name: user?.name || user?.displayName
+            });
+        } catch (quoteError) {
+            if (quoteError instanceof QuoteError) {
+                return res.status(quoteError.statusCode).json({
+                    success: false,
+                    message: quoteError.message
+                });
+            }
+            throw quoteError;
+        }
+
+        if (send !== false) {
+            quote = await sendQuoteEmail(db, quote);
+        }
+
+        await db.collection<Contact>("contacts").updateOne(
+            { _id: contact._id },
+            {
+                $addToSet: { quoteIds: quote._id! },
+                $set: { readAt: contact.readAt || new Date(), ...(contact.status === "new" ? { status: "read" as const } : {}) }
+            }
+        );
+
+        return res.status(201).json({
+            success: true,
+            message: send !== false ? "Quote created and sent to the customer" : "Draft quote created",
+            data: toAdminQuote(quote)
+        });
+    } catch (error) {
+        console.error("Convert contact to quote error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to create quote",
+        });
+    }
+};
+
 // Delete a contact (admin only)
 export const deleteContact = async (req: Request, res: Response) => {
     try {
@@ -321,7 +564,6 @@ export const deleteMultipleContacts = async (req: Request, res: Response) => {
         return res.status(500).json({
             success: false,
             message: "Failed to delete contacts",
-            error: error instanceof Error ? error.message : "Unknown error"
         });
     }
 };
@@ -331,16 +573,19 @@ export const getContactStats = async (req: Request, res: Response) => {
     try {
         const db = getDB();
 
-        const totalContacts = await db.collection("contacts").countDocuments();
+        // Totals leave out messages flagged as spam
+        const totalContacts = await db.collection("contacts").countDocuments({ status: { $ne: "spam" } });
         const newContacts = await db.collection("contacts").countDocuments({ status: "new" });
         const readContacts = await db.collection("contacts").countDocuments({ status: "read" });
         const repliedContacts = await db.collection("contacts").countDocuments({ status: "replied" });
         const archivedContacts = await db.collection("contacts").countDocuments({ status: "archived" });
+        const spamContacts = await db.collection("contacts").countDocuments({ status: "spam" });
 
         // Get contacts from last 30 days
         const thirtyDaysAgo = new Date();
         thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
         const recentContacts = await db.collection("contacts").countDocuments({
+            status: { $ne: "spam" },
             createdAt: { $gte: thirtyDaysAgo }
         });
 
@@ -352,7 +597,8 @@ export const getContactStats = async (req: Request, res: Response) => {
                     new: newContacts,
                     read: readContacts,
                     replied: repliedContacts,
-                    archived: archivedContacts
+                    archived: archivedContacts,
+                    spam: spamContacts
                 },
                 last30Days: recentContacts
             }
@@ -1,5 +1,18 @@
 import { ObjectId } from "mongodb";
 
+export interface ContactReply {
+    _id: ObjectId;
+    author: {
+        uid?: string;
+        name?: string;
+        email?: string;
+    };
+    subject: string;
+    body: string;
+    emailId?: ObjectId; // Outbox message that delivers the reply
+    sentAt: Date;
+}
+
 export interface Contact {
     _id?: ObjectId;
     name: string;
@@ -7,8 +20,18 @@ export interface Contact {
     phone: string;
     subject: string;
     message: string;
-    status: "new" | "read" | "replied" | "archived";
+    status: "new" | "read" | "replied" | "archived" | "spam";
+    spam?: {
+        score: number;
+        reasons: string[];
+    };
+    submission?: {
+        ip: string;
+        userAgent?: string;
+    };
     createdAt: Date;
     readAt?: Date;
     repliedAt?: Date;
+    replies?: ContactReply[]; // Admin replies, oldest first
+    quoteIds?: ObjectId[]; // Quotes prepared for this inquiry
 }
@@ -4,23 +4,37 @@ import {
     getAllContacts,
     getContactById,
     updateContactStatus,
+    createContactReply,
+    convertContactToQuote,
     deleteContact,
     deleteMultipleContacts,
-    getContactStats
+    getContactStats,
+    ignoreHoneypotSubmissions
 } from "./contact.controller";
-import { verifyToken, requireAdmin } from "../../middlewares/auth.middleware";
+import { verifyToken, requirePermission } from "../../middlewares/auth.middleware";
+import { validate } from "../../middlewares/validate.middleware";
+import {
+    contactParams,
+    contactReplySchema,
+    contactSchema,
+    contactStatusSchema,
+    convertContactSchema,
+    deleteContactsSchema
+} from "./contact.schema";
 
 const router = express.Router();
 
 // Public route - Submit contact form
-router.post("/", createContact);
+router.post("/", ignoreHoneypotSubmissions, validate({ body: contactSchema }), createContact);
 
-// Admin-only routes
-router.get("/", verifyToken, requireAdmin, getAllContacts);
-router.get("/stats", verifyToken, requireAdmin, getContactStats);
-router.get("/:id", verifyToken, requireAdmin, getContactById);
-router.patch("/:id/status", verifyToken, requireAdmin, updateContactStatus);
-router.delete("/:id", verifyToken, requireAdmin, deleteContact);
-router.post("/delete-multiple", verifyToken, requireAdmin, deleteMultipleContacts);
+// Staff routes
+router.get("/", verifyToken, requirePermission("contacts:read"), getAllContacts);
+router.get("/stats", verifyToken, requirePermission("contacts:read"), getContactStats);
+router.get("/:id", verifyToken, requirePermission("contacts:read"), getContactById);
+router.patch("/:id/status", verifyToken, requirePermission("contacts:write"), validate({ params: contactParams, body: contactStatusSchema }), updateContactStatus);
+router.post("/:id/replies", verifyToken, requirePermission("contacts:write"), validate({ params: contactParams, body: contactReplySchema }), createContactReply);
+router.post("/:id/convert", verifyToken, requirePermission("contacts:write", "quotes:write"), validate({ params: contactParams, body: convertContactSchema }), convertContactToQuote);
+router.delete("/:id", verifyToken, requirePermission("contacts:write"), deleteContact);
+router.post("/delete-multiple", verifyToken, requirePermission("contacts:write"), validate({ body: deleteContactsSchema }), deleteMultipleContacts);
 
 export default router;
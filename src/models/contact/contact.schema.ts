@@ -0,0 +1,45 @@
+import { Schema, s } from "../../utils/schema";
+import { Contact } from "./contact.model";
+import { quoteCustomerSchema, quoteTerms } from "../quotes/quote.schema";
+
+const CONTACT_STATUSES: Contact["status"][] = ["new", "read", "replied", "archived", "spam"];
+
+// When the client rendered the form, as ms since epoch or an ISO string; only used for spam scoring
+const formStartedAt = new Schema<number | string | undefined>((value, path, issues) => {
+  if (value === undefined || value === null || value === "") return undefined;
+  if (typeof value !== "number" && typeof value !== "string") {
+    issues.push({ path, message: "must be a timestamp or a date" });
+  }
+  return value as number | string;
+});
+
+// Public form: fields the form may add, including the empty honeypot, are dropped.
+// Filled honeypots never get here (see ignoreHoneypotSubmissions).
+export const contactSchema = s.object({
+  name: s.string({ min: 1, max: 200 }),
+  email: s.email(),
+  phone: s.string({ min: 10, max: 30 }),
+  subject: s.string({ min: 1, max: 300 }),
+  message: s.string({ min: 1, max: 10000 }),
+  formStartedAt,
+}).strip();
+
+export const contactStatusSchema = s.object({ status: s.enum(CONTACT_STATUSES) });
+
+export const contactReplySchema = s.object({
+  subject: s.string({ min: 1, max: 300 }).optional(),
+  body: s.string({ min: 1, max: 20000 }),
+});
+
+// The inquiry provides the customer; the admin may add address details used for tax
+export const convertContactSchema = s.object({
+  customer: quoteCustomerSchema.partial().optional(),
+  ...quoteTerms,
+  planId: s.string({ min: 1, max: 100 }).optional(),
+  categoryId: s.string({ min: 1, max: 100 }).optional(),
+  send: s.boolean().optional(),
+});
+
+export const deleteContactsSchema = s.object({ ids: s.array(s.objectId(), { min: 1, max: 500 }) });
+
+export const contactParams = s.object({ id: s.objectId() });
@@ -0,0 +1,116 @@
+import { Request } from "express";
+import { Db } from "mongodb";
+import { Contact } from "./contact.model";
+
+const numberFromEnv = (name: string, fallback: number): number => {
+    const value = Number(process.env[name]);
+    return Number.isFinite(value) && process.env[name] !== "" ? value : fallback;
+};
+
+// Tunable through the environment; see .env.example
+export const CONTACT_SPAM_CONFIG = {
+    rateWindowMinutes: numberFromEnv("CONTACT_RATE_WINDOW_MINUTES", 60),
+    maxPerIp: numberFromEnv("CONTACT_RATE_LIMIT_PER_IP", 5),
+    maxPerEmail: numberFromEnv("CONTACT_RATE_LIMIT_PER_EMAIL", 3),
+    honeypotField: process.env.CONTACT_HONEYPOT_FIELD || "website",
+    minSubmitSeconds: numberFromEnv("CONTACT_MIN_SUBMIT_SECONDS", 3),
+    maxLinks: numberFromEnv("CONTACT_MAX_LINKS", 2),
+    keywords: (process.env.CONTACT_SPAM_KEYWORDS || "viagra,casino,crypto,bitcoin,seo services,backlinks,loan,forex,porn")
+        .split(",")
+        .map((keyword) => keyword.trim().toLowerCase())
+        .filter(Boolean),
+    threshold: numberFromEnv("CONTACT_SPAM_THRESHOLD", 5)
+};
+
+// Points added to the spam score per signal
+const SCORES = {
+    tooFast: 3,
+    keyword: 2,
+    tooManyLinks: 3
+};
+
+export interface SpamCheck {
+    score: number;
+    reasons: string[];
+    isSpam: boolean;
+}
+
+// Client address. X-Forwarded-For is only honoured for the proxies trusted through
+// `trust proxy` (see TRUST_PROXY in src/index.ts); clients can write anything into it.
+export const getClientIp = (req: Request): string => {
+    return req.ip || req.socket?.remoteAddress || "unknown";
+};
+
+// Bots fill every field, including the one hidden from people
+export const isHoneypotFilled = (body: any): boolean => {
+    const value = body?.[CONTACT_SPAM_CONFIG.honeypotField];
+    return typeof value === "string" ? value.trim().length > 0 : Boolean(value);
+};
+
+/**
+ * Check the per-IP and per-email submission limits. Returns the number of seconds
+ * to wait when a limit is hit, or null when the submission may proceed.
+ */
+export const checkContactRateLimit = async (db: Db, ip: string, email: string): Promise<number | null> => {
+    const { rateWindowMinutes, maxPerIp, maxPerEmail } = CONTACT_SPAM_CONFIG;
+    const windowStart = new Date(Date.now() - rateWindowMinutes * 60 * 1000);
+    const contacts = db.collection<Contact>("contacts");
+
+    const checks: { filter: any; limit: number }[] = [
+        { filter: { "submission.ip": ip }, limit: maxPerIp },
+        { filter: { email: email.toLowerCase() }, limit: maxPerEmail }
+    ];
+
+    for (const { filter, limit } of checks) {
+        if (limit <= 0) continue;
+
+        const recent = await contacts
+            .find({ ...filter, createdAt: { $gte: windowStart } }, { projection: { createdAt: 1 } })
+            .sort({ createdAt: 1 })
+            .limit(limit)
+            .toArray();
+
+        if (recent.length >= limit) {
+            // The window frees up when the oldest counted submission expires
+            const retryAt = recent[0].createdAt.getTime() + rateWindowMinutes * 60 * 1000;
+            return Math.max(Math.ceil((retryAt - Date.now()) / 1000), 1);
+        }
+    }
+
+    return null;
+};
+
+/**
+ * Score a submission with the time-to-submit, keyword and link heuristics.
+ * `formStartedAt` is the time (ms since epoch or ISO string) the client rendered the form.
+ */
+export const scoreContactSubmission = (input: { subject: string; message: string; formStartedAt?: unknown }): SpamCheck => {
+    const reasons: string[] = [];
+    let score = 0;
+
+    if (input.formStartedAt !== undefined && input.formStartedAt !== null && input.formStartedAt !== "") {
+        const startedAt = new Date(isNaN(Number(input.formStartedAt)) ? String(input.formStartedAt) : Number(input.formStartedAt));
+        const seconds = (Date.now() - startedAt.getTime()) / 1000;
+        if (!isNaN(seconds) && seconds < CONTACT_SPAM_CONFIG.minSubmitSeconds) {
+            score += SCORES.tooFast;
+            reasons.push(`Submitted ${Math.max(seconds, 0).toFixed(1)}s after the form was shown`);
+        }
+    }
+
+    const text = `${input.subject} ${input.message}`.toLowerCase();
+
+    for (const keyword of CONTACT_SPAM_CONFIG.keywords) {
+        if (text.includes(keyword)) {
+            score += SCORES.keyword;
+            reasons.push(`Contains "${keyword}"`);
+        }
+    }
+
+    const links = (text.match(/https?:\/\/|www\./g) || []).length;
+    if (links > CONTACT_SPAM_CONFIG.maxLinks) {
+        score += SCORES.tooManyLinks;
+        reasons.push(`Contains ${links} links`);
+    }
+
+    return { score, reasons, isSpam: score >= CONTACT_SPAM_CONFIG.threshold };
+};
@@ -0,0 +1,380 @@
+import { Request, Response } from "express";
+import { ObjectId } from "mongodb";
+import { getDB } from "../../config/db";
+import { Coupon } from "./coupon.model";
+import { CouponError, findCouponByCode, normalizeCouponCode } from "./coupon.engine";
+import { OrderPricingError, calculateOrderPricing } from "../order/order.pricing";
+import { resolveTaxLocation } from "../tax/tax.engine";
+
+// Fields an admin may set on a coupon
+const EDITABLE_FIELDS = [
+    "code",
+    "description",
+    "type",
+    "value",
+    "currency",
+    "minimumOrderAmount",
+    "startsAt",
+    "expiresAt",
+    "usageLimit",
+    "usageLimitPerCustomer",
+    "restrictions",
+    "isActive"
+] as const;
+
+// Validate and normalize coupon fields from the request body.
+// Returns an error message, or the cleaned fields.
+const parseCouponInput = (body: any, isUpdate: boolean): { error?: string; data?: Partial<Coupon> } => {
+    const data: any = {};
+    for (const field of EDITABLE_FIELDS) {
+        if (body[field] !== undefined) data[field] = body[field];
+    }
+
+    if (!isUpdate && (!data.code || !data.type || data.value === undefined)) {
+        return { error: "Required fields missing: code, type and value" };
+    }
+
+    if (data.code !== undefined) {
+        data.code = normalizeCouponCode(data.code);
+        if (!/^[A-Z0-9_-]{3,32}$/.test(data.code)) {
+            return { error: "Coupon code must be 3-32 characters: letters, numbers, dashes or underscores" };
+        }
+    }
+
+    if (data.type !== undefined && !["percentage", "fixed"].includes(data.type)) {
+        return { error: "Invalid coupon type. Must be one of: percentage, fixed" };
+    }
+
+    if (data.value !== undefined) {
+        data.value = Number(data.value);
+        if (!Number.isFinite(data.value) || data.value <= 0) {
+            return { error: "Coupon value must be greater than 0" };
+        }
+        if (data.type === "percentage" && data.value > 100) {
+            return { error: "Percentage coupons cannot exceed 100" };
+        }
+    }
+
+    if (data.type === "fixed" && !data.currency && !isUpdate) {
+        return { error: "Currency is required for fixed-amount coupons" };
+    }
+    if (data.currency !== undefined) {
+        data.currency = String(data.currency).toUpperCase();
+    }
+
+    if (data.minimumOrderAmount !== undefined) {
+        if (typeof data.minimumOrderAmount !== "object" || data.minimumOrderAmount === null) {
+            return { error: "minimumOrderAmount must be an object keyed by currency, e.g. { \"USD\": 100 }" };
+        }
+        const minimums: Record<string, number> = {};
+        for (const [currency, amount] of Object.entries(data.minimumOrderAmount)) {
+            if (!Number.isFinite(Number(amount)) || Number(amount) < 0) {
+                return { error: `Invalid minimum order amount for ${currency}` };
+            }
+            minimums[currency.toUpperCase()] = Number(amount);
+        }
+        data.minimumOrderAmount = minimums;
+    }
+
+    for (const field of ["startsAt", "expiresAt"]) {
+        if (data[field] !== undefined && data[field] !== null) {
+            const date = new Date(data[field]);
+            if (isNaN(date.getTime())) {
+                return { error: `Invalid date for ${field}` };
+            }
+            data[field] = date;
+        }
+    }
+
+    for (const field of ["usageLimit", "usageLimitPerCustomer"]) {
+        if (data[field] !== undefined && data[field] !== null) {
+            const limit = Number(data[field]);
+            if (!Number.isInteger(limit) || limit < 1) {
+                return { error: `${field} must be a positive whole number` };
+            }
+            data[field] = limit;
+        }
+    }
+
+    if (data.restrictions !== undefined) {
+        const { serviceCategories, pricingPlans } = data.restrictions || {};
+        if ((serviceCategories && !Array.isArray(serviceCategories)) || (pricingPlans && !Array.isArray(pricingPlans))) {
+            return { error: "restrictions.serviceCategories and restrictions.pricingPlans must be arrays" };
+        }
+        data.restrictions = {
+            serviceCategories: serviceCategories || [],
+            pricingPlans: pricingPlans || []
+        };
+    }
+
+    if (data.isActive !== undefined) {
+        data.isActive = Boolean(data.isActive);
+    }
+
+    return { data };
+};
+
+// Create a coupon (admin only)
+export const createCoupon = async (req: Request, res: Response) => {
+    try {
+        const { error, data } = parseCouponInput(req.body, false);
+        if (error) {
+            return res.status(400).json({ success: false, message: error });
+        }
+
+        const db = getDB();
+        const existing = await db.collection("coupons").findOne({ code: data!.code });
+        if (existing) {
+            return res.status(409).json({
+                success: false,
+                message: `Coupon with code "${data!.code}" already exists`
+            });
+        }
+
+        const coupon: Coupon = {
+            ...(data as Coupon),
+            usageCount: 0,
+            isActive: data!.isActive !== undefined ? data!.isActive : true,
+            createdAt: new Date()
+        };
+
+        const result = await db.collection("coupons").insertOne(coupon);
+
+        return res.status(201).json({
+            success: true,
+            message: "Coupon created successfully",
+            data: { ...coupon, _id: result.insertedId }
+        });
+    } catch (error) {
+        console.error("Create coupon error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to create coupon",
+        });
+    }
+};
+
+// Get all coupons (admin only)
+export const getAllCoupons = async (req: Request, res: Response) => {
+    try {
+        const db = getDB();
+        const { isActive, search, limit, skip } = req.query;
+
+        const filter: any = {};
+        if (isActive !== undefined) {
+            filter.isActive = isActive === "true";
+        }
+        if (search) {
+            filter.code = { $regex: normalizeCouponCode(search as string), $options: "i" };
+        }
+
+        let query = db.collection("coupons").find(filter).sort({ createdAt: -1 });
+        if (skip) query = query.skip(Number(skip));
+        if (limit) query = query.limit(Number(limit));
+
+        const coupons = await query.toArray();
+        const totalCount = await db.collection("coupons").countDocuments(filter);
+
+        return res.status(200).json({
+            success: true,
+            count: coupons.length,
+            totalCount,
+            data: coupons
+        });
+    } catch (error) {
+        console.error("Get all coupons error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to get coupons"
+        });
+    }
+};
+
+// Get a coupon by ID (admin only)
+export const getCouponById = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+
+        if (!ObjectId.isValid(id as string)) {
+            return res.status(400).json({ success: false, message: "Invalid coupon ID" });
+        }
+
+        const db = getDB();
+        const coupon = await db.collection("coupons").findOne({ _id: new ObjectId(id as string) });
+
+        if (!coupon) {
+            return res.status(404).json({ success: false, message: "Coupon not found" });
+        }
+
+        return res.status(200).json({ success: true, data: coupon });
+    } catch (error) {
+        console.error("Get coupon by ID error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to get coupon"
+        });
+    }
+};
+
+// Update a coupon (admin only)
+export const updateCoupon = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+
+        if (!ObjectId.isValid(id as string)) {
+            return res.status(400).json({ success: false, message: "Invalid coupon ID" });
+        }
+
+        const { error, data } = parseCouponInput(req.body, true);
+        if (error) {
+            return res.status(400).json({ success: false, message: error });
+        }
+
+        const db = getDB();
+        const existing = await db.collection<Coupon>("coupons").findOne({ _id: new ObjectId(id as string) });
+        if (!existing) {
+            return res.status(404).json({ success: false, message: "Coupon not found" });
+        }
+
+        const merged = { ...existing, ...data };
+        if (merged.type === "percentage" && merged.value > 100) {
+            return res.status(400).json({ success: false, message: "Percentage coupons cannot exceed 100" });
+        }
+        if (merged.type === "fixed" && !merged.currency) {
+            return res.status(400).json({ success: false, message: "Currency is required for fixed-amount coupons" });
+        }
+
+        if (data!.code && data!.code !== existing.code) {
+            const duplicate = await db.collection("coupons").findOne({ code: data!.code });
+            if (duplicate) {
+                return res.status(409).json({
+                    success: false,
+                    message: `Coupon with code "${data!.code}" already exists`
+                });
+            }
+        }
+
+        await db.collection("coupons").updateOne(
+            { _id: existing._id },
+            { $set: { ...data, updatedAt: new Date() } }
+        );
+
+        const updatedCoupon = await db.collection("coupons").findOne({ _id: existing._id });
+
+        return res.status(200).json({
+            success: true,
+            message: "Coupon updated successfully",
+            data: updatedCoupon
+        });
+    } catch (error) {
+        console.error("Update coupon error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to update coupon",
+        });
+    }
+};
+
+// Delete a coupon (admin only)
+export const deleteCoupon = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+
+        if (!ObjectId.isValid(id as string)) {
+            return res.status(400).json({ success: false, message: "Invalid coupon ID" });
+        }
+
+        const db = getDB();
+        const result = await db.collection("coupons").deleteOne({ _id: new ObjectId(id as string) });
+
+        if (result.deletedCount === 0) {
+            return res.status(404).json({ success: false, message: "Coupon not found" });
+        }
+
+        return res.status(200).json({
+            success: true,
+            message: "Coupon deleted successfully"
+        });
+    } catch (error) {
+        console.error("Delete coupon error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to delete coupon"
+        });
+    }
+};
+
+// Get redemption history of a coupon (admin only)
+export const getCouponRedemptions = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+
+        if (!ObjectId.isValid(id as string)) {
+            return res.status(400).json({ success: false, message: "Invalid coupon ID" });
+        }
+
+        const db = getDB();
+        const redemptions = await db.collection("couponRedemptions")
+            .find({ couponId: new ObjectId(id as string) })
+            .sort({ updatedAt: -1 })
+            .toArray();
+
+        return res.status(200).json({
+            success: true,
+            count: redemptions.length,
+            data: redemptions
+        });
+    } catch (error) {
+        console.error("Get coupon redemptions error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to get coupon redemptions"
+        });
+    }
+};
+
+// Preview the discount a coupon gives for a cart (authenticated users)
+export const validateCoupon = async (req: Request, res: Response) => {
+    try {
+        const { code, items, currency, email, customer } = req.body;
+
+        if (!code || !Array.isArray(items) || items.length === 0) {
+            return res.status(400).json({
+                success: false,
+                message: "Coupon code and at least one item are required"
+            });
+        }
+
+        const db = getDB();
+        const coupon = await findCouponByCode(db, code);
+        const { pricing, coupon: applied } = await calculateOrderPricing(db, items, currency, {
+            coupon,
+            customerEmail: email || customer?.email,
+            taxLocation: customer ? resolveTaxLocation(customer) : undefined
+        });
+
+        return res.status(200).json({
+            success: true,
+            message: "Coupon applied",
+            data: {
+                code: applied!.code,
+                type: applied!.type,
+                value: applied!.value,
+                discount: applied!.discount,
+                pricing
+            }
+        });
+    } catch (error) {
+        if (error instanceof CouponError || error instanceof OrderPricingError) {
+            return res.status(error.statusCode).json({
+                success: false,
+                message: error.message
+            });
+        }
+        console.error("Validate coupon error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to validate coupon"
+        });
+    }
+};
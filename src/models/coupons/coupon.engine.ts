@@ -0,0 +1,192 @@
+import { Db, ObjectId } from "mongodb";
+import { OrderItem } from "../order/order.model";
+import { AppliedCoupon, Coupon, CouponRedemption } from "./coupon.model";
+import { AppError } from "../../utils/errors";
+
+export class CouponError extends AppError {
+    constructor(message: string, statusCode = 400) {
+        super(message, statusCode);
+        this.name = "CouponError";
+    }
+}
+
+export const normalizeCouponCode = (code: string): string => String(code).trim().toUpperCase();
+
+const normalizeEmail = (email: string): string => String(email).trim().toLowerCase();
+
+const roundAmount = (value: number): number => Math.round(value * 100) / 100;
+
+export const findCouponByCode = async (db: Db, code: string): Promise<Coupon> => {
+    const coupon = await db.collection<Coupon>("coupons").findOne({ code: normalizeCouponCode(code) });
+    if (!coupon) {
+        throw new CouponError("Coupon code not found", 404);
+    }
+    return coupon;
+};
+
+// Whether a coupon's category/plan restrictions allow it to discount the given item
+const isItemEligible = (coupon: Coupon, item: OrderItem): boolean => {
+    const { serviceCategories, pricingPlans } = coupon.restrictions || {};
+    const hasCategoryRule = Array.isArray(serviceCategories) && serviceCategories.length > 0;
+    const hasPlanRule = Array.isArray(pricingPlans) && pricingPlans.length > 0;
+
+    if (!hasCategoryRule && !hasPlanRule) return true;
+
+    if (hasCategoryRule && item.serviceCategory && serviceCategories!.includes(item.serviceCategory)) {
+        return true;
+    }
+
+    if (hasPlanRule && item.planId) {
+        return pricingPlans!.includes(item.planId) || pricingPlans!.includes(`${item.categoryId}:${item.planId}`);
+    }
+
+    return false;
+};
+
+/**
+ * Check that a coupon can be used for the given items and customer, and work out the discount.
+ * Usage limits are checked here for a friendly error; `reserveCouponRedemption` enforces them atomically.
+ */
+export const evaluateCoupon = async (
+    db: Db,
+    coupon: Coupon,
+    items: OrderItem[],
+    currency: string,
+    customerEmail?: string
+): Promise<AppliedCoupon> => {
+    const now = new Date();
+
+    if (!coupon.isActive) {
+        throw new CouponError("Coupon is not active");
+    }
+    if (coupon.startsAt && new Date(coupon.startsAt) > now) {
+        throw new CouponError("Coupon is not valid yet");
+    }
+    if (coupon.expiresAt && new Date(coupon.expiresAt) <= now) {
+        throw new CouponError("Coupon has expired");
+    }
+    if (coupon.usageLimit !== undefined && coupon.usageLimit !== null && coupon.usageCount >= coupon.usageLimit) {
+        throw new CouponError("Coupon usage limit has been reached");
+    }
+
+    if (customerEmail && coupon.usageLimitPerCustomer) {
+        const usage = await db.collection<CouponRedemption>("couponRedemptions").findOne({
+            couponId: coupon._id!,
+            email: normalizeEmail(customerEmail)
+        });
+        if (usage && usage.count >= coupon.usageLimitPerCustomer) {
+            throw new CouponError("You have already used this coupon the maximum number of times");
+        }
+    }
+
+    const subtotal = items.reduce((sum, item) => sum + item.totalPrice, 0);
+    const minimum = coupon.minimumOrderAmount?.[currency];
+    if (minimum && subtotal < minimum) {
+        throw new CouponError(`Coupon requires a minimum order of ${minimum} ${currency}`);
+    }
+
+    const eligibleSubtotal = items
+        .filter((item) => isItemEligible(coupon, item))
+        .reduce((sum, item) => sum + item.totalPrice, 0);
+
+    if (eligibleSubtotal <= 0) {
+        throw new CouponError("Coupon does not apply to the items in this order");
+    }
+
+    let discount: number;
+    if (coupon.type === "percentage") {
+        discount = (eligibleSubtotal * coupon.value) / 100;
+    } else {
+        if (coupon.currency !== currency) {
+            throw new CouponError(`Coupon can only be used for orders in ${coupon.currency}`);
+        }
+        discount = coupon.value;
+    }
+
+    return {
+        couponId: coupon._id!,
+        code: coupon.code,
+        type: coupon.type,
+        value: coupon.value,
+        discount: roundAmount(Math.min(discount, eligibleSubtotal))
+    };
+};
+
+/**
+ * Atomically claim one use of the coupon for a customer.
+ * Throws when the global or per-customer limit has been reached in the meantime.
+ */
+export const reserveCouponRedemption = async (db: Db, coupon: Coupon, customerEmail: string): Promise<void> => {
+    const coupons = db.collection<Coupon>("coupons");
+    const redemptions = db.collection<CouponRedemption>("couponRedemptions");
+    const email = normalizeEmail(customerEmail);
+
+    const claimed = await coupons.findOneAndUpdate(
+        {
+            _id: coupon._id!,
+            isActive: true,
+            $or: [
+                { usageLimit: { $exists: false } },
+                { usageLimit: null },
+                { $expr: { $lt: ["$usageCount", "$usageLimit"] } }
+            ]
+        },
+        { $inc: { usageCount: 1 }, $set: { updatedAt: new Date() } }
+    );
+
+    if (!claimed) {
+        throw new CouponError("Coupon usage limit has been reached");
+    }
+
+    try {
+        // The unique (couponId, email) index turns a full per-customer quota into a duplicate key error
+        const limitFilter = coupon.usageLimitPerCustomer ? { count: { $lt: coupon.usageLimitPerCustomer } } : {};
+        await redemptions.updateOne(
+            { couponId: coupon._id!, email, ...limitFilter },
+            {
+                $inc: { count: 1 },
+                $set: { updatedAt: new Date() },
+                $setOnInsert: { code: coupon.code, redemptions: [] }
+            },
+            { upsert: true }
+        );
+    } catch (error: any) {
+        await coupons.updateOne({ _id: coupon._id! }, { $inc: { usageCount: -1 } });
+        if (error?.code === 11000) {
+            throw new CouponError("You have already used this coupon the maximum number of times");
+        }
+        throw error;
+    }
+};
+
+// Give back a reserved use, e.g. when the order could not be saved
+export const releaseCouponRedemption = async (db: Db, coupon: Coupon, customerEmail: string): Promise<void> => {
+    await db.collection<Coupon>("coupons").updateOne({ _id: coupon._id! }, { $inc: { usageCount: -1 } });
+    await db.collection<CouponRedemption>("couponRedemptions").updateOne(
+        { couponId: coupon._id!, email: normalizeEmail(customerEmail) },
+        { $inc: { count: -1 }, $set: { updatedAt: new Date() } }
+    );
+};
+
+// Attach the order to the customer's redemption history once it has been saved
+export const recordCouponRedemption = async (
+    db: Db,
+    applied: AppliedCoupon,
+    customerEmail: string,
+    order: { _id: ObjectId; orderNumber: string; currency: string }
+): Promise<void> => {
+    await db.collection<CouponRedemption>("couponRedemptions").updateOne(
+        { couponId: applied.couponId, email: normalizeEmail(customerEmail) },
+        {
+            $push: {
+                redemptions: {
+                    orderId: order._id,
+                    orderNumber: order.orderNumber,
+                    discount: applied.discount,
+                    currency: order.currency,
+                    redeemedAt: new Date()
+                }
+            }
+        }
+    );
+};
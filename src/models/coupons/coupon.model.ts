@@ -0,0 +1,53 @@
+import { ObjectId } from "mongodb";
+
+export interface CouponRestrictions {
+    serviceCategories?: string[]; // Service category names, e.g. "web-development"
+    pricingPlans?: string[]; // Plan ids, optionally scoped as "categoryId:planId"
+}
+
+export interface Coupon {
+    _id?: ObjectId;
+    code: string; // Stored upper case, unique
+    description?: string;
+    type: "percentage" | "fixed";
+    value: number; // Percent (0-100] for percentage coupons, amount for fixed coupons
+    currency?: string; // Required for fixed-amount coupons
+    minimumOrderAmount?: Record<string, number>; // Per-currency minimum subtotal, e.g. { USD: 100, BDT: 10000 }
+    startsAt?: Date;
+    expiresAt?: Date;
+    usageLimit?: number | null; // Total redemptions allowed across all customers; null or missing is unlimited
+    usageLimitPerCustomer?: number | null; // Redemptions allowed per customer email; null or missing is unlimited
+    usageCount: number;
+    restrictions?: CouponRestrictions;
+    isActive: boolean;
+    createdAt: Date;
+    updatedAt?: Date;
+}
+
+export interface CouponRedemptionEntry {
+    orderId?: ObjectId;
+    orderNumber?: string;
+    discount: number;
+    currency: string;
+    redeemedAt: Date;
+}
+
+// One document per coupon and customer email
+export interface CouponRedemption {
+    _id?: ObjectId;
+    couponId: ObjectId;
+    code: string;
+    email: string; // Lower case
+    count: number;
+    redemptions: CouponRedemptionEntry[];
+    updatedAt: Date;
+}
+
+// Coupon applied to an order, stored on the order for reporting
+export interface AppliedCoupon {
+    couponId: ObjectId;
+    code: string;
+    type: Coupon["type"];
+    value: number;
+    discount: number;
+}
@@ -0,0 +1,29 @@
+import express from "express";
+import {
+    createCoupon,
+    getAllCoupons,
+    getCouponById,
+    updateCoupon,
+    deleteCoupon,
+    getCouponRedemptions,
+    validateCoupon
+} from "./coupon.controller";
+import { verifyToken, requirePermission } from "../../middlewares/auth.middleware";
+import { validate } from "../../middlewares/validate.middleware";
+import { couponParams, couponSchema, updateCouponSchema, validateCouponSchema } from "./coupon.schema";
+
+const router = express.Router();
+
+// Authenticated users - preview a coupon for a cart
+router.post("/validate", verifyToken, validate({ body: validateCouponSchema }), validateCoupon);
+
+// Staff routes
+router.get("/", verifyToken, requirePermission("billing:manage"), getAllCoupons);
+router.post("/", verifyToken, requirePermission("billing:manage"), validate({ body: couponSchema }), createCoupon);
+router.get("/:id/redemptions", verifyToken, requirePermission("billing:manage"), getCouponRedemptions);
+router.get("/:id", verifyToken, requirePermission("billing:manage"), getCouponById);
+router.put("/:id", verifyToken, requirePermission("billing:manage"), validate({ params: couponParams, body: updateCouponSchema }), updateCoupon);
+router.patch("/:id", verifyToken, requirePermission("billing:manage"), validate({ params: couponParams, body: updateCouponSchema }), updateCoupon);
+router.delete("/:id", verifyToken, requirePermission("billing:manage"), deleteCoupon);
+
+export default router;
@@ -0,0 +1,50 @@
+import { s } from "../../utils/schema";
+import { orderItemSchema } from "../order/order.schema";
+
+const currencyCode = () => s.string({ pattern: /^[a-z]{3}$/i, patternMessage: "must be a 3-letter currency code" });
+
+// ISO date string; null clears the date on update
+const date = () => s.string({ max: 50 }).refine((value) => !isNaN(Date.parse(value)), "must be a valid date").optional().nullable();
+
+// null removes the limit on update
+const usageLimit = () => s.number({ integer: true, min: 1 }).optional().nullable();
+
+const planOrCategory = s.string({ min: 1, max: 200 });
+
+// Codes are upper-cased by the controller; range and currency rules that span fields are checked there too
+export const couponSchema = s.object({
+  code: s.string({ pattern: /^[a-z0-9_-]{3,32}$/i, patternMessage: "must be 3-32 characters: letters, numbers, dashes or underscores" }),
+  description: s.string({ max: 500 }).optional(),
+  type: s.enum(["percentage", "fixed"]),
+  value: s.number({ min: 0 }).refine((value) => value > 0, "must be greater than 0"),
+  currency: currencyCode().optional(),
+  minimumOrderAmount: s.record(currencyCode(), s.number({ min: 0 })).optional(),
+  startsAt: date(),
+  expiresAt: date(),
+  usageLimit: usageLimit(),
+  usageLimitPerCustomer: usageLimit(),
+  restrictions: s.object({
+    serviceCategories: s.array(planOrCategory, { max: 100 }).optional(),
+    pricingPlans: s.array(planOrCategory, { max: 100 }).optional(),
+  }).optional().nullable(),
+  isActive: s.boolean().optional(),
+});
+
+export const updateCouponSchema = couponSchema.patch();
+
+// Preview a coupon for a cart, with the same items an order would carry
+export const validateCouponSchema = s.object({
+  code: s.string({ min: 1, max: 50 }),
+  items: s.array(orderItemSchema, { min: 1, max: 100 }),
+  currency: currencyCode().optional(),
+  email: s.email().optional(),
+  // Only the parts that decide per-customer limits and tax; checkout forms send the rest too
+  customer: s.object({
+    email: s.email().optional(),
+    address: s.string({ max: 500 }).optional(),
+    country: s.string({ max: 100 }).optional(),
+    region: s.string({ max: 100 }).optional(),
+  }).strip().optional(),
+});
+
+export const couponParams = s.object({ id: s.objectId() });
@@ -0,0 +1,12 @@
+import express from "express";
+import { processOutboxNow } from "../emailOutbox/emailOutbox.controller";
+import { expireQuotesNow } from "../quotes/quote.controller";
+import { requireCronSecret } from "../../middlewares/auth.middleware";
+
+const router = express.Router();
+
+// Called by the "crons" entries in vercel.json, where the in-process workers do not run
+router.get("/email-outbox", requireCronSecret, processOutboxNow);
+router.get("/expire-quotes", requireCronSecret, expireQuotesNow);
+
+export default router;
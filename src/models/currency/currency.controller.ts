@@ -0,0 +1,244 @@
+import { Request, Response } from "express";
+import { ObjectId } from "mongodb";
+import { getDB } from "../../config/db";
+import { ExchangeRate } from "./currency.model";
+import { CurrencyConversionError, convertAmount, getExchangeRate, normalizeCurrency } from "./currency.engine";
+
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+// Validate one rate from a request body or CSV row. Returns an error message or the cleaned rate.
+const parseRateInput = (input: any): { error?: string; data?: Pick<ExchangeRate, "base" | "quote" | "rate" | "effectiveDate"> } => {
+    if (!input.base || !input.quote || input.rate === undefined || input.rate === "") {
+        return { error: "Required fields missing: base, quote and rate" };
+    }
+
+    const base = normalizeCurrency(input.base);
+    const quote = normalizeCurrency(input.quote);
+    if (!CURRENCY_CODE.test(base) || !CURRENCY_CODE.test(quote)) {
+        return { error: "Currencies must be 3-letter ISO codes, e.g. USD" };
+    }
+    if (base === quote) {
+        return { error: "Base and quote currencies must differ" };
+    }
+
+    const rate = Number(input.rate);
+    if (!Number.isFinite(rate) || rate <= 0) {
+        return { error: "Rate must be a positive number" };
+    }
+
+    const effectiveDate = input.effectiveDate ? new Date(input.effectiveDate) : new Date();
+    if (isNaN(effectiveDate.getTime())) {
+        return { error: "Invalid effectiveDate" };
+    }
+
+    return { data: { base, quote, rate, effectiveDate } };
+};
+
+// Store a rate; a second rate for the same pair and date replaces the first
+const saveRate = async (data: Pick<ExchangeRate, "base" | "quote" | "rate" | "effectiveDate">, source: ExchangeRate["source"], createdBy?: string) => {
+    const db = getDB();
+    const now = new Date();
+
+    return db.collection<ExchangeRate>("exchangeRates").findOneAndUpdate(
+        { base: data.base, quote: data.quote, effectiveDate: data.effectiveDate },
+        {
+            $set: { rate: data.rate, source, createdBy, updatedAt: now },
+            $setOnInsert: { createdAt: now }
+        },
+        { upsert: true, returnDocument: "after" }
+    );
+};
+
+// Add an exchange rate (admin only)
+export const createExchangeRate = async (req: Request, res: Response) => {
+    try {
+        const { error, data } = parseRateInput(req.body);
+        if (error) {
+            return res.status(400).json({ success: false, message: error });
+        }
+
+        const exchangeRate = await saveRate(data!, "manual", req.user?.uid);
+
+        return res.status(201).json({
+            success: true,
+            message: "Exchange rate saved successfully",
+            data: exchangeRate
+        });
+    } catch (error) {
+        console.error("Create exchange rate error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to save exchange rate",
+        });
+    }
+};
+
+/**
+ * Import exchange rates from CSV (admin only)
+ * Accepts a text/csv body or JSON { csv: "..." } with the header: base,quote,rate[,effectiveDate]
+ */
+export const importExchangeRates = async (req: Request, res: Response) => {
+    try {
+        const csv: string = typeof req.body === "string" ? req.body : req.body?.csv;
+
+        if (!csv || !csv.trim()) {
+            return res.status(400).json({
+                success: false,
+                message: "CSV content is required (header: base,quote,rate,effectiveDate)"
+            });
+        }
+
+        const lines = csv.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+        const header = lines[0].split(",").map((column) => column.trim());
+        const missingColumns = ["base", "quote", "rate"].filter((column) => !header.includes(column));
+
+        if (missingColumns.length > 0) {
+            return res.status(400).json({
+                success: false,
+                message: `CSV header is missing columns: ${missingColumns.join(", ")}`
+            });
+        }
+
+        const errors: { line: number; message: string }[] = [];
+        let imported = 0;
+
+        for (let i = 1; i < lines.length; i++) {
+            const values = lines[i].split(",").map((value) => value.trim());
+            const row: any = {};
+            header.forEach((column, index) => {
+                row[column] = values[index];
+            });
+
+            const { error, data } = parseRateInput(row);
+            if (error) {
+                errors.push({ line: i + 1, message: error });
+                continue;
+            }
+
+            await saveRate(data!, "csv", req.user?.uid);
+            imported++;
+        }
+
+        return res.status(errors.length > 0 && imported === 0 ? 400 : 200).json({
+            success: imported > 0 || errors.length === 0,
+            message: `${imported} exchange rate(s) imported`,
+            imported,
+            errors
+        });
+    } catch (error) {
+        console.error("Import exchange rates error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to import exchange rates",
+        });
+    }
+};
+
+// Get exchange rates (admin only). Only the latest rate per pair unless history=true.
+export const getExchangeRates = async (req: Request, res: Response) => {
+    try {
+        const db = getDB();
+        const { base, quote, history } = req.query;
+
+        const filter: any = {};
+        if (base) filter.base = normalizeCurrency(base as string);
+        if (quote) filter.quote = normalizeCurrency(quote as string);
+
+        let rates;
+        if (history === "true") {
+            rates = await db.collection("exchangeRates")
+                .find(filter)
+                .sort({ base: 1, quote: 1, effectiveDate: -1 })
+                .toArray();
+        } else {
+            rates = await db.collection("exchangeRates").aggregate([
+                { $match: { ...filter, effectiveDate: { $lte: new Date() } } },
+                { $sort: { effectiveDate: -1 } },
+                { $group: { _id: { base: "$base", quote: "$quote" }, latest: { $first: "$$ROOT" } } },
+                { $replaceRoot: { newRoot: "$latest" } },
+                { $sort: { base: 1, quote: 1 } }
+            ]).toArray();
+        }
+
+        return res.status(200).json({
+            success: true,
+            count: rates.length,
+            data: rates
+        });
+    } catch (error) {
+        console.error("Get exchange rates error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to get exchange rates"
+        });
+    }
+};
+
+// Delete an exchange rate (admin only)
+export const deleteExchangeRate = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+
+        if (!ObjectId.isValid(id as string)) {
+            return res.status(400).json({ success: false, message: "Invalid exchange rate ID" });
+        }
+
+        const db = getDB();
+        const result = await db.collection("exchangeRates").deleteOne({ _id: new ObjectId(id as string) });
+
+        if (result.deletedCount === 0) {
+            return res.status(404).json({ success: false, message: "Exchange rate not found" });
+        }
+
+        return res.status(200).json({
+            success: true,
+            message: "Exchange rate deleted successfully"
+        });
+    } catch (error) {
+        console.error("Delete exchange rate error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to delete exchange rate"
+        });
+    }
+};
+
+// Convert an amount between currencies (public)
+export const convertCurrency = async (req: Request, res: Response) => {
+    try {
+        const { amount, from, to } = req.query;
+        const value = Number(amount);
+
+        if (!from || !to || !Number.isFinite(value)) {
+            return res.status(400).json({
+                success: false,
+                message: "Query parameters amount, from and to are required"
+            });
+        }
+
+        const db = getDB();
+        const rate = await getExchangeRate(db, from as string, to as string);
+        const converted = await convertAmount(db, value, from as string, to as string);
+
+        return res.status(200).json({
+            success: true,
+            data: {
+                amount: value,
+                from: rate.from,
+                to: rate.to,
+                rate: rate.rate,
+                effectiveDate: rate.effectiveDate,
+                converted
+            }
+        });
+    } catch (error) {
+        if (error instanceof CurrencyConversionError) {
+            return res.status(error.statusCode).json({ success: false, message: error.message });
+        }
+        console.error("Convert currency error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to convert currency"
+        });
+    }
+};
@@ -0,0 +1,134 @@
+import { Db } from "mongodb";
+import { AppliedExchangeRate, ExchangeRate } from "./currency.model";
+import { AppError } from "../../utils/errors";
+
+// Currency used for dashboards and reports when none is requested
+export const DEFAULT_REPORTING_CURRENCY = (process.env.REPORTING_CURRENCY || "USD").toUpperCase();
+
+export class CurrencyConversionError extends AppError {
+    constructor(message: string, statusCode = 400) {
+        super(message, statusCode);
+        this.name = "CurrencyConversionError";
+    }
+}
+
+export const normalizeCurrency = (currency: string): string => String(currency).trim().toUpperCase();
+
+// ISO 4217 codes known to the runtime (Intl.supportedValuesOf is newer than our TS lib setting)
+const ISO_CURRENCIES = new Set<string>(
+    (Intl as unknown as { supportedValuesOf(key: "currency"): string[] }).supportedValuesOf("currency")
+);
+
+// Currencies orders may be placed in; any ISO code when not configured
+const SUPPORTED_CURRENCIES = (process.env.SUPPORTED_CURRENCIES || "")
+    .split(",")
+    .map(normalizeCurrency)
+    .filter(Boolean);
+
+/**
+ * Normalize a client supplied currency and check it is a known ISO code we accept.
+ * Throws a 400 otherwise.
+ */
+export const assertSupportedCurrency = (currency: unknown): string => {
+    const code = normalizeCurrency(String(currency ?? ""));
+    if (!ISO_CURRENCIES.has(code)) {
+        throw new CurrencyConversionError(`"${currency}" is not a valid ISO 4217 currency code`);
+    }
+    if (SUPPORTED_CURRENCIES.length > 0 && !SUPPORTED_CURRENCIES.includes(code)) {
+        throw new CurrencyConversionError(`Currency ${code} is not supported. Use one of: ${SUPPORTED_CURRENCIES.join(", ")}`);
+    }
+    return code;
+};
+
+const roundAmount = (value: number): number => Math.round(value * 100) / 100;
+
+// Latest stored rate for a pair that is effective at the given date
+const findStoredRate = async (db: Db, base: string, quote: string, at: Date): Promise<ExchangeRate | null> => {
+    return db.collection<ExchangeRate>("exchangeRates").findOne(
+        { base, quote, effectiveDate: { $lte: at } },
+        { sort: { effectiveDate: -1 } }
+    );
+};
+
+// Direct rate, or the inverse of the opposite pair
+const findPairRate = async (db: Db, from: string, to: string, at: Date): Promise<AppliedExchangeRate | null> => {
+    const direct = await findStoredRate(db, from, to, at);
+    if (direct) {
+        return { from, to, rate: direct.rate, effectiveDate: direct.effectiveDate };
+    }
+
+    const inverse = await findStoredRate(db, to, from, at);
+    if (inverse) {
+        return { from, to, rate: 1 / inverse.rate, effectiveDate: inverse.effectiveDate };
+    }
+
+    return null;
+};
+
+/**
+ * Rate to convert `from` into `to` at a point in time. Falls back to going through
+ * the reporting currency when there is no rate for the pair itself.
+ */
+export const getExchangeRate = async (
+    db: Db,
+    from: string,
+    to: string,
+    at: Date = new Date()
+): Promise<AppliedExchangeRate> => {
+    const source = normalizeCurrency(from);
+    const target = normalizeCurrency(to);
+
+    if (source === target) {
+        return { from: source, to: target, rate: 1 };
+    }
+
+    const pair = await findPairRate(db, source, target, at);
+    if (pair) return pair;
+
+    const via = DEFAULT_REPORTING_CURRENCY;
+    if (source !== via && target !== via) {
+        const first = await findPairRate(db, source, via, at);
+        const second = first && await findPairRate(db, via, target, at);
+        if (first && second) {
+            return { from: source, to: target, rate: first.rate * second.rate, effectiveDate: second.effectiveDate };
+        }
+    }
+
+    throw new CurrencyConversionError(`No exchange rate available from ${source} to ${target}`);
+};
+
+export const convertAmount = async (
+    db: Db,
+    amount: number,
+    from: string,
+    to: string,
+    at?: Date
+): Promise<number> => {
+    const { rate } = await getExchangeRate(db, from, to, at);
+    return roundAmount(amount * rate);
+};
+
+/**
+ * Add up per-currency totals (e.g. `$group` results keyed by currency) in one currency.
+ * Currencies without a rate are left out and reported back.
+ */
+export const sumInCurrency = async (
+    db: Db,
+    totals: { currency: string; total: number }[],
+    target: string
+): Promise<{ total: number; missingRates: string[] }> => {
+    let total = 0;
+    const missingRates: string[] = [];
+
+    for (const entry of totals) {
+        const currency = normalizeCurrency(entry.currency || target);
+        try {
+            total += await convertAmount(db, entry.total || 0, currency, target);
+        } catch (error) {
+            if (!(error instanceof CurrencyConversionError)) throw error;
+            if (!missingRates.includes(currency)) missingRates.push(currency);
+        }
+    }
+
+    return { total: roundAmount(total), missingRates };
+};
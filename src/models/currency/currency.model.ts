@@ -0,0 +1,22 @@
+import { ObjectId } from "mongodb";
+
+// 1 unit of `base` buys `rate` units of `quote`, effective from `effectiveDate`
+export interface ExchangeRate {
+    _id?: ObjectId;
+    base: string; // ISO currency code, e.g. "USD"
+    quote: string; // ISO currency code, e.g. "BDT"
+    rate: number;
+    effectiveDate: Date;
+    source: "manual" | "csv";
+    createdBy?: string;
+    createdAt: Date;
+    updatedAt?: Date;
+}
+
+// Conversion used while pricing an order, kept on the order for auditing
+export interface AppliedExchangeRate {
+    from: string;
+    to: string;
+    rate: number;
+    effectiveDate?: Date;
+}
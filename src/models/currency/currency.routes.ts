@@ -0,0 +1,22 @@
+import express from "express";
+import {
+    createExchangeRate,
+    importExchangeRates,
+    getExchangeRates,
+    deleteExchangeRate,
+    convertCurrency
+} from "./currency.controller";
+import { verifyToken, requirePermission } from "../../middlewares/auth.middleware";
+
+const router = express.Router();
+
+// Public routes
+router.get("/convert", convertCurrency);
+
+// Staff routes
+router.get("/", verifyToken, requirePermission("billing:manage"), getExchangeRates);
+router.post("/", verifyToken, requirePermission("billing:manage"), createExchangeRate);
+router.post("/import", express.text({ type: "text/csv" }), verifyToken, requirePermission("billing:manage"), importExchangeRates);
+router.delete("/:id", verifyToken, requirePermission("billing:manage"), deleteExchangeRate);
+
+export default router;
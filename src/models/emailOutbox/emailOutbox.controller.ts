@@ -0,0 +1,144 @@
+import { Request, Response } from "express";
+import { ObjectId } from "mongodb";
+import { getDB } from "../../config/db";
+import { OutboxEmail } from "./emailOutbox.model";
+import { processOutbox, requeueEmail } from "./emailOutbox.engine";
+
+const OUTBOX_STATUSES = ["queued", "sent", "failed"];
+
+// List outbox messages, newest first (admin only)
+export const getOutboxEmails = async (req: Request, res: Response) => {
+    try {
+        const db = getDB();
+        const { status, to, template, limit = "50", skip } = req.query;
+
+        const filter: any = {};
+
+        if (status) {
+            if (!OUTBOX_STATUSES.includes(status as string)) {
+                return res.status(400).json({
+                    success: false,
+                    message: `Invalid status. Must be one of: ${OUTBOX_STATUSES.join(", ")}`
+                });
+            }
+            filter.status = status;
+        }
+
+        if (to) {
+            filter.to = (to as string).toLowerCase();
+        }
+
+        if (template) {
+            filter.template = template;
+        }
+
+        let query = db.collection<OutboxEmail>("email_outbox")
+            .find(filter, { projection: { html: 0, text: 0 } })
+            .sort({ createdAt: -1 });
+
+        if (skip) query = query.skip(Number(skip));
+        query = query.limit(Number(limit));
+
+        const emails = await query.toArray();
+        const totalCount = await db.collection("email_outbox").countDocuments(filter);
+
+        return res.status(200).json({
+            success: true,
+            count: emails.length,
+            totalCount,
+            data: emails,
+            pagination: {
+                skip: Number(skip) || 0,
+                limit: Number(limit),
+                hasMore: (Number(skip) || 0) + emails.length < totalCount
+            }
+        });
+    } catch (error) {
+        console.error("Get outbox emails error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to get outbox emails"
+        });
+    }
+};
+
+// Get one outbox message including its content (admin only)
+export const getOutboxEmail = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+
+        if (!ObjectId.isValid(id as string)) {
+            return res.status(400).json({ success: false, message: "Invalid email ID" });
+        }
+
+        const email = await getDB().collection<OutboxEmail>("email_outbox").findOne({ _id: new ObjectId(id as string) });
+
+        if (!email) {
+            return res.status(404).json({ success: false, message: "Email not found" });
+        }
+
+        return res.status(200).json({
+            success: true,
+            data: email
+        });
+    } catch (error) {
+        console.error("Get outbox email error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to get outbox email"
+        });
+    }
+};
+
+// Queue a sent or failed message again (admin only)
+export const resendOutboxEmail = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+
+        if (!ObjectId.isValid(id as string)) {
+            return res.status(400).json({ success: false, message: "Invalid email ID" });
+        }
+
+        const db = getDB();
+        const email = await requeueEmail(db, new ObjectId(id as string));
+
+        if (!email) {
+            const exists = await db.collection("email_outbox").countDocuments({ _id: new ObjectId(id as string) });
+            return res.status(exists ? 409 : 404).json({
+                success: false,
+                message: exists ? "Email is already queued" : "Email not found"
+            });
+        }
+
+        return res.status(200).json({
+            success: true,
+            message: "Email queued for delivery",
+            data: { _id: email._id, status: email.status, to: email.to, subject: email.subject }
+        });
+    } catch (error) {
+        console.error("Resend outbox email error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to resend email",
+        });
+    }
+};
+
+// Deliver due messages now, e.g. from a scheduled job on serverless hosting (admin only)
+export const processOutboxNow = async (_req: Request, res: Response) => {
+    try {
+        const result = await processOutbox(getDB());
+
+        return res.status(200).json({
+            success: true,
+            message: `${result.sent} sent, ${result.failed} failed`,
+            data: result
+        });
+    } catch (error) {
+        console.error("Process outbox error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to process email outbox"
+        });
+    }
+};
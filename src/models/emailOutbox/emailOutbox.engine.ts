@@ -0,0 +1,158 @@
+import { Db, ObjectId } from "mongodb";
+import { EmailMessage, OutboxEmail } from "./emailOutbox.model";
+import { deliverEmail } from "./emailOutbox.transport";
+
+const OUTBOX = "email_outbox";
+
+export const EMAIL_MAX_ATTEMPTS = Number(process.env.EMAIL_MAX_ATTEMPTS) || 6;
+const RETRY_BASE_MS = Number(process.env.EMAIL_RETRY_BASE_MS) || 30 * 1000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+// A worker that crashes mid-send releases the message after this long
+const LOCK_MS = 2 * 60 * 1000;
+const BATCH_SIZE = 20;
+
+// Delay before attempt number `attempts + 1`: 30s, 1m, 2m, 4m ... capped at one hour
+export const getRetryDelay = (attempts: number): number => {
+    return Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MS);
+};
+
+/**
+ * Store a message in the outbox. The worker delivers it; callers never wait on SMTP.
+ */
+export const enqueueEmail = async (db: Db, message: EmailMessage, template?: string): Promise<OutboxEmail> => {
+    const now = new Date();
+    const email: OutboxEmail = {
+        to: (Array.isArray(message.to) ? message.to : [message.to]).map((address) => address.trim().toLowerCase()),
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        replyTo: message.replyTo,
+        template,
+        status: "queued",
+        attempts: 0,
+        maxAttempts: EMAIL_MAX_ATTEMPTS,
+        nextAttemptAt: now,
+        errors: [],
+        createdAt: now,
+        updatedAt: now
+    };
+
+    const result = await db.collection<OutboxEmail>(OUTBOX).insertOne(email);
+    email._id = result.insertedId;
+
+    // Try right away so mail goes out quickly even where the polling worker does not run
+    setImmediate(() => {
+        processOutboxEmail(db, result.insertedId).catch((error) => console.error("Email outbox error:", error));
+    });
+
+    return email;
+};
+
+// Lock one due message (a specific one when `id` is given) for this worker
+const claimEmail = async (db: Db, id?: ObjectId): Promise<OutboxEmail | null> => {
+    const now = new Date();
+
+    return db.collection<OutboxEmail>(OUTBOX).findOneAndUpdate(
+        {
+            ...(id ? { _id: id } : {}),
+            status: "queued",
+            nextAttemptAt: { $lte: now },
+            $or: [{ lockedUntil: { $exists: false } }, { lockedUntil: { $lte: now } }]
+        },
+        {
+            $set: { lockedUntil: new Date(now.getTime() + LOCK_MS), updatedAt: now },
+            $inc: { attempts: 1 }
+        },
+        { sort: { nextAttemptAt: 1 }, returnDocument: "after" }
+    );
+};
+
+// Send a claimed message and record the outcome
+const sendClaimedEmail = async (db: Db, email: OutboxEmail): Promise<boolean> => {
+    const outbox = db.collection<OutboxEmail>(OUTBOX);
+
+    try {
+        const { messageId } = await deliverEmail(email);
+        await outbox.updateOne(
+            { _id: email._id },
+            {
+                $set: { status: "sent", messageId, sentAt: new Date(), updatedAt: new Date() },
+                $unset: { lockedUntil: "", lastError: "" }
+            }
+        );
+        return true;
+    } catch (error) {
+        const now = new Date();
+        const message = error instanceof Error ? error.message : String(error);
+        const exhausted = email.attempts >= email.maxAttempts;
+
+        await outbox.updateOne(
+            { _id: email._id },
+            {
+                $set: exhausted
+                    ? { status: "failed", lastError: message, failedAt: now, updatedAt: now }
+                    : { lastError: message, nextAttemptAt: new Date(now.getTime() + getRetryDelay(email.attempts)), updatedAt: now },
+                $unset: { lockedUntil: "" },
+                $push: { errors: { at: now, error: message } }
+            }
+        );
+
+        if (exhausted) {
+            console.error(`Email ${email._id} to ${email.to.join(", ")} moved to dead letter after ${email.attempts} attempts:`, message);
+        }
+        return false;
+    }
+};
+
+/**
+ * Try to deliver one message now, if it is due and not being sent elsewhere
+ */
+export const processOutboxEmail = async (db: Db, id: ObjectId): Promise<boolean> => {
+    const email = await claimEmail(db, id);
+    return email ? sendClaimedEmail(db, email) : false;
+};
+
+/**
+ * Deliver due messages, oldest first. Returns how many were sent and failed.
+ */
+export const processOutbox = async (db: Db, limit = BATCH_SIZE): Promise<{ sent: number; failed: number }> => {
+    let sent = 0;
+    let failed = 0;
+
+    for (let i = 0; i < limit; i++) {
+        const email = await claimEmail(db);
+        if (!email) break;
+
+        if (await sendClaimedEmail(db, email)) {
+            sent++;
+        } else {
+            failed++;
+        }
+    }
+
+    return { sent, failed };
+};
+
+/**
+ * Put a sent or dead-lettered message back in the queue with a fresh set of attempts
+ */
+export const requeueEmail = async (db: Db, id: ObjectId): Promise<OutboxEmail | null> => {
+    const now = new Date();
+
+    const email = await db.collection<OutboxEmail>(OUTBOX).findOneAndUpdate(
+        { _id: id, status: { $in: ["sent", "failed"] } },
+        {
+            $set: { status: "queued", attempts: 0, nextAttemptAt: now, updatedAt: now },
+            $unset: { failedAt: "", lockedUntil: "" }
+        },
+        { returnDocument: "after" }
+    );
+
+    if (email) {
+        setImmediate(() => {
+            processOutboxEmail(db, id).catch((error) => console.error("Email outbox error:", error));
+        });
+    }
+
+    return email;
+};
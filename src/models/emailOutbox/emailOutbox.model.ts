@@ -0,0 +1,39 @@
+import { ObjectId } from "mongodb";
+
+export interface EmailMessage {
+    to: string | string[];
+    subject: string;
+    html: string;
+    text?: string;
+    replyTo?: string;
+}
+
+// queued: waiting for (another) attempt, sent: delivered to the transport, failed: gave up (dead letter)
+export type OutboxStatus = "queued" | "sent" | "failed";
+
+export interface OutboxAttempt {
+    at: Date;
+    error?: string;
+}
+
+export interface OutboxEmail {
+    _id?: ObjectId;
+    to: string[];
+    subject: string;
+    html: string;
+    text?: string;
+    replyTo?: string;
+    template?: string; // Template key the message was rendered from
+    status: OutboxStatus;
+    attempts: number;
+    maxAttempts: number;
+    nextAttemptAt: Date;
+    lockedUntil?: Date; // Set while a worker is sending the message
+    lastError?: string;
+    errors: OutboxAttempt[]; // Failed attempts, newest last
+    messageId?: string;
+    sentAt?: Date;
+    failedAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
@@ -0,0 +1,13 @@
+import express from "express";
+import { getOutboxEmails, getOutboxEmail, resendOutboxEmail, processOutboxNow } from "./emailOutbox.controller";
+import { verifyToken, requirePermission } from "../../middlewares/auth.middleware";
+
+const router = express.Router();
+
+// Staff routes
+router.get("/", verifyToken, requirePermission("email:manage"), getOutboxEmails);
+router.post("/process", verifyToken, requirePermission("email:manage"), processOutboxNow);
+router.get("/:id", verifyToken, requirePermission("email:manage"), getOutboxEmail);
+router.post("/:id/resend", verifyToken, requirePermission("email:manage"), resendOutboxEmail);
+
+export default router;
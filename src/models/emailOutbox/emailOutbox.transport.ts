@@ -0,0 +1,60 @@
+import fs from "fs";
+import path from "path";
+import nodemailer, { Transporter } from "nodemailer";
+import { EmailMessage } from "./emailOutbox.model";
+
+/*
+ * EMAIL_TRANSPORT selects how mail leaves the app:
+ *   smtp (default)  send through SMTP_HOST
+ *   json            build the message but only log it
+ *   file            write each message as JSON into EMAIL_OUTPUT_DIR
+ */
+const TRANSPORT = (process.env.EMAIL_TRANSPORT || "smtp").toLowerCase();
+const OUTPUT_DIR = process.env.EMAIL_OUTPUT_DIR || path.join(process.cwd(), "tmp", "emails");
+
+export const EMAIL_FROM = {
+    name: process.env.SMTP_FROM_NAME || "Your App",
+    address: process.env.SMTP_FROM_EMAIL || process.env.SMTP_USER || ""
+};
+
+const createTransporter = (): Transporter => {
+    if (TRANSPORT === "json" || TRANSPORT === "file") {
+        return nodemailer.createTransport({ jsonTransport: true });
+    }
+
+    return nodemailer.createTransport({
+        host: process.env.SMTP_HOST || "smtp.gmail.com",
+        port: Number(process.env.SMTP_PORT) || 587,
+        secure: false, // true for 465, false for other ports
+        auth: {
+            user: process.env.SMTP_USER,
+            pass: process.env.SMTP_PASS
+        }
+    });
+};
+
+const transporter = createTransporter();
+
+/**
+ * Hand a message to the configured transport. Throws when the transport rejects it.
+ */
+export const deliverEmail = async (message: EmailMessage): Promise<{ messageId: string }> => {
+    const info = await transporter.sendMail({
+        from: `"${EMAIL_FROM.name}" <${EMAIL_FROM.address}>`,
+        to: message.to,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        replyTo: message.replyTo
+    });
+
+    if (TRANSPORT === "file") {
+        await fs.promises.mkdir(OUTPUT_DIR, { recursive: true });
+        const fileName = `${Date.now()}-${String(info.messageId).replace(/[^\w.-]/g, "")}.json`;
+        await fs.promises.writeFile(path.join(OUTPUT_DIR, fileName), info.message.toString());
+    } else if (TRANSPORT === "json") {
+        console.log("Email (json transport):", info.message.toString());
+    }
+
+    return { messageId: info.messageId };
+};
@@ -0,0 +1,47 @@
+import { Db } from "mongodb";
+import { getDB } from "../../config/db";
+import { processOutbox } from "./emailOutbox.engine";
+
+const INTERVAL_MS = Number(process.env.EMAIL_WORKER_INTERVAL_MS) || 15 * 1000;
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+const tick = async () => {
+    // Skip overlapping runs and runs before the database is connected
+    if (running) return;
+
+    let db: Db;
+    try {
+        db = getDB();
+    } catch {
+        return;
+    }
+
+    running = true;
+    try {
+        const { sent, failed } = await processOutbox(db);
+        if (sent || failed) {
+            console.log(`Email outbox: ${sent} sent, ${failed} failed`);
+        }
+    } catch (error) {
+        console.error("Email outbox worker error:", error);
+    } finally {
+        running = false;
+    }
+};
+
+/**
+ * Poll the outbox for due messages, including retries. On Vercel the cron in
+ * vercel.json calls GET /api/cron/email-outbox instead.
+ */
+export const startEmailOutboxWorker = () => {
+    if (timer) return;
+    timer = setInterval(tick, INTERVAL_MS);
+    timer.unref();
+};
+
+export const stopEmailOutboxWorker = () => {
+    if (timer) clearInterval(timer);
+    timer = null;
+};
@@ -0,0 +1,322 @@
+import { Request, Response } from "express";
+import { getDB } from "../../config/db";
+import { EMAIL_BRAND } from "../../emailService";
+import { EmailTemplate, EmailTemplateVersion, ResolvedEmailTemplate } from "./emailTemplate.model";
+import { DEFAULT_EMAIL_TEMPLATES } from "./emailTemplate.defaults";
+import {
+    EmailTemplateError,
+    EmailTemplateInput,
+    TEMPLATE_KEY_PATTERN,
+    listDiskTemplateKeys,
+    listTemplateVariables,
+    renderEmailTemplate,
+    resolveEmailTemplate,
+    saveEmailTemplate
+} from "./emailTemplate.engine";
+
+// Variables referenced anywhere in a template
+const templateVariables = (template: ResolvedEmailTemplate): string[] => {
+    const sources = [template.subject || "", template.html, template.text || ""];
+    return Array.from(new Set(sources.flatMap((source) => listTemplateVariables(source)))).sort();
+};
+
+// Read template fields from a request body, falling back to the current template
+const parseTemplateInput = (body: any, current?: ResolvedEmailTemplate | null): { error?: string; data?: EmailTemplateInput } => {
+    const kind = body.kind ?? current?.kind ?? "template";
+    const subject = body.subject ?? current?.subject ?? "";
+    const html = body.html ?? current?.html;
+
+    if (kind !== "template" && kind !== "layout") {
+        return { error: "Kind must be one of: template, layout" };
+    }
+    if (!html || typeof html !== "string") {
+        return { error: "Template html is required" };
+    }
+    if (kind === "template" && (!subject || typeof subject !== "string")) {
+        return { error: "Template subject is required" };
+    }
+    if (kind === "layout" && !html.includes("content")) {
+        return { error: "Layouts must place the email body with {{{ content }}}" };
+    }
+    if (body.sampleData !== undefined && (typeof body.sampleData !== "object" || Array.isArray(body.sampleData))) {
+        return { error: "sampleData must be an object" };
+    }
+
+    return {
+        data: {
+            kind,
+            subject,
+            html,
+            text: body.text !== undefined ? body.text : current?.text,
+            layout: body.layout !== undefined ? body.layout : current?.layout,
+            description: body.description ?? current?.description,
+            sampleData: body.sampleData ?? current?.sampleData
+        }
+    };
+};
+
+const handleTemplateError = (res: Response, error: unknown, label: string, message: string) => {
+    if (error instanceof EmailTemplateError) {
+        return res.status(error.statusCode).json({ success: false, message: error.message });
+    }
+    console.error(`${label} error:`, error);
+    return res.status(500).json({
+        success: false,
+        message,
+    });
+};
+
+// List built-in, disk and database templates (admin only)
+export const getEmailTemplates = async (_req: Request, res: Response) => {
+    try {
+        const db = getDB();
+        const stored = await db.collection<EmailTemplate>("emailTemplates")
+            .find({}, { projection: { key: 1 } })
+            .toArray();
+
+        const keys = new Set([
+            ...Object.keys(DEFAULT_EMAIL_TEMPLATES),
+            ...listDiskTemplateKeys(),
+            ...stored.map((template) => template.key)
+        ]);
+
+        const templates = [];
+        for (const key of Array.from(keys).sort()) {
+            const template = await resolveEmailTemplate(db, key);
+            if (!template) continue;
+            templates.push({
+                key,
+                kind: template.kind,
+                description: template.description,
+                layout: template.layout,
+                source: template.source,
+                version: template.version,
+                hasBuiltInDefault: key in DEFAULT_EMAIL_TEMPLATES
+            });
+        }
+
+        return res.status(200).json({
+            success: true,
+            count: templates.length,
+            data: templates
+        });
+    } catch (error) {
+        return handleTemplateError(res, error, "Get email templates", "Failed to get email templates");
+    }
+};
+
+// Get one template with the variables it uses (admin only)
+export const getEmailTemplate = async (req: Request, res: Response) => {
+    try {
+        const template = await resolveEmailTemplate(getDB(), req.params.key as string);
+
+        if (!template) {
+            return res.status(404).json({ success: false, message: "Email template not found" });
+        }
+
+        return res.status(200).json({
+            success: true,
+            data: { ...template, variables: templateVariables(template) }
+        });
+    } catch (error) {
+        return handleTemplateError(res, error, "Get email template", "Failed to get email template");
+    }
+};
+
+// Create a new template (admin only)
+export const createEmailTemplate = async (req: Request, res: Response) => {
+    try {
+        const key = String(req.body.key || "").trim().toLowerCase();
+
+        if (!TEMPLATE_KEY_PATTERN.test(key)) {
+            return res.status(400).json({
+                success: false,
+                message: "Template key is required and may only contain lowercase letters, numbers and dashes"
+            });
+        }
+
+        const db = getDB();
+        const existing = await resolveEmailTemplate(db, key);
+        if (existing) {
+            return res.status(409).json({
+                success: false,
+                message: `Email template "${key}" already exists, use PUT to change it`
+            });
+        }
+
+        const { error, data } = parseTemplateInput(req.body);
+        if (error) {
+            return res.status(400).json({ success: false, message: error });
+        }
+
+        const template = await saveEmailTemplate(db, key, data!, req.user?.uid);
+
+        return res.status(201).json({
+            success: true,
+            message: "Email template created successfully",
+            data: template
+        });
+    } catch (error) {
+        return handleTemplateError(res, error, "Create email template", "Failed to create email template");
+    }
+};
+
+// Save a new version of a template; editing a built-in template stores an override (admin only)
+export const updateEmailTemplate = async (req: Request, res: Response) => {
+    try {
+        const key = req.params.key as string;
+        const db = getDB();
+        const current = await resolveEmailTemplate(db, key);
+
+        if (!current) {
+            return res.status(404).json({ success: false, message: "Email template not found" });
+        }
+
+        const { error, data } = parseTemplateInput(req.body, current);
+        if (error) {
+            return res.status(400).json({ success: false, message: error });
+        }
+
+        const template = await saveEmailTemplate(db, key, data!, req.user?.uid);
+
+        return res.status(200).json({
+            success: true,
+            message: "Email template updated successfully",
+            data: template
+        });
+    } catch (error) {
+        return handleTemplateError(res, error, "Update email template", "Failed to update email template");
+    }
+};
+
+// Delete the database copy; built-in and disk templates fall back to their original copy (admin only)
+export const deleteEmailTemplate = async (req: Request, res: Response) => {
+    try {
+        const key = req.params.key as string;
+        const db = getDB();
+        const templates = db.collection<EmailTemplate>("emailTemplates");
+
+        const stored = await templates.findOne({ key });
+        if (!stored) {
+            return res.status(404).json({
+                success: false,
+                message: "No saved copy of this email template to delete"
+            });
+        }
+
+        // A layout with no fallback copy cannot be removed while templates still use it
+        const hasFallback = key in DEFAULT_EMAIL_TEMPLATES || listDiskTemplateKeys().includes(key);
+        if (stored.kind === "layout" && !hasFallback) {
+            const dependents = await templates.countDocuments({ layout: key });
+            if (dependents > 0) {
+                return res.status(409).json({
+                    success: false,
+                    message: `Layout is used by ${dependents} template(s)`
+                });
+            }
+        }
+
+        await templates.deleteOne({ key });
+
+        return res.status(200).json({
+            success: true,
+            message: hasFallback
+                ? "Email template reset to its original copy"
+                : "Email template deleted successfully"
+        });
+    } catch (error) {
+        return handleTemplateError(res, error, "Delete email template", "Failed to delete email template");
+    }
+};
+
+// List saved versions of a template (admin only)
+export const getEmailTemplateVersions = async (req: Request, res: Response) => {
+    try {
+        const versions = await getDB().collection<EmailTemplateVersion>("emailTemplateVersions")
+            .find({ key: req.params.key as string })
+            .sort({ version: -1 })
+            .toArray();
+
+        return res.status(200).json({
+            success: true,
+            count: versions.length,
+            data: versions
+        });
+    } catch (error) {
+        return handleTemplateError(res, error, "Get email template versions", "Failed to get email template versions");
+    }
+};
+
+// Save an older version again as the newest version (admin only)
+export const restoreEmailTemplateVersion = async (req: Request, res: Response) => {
+    try {
+        const key = req.params.key as string;
+        const db = getDB();
+        const version = await db.collection<EmailTemplateVersion>("emailTemplateVersions")
+            .findOne({ key, version: Number(req.params.version) });
+
+        if (!version) {
+            return res.status(404).json({ success: false, message: "Email template version not found" });
+        }
+
+        const template = await saveEmailTemplate(db, key, {
+            kind: (await resolveEmailTemplate(db, key))?.kind || "template",
+            subject: version.subject,
+            html: version.html,
+            text: version.text,
+            layout: version.layout,
+            description: version.description,
+            sampleData: version.sampleData
+        }, req.user?.uid);
+
+        return res.status(200).json({
+            success: true,
+            message: `Version ${version.version} restored as version ${template.version}`,
+            data: template
+        });
+    } catch (error) {
+        return handleTemplateError(res, error, "Restore email template version", "Failed to restore email template version");
+    }
+};
+
+/**
+ * Render a template with its sample data (admin only)
+ * Query: format=json|html|text (default json), version=<n> to preview an older version
+ */
+export const previewEmailTemplate = async (req: Request, res: Response) => {
+    try {
+        const key = req.params.key as string;
+        const { format = "json", version } = req.query;
+        const db = getDB();
+
+        let template = await resolveEmailTemplate(db, key);
+        if (!template) {
+            return res.status(404).json({ success: false, message: "Email template not found" });
+        }
+
+        if (version !== undefined) {
+            const snapshot = await db.collection<EmailTemplateVersion>("emailTemplateVersions")
+                .findOne({ key, version: Number(version) });
+            if (!snapshot) {
+                return res.status(404).json({ success: false, message: "Email template version not found" });
+            }
+            template = { ...template, ...snapshot, kind: template.kind, source: "database" };
+        }
+
+        const rendered = await renderEmailTemplate(db, key, { brand: EMAIL_BRAND, ...template.sampleData }, template);
+
+        if (format === "html") {
+            return res.status(200).type("html").send(rendered.html);
+        }
+        if (format === "text") {
+            return res.status(200).type("text").send(rendered.text);
+        }
+
+        return res.status(200).json({
+            success: true,
+            data: rendered
+        });
+    } catch (error) {
+        return handleTemplateError(res, error, "Preview email template", "Failed to preview email template");
+    }
+};
@@ -0,0 +1,337 @@
+import { ResolvedEmailTemplate } from "./emailTemplate.model";
+
+type BuiltInTemplate = Omit<ResolvedEmailTemplate, "key" | "source">;
+
+// Sample values shared by the order template previews
+const SAMPLE_ORDER = {
+    orderNumber: "ORD-2025-0042",
+    customerName: "Jane Doe",
+    customerEmail: "jane@example.com",
+    customerPhone: "+1 555 0100",
+    items: [
+        { name: "Landing page design", quantity: 1, total: "450.00 USD" },
+        { name: "Hosting setup", quantity: 1, total: "50.00 USD" }
+    ],
+    discount: "50.00 USD",
+    couponCode: "WELCOME10",
+    tax: "45.00 USD",
+    total: "495.00 USD",
+    paymentStatus: "pending"
+};
+
+const ORDER_SUMMARY = `
+            <table class="details">
+                <tr><th>Item</th><th>Qty</th><th>Total</th></tr>
+                {{#each items}}<tr><td>{{ name }}</td><td>{{ quantity }}</td><td>{{ total }}</td></tr>{{/each}}
+                {{#if discount}}<tr><td colspan="2">Discount{{#if couponCode}} ({{ couponCode }}){{/if}}</td><td>-{{ discount }}</td></tr>{{/if}}
+                {{#if tax}}<tr><td colspan="2">Tax</td><td>{{ tax }}</td></tr>{{/if}}
+                <tr><th colspan="2">Total</th><th>{{ total }}</th></tr>
+            </table>`;
+
+const ORDER_SUMMARY_TEXT = `{{#each items}}- {{ name }} x{{ quantity }}: {{ total }}
+{{/each}}{{#if discount}}Discount: -{{ discount }}
+{{/if}}{{#if tax}}Tax: {{ tax }}
+{{/if}}Total: {{ total }}`;
+
+/**
+ * Templates shipped with the app. Admins can override any of them from the admin API;
+ * deleting the override restores the built-in copy.
+ */
+export const DEFAULT_EMAIL_TEMPLATES: Record<string, BuiltInTemplate> = {
+    "layout": {
+        kind: "layout",
+        description: "Branded wrapper used by every email",
+        subject: "",
+        html: `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: {{ brand.accentColor }}; color: white; padding: 20px; text-align: center; border-radius: 5px 5px 0 0; }
+          .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 5px 5px; }
+          .button { display: inline-block; padding: 12px 30px; background: {{ brand.accentColor }}; color: white; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+          .link { word-break: break-all; color: {{ brand.accentColor }}; }
+          table.details { width: 100%; border-collapse: collapse; margin: 15px 0; }
+          table.details th, table.details td { text-align: left; padding: 6px 4px; border-bottom: 1px solid #e0e0e0; }
+          .footer { text-align: center; margin-top: 20px; font-size: 12px; color: #666; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>{{ subject }}</h1>
+          </div>
+          <div class="content">
+            {{{ content }}}
+            <p>Thanks,<br>The {{ brand.companyName }} Team</p>
+          </div>
+          <div class="footer">
+            <p>{{ brand.footer }}</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `,
+        text: `{{{ content }}}
+
+Thanks,
+The {{ brand.companyName }} Team
+
+{{ brand.footer }}`,
+        sampleData: { subject: "Email subject", content: "<p>Email content goes here.</p>" }
+    },
+
+    "password-reset": {
+        kind: "template",
+        description: "Sent when a user requests a password reset",
+        layout: "layout",
+        subject: "Password Reset Request",
+        html: `
+            <p>Hello {{ userName }},</p>
+            <p>We received a request to reset your password. Click the button below to create a new password:</p>
+            <div style="text-align: center;">
+              <a href="{{ resetLink }}" class="button">Reset Password</a>
+            </div>
+            <p>Or copy and paste this link into your browser:</p>
+            <p class="link">{{ resetLink }}</p>
+            <p><strong>This link will expire in 1 hour.</strong></p>
+            <p>If you didn't request a password reset, please ignore this email or contact support if you have concerns.</p>`,
+        text: `Hello {{ userName }},
+
+We received a request to reset your password. Open this link to create a new password:
+{{ resetLink }}
+
+This link will expire in 1 hour.
+
+If you didn't request a password reset, please ignore this email or contact support if you have concerns.`,
+        sampleData: {
+            userName: "Jane",
+            resetLink: "https://example.com/reset-password?token=sample"
+        }
+    },
+
+    "password-reset-confirmation": {
+        kind: "template",
+        description: "Sent after a password was reset",
+        layout: "layout",
+        subject: "Password Successfully Reset",
+        html: `
+            <p>Hello {{ userName }},</p>
+            <p>Your password has been successfully reset.</p>
+            <p>You can now log in with your new password.</p>
+            <p>If you did not make this change or believe an unauthorized person has accessed your account, please contact support immediately.</p>`,
+        sampleData: { userName: "Jane" }
+    },
+
+    "email-verification": {
+        kind: "template",
+        description: "Sent after registration to confirm the email address",
+        layout: "layout",
+        subject: "Confirm your email address",
+        html: `
+            <p>Hello {{ userName }},</p>
+            <p>Thanks for signing up. Please confirm your email address to finish setting up your account:</p>
+            <div style="text-align: center;">
+              <a href="{{ verifyLink }}" class="button">Confirm Email</a>
+            </div>
+            <p>Or copy and paste this link into your browser:</p>
+            <p class="link">{{ verifyLink }}</p>
+            <p><strong>This link will expire in {{ expiresInHours }} hours.</strong></p>
+            <p>If you didn't create an account, you can ignore this email.</p>`,
+        text: `Hello {{ userName }},
+
+Thanks for signing up. Please confirm your email address to finish setting up your account:
+{{ verifyLink }}
+
+This link will expire in {{ expiresInHours }} hours.
+
+If you didn't create an account, you can ignore this email.`,
+        sampleData: {
+            userName: "Jane",
+            verifyLink: "https://example.com/verify-email?token=sample",
+            expiresInHours: 24
+        }
+    },
+
+    "account-locked": {
+        kind: "template",
+        description: "Sent when repeated failed sign-ins lock an account",
+        layout: "layout",
+        subject: "Your account has been temporarily locked",
+        html: `
+            <p>Hello {{ userName }},</p>
+            <p>We locked your account for {{ lockoutMinutes }} minutes after several failed sign-in attempts{{#if ip}} from {{ ip }}{{/if}}.</p>
+            <p>If this was you, you can try again once the lock expires.</p>
+            <p>If it was not, someone may be trying to guess your password. We recommend resetting it:</p>
+            <div style="text-align: center;">
+              <a href="{{ resetPasswordLink }}" class="button">Reset Password</a>
+            </div>`,
+        text: `Hello {{ userName }},
+
+We locked your account for {{ lockoutMinutes }} minutes after several failed sign-in attempts{{#if ip}} from {{ ip }}{{/if}}.
+
+If this was you, you can try again once the lock expires.
+
+If it was not, someone may be trying to guess your password. We recommend resetting it:
+{{ resetPasswordLink }}`,
+        sampleData: {
+            userName: "Jane",
+            lockoutMinutes: 15,
+            ip: "203.0.113.7",
+            resetPasswordLink: "https://example.com/forgot-password"
+        }
+    },
+
+    "order-confirmation": {
+        kind: "template",
+        description: "Sent to the customer when an order is placed",
+        layout: "layout",
+        subject: "Order {{ orderNumber }} received",
+        html: `
+            <p>Hello {{ customerName }},</p>
+            <p>Thank you for your order. We have received order <strong>{{ orderNumber }}</strong> and will confirm it shortly.</p>
+            ${ORDER_SUMMARY}
+            <p>Payment status: <strong>{{ paymentStatus }}</strong></p>`,
+        text: `Hello {{ customerName }},
+
+Thank you for your order. We have received order {{ orderNumber }} and will confirm it shortly.
+
+${ORDER_SUMMARY_TEXT}
+
+Payment status: {{ paymentStatus }}`,
+        sampleData: { ...SAMPLE_ORDER }
+    },
+
+    "order-payment-received": {
+        kind: "template",
+        description: "Sent to the customer when an order is marked paid",
+        layout: "layout",
+        subject: "Payment received for order {{ orderNumber }}",
+        html: `
+            <p>Hello {{ customerName }},</p>
+            <p>We have received your payment of <strong>{{ total }}</strong> for order <strong>{{ orderNumber }}</strong>.</p>
+            {{#if transactionId}}<p>Transaction ID: {{ transactionId }}</p>{{/if}}
+            <p>Your invoice is available from your order page.</p>`,
+        sampleData: { ...SAMPLE_ORDER, paymentStatus: "paid", transactionId: "TXN123456" }
+    },
+
+    "order-status-changed": {
+        kind: "template",
+        description: "Sent to the customer when an order moves to a new status",
+        layout: "layout",
+        subject: "Order {{ orderNumber }} is now {{ statusLabelLower }}",
+        html: `
+            <p>Hello {{ customerName }},</p>
+            <p>The status of order <strong>{{ orderNumber }}</strong> changed from <strong>{{ previousStatusLabel }}</strong> to <strong>{{ statusLabel }}</strong>.</p>
+            {{#if note}}<p>Note: {{ note }}</p>{{/if}}`,
+        sampleData: {
+            ...SAMPLE_ORDER,
+            previousStatusLabel: "Confirmed",
+            statusLabel: "Processing",
+            statusLabelLower: "processing",
+            note: "Work has started on your project."
+        }
+    },
+
+    "order-cancelled": {
+        kind: "template",
+        description: "Sent to the customer when an order is cancelled",
+        layout: "layout",
+        subject: "Order {{ orderNumber }} cancelled",
+        html: `
+            <p>Hello {{ customerName }},</p>
+            <p>Order <strong>{{ orderNumber }}</strong> has been cancelled.</p>
+            {{#if reason}}<p>Reason: {{ reason }}</p>{{/if}}
+            <p>If you already paid for this order, any refund will be processed to your original payment method.</p>`,
+        sampleData: { ...SAMPLE_ORDER, reason: "Requested by customer" }
+    },
+
+    "admin-new-order": {
+        kind: "template",
+        description: "Sent to admins when an order is placed",
+        layout: "layout",
+        subject: "New order {{ orderNumber }}",
+        html: `
+            <p>A new order <strong>{{ orderNumber }}</strong> was placed.</p>
+            <p>
+                Customer: {{ customerName }} &lt;{{ customerEmail }}&gt;<br>
+                Phone: {{ customerPhone }}
+            </p>
+            ${ORDER_SUMMARY}
+            {{#if notes}}<p>Notes: {{ notes }}</p>{{/if}}`,
+        sampleData: { ...SAMPLE_ORDER, notes: "Please call before starting." }
+    },
+
+    "contact-reply": {
+        kind: "template",
+        description: "Reply from an admin to a contact form inquiry",
+        layout: "layout",
+        subject: "{{ replySubject }}",
+        html: `
+            <p>Hello {{ name }},</p>
+            <div style="white-space: pre-line;">{{ body }}</div>
+            <hr style="border: none; border-top: 1px solid #e0e0e0; margin: 20px 0;">
+            <p style="color: #666; font-size: 13px;">On {{ receivedAt }} you wrote:</p>
+            <div style="white-space: pre-line; color: #666; font-size: 13px;">{{ message }}</div>`,
+        text: `Hello {{ name }},
+
+{{ body }}
+
+---
+On {{ receivedAt }} you wrote:
+{{ message }}`,
+        sampleData: {
+            name: "Jane Doe",
+            replySubject: "Re: Website redesign",
+            body: "Thanks for reaching out!\nWe would be happy to help with your redesign.",
+            receivedAt: "2025-01-15",
+            message: "Hi, I'd like a quote for redesigning our company website."
+        }
+    },
+
+    "quote-sent": {
+        kind: "template",
+        description: "Sent to the customer with a link to review, accept or decline a quote",
+        layout: "layout",
+        subject: "Quote {{ quoteNumber }} from {{ brand.companyName }}",
+        html: `
+            <p>Hello {{ customerName }},</p>
+            <p>Thank you for your interest. Here is quote <strong>{{ quoteNumber }}</strong>{{#if planName}} for {{ planName }}{{/if}}:</p>
+            ${ORDER_SUMMARY}
+            {{#if notes}}<p style="white-space: pre-line;">{{ notes }}</p>{{/if}}
+            {{#if terms}}<p><strong>Terms</strong></p><div style="white-space: pre-line; font-size: 13px;">{{ terms }}</div>{{/if}}
+            <p>This quote is valid until <strong>{{ validUntil }}</strong>.</p>
+            <div style="text-align: center;">
+              <a href="{{ quoteLink }}" class="button">Review quote</a>
+            </div>
+            <p>From the quote page you can accept it, which places your order, or decline it.</p>
+            <p>Or copy and paste this link into your browser:</p>
+            <p class="link">{{ quoteLink }}</p>`,
+        text: `Hello {{ customerName }},
+
+Thank you for your interest. Here is quote {{ quoteNumber }}{{#if planName}} for {{ planName }}{{/if}}:
+
+${ORDER_SUMMARY_TEXT}
+{{#if notes}}
+{{ notes }}
+{{/if}}{{#if terms}}
+Terms:
+{{ terms }}
+{{/if}}
+This quote is valid until {{ validUntil }}.
+
+Review, accept or decline it here:
+{{ quoteLink }}`,
+        sampleData: {
+            ...SAMPLE_ORDER,
+            quoteNumber: "QUO-2025-0007",
+            planName: "Web Development - Enterprise",
+            validUntil: "2025-02-01",
+            terms: "50% upfront, 50% on delivery.",
+            notes: "Includes two rounds of revisions.",
+            quoteLink: "https://example.com/quotes/sample?token=sample"
+        }
+    }
+};
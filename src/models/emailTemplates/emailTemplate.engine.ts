@@ -0,0 +1,401 @@
+import fs from "fs";
+import path from "path";
+import { Db } from "mongodb";
+import {
+    EmailTemplate,
+    EmailTemplateContent,
+    EmailTemplateVersion,
+    RenderedEmail,
+    ResolvedEmailTemplate
+} from "./emailTemplate.model";
+import { DEFAULT_EMAIL_TEMPLATES } from "./emailTemplate.defaults";
+import { AppError } from "../../utils/errors";
+
+export class EmailTemplateError extends AppError {
+    constructor(message: string, statusCode = 400) {
+        super(message, statusCode);
+        this.name = "EmailTemplateError";
+    }
+}
+
+// Optional directory of template files: <key>.html, <key>.txt and <key>.json ({ subject, layout, kind, description })
+const TEMPLATES_DIR = process.env.EMAIL_TEMPLATES_DIR;
+
+export const TEMPLATE_KEY_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+// Layouts may extend other layouts; stop runaway chains
+const MAX_LAYOUT_DEPTH = 5;
+
+/*
+ * Syntax:
+ *   {{ name }}            value, HTML escaped (in HTML output)
+ *   {{{ name }}}          value, not escaped
+ *   {{#if name}}..{{else}}..{{/if}}
+ *   {{#each items}}..{{/each}}   inside the block, item fields are in scope and {{ this }} is the item
+ * Names may be dotted paths, e.g. {{ order.orderNumber }}.
+ */
+type TemplateNode =
+    | { type: "text"; value: string }
+    | { type: "value"; path: string; raw: boolean }
+    | { type: "if"; path: string; then: TemplateNode[]; otherwise: TemplateNode[] }
+    | { type: "each"; path: string; body: TemplateNode[] };
+
+const TAG_PATTERN = /\{\{\{\s*([\w.]+)\s*\}\}\}|\{\{\s*(#if|#each|else|\/if|\/each)?\s*([\w.]*)\s*\}\}/g;
+
+export const escapeHtml = (value: unknown): string => {
+    return String(value ?? "")
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&#39;");
+};
+
+/**
+ * Parse a template into nodes. Throws EmailTemplateError on unbalanced blocks.
+ */
+export const parseTemplate = (source: string): TemplateNode[] => {
+    const root: TemplateNode[] = [];
+    // Open blocks; `nodes` is where children are currently appended
+    const stack: { node: TemplateNode | null; nodes: TemplateNode[] }[] = [{ node: null, nodes: root }];
+    let lastIndex = 0;
+
+    const current = () => stack[stack.length - 1];
+
+    for (const match of source.matchAll(TAG_PATTERN)) {
+        const [tag, rawPath, keyword, name] = match;
+        const index = match.index ?? 0;
+
+        if (index > lastIndex) {
+            current().nodes.push({ type: "text", value: source.slice(lastIndex, index) });
+        }
+        lastIndex = index + tag.length;
+
+        if (rawPath) {
+            current().nodes.push({ type: "value", path: rawPath, raw: true });
+            continue;
+        }
+
+        if (!keyword) {
+            if (!name) throw new EmailTemplateError(`Empty tag "${tag}"`);
+            current().nodes.push({ type: "value", path: name, raw: false });
+            continue;
+        }
+
+        if (keyword === "#if" || keyword === "#each") {
+            if (!name) throw new EmailTemplateError(`Missing name in "${tag}"`);
+            const node: TemplateNode = keyword === "#if"
+                ? { type: "if", path: name, then: [], otherwise: [] }
+                : { type: "each", path: name, body: [] };
+            current().nodes.push(node);
+            stack.push({ node, nodes: node.type === "if" ? node.then : (node as { body: TemplateNode[] }).body });
+            continue;
+        }
+
+        const open = current().node;
+        if (keyword === "else") {
+            if (open?.type !== "if") throw new EmailTemplateError("{{else}} outside of {{#if}}");
+            current().nodes = open.otherwise;
+            continue;
+        }
+
+        const expected = keyword === "/if" ? "if" : "each";
+        if (open?.type !== expected) {
+            throw new EmailTemplateError(`Unexpected {{${keyword}}}`);
+        }
+        stack.pop();
+    }
+
+    if (stack.length > 1) {
+        throw new EmailTemplateError(`Unclosed {{#${stack[stack.length - 1].node!.type}}} block`);
+    }
+
+    if (lastIndex < source.length) {
+        root.push({ type: "text", value: source.slice(lastIndex) });
+    }
+
+    return root;
+};
+
+// Resolve a dotted path against the innermost scope that defines its first segment
+const lookup = (scopes: any[], dottedPath: string): any => {
+    if (dottedPath === "this") return scopes[scopes.length - 1];
+
+    const [head, ...rest] = dottedPath.split(".");
+    for (let i = scopes.length - 1; i >= 0; i--) {
+        const scope = scopes[i];
+        if (scope !== null && typeof scope === "object" && head in scope) {
+            return rest.reduce((value, key) => (value == null ? undefined : value[key]), scope[head]);
+        }
+    }
+    return undefined;
+};
+
+const isTruthy = (value: unknown): boolean => {
+    return Array.isArray(value) ? value.length > 0 : Boolean(value);
+};
+
+const renderNodes = (nodes: TemplateNode[], scopes: any[], escape: boolean): string => {
+    let output = "";
+
+    for (const node of nodes) {
+        switch (node.type) {
+            case "text":
+                output += node.value;
+                break;
+            case "value": {
+                const value = lookup(scopes, node.path);
+                output += escape && !node.raw ? escapeHtml(value) : String(value ?? "");
+                break;
+            }
+            case "if":
+                output += renderNodes(isTruthy(lookup(scopes, node.path)) ? node.then : node.otherwise, scopes, escape);
+                break;
+            case "each": {
+                const items = lookup(scopes, node.path);
+                if (Array.isArray(items)) {
+                    output += items.map((item) => renderNodes(node.body, [...scopes, item], escape)).join("");
+                }
+                break;
+            }
+        }
+    }
+
+    return output;
+};
+
+/**
+ * Render a template string. HTML output escapes {{ values }}; plain text output does not.
+ */
+export const renderTemplateString = (source: string, data: Record<string, any>, format: "html" | "text" = "html"): string => {
+    return renderNodes(parseTemplate(source), [data], format === "html");
+};
+
+// Names referenced by a template, for the admin UI
+export const listTemplateVariables = (source: string): string[] => {
+    const names = new Set<string>();
+    const visit = (nodes: TemplateNode[]) => {
+        for (const node of nodes) {
+            if (node.type === "value" && node.path !== "this" && node.path !== "content") names.add(node.path);
+            if (node.type === "if") {
+                names.add(node.path);
+                visit(node.then);
+                visit(node.otherwise);
+            }
+            if (node.type === "each") {
+                names.add(node.path);
+                visit(node.body);
+            }
+        }
+    };
+    visit(parseTemplate(source));
+    return Array.from(names).sort();
+};
+
+/**
+ * Plain-text version of an HTML email, used when a template has no text part
+ */
+export const htmlToText = (html: string): string => {
+    return html
+        .replace(/<(head|style|script)[^>]*>[\s\S]*?<\/\1>/gi, "")
+        .replace(/<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, (_match, href, label) => {
+            const text = label.replace(/<[^>]+>/g, "").trim();
+            return text && text !== href ? `${text} (${href})` : href;
+        })
+        .replace(/<br\s*\/?>/gi, "\n")
+        .replace(/<\/(p|div|h[1-6]|tr|li|table)>/gi, "\n")
+        .replace(/<\/(td|th)>/gi, "\t")
+        .replace(/<[^>]+>/g, "")
+        .replace(/&nbsp;/g, " ")
+        .replace(/&lt;/g, "<")
+        .replace(/&gt;/g, ">")
+        .replace(/&quot;/g, "\"")
+        .replace(/&#39;/g, "'")
+        .replace(/&amp;/g, "&")
+        .split("\n")
+        .map((line) => line.replace(/[ \t]+/g, " ").trim())
+        .join("\n")
+        .replace(/\n{3,}/g, "\n\n")
+        .trim();
+};
+
+const readTemplateFromDisk = (key: string): ResolvedEmailTemplate | null => {
+    if (!TEMPLATES_DIR || !TEMPLATE_KEY_PATTERN.test(key)) return null;
+
+    const file = (extension: string) => path.join(TEMPLATES_DIR, `${key}.${extension}`);
+    if (!fs.existsSync(file("html"))) return null;
+
+    const meta = fs.existsSync(file("json")) ? JSON.parse(fs.readFileSync(file("json"), "utf8")) : {};
+    const fallback = DEFAULT_EMAIL_TEMPLATES[key];
+
+    return {
+        key,
+        kind: meta.kind || fallback?.kind || "template",
+        description: meta.description ?? fallback?.description,
+        subject: meta.subject ?? fallback?.subject ?? "",
+        html: fs.readFileSync(file("html"), "utf8"),
+        text: fs.existsSync(file("txt")) ? fs.readFileSync(file("txt"), "utf8") : undefined,
+        layout: meta.layout !== undefined ? meta.layout : fallback?.layout,
+        sampleData: meta.sampleData ?? fallback?.sampleData,
+        source: "disk"
+    };
+};
+
+/**
+ * Find the template for a key: the database copy, then the disk copy, then the built-in one
+ */
+export const resolveEmailTemplate = async (db: Db, key: string): Promise<ResolvedEmailTemplate | null> => {
+    const stored = await db.collection<EmailTemplate>("emailTemplates").findOne({ key });
+    if (stored) {
+        return {
+            key: stored.key,
+            kind: stored.kind,
+            description: stored.description,
+            subject: stored.subject,
+            html: stored.html,
+            text: stored.text,
+            layout: stored.layout,
+            sampleData: stored.sampleData,
+            version: stored.version,
+            source: "database"
+        };
+    }
+
+    const fromDisk = readTemplateFromDisk(key);
+    if (fromDisk) return fromDisk;
+
+    const builtIn = DEFAULT_EMAIL_TEMPLATES[key];
+    return builtIn ? { ...builtIn, key, source: "default" } : null;
+};
+
+/**
+ * Check a template before saving: it must parse and its layout chain must exist and end
+ */
+export const validateTemplateContent = async (db: Db, key: string, content: EmailTemplateContent): Promise<void> => {
+    parseTemplate(content.subject || "");
+    parseTemplate(content.html);
+    if (content.text) parseTemplate(content.text);
+
+    const seen = new Set([key]);
+    let layoutKey = content.layout;
+
+    while (layoutKey) {
+        if (seen.has(layoutKey)) {
+            throw new EmailTemplateError(`Layout "${layoutKey}" would include itself`);
+        }
+        if (seen.size > MAX_LAYOUT_DEPTH) {
+            throw new EmailTemplateError("Layouts are nested too deeply");
+        }
+        seen.add(layoutKey);
+
+        const layout = await resolveEmailTemplate(db, layoutKey);
+        if (!layout || layout.kind !== "layout") {
+            throw new EmailTemplateError(`Layout "${layoutKey}" does not exist`);
+        }
+        layoutKey = layout.layout;
+    }
+};
+
+/**
+ * Render a template and its layouts into subject, HTML and plain text.
+ * Pass `template` to render unsaved or historic content under `key`.
+ */
+export const renderEmailTemplate = async (
+    db: Db,
+    key: string,
+    data: Record<string, any>,
+    template?: ResolvedEmailTemplate | null
+): Promise<RenderedEmail> => {
+    const resolved = template || await resolveEmailTemplate(db, key);
+    if (!resolved) {
+        throw new EmailTemplateError(`Email template "${key}" not found`, 404);
+    }
+
+    const subject = renderTemplateString(resolved.subject || "", data, "text").trim();
+    let html = renderTemplateString(resolved.html, data, "html");
+    let text = resolved.text ? renderTemplateString(resolved.text, data, "text") : htmlToText(html);
+
+    // Wrap in each layout in turn; layouts place the inner content with {{{ content }}}
+    // and may show the rendered {{ subject }}
+    let layoutKey = resolved.layout;
+    for (let depth = 0; layoutKey; depth++) {
+        if (depth >= MAX_LAYOUT_DEPTH) {
+            throw new EmailTemplateError("Layouts are nested too deeply", 500);
+        }
+
+        const layout = await resolveEmailTemplate(db, layoutKey);
+        if (!layout) {
+            throw new EmailTemplateError(`Layout "${layoutKey}" not found`, 500);
+        }
+
+        html = renderTemplateString(layout.html, { ...data, subject, content: html }, "html");
+        text = layout.text ? renderTemplateString(layout.text, { ...data, subject, content: text }, "text") : text;
+        layoutKey = layout.layout;
+    }
+
+    return { subject, html, text: text.trim() };
+};
+
+// Keys of templates stored in EMAIL_TEMPLATES_DIR
+export const listDiskTemplateKeys = (): string[] => {
+    if (!TEMPLATES_DIR || !fs.existsSync(TEMPLATES_DIR)) return [];
+
+    return fs.readdirSync(TEMPLATES_DIR)
+        .filter((file) => file.endsWith(".html"))
+        .map((file) => file.slice(0, -".html".length))
+        .filter((key) => TEMPLATE_KEY_PATTERN.test(key));
+};
+
+export type EmailTemplateInput = Pick<EmailTemplate, "kind" | "subject" | "html" | "text" | "layout" | "description" | "sampleData">;
+
+/**
+ * Save a template to the database as a new version. Every version is kept in
+ * emailTemplateVersions so older copy can be previewed and restored.
+ */
+export const saveEmailTemplate = async (db: Db, key: string, input: EmailTemplateInput, updatedBy?: string): Promise<EmailTemplate> => {
+    await validateTemplateContent(db, key, input);
+
+    const templates = db.collection<EmailTemplate>("emailTemplates");
+    const versions = db.collection<EmailTemplateVersion>("emailTemplateVersions");
+
+    const [current, latestVersion] = await Promise.all([
+        templates.findOne({ key }),
+        versions.find({ key }).sort({ version: -1 }).limit(1).next()
+    ]);
+
+    // Versions keep counting after an override was deleted and created again
+    const version = Math.max(current?.version || 0, latestVersion?.version || 0) + 1;
+    const now = new Date();
+    const fields = {
+        kind: input.kind,
+        subject: input.kind === "layout" ? "" : input.subject,
+        html: input.html,
+        text: input.text || undefined,
+        layout: input.layout || null,
+        description: input.description,
+        sampleData: input.sampleData || {}
+    };
+
+    let saved: EmailTemplate | null;
+    try {
+        saved = await templates.findOneAndUpdate(
+            current ? { key, version: current.version } : { key },
+            {
+                $set: { ...fields, version, updatedBy, updatedAt: now },
+                $setOnInsert: { key, createdAt: now }
+            },
+            { upsert: !current, returnDocument: "after" }
+        );
+    } catch (error: any) {
+        if (error?.code !== 11000) throw error;
+        saved = null;
+    }
+
+    if (!saved) {
+        throw new EmailTemplateError("Template was changed by another request, please reload and try again", 409);
+    }
+
+    await versions.insertOne({ key, version, ...fields, updatedBy, createdAt: now });
+
+    return saved;
+};
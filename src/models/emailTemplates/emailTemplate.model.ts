@@ -0,0 +1,51 @@
+import { ObjectId } from "mongodb";
+
+export type EmailTemplateKind = "template" | "layout";
+
+// Where a resolved template came from. Database copies override disk, disk overrides built-in.
+export type EmailTemplateSource = "database" | "disk" | "default";
+
+export interface EmailTemplateContent {
+    subject: string; // Empty for layouts
+    html: string;
+    text?: string; // Plain-text alternative; derived from the HTML when missing
+    layout?: string | null; // Key of the layout this template is rendered inside
+}
+
+export interface EmailTemplate extends EmailTemplateContent {
+    _id?: ObjectId;
+    key: string;
+    kind: EmailTemplateKind;
+    description?: string;
+    sampleData?: Record<string, any>; // Used by the admin preview
+    version: number;
+    updatedBy?: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// Snapshot of every saved version of a template
+export interface EmailTemplateVersion extends EmailTemplateContent {
+    _id?: ObjectId;
+    key: string;
+    version: number;
+    description?: string;
+    sampleData?: Record<string, any>;
+    updatedBy?: string;
+    createdAt: Date;
+}
+
+export interface ResolvedEmailTemplate extends EmailTemplateContent {
+    key: string;
+    kind: EmailTemplateKind;
+    description?: string;
+    sampleData?: Record<string, any>;
+    version?: number;
+    source: EmailTemplateSource;
+}
+
+export interface RenderedEmail {
+    subject: string;
+    html: string;
+    text: string;
+}
@@ -0,0 +1,26 @@
+import express from "express";
+import {
+    getEmailTemplates,
+    getEmailTemplate,
+    createEmailTemplate,
+    updateEmailTemplate,
+    deleteEmailTemplate,
+    getEmailTemplateVersions,
+    restoreEmailTemplateVersion,
+    previewEmailTemplate
+} from "./emailTemplate.controller";
+import { verifyToken, requirePermission } from "../../middlewares/auth.middleware";
+
+const router = express.Router();
+
+// Staff routes
+router.get("/", verifyToken, requirePermission("email:manage"), getEmailTemplates);
+router.post("/", verifyToken, requirePermission("email:manage"), createEmailTemplate);
+router.get("/:key/preview", verifyToken, requirePermission("email:manage"), previewEmailTemplate);
+router.get("/:key/versions", verifyToken, requirePermission("email:manage"), getEmailTemplateVersions);
+router.post("/:key/versions/:version/restore", verifyToken, requirePermission("email:manage"), restoreEmailTemplateVersion);
+router.get("/:key", verifyToken, requirePermission("email:manage"), getEmailTemplate);
+router.put("/:key", verifyToken, requirePermission("email:manage"), updateEmailTemplate);
+router.delete("/:key", verifyToken, requirePermission("email:manage"), deleteEmailTemplate);
+
+export default router;
@@ -1,26 +1,56 @@
 import { Request, Response } from "express";
 import { getDB } from "../../config/db";
 import { ObjectId } from "mongodb";
-import { Order, OrderItem } from "./order.model";
-
-const generateOrderNumber = async (): Promise<string> => {
-    const db = getDB();
-    const year = new Date().getFullYear();
-
-    // Find the latest order number for this year
-    const latestOrder = await db.collection("orders")
-        .find({ orderNumber: new RegExp(`^ORD-${year}-`) })
-        .sort({ orderNumber: -1 })
-        .limit(1)
-        .toArray();
-
-    let nextNumber = 1;
-    if (latestOrder.length > 0) {
-        const lastNumber = latestOrder[0].orderNumber.split('-')[2];
-        nextNumber = parseInt(lastNumber) + 1;
+import { Order, OrderItem, OrderPricing, OrderStatusHistoryEntry } from "./order.model";
+import {
+    ORDER_STATUSES,
+    isValidOrderStatus,
+    canTransition,
+    isFinalStatus,
+    describeInvalidTransition,
+    buildStatusHistoryEntry,
+    PAYMENT_STATUSES,
+    PAYMENT_STATUS_TRANSITIONS,
+    isValidPaymentStatus,
+    REFUND_PAYMENT_STATUSES
+} from "./order.lifecycle";
+import {
+    OrderItemInput,
+    OrderPricingError,
+    calculateOrderPricing,
+    findPricingMismatches
+} from "./order.pricing";
+import { AppliedCoupon, Coupon } from "../coupons/coupon.model";
+import { CouponError, findCouponByCode } from "../coupons/coupon.engine";
+import { getOrCreateInvoice } from "./order.invoice";
+import { RefundError, createRefund, settleRefund } from "./order.refunds";
+import { OrderPlacementError, placeOrder } from "./order.placement";
+import {
+    notifyInBackground,
+    sendPaymentReceivedEmail,
+    sendOrderStatusChangedEmail,
+    sendOrderCancelledEmail
+} from "./order.emails";
+import { resolveTaxLocation } from "../tax/tax.engine";
+import { DEFAULT_REPORTING_CURRENCY, normalizeCurrency, sumInCurrency } from "../currency/currency.engine";
+import { applyPaymentStatus } from "../payments/payment.engine";
+import { userHasPermission } from "../../middlewares/auth.middleware";
+import { hasPermission } from "../roles/role.permissions";
+
+// Fields staff may change through PUT /api/orders/:id
+const EDITABLE_ORDER_FIELDS = ["notes", "customer"];
+const EDITABLE_CUSTOMER_FIELDS = ["name", "email", "phone", "address"];
+
+// Resolve who is performing a status change from the authenticated request
+const getStatusActor = (req: Request): OrderStatusHistoryEntry["changedBy"] => {
+    const user = req.user;
+    if (!user) {
+        return { role: "system" };
     }
-
-    return `ORD-${year}-${String(nextNumber).padStart(4, '0')}`;
+    return {
+        uid: user.uid || user.user_id || user._id?.toString(),
+        role: hasPermission(user.permissions, "orders:write") ? "admin" : "user"
+    };
 };
 
 export const createOrder = async (req: Request, res: Response) => {
@@ -29,7 +59,7 @@ export const createOrder = async (req: Request, res: Response) => {
 
         console.log("Order request body:", JSON.stringify(req.body, null, 2));
 
-        const { customer, items, pricing, payment, notes, plan, planName, planPrice, paymentMethod, transactionId, receiverNumber } = req.body;
+        const { customer, items, pricing, payment, notes, plan, planId, categoryId, planPrice, currency, couponCode, paymentMethod, transactionId, receiverNumber } = req.body;
 
         if (!customer || !customer.name || !customer.email || !customer.phone) {
             return res.status(400).json({
@@ -38,148 +68,113 @@ export const createOrder = async (req: Request, res: Response) => {
             });
         }
 
-        let pricingData: any;
-        let planData: any;
-
-        if (pricing) {
-            pricingData = {
-                subtotal: pricing.subtotal || pricing.grandTotal || 0,
-                grandTotal: pricing.grandTotal || 0,
-                currency: pricing.currency || "USD",
-                tax: pricing.tax,
-                discount: pricing.discount,
-                shippingCost: pricing.shippingCost
-            };
-        } else if (plan) {
-            const price = parseFloat(plan.price?.toString().replace(/[^0-9.]/g, '') || '0');
-            pricingData = {
-                subtotal: price,
-                grandTotal: price,
-                currency: "USD"
-            };
-            planData = plan;
-        } else if (planPrice) {
-            const price = parseFloat(planPrice.toString().replace(/[^0-9.]/g, '') || '0');
-            pricingData = {
-                subtotal: price,
-                grandTotal: price,
-                currency: "USD"
-            };
-            planData = { name: planName, price: planPrice };
-        } else {
-            return res.status(400).json({
-                success: false,
-                message: "Pricing information (pricing or plan) is required",
-                receivedData: {
-                    hasPricing: !!pricing,
-                    hasPlan: !!plan,
-                    hasPlanPrice: !!planPrice,
-                    requestBody: req.body
-                }
-            });
-        }
-
-        if (!pricingData.grandTotal || pricingData.grandTotal <= 0) {
+        const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+        if (!emailRegex.test(customer.email)) {
             return res.status(400).json({
                 success: false,
-                message: "Grand total must be greater than 0"
+                message: "Invalid email format"
             });
         }
 
-        let itemsData: OrderItem[];
+        // Items reference catalog entries; prices are always looked up server side
+        let itemInputs: OrderItemInput[];
         if (items && Array.isArray(items) && items.length > 0) {
-            itemsData = items;
-        } else if (planData) {
-            itemsData = [{
-                name: planData.name || planName || "Service Plan",
-                description: planData.description,
+            itemInputs = items;
+        } else if (plan && (plan.id || plan.planId)) {
+            itemInputs = [{
+                planId: plan.id || plan.planId,
+                categoryId: plan.categoryId || categoryId,
                 quantity: 1,
-                unitPrice: pricingData.grandTotal,
-                totalPrice: pricingData.grandTotal
+                unitPrice: plan.price
             }];
+        } else if (planId) {
+            itemInputs = [{ planId, categoryId, quantity: 1, unitPrice: planPrice }];
         } else {
             return res.status(400).json({
                 success: false,
-                message: "At least one order item or plan is required"
+                message: "At least one order item (serviceId or planId) is required"
             });
         }
 
-        const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-        if (!emailRegex.test(customer.email)) {
-            return res.status(400).json({
-                success: false,
-                message: "Invalid email format"
+        let coupon: Coupon | undefined;
+        let itemsData: OrderItem[];
+        let pricingData: OrderPricing;
+        let appliedCoupon: AppliedCoupon | undefined;
+        try {
+            if (couponCode) {
+                coupon = await findCouponByCode(db, couponCode);
+            }
+            const calculated = await calculateOrderPricing(db, itemInputs, pricing?.currency || currency, {
+                coupon,
+                customerEmail: customer.email,
+                taxLocation: resolveTaxLocation(customer)
             });
-        }
-
-        for (const item of itemsData) {
-            if (!item.name || !item.quantity || !item.unitPrice || !item.totalPrice) {
-                return res.status(400).json({
+            itemsData = calculated.items;
+            pricingData = calculated.pricing;
+            appliedCoupon = calculated.coupon;
+        } catch (pricingError) {
+            if (pricingError instanceof OrderPricingError || pricingError instanceof CouponError) {
+                return res.status(pricingError.statusCode).json({
                     success: false,
-                    message: "Each item must have name, quantity, unitPrice, and totalPrice"
+                    message: pricingError.message,
+                    details: pricingError instanceof OrderPricingError ? pricingError.details : { couponCode }
                 });
             }
+            throw pricingError;
         }
 
-        const finalTransactionId = payment?.transactionId || transactionId;
-        if (finalTransactionId) {
-            const existingOrder = await db.collection("orders").findOne({
-                "payment.transactionId": finalTransactionId
+        // Reject the order if the client saw different numbers than we computed
+        const mismatches = findPricingMismatches(itemInputs, pricing, itemsData, pricingData);
+        if (mismatches.length > 0) {
+            return res.status(400).json({
+                success: false,
+                message: "Submitted prices do not match the current catalog prices",
+                diff: mismatches,
+                expected: { items: itemsData, pricing: pricingData }
             });
+        }
 
-            if (existingOrder) {
-                return res.status(400).json({
+        let createdOrder: Order;
+        try {
+            createdOrder = await placeOrder(db, {
+                customer,
+                items: itemsData,
+                pricing: pricingData,
+                coupon: coupon && appliedCoupon ? { coupon, applied: appliedCoupon } : undefined,
+                payment: {
+                    method: payment?.method || paymentMethod,
+                    transactionId: payment?.transactionId || transactionId,
+                    receiverNumber: payment?.receiverNumber || receiverNumber
+                },
+                notes
+            }, getStatusActor(req));
+        } catch (placementError) {
+            if (placementError instanceof OrderPlacementError) {
+                return res.status(placementError.statusCode).json({
                     success: false,
-                    message: "Invalid transaction ID. This transaction ID already exists."
+                    message: placementError.message
                 });
             }
+            if (placementError instanceof CouponError) {
+                return res.status(placementError.statusCode).json({
+                    success: false,
+                    message: placementError.message,
+                    details: { couponCode }
+                });
+            }
+            throw placementError;
         }
 
-        const orderNumber = await generateOrderNumber();
-
-        const customerData = {
-            ...customer,
-            customerId: customer.customerId ? new ObjectId(customer.customerId) : undefined
-        };
-
-        const finalItems = itemsData.map((item: OrderItem) => ({
-            ...item,
-            productId: item.productId ? new ObjectId(item.productId) : undefined,
-            serviceId: item.serviceId ? new ObjectId(item.serviceId) : undefined
-        }));
-
-        const order: Order = {
-            orderNumber,
-            orderStatus: "pending",
-            customer: customerData,
-            items: finalItems,
-            pricing: pricingData,
-            payment: {
-                status: payment?.status || "pending",
-                method: payment?.method || paymentMethod,
-                transactionId: payment?.transactionId || transactionId,
-                receiverNumber: payment?.receiverNumber || receiverNumber
-            },
-            cancellation: {
-                isCancelled: false
-            },
-            notes: notes || "",
-            createdAt: new Date()
-        };
-
-        const result = await db.collection("orders").insertOne(order);
-
         return res.status(201).json({
             success: true,
             message: "Order created successfully",
-            data: { ...order, _id: result.insertedId }
+            data: createdOrder
         });
     } catch (error) {
         console.error("Create order error:", error);
         return res.status(500).json({
             success: false,
             message: "Failed to create order",
-            error: error instanceof Error ? error.message : "Unknown error"
         });
     }
 };
@@ -289,7 +284,7 @@ export const getOrderById = async (req: Request, res: Response) => {
         // Check if user is authorized to view this order
         // @ts-ignore - req.user is added by auth middleware
         const user = req.user;
-        const isAdmin = user?.role === 'admin';
+        const isAdmin = await userHasPermission(req, "orders:read");
         const isOwner = user?.uid && order.customer.customerId?.toString() === user.uid;
 
         if (!isAdmin && !isOwner) {
@@ -337,7 +332,7 @@ export const getOrderByOrderNumber = async (req: Request, res: Response) => {
         // Check if user is authorized to view this order
         // @ts-ignore
         const user = req.user;
-        const isAdmin = user?.role === 'admin';
+        const isAdmin = await userHasPermission(req, "orders:read");
         const isOwner = user?.uid && order.customer.customerId?.toString() === user.uid;
 
         if (!isAdmin && !isOwner) {
@@ -421,7 +416,7 @@ export const getUserOrders = async (req: Request, res: Response) => {
 export const updateOrderStatus = async (req: Request, res: Response) => {
     try {
         const { id } = req.params;
-        const { orderStatus } = req.body;
+        const { orderStatus, note } = req.body;
 
         if (!id || !ObjectId.isValid(id as string)) {
             return res.status(400).json({
@@ -437,11 +432,10 @@ export const updateOrderStatus = async (req: Request, res: Response) => {
             });
         }
 
-        const validStatuses = ["pending", "confirmed", "processing", "completed", "cancelled"];
-        if (!validStatuses.includes(orderStatus)) {
+        if (!isValidOrderStatus(orderStatus)) {
             return res.status(400).json({
                 success: false,
-                message: `Invalid order status. Must be one of: ${validStatuses.join(", ")}`
+                message: `Invalid order status. Must be one of: ${ORDER_STATUSES.join(", ")}`
             });
         }
 
@@ -455,25 +449,57 @@ export const updateOrderStatus = async (req: Request, res: Response) => {
             });
         }
 
-        // Prevent status change if order is cancelled
-        if (existingOrder.cancellation.isCancelled && orderStatus !== "cancelled") {
+        if (!canTransition(existingOrder.orderStatus, orderStatus)) {
             return res.status(400).json({
                 success: false,
-                message: "Cannot change status of a cancelled order"
+                message: describeInvalidTransition(existingOrder.orderStatus, orderStatus)
             });
         }
 
-        const result = await db.collection("orders").updateOne(
-            { _id: new ObjectId(id as string) },
+        const actor = getStatusActor(req);
+        const now = new Date();
+        const updateData: any = {
+            orderStatus,
+            updatedAt: now
+        };
+
+        // Cancelling through the status endpoint must keep the cancellation block in sync
+        if (orderStatus === "cancelled") {
+            updateData["cancellation.isCancelled"] = true;
+            updateData["cancellation.cancelledBy"] = actor.role;
+            updateData["cancellation.reason"] = note || "No reason provided";
+            updateData["cancellation.cancelledAt"] = now;
+        }
+
+        // Only apply if nobody changed the status since we read it
+        const result = await db.collection<Order>("orders").updateOne(
+            { _id: new ObjectId(id as string), orderStatus: existingOrder.orderStatus },
             {
-                $set: {
-                    orderStatus,
-                    updatedAt: new Date()
+                $set: updateData,
+                $push: {
+                    statusHistory: buildStatusHistoryEntry(existingOrder.orderStatus, orderStatus, actor, note)
                 }
             }
         );
 
-        const updatedOrder = await db.collection("orders").findOne({ _id: new ObjectId(id as string) });
+        if (result.matchedCount === 0) {
+            return res.status(409).json({
+                success: false,
+                message: "Order status was changed by another request. Please reload and try again."
+            });
+        }
+
+        const updatedOrder = await db.collection<Order>("orders").findOne({ _id: new ObjectId(id as string) });
+
+        if (updatedOrder) {
+            if (orderStatus === "cancelled") {
+                notifyInBackground("Order cancellation", () => sendOrderCancelledEmail(updatedOrder, note));
+            } else {
+                notifyInBackground("Order status", () =>
+                    sendOrderStatusChangedEmail(updatedOrder, existingOrder.orderStatus, orderStatus, note)
+                );
+            }
+        }
 
         return res.status(200).json({
             success: true,
@@ -485,7 +511,6 @@ export const updateOrderStatus = async (req: Request, res: Response) => {
         return res.status(500).json({
             success: false,
             message: "Failed to update order status",
-            error: error instanceof Error ? error.message : "Unknown error"
         });
     }
 };
@@ -510,48 +535,48 @@ export const updatePaymentStatus = async (req: Request, res: Response) => {
             });
         }
 
-        const validPaymentStatuses = ["pending", "paid", "failed", "refunded"];
-        if (!validPaymentStatuses.includes(paymentStatus)) {
+        if (!isValidPaymentStatus(paymentStatus)) {
             return res.status(400).json({
                 success: false,
-                message: `Invalid payment status. Must be one of: ${validPaymentStatuses.join(", ")}`
+                message: `Invalid payment status. Must be one of: ${PAYMENT_STATUSES.join(", ")}`
+            });
+        }
+
+        if (REFUND_PAYMENT_STATUSES.includes(paymentStatus)) {
+            return res.status(400).json({
+                success: false,
+                message: "Use POST /api/orders/:id/refunds to refund an order"
             });
         }
 
         const db = getDB();
-        const existingOrder = await db.collection("orders").findOne({ _id: new ObjectId(id as string) });
+        const change = await applyPaymentStatus(db, new ObjectId(id as string), paymentStatus, {
+            transactionId: transactionId || undefined,
+            method: paymentMethod || undefined
+        });
 
-        if (!existingOrder) {
+        if (change.result === "not_found") {
             return res.status(404).json({
                 success: false,
                 message: "Order not found"
             });
         }
 
-        const updateData: any = {
-            "payment.status": paymentStatus,
-            updatedAt: new Date()
-        };
-
-        if (paymentStatus === "paid") {
-            updateData["payment.paidAt"] = new Date();
+        if (change.result === "invalid_transition") {
+            const from = change.order!.payment.status;
+            const allowed = PAYMENT_STATUS_TRANSITIONS[from] || [];
+            return res.status(409).json({
+                success: false,
+                message: `Cannot change payment status from "${from}" to "${paymentStatus}". Allowed: ${allowed.join(", ") || "none"}`
+            });
         }
 
-        if (transactionId) {
-            updateData["payment.transactionId"] = transactionId;
-        }
+        const updatedOrder = change.order;
 
-        if (paymentMethod) {
-            updateData["payment.method"] = paymentMethod;
+        if (change.result === "applied" && paymentStatus === "paid" && updatedOrder) {
+            notifyInBackground("Payment received", () => sendPaymentReceivedEmail(updatedOrder));
         }
 
-        await db.collection("orders").updateOne(
-            { _id: new ObjectId(id as string) },
-            { $set: updateData }
-        );
-
-        const updatedOrder = await db.collection("orders").findOne({ _id: new ObjectId(id as string) });
-
         return res.status(200).json({
             success: true,
             message: "Payment status updated successfully",
@@ -562,7 +587,118 @@ export const updatePaymentStatus = async (req: Request, res: Response) => {
         return res.status(500).json({
             success: false,
             message: "Failed to update payment status",
-            error: error instanceof Error ? error.message : "Unknown error"
+        });
+    }
+};
+
+// Refund part or all of a paid order (admin only)
+export const createOrderRefund = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        const { amount, reason } = req.body;
+
+        if (!id || !ObjectId.isValid(id as string)) {
+            return res.status(400).json({
+                success: false,
+                message: "Invalid order ID"
+            });
+        }
+
+        if (amount === undefined || !reason || !String(reason).trim()) {
+            return res.status(400).json({
+                success: false,
+                message: "Refund amount and reason are required"
+            });
+        }
+
+        const db = getDB();
+        const order = await db.collection<Order>("orders").findOne({ _id: new ObjectId(id as string) });
+
+        if (!order) {
+            return res.status(404).json({
+                success: false,
+                message: "Order not found"
+            });
+        }
+
+        const actor = getStatusActor(req);
+        const { order: updatedOrder, refund } = await createRefund(db, order, {
+            amount: Number(amount),
+            reason: String(reason).trim(),
+            refundedBy: { uid: actor.uid, role: "admin" }
+        });
+
+        return res.status(201).json({
+            success: true,
+            message: refund.status === "succeeded" ? "Refund completed" : "Refund requested",
+            data: {
+                refund,
+                payment: updatedOrder.payment
+            }
+        });
+    } catch (error) {
+        if (error instanceof RefundError) {
+            return res.status(error.statusCode).json({ success: false, message: error.message });
+        }
+        console.error("Create refund error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to refund order",
+        });
+    }
+};
+
+// Mark a pending refund as succeeded or failed (admin only), e.g. manual wallet refunds
+export const updateOrderRefund = async (req: Request, res: Response) => {
+    try {
+        const { id, refundId } = req.params;
+        const { status, failureReason } = req.body;
+
+        if (!id || !ObjectId.isValid(id as string)) {
+            return res.status(400).json({
+                success: false,
+                message: "Invalid order ID"
+            });
+        }
+
+        if (status !== "succeeded" && status !== "failed") {
+            return res.status(400).json({
+                success: false,
+                message: 'Refund status must be "succeeded" or "failed"'
+            });
+        }
+
+        const db = getDB();
+        const order = await db.collection<Order>("orders").findOne({ _id: new ObjectId(id as string) });
+
+        if (!order) {
+            return res.status(404).json({
+                success: false,
+                message: "Order not found"
+            });
+        }
+
+        const { order: updatedOrder, refund } = await settleRefund(db, order, refundId as string, {
+            status,
+            failureReason: failureReason ? String(failureReason).trim() : undefined
+        });
+
+        return res.status(200).json({
+            success: true,
+            message: status === "succeeded" ? "Refund marked as completed" : "Refund marked as failed",
+            data: {
+                refund,
+                payment: updatedOrder.payment
+            }
+        });
+    } catch (error) {
+        if (error instanceof RefundError) {
+            return res.status(error.statusCode).json({ success: false, message: error.message });
+        }
+        console.error("Update refund error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to update refund",
         });
     }
 };
@@ -599,16 +735,16 @@ export const cancelOrder = async (req: Request, res: Response) => {
         }
 
         // Check if order can be cancelled
-        if (existingOrder.orderStatus === "completed") {
+        if (!canTransition(existingOrder.orderStatus, "cancelled")) {
             return res.status(400).json({
                 success: false,
-                message: "Cannot cancel a completed order"
+                message: describeInvalidTransition(existingOrder.orderStatus, "cancelled")
             });
         }
 
         // @ts-ignore
         const user = req.user;
-        const isAdmin = user?.role === 'admin';
+        const isAdmin = await userHasPermission(req, "orders:write");
         const isOwner = user?.uid && existingOrder.customer.customerId?.toString() === user.uid;
 
         // Users can only cancel pending or confirmed orders
@@ -627,8 +763,8 @@ export const cancelOrder = async (req: Request, res: Response) => {
             cancelledBy = "user";
         }
 
-        await db.collection("orders").updateOne(
-            { _id: new ObjectId(id as string) },
+        const cancelResult = await db.collection<Order>("orders").updateOne(
+            { _id: new ObjectId(id as string), orderStatus: existingOrder.orderStatus },
             {
                 $set: {
                     orderStatus: "cancelled",
@@ -637,11 +773,30 @@ export const cancelOrder = async (req: Request, res: Response) => {
                     "cancellation.reason": reason || "No reason provided",
                     "cancellation.cancelledAt": new Date(),
                     updatedAt: new Date()
+                },
+                $push: {
+                    statusHistory: buildStatusHistoryEntry(
+                        existingOrder.orderStatus,
+                        "cancelled",
+                        { ...getStatusActor(req), role: cancelledBy },
+                        reason
+                    )
                 }
             }
         );
 
-        const updatedOrder = await db.collection("orders").findOne({ _id: new ObjectId(id as string) });
+        if (cancelResult.matchedCount === 0) {
+            return res.status(409).json({
+                success: false,
+                message: "Order status was changed by another request. Please reload and try again."
+            });
+        }
+
+        const updatedOrder = await db.collection<Order>("orders").findOne({ _id: new ObjectId(id as string) });
+
+        if (updatedOrder) {
+            notifyInBackground("Order cancellation", () => sendOrderCancelledEmail(updatedOrder, reason));
+        }
 
         return res.status(200).json({
             success: true,
@@ -653,7 +808,6 @@ export const cancelOrder = async (req: Request, res: Response) => {
         return res.status(500).json({
             success: false,
             message: "Failed to cancel order",
-            error: error instanceof Error ? error.message : "Unknown error"
         });
     }
 };
@@ -689,26 +843,37 @@ export const updateOrder = async (req: Request, res: Response) => {
         }
 
         // Prevent updates to completed or cancelled orders
-        if (existingOrder.orderStatus === "completed" || existingOrder.cancellation.isCancelled) {
+        if (isFinalStatus(existingOrder.orderStatus) || existingOrder.cancellation.isCancelled) {
             return res.status(400).json({
                 success: false,
                 message: "Cannot update completed or cancelled orders"
             });
         }
 
-        // Remove fields that shouldn't be updated directly
-        delete updateData._id;
-        delete updateData.orderNumber;
-        delete updateData.createdAt;
-        delete updateData.orderStatus; // Use updateOrderStatus endpoint
-        delete updateData.cancellation; // Use cancelOrder endpoint
+        // Only notes and customer contact details are edited here. Status, payment, refunds
+        // and pricing have their own endpoints that keep the ledger and history consistent.
+        const unsupported = Object.keys(updateData).filter((field) => !EDITABLE_ORDER_FIELDS.includes(field));
+        const customer = updateData.customer ?? {};
+        const unsupportedCustomer = typeof customer === "object" && customer !== null
+            ? Object.keys(customer).filter((field) => !EDITABLE_CUSTOMER_FIELDS.includes(field))
+            : ["customer"];
+        if (unsupported.length > 0 || unsupportedCustomer.length > 0) {
+            return res.status(400).json({
+                success: false,
+                message: `Only ${EDITABLE_ORDER_FIELDS.join(", ")} and customer ${EDITABLE_CUSTOMER_FIELDS.join(", ")} can be updated here`,
+                details: { fields: [...unsupported, ...unsupportedCustomer.map((field) => `customer.${field}`)] }
+            });
+        }
 
-        // Add updated timestamp
-        updateData.updatedAt = new Date();
+        const changes: Record<string, unknown> = { updatedAt: new Date() };
+        if (updateData.notes !== undefined) changes.notes = String(updateData.notes);
+        for (const field of EDITABLE_CUSTOMER_FIELDS) {
+            if (customer[field] !== undefined) changes[`customer.${field}`] = String(customer[field]).trim();
+        }
 
         await db.collection("orders").updateOne(
             { _id: new ObjectId(id as string) },
-            { $set: updateData }
+            { $set: changes }
         );
 
         const updatedOrder = await db.collection("orders").findOne({ _id: new ObjectId(id as string) });
@@ -723,7 +888,110 @@ export const updateOrder = async (req: Request, res: Response) => {
         return res.status(500).json({
             success: false,
             message: "Failed to update order",
-            error: error instanceof Error ? error.message : "Unknown error"
+        });
+    }
+};
+
+// Get order status history (owner or admin)
+export const getOrderHistory = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+
+        if (!id || !ObjectId.isValid(id as string)) {
+            return res.status(400).json({
+                success: false,
+                message: "Invalid order ID"
+            });
+        }
+
+        const db = getDB();
+        const order = await db.collection("orders").findOne(
+            { _id: new ObjectId(id as string) },
+            { projection: { orderNumber: 1, orderStatus: 1, customer: 1, statusHistory: 1 } }
+        );
+
+        if (!order) {
+            return res.status(404).json({
+                success: false,
+                message: "Order not found"
+            });
+        }
+
+        const user = req.user;
+        const isAdmin = await userHasPermission(req, "orders:read");
+        const isOwner = user?.uid && order.customer.customerId?.toString() === user.uid;
+
+        if (!isAdmin && !isOwner) {
+            return res.status(403).json({
+                success: false,
+                message: "You are not authorized to view this order"
+            });
+        }
+
+        return res.status(200).json({
+            success: true,
+            data: {
+                orderId: order._id,
+                orderNumber: order.orderNumber,
+                orderStatus: order.orderStatus,
+                history: order.statusHistory || []
+            }
+        });
+    } catch (error) {
+        console.error("Get order history error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to get order history"
+        });
+    }
+};
+
+// Download the invoice PDF of an order (owner or admin)
+export const getOrderInvoice = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+
+        if (!id || !ObjectId.isValid(id as string)) {
+            return res.status(400).json({
+                success: false,
+                message: "Invalid order ID"
+            });
+        }
+
+        const db = getDB();
+        const order = await db.collection<Order>("orders").findOne({ _id: new ObjectId(id as string) });
+
+        if (!order) {
+            return res.status(404).json({
+                success: false,
+                message: "Order not found"
+            });
+        }
+
+        const user = req.user;
+        const isAdmin = await userHasPermission(req, "orders:read");
+        const isOwner = user?.uid && order.customer.customerId?.toString() === user.uid;
+
+        if (!isAdmin && !isOwner) {
+            return res.status(403).json({
+                success: false,
+                message: "You are not authorized to view this order"
+            });
+        }
+
+        // Staff may rebuild an invoice, e.g. after correcting order details
+        const regenerate = req.query.regenerate === 'true' && await userHasPermission(req, "orders:write");
+        const invoice = await getOrCreateInvoice(db, order, regenerate);
+
+        res.setHeader("Content-Type", invoice.contentType);
+        res.setHeader("Content-Disposition", `inline; filename="${invoice.fileName}"`);
+        res.setHeader("ETag", `"${invoice.checksum}"`);
+        return res.status(200).send(Buffer.from(invoice.data.buffer));
+    } catch (error) {
+        console.error("Get order invoice error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to generate invoice"
         });
     }
 };
@@ -782,22 +1050,38 @@ export const getOrderStats = async (req: Request, res: Response) => {
             }
         ]).toArray();
 
-        // Total revenue (completed orders with paid status)
+        // Total revenue (completed, paid orders net of refunds)
         const revenueData = await db.collection("orders").aggregate([
             {
                 $match: {
                     orderStatus: "completed",
-                    "payment.status": "paid"
+                    "payment.status": { $in: ["paid", "partially_refunded", "refunded"] }
                 }
             },
             {
                 $group: {
                     _id: "$pricing.currency",
-                    total: { $sum: "$pricing.grandTotal" }
+                    gross: { $sum: "$pricing.grandTotal" },
+                    refunded: { $sum: { $ifNull: ["$payment.refundedAmount", 0] } }
+                }
+            },
+            {
+                $addFields: {
+                    total: { $subtract: ["$gross", "$refunded"] }
                 }
             }
         ]).toArray();
 
+        // Revenue across currencies, converted into the reporting currency
+        const reportingCurrency = req.query.currency
+            ? normalizeCurrency(req.query.currency as string)
+            : DEFAULT_REPORTING_CURRENCY;
+        const normalizedRevenue = await sumInCurrency(
+            db,
+            revenueData.map((item: any) => ({ currency: item._id, total: item.total })),
+            reportingCurrency
+        );
+
         // Pending payments
         const pendingPayments = await db.collection("orders").countDocuments({
             "payment.status": "pending"
@@ -827,6 +1111,11 @@ export const getOrderStats = async (req: Request, res: Response) => {
                     return acc;
                 }, {}),
                 revenue: revenueData,
+                totalRevenue: {
+                    currency: reportingCurrency,
+                    amount: normalizedRevenue.total,
+                    missingExchangeRates: normalizedRevenue.missingRates
+                },
                 pendingPayments,
                 cancelledOrders,
                 cancellationRate: cancellationRate.toFixed(2) + "%",
@@ -865,9 +1154,9 @@ export const trackOrdersByEmail = async (req: Request, res: Response) => {
             });
         }
 
-        // Find all orders with the given email
+        // Find all orders with the given email; newer orders store it lowercased
         const orders = await db.collection("orders")
-            .find({ "customer.email": email })
+            .find({ "customer.email": { $in: [email, (email as string).toLowerCase()] } })
             .sort({ createdAt: -1 })
             .toArray();
 
@@ -897,7 +1186,6 @@ export const trackOrdersByEmail = async (req: Request, res: Response) => {
         return res.status(500).json({
             success: false,
             message: "Failed to track orders",
-            error: error instanceof Error ? error.message : "Unknown error"
         });
     }
 };
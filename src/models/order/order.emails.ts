@@ -0,0 +1,82 @@
+import { Order, OrderStatus } from "./order.model";
+import { queueTemplatedEmail } from "../../emailService";
+
+// Admins alerted about new orders; falls back to the sender mailbox
+const ADMIN_NOTIFICATION_EMAILS = (process.env.ADMIN_NOTIFICATION_EMAILS || process.env.SMTP_FROM_EMAIL || "")
+    .split(",")
+    .map((email) => email.trim())
+    .filter(Boolean);
+
+const STATUS_LABELS: Record<OrderStatus, string> = {
+    pending: "Pending",
+    confirmed: "Confirmed",
+    processing: "Processing",
+    completed: "Completed",
+    cancelled: "Cancelled"
+};
+
+const formatMoney = (amount: number | undefined, currency: string): string => {
+    return `${(Number(amount) || 0).toFixed(2)} ${currency}`;
+};
+
+// Variables shared by the order email templates (see emailTemplate.defaults.ts)
+const buildOrderEmailData = (order: Order) => {
+    const { currency } = order.pricing;
+
+    return {
+        orderNumber: order.orderNumber,
+        customerName: order.customer.name || "there",
+        customerEmail: order.customer.email,
+        customerPhone: order.customer.phone,
+        items: order.items.map((item) => ({
+            name: item.name,
+            quantity: item.quantity,
+            total: formatMoney(item.totalPrice, currency)
+        })),
+        discount: order.pricing.discount ? formatMoney(order.pricing.discount, currency) : "",
+        couponCode: order.coupon?.code || "",
+        tax: order.pricing.tax ? formatMoney(order.pricing.tax, currency) : "",
+        total: formatMoney(order.pricing.grandTotal, currency),
+        paymentStatus: order.payment.status,
+        transactionId: order.payment.transactionId || "",
+        notes: order.notes || ""
+    };
+};
+
+export const sendOrderConfirmationEmail = async (order: Order) => {
+    return queueTemplatedEmail("order-confirmation", order.customer.email, buildOrderEmailData(order));
+};
+
+export const sendPaymentReceivedEmail = async (order: Order) => {
+    return queueTemplatedEmail("order-payment-received", order.customer.email, buildOrderEmailData(order));
+};
+
+export const sendOrderStatusChangedEmail = async (order: Order, from: OrderStatus, to: OrderStatus, note?: string) => {
+    return queueTemplatedEmail("order-status-changed", order.customer.email, {
+        ...buildOrderEmailData(order),
+        previousStatusLabel: STATUS_LABELS[from],
+        statusLabel: STATUS_LABELS[to],
+        statusLabelLower: STATUS_LABELS[to].toLowerCase(),
+        note: note || ""
+    });
+};
+
+export const sendOrderCancelledEmail = async (order: Order, reason?: string) => {
+    return queueTemplatedEmail("order-cancelled", order.customer.email, {
+        ...buildOrderEmailData(order),
+        reason: reason || ""
+    });
+};
+
+export const sendAdminNewOrderEmail = async (order: Order) => {
+    if (ADMIN_NOTIFICATION_EMAILS.length === 0) return;
+
+    return queueTemplatedEmail("admin-new-order", ADMIN_NOTIFICATION_EMAILS, buildOrderEmailData(order));
+};
+
+/**
+ * Queue a notification without delaying or failing the request that triggered it
+ */
+export const notifyInBackground = (label: string, send: () => Promise<unknown>) => {
+    send().catch((error) => console.error(`${label} email error:`, error));
+};
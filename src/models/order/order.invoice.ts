@@ -0,0 +1,229 @@
+import crypto from "crypto";
+import PDFDocument from "pdfkit";
+import { Binary, Db, ObjectId } from "mongodb";
+import { Order } from "./order.model";
+import { generateSequenceNumber, findHighestIssuedSequence } from "../../utils/sequence";
+
+export interface StoredInvoice {
+    _id?: ObjectId;
+    orderId: ObjectId;
+    invoiceNumber: string;
+    fileName: string;
+    contentType: string;
+    size: number;
+    checksum: string; // sha256 of the PDF bytes
+    stateChecksum?: string; // Order and payment state the PDF was rendered from, see invoiceStateChecksum
+    data: Binary;
+    createdAt: Date;
+}
+
+// Branding shown on every invoice
+const INVOICE_BRAND = {
+    companyName: process.env.INVOICE_COMPANY_NAME || process.env.SMTP_FROM_NAME || "Your App",
+    address: process.env.INVOICE_COMPANY_ADDRESS || "",
+    email: process.env.INVOICE_COMPANY_EMAIL || process.env.SMTP_FROM_EMAIL || "",
+    accentColor: process.env.INVOICE_ACCENT_COLOR || "#4CAF50"
+};
+
+const formatDate = (value?: Date | string): string => {
+    if (!value) return "-";
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? "-" : date.toISOString().slice(0, 10);
+};
+
+const formatMoney = (amount: number | undefined, currency: string): string => {
+    return `${(Number(amount) || 0).toFixed(2)} ${currency}`;
+};
+
+/**
+ * Render the invoice PDF for an order
+ */
+export const renderInvoicePdf = (order: Order, invoiceNumber: string): Promise<Buffer> => {
+    return new Promise((resolve, reject) => {
+        const doc = new PDFDocument({
+            size: "A4",
+            margin: 50,
+            info: {
+                Title: `Invoice ${invoiceNumber}`,
+                Author: INVOICE_BRAND.companyName,
+                CreationDate: new Date(order.createdAt)
+            }
+        });
+
+        const chunks: Buffer[] = [];
+        doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+        doc.on("end", () => resolve(Buffer.concat(chunks)));
+        doc.on("error", reject);
+
+        const { currency } = order.pricing;
+        const left = 50;
+        const right = doc.page.width - 50;
+
+        // Header
+        doc.rect(0, 0, doc.page.width, 100).fill(INVOICE_BRAND.accentColor);
+        doc.fillColor("#ffffff").fontSize(22).text(INVOICE_BRAND.companyName, left, 35);
+        doc.fontSize(10).text([INVOICE_BRAND.address, INVOICE_BRAND.email].filter(Boolean).join("  |  "), left, 65);
+        doc.fontSize(22).text("INVOICE", left, 35, { align: "right" });
+
+        // Invoice details and customer
+        doc.fillColor("#333333").fontSize(10);
+        doc.text(`Invoice number: ${invoiceNumber}`, left, 125);
+        doc.text(`Order number: ${order.orderNumber}`);
+        doc.text(`Order date: ${formatDate(order.createdAt)}`);
+        doc.text(`Order status: ${order.orderStatus}`);
+
+        doc.font("Helvetica-Bold").text("Bill to", 330, 125);
+        doc.font("Helvetica").text(order.customer.name, 330);
+        doc.text(order.customer.email, 330);
+        doc.text(order.customer.phone, 330);
+        if (order.customer.address) doc.text(order.customer.address, 330, undefined, { width: right - 330 });
+
+        // Line items
+        let y = 220;
+        const columns = { name: left, quantity: 320, unitPrice: 380, total: 470 };
+        doc.font("Helvetica-Bold");
+        doc.text("Item", columns.name, y);
+        doc.text("Qty", columns.quantity, y);
+        doc.text("Unit price", columns.unitPrice, y);
+        doc.text("Total", columns.total, y);
+        doc.moveTo(left, y + 15).lineTo(right, y + 15).strokeColor("#cccccc").stroke();
+        doc.font("Helvetica");
+
+        y += 25;
+        for (const item of order.items) {
+            doc.text(item.name, columns.name, y, { width: columns.quantity - columns.name - 10 });
+            const rowHeight = Math.max(doc.heightOfString(item.name, { width: columns.quantity - columns.name - 10 }), 12);
+            doc.text(String(item.quantity), columns.quantity, y);
+            doc.text(formatMoney(item.unitPrice, currency), columns.unitPrice, y);
+            doc.text(formatMoney(item.totalPrice, currency), columns.total, y);
+            y += rowHeight + 8;
+
+            if (y > doc.page.height - 200) {
+                doc.addPage();
+                y = 50;
+            }
+        }
+
+        doc.moveTo(left, y).lineTo(right, y).strokeColor("#cccccc").stroke();
+        y += 12;
+
+        // Pricing breakdown
+        const summaryRow = (label: string, value: string, bold = false) => {
+            doc.font(bold ? "Helvetica-Bold" : "Helvetica");
+            doc.text(label, columns.unitPrice - 80, y, { width: 150 });
+            doc.text(value, columns.total, y);
+            y += 16;
+        };
+
+        summaryRow("Subtotal", formatMoney(order.pricing.subtotal, currency));
+        if (order.pricing.discount) {
+            const label = order.coupon ? `Discount (${order.coupon.code})` : "Discount";
+            summaryRow(label, `-${formatMoney(order.pricing.discount, currency)}`);
+        }
+        for (const line of order.pricing.taxBreakdown || []) {
+            const label = `${line.name} ${line.rate}%${line.inclusive ? " (incl.)" : ""}`;
+            summaryRow(label, formatMoney(line.amount, currency));
+        }
+        if (order.pricing.shippingCost) {
+            summaryRow("Shipping", formatMoney(order.pricing.shippingCost, currency));
+        }
+        summaryRow("Total", formatMoney(order.pricing.grandTotal, currency), true);
+
+        // Payment
+        y += 20;
+        doc.font("Helvetica-Bold").text("Payment", left, y);
+        doc.font("Helvetica");
+        doc.text(`Status: ${order.payment.status}`);
+        if (order.payment.method) doc.text(`Method: ${order.payment.method}`);
+        if (order.payment.transactionId) doc.text(`Transaction ID: ${order.payment.transactionId}`);
+        if (order.payment.paidAt) doc.text(`Paid on: ${formatDate(order.payment.paidAt)}`);
+        if (order.payment.refundedAmount) doc.text(`Refunded: ${formatMoney(order.payment.refundedAmount, currency)}`);
+
+        // Footer
+        doc.fontSize(8).fillColor("#666666").text(
+            `Thank you for your business. ${INVOICE_BRAND.companyName}`,
+            left,
+            doc.page.height - 70,
+            { align: "center", width: right - left }
+        );
+
+        doc.end();
+    });
+};
+
+// Give the order an invoice number once; later calls return the same number
+const ensureInvoiceNumber = async (db: Db, order: Order): Promise<string> => {
+    if (order.invoiceNumber) return order.invoiceNumber;
+
+    const invoiceNumber = await generateSequenceNumber("invoice", {
+        seed: (date) => findHighestIssuedSequence("invoice", "orders", "invoiceNumber", date)
+    });
+
+    await db.collection<Order>("orders").updateOne(
+        { _id: order._id, invoiceNumber: { $exists: false } },
+        { $set: { invoiceNumber } }
+    );
+
+    // Another request may have assigned a number first
+    const current = await db.collection<Order>("orders").findOne({ _id: order._id }, { projection: { invoiceNumber: 1 } });
+    return current?.invoiceNumber || invoiceNumber;
+};
+
+// Fingerprint of the order state shown on the invoice that changes after checkout
+const invoiceStateChecksum = (order: Order): string => {
+    const { status, method, transactionId, paidAt, refundedAmount, refunds = [] } = order.payment;
+    const state = {
+        orderStatus: order.orderStatus,
+        payment: { status, method, transactionId, paidAt, refundedAmount },
+        refunds: refunds.map((refund) => [refund.id, refund.status, refund.amount])
+    };
+    return crypto.createHash("sha256").update(JSON.stringify(state)).digest("hex");
+};
+
+/**
+ * Return the stored invoice for an order, generating and storing it on first request
+ * so that every download returns the identical document. The stored copy is rebuilt
+ * once the order or payment state it shows has changed (payments, refunds, status).
+ */
+export const getOrCreateInvoice = async (db: Db, order: Order, regenerate = false): Promise<StoredInvoice> => {
+    const invoices = db.collection<StoredInvoice>("invoices");
+    const stateChecksum = invoiceStateChecksum(order);
+
+    const existing = await invoices.findOne({ orderId: order._id });
+    if (existing && existing.stateChecksum === stateChecksum && !regenerate) {
+        return existing;
+    }
+    // Rebuild in place when a stored copy exists but is out of date
+    const replace = regenerate || Boolean(existing);
+
+    const invoiceNumber = await ensureInvoiceNumber(db, order);
+    const pdf = await renderInvoicePdf(order, invoiceNumber);
+
+    const invoice: StoredInvoice = {
+        orderId: order._id!,
+        invoiceNumber,
+        fileName: `invoice-${invoiceNumber}.pdf`,
+        contentType: "application/pdf",
+        size: pdf.length,
+        checksum: crypto.createHash("sha256").update(pdf).digest("hex"),
+        stateChecksum,
+        data: new Binary(pdf),
+        createdAt: new Date()
+    };
+
+    try {
+        if (replace) {
+            await invoices.replaceOne({ orderId: order._id }, invoice, { upsert: true });
+        } else {
+            await invoices.insertOne(invoice);
+        }
+    } catch (error: any) {
+        // Generated concurrently by another request - serve the stored copy
+        if (error?.code !== 11000) throw error;
+        const stored = await invoices.findOne({ orderId: order._id });
+        if (stored) return stored;
+        throw error;
+    }
+
+    return invoice;
+};
@@ -0,0 +1,81 @@
+import { OrderStatus, OrderStatusHistoryEntry, PaymentStatus } from "./order.model";
+
+// Allowed order status transitions. Completed and cancelled orders are final.
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+    pending: ["confirmed", "cancelled"],
+    confirmed: ["processing", "cancelled"],
+    processing: ["completed", "cancelled"],
+    completed: [],
+    cancelled: []
+};
+
+export const ORDER_STATUSES = Object.keys(ORDER_STATUS_TRANSITIONS) as OrderStatus[];
+
+export const isValidOrderStatus = (status: unknown): status is OrderStatus => {
+    return typeof status === "string" && ORDER_STATUSES.includes(status as OrderStatus);
+};
+
+export const canTransition = (from: OrderStatus, to: OrderStatus): boolean => {
+    return ORDER_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+};
+
+export const isFinalStatus = (status: OrderStatus): boolean => {
+    return ORDER_STATUS_TRANSITIONS[status]?.length === 0;
+};
+
+// Build a human readable error for a rejected transition
+export const describeInvalidTransition = (from: OrderStatus, to: OrderStatus): string => {
+    const allowed = ORDER_STATUS_TRANSITIONS[from] || [];
+    if (allowed.length === 0) {
+        return `Cannot change status of a ${from} order`;
+    }
+    return `Cannot change order status from "${from}" to "${to}". Allowed: ${allowed.join(", ")}`;
+};
+
+export const buildStatusHistoryEntry = (
+    from: OrderStatus | null,
+    to: OrderStatus,
+    changedBy: OrderStatusHistoryEntry["changedBy"],
+    note?: string
+): OrderStatusHistoryEntry => {
+    const entry: OrderStatusHistoryEntry = {
+        from,
+        to,
+        changedBy,
+        changedAt: new Date()
+    };
+
+    if (note) {
+        entry.note = note;
+    }
+
+    return entry;
+};
+
+// Allowed payment status transitions. A failed payment may be retried.
+// Refund statuses are derived from the refund ledger (see order.refunds.ts).
+export const PAYMENT_STATUS_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+    pending: ["paid", "failed"],
+    failed: ["pending", "paid"],
+    paid: ["partially_refunded", "refunded"],
+    partially_refunded: ["paid", "refunded"],
+    refunded: ["partially_refunded"]
+};
+
+// Statuses that can only be reached by recording refunds
+export const REFUND_PAYMENT_STATUSES: PaymentStatus[] = ["partially_refunded", "refunded"];
+
+export const PAYMENT_STATUSES = Object.keys(PAYMENT_STATUS_TRANSITIONS) as PaymentStatus[];
+
+export const isValidPaymentStatus = (status: unknown): status is PaymentStatus => {
+    return typeof status === "string" && PAYMENT_STATUSES.includes(status as PaymentStatus);
+};
+
+export const canTransitionPayment = (from: PaymentStatus, to: PaymentStatus): boolean => {
+    return PAYMENT_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+};
+
+// Payment statuses from which `to` can be reached
+export const paymentStatusesLeadingTo = (to: PaymentStatus): PaymentStatus[] => {
+    return PAYMENT_STATUSES.filter((from) => canTransitionPayment(from, to));
+};
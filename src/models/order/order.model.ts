@@ -1,20 +1,50 @@
 import { ObjectId } from "mongodb";
+import { AppliedCoupon } from "../coupons/coupon.model";
+import { OrderTaxLine } from "../tax/tax.model";
+import { AppliedExchangeRate } from "../currency/currency.model";
+
+export type OrderStatus = "pending" | "confirmed" | "processing" | "completed" | "cancelled";
 
 export interface OrderPricing {
     subtotal: number;
-    tax?: number;
+    tax?: number; // Total tax, including tax already contained in inclusive prices
+    taxBreakdown?: OrderTaxLine[];
     discount?: number;
     shippingCost?: number;
     grandTotal: number;
     currency: string; // e.g., "BDT", "USD"
+    exchangeRates?: AppliedExchangeRate[]; // Rates used for items priced in another currency
+}
+
+export type PaymentStatus = "pending" | "paid" | "failed" | "partially_refunded" | "refunded";
+
+export interface OrderRefund {
+    id: string;
+    amount: number;
+    reason: string;
+    status: "pending" | "succeeded" | "failed"; // Pending until the provider confirms the money was returned
+    provider?: string;
+    providerReference?: string;
+    failureReason?: string;
+    refundedBy: {
+        uid?: string;
+        role: "admin" | "system";
+    };
+    createdAt: Date;
+    completedAt?: Date;
 }
 
 export interface OrderPayment {
-    status: "pending" | "paid" | "failed" | "refunded";
+    status: PaymentStatus;
     method?: string;
     transactionId?: string;
     receiverNumber?: string;
+    provider?: string; // Payment provider handling this order, e.g. "manual", "webhook"
+    providerReference?: string; // Provider side payment reference used to match webhooks
+    failureReason?: string;
     paidAt?: Date;
+    refunds?: OrderRefund[];
+    refundedAmount?: number; // Sum of pending and succeeded refunds
 }
 
 export interface OrderCancellation {
@@ -30,11 +60,16 @@ export interface OrderCustomer {
     email: string;
     phone: string;
     address?: string;
+    country?: string; // Used for tax; parsed from address when missing
+    region?: string;
 }
 
 export interface OrderItem {
     productId?: ObjectId;
     serviceId?: ObjectId;
+    serviceCategory?: string; // Category of the referenced service
+    planId?: string; // Pricing plan id (unique within its pricing category)
+    categoryId?: string; // Pricing category id for plan items
     name: string;
     description?: string;
     quantity: number;
@@ -42,16 +77,32 @@ export interface OrderItem {
     totalPrice: number;
 }
 
+export interface OrderStatusHistoryEntry {
+    from: OrderStatus | null; // null for the entry recorded when the order is created
+    to: OrderStatus;
+    changedBy: {
+        uid?: string;
+        role: "user" | "admin" | "system";
+    };
+    changedAt: Date;
+    note?: string;
+}
+
 export interface Order {
     _id?: ObjectId;
     orderNumber: string; // Auto-generated unique order number (e.g., ORD-2026-0001)
-    orderStatus: "pending" | "confirmed" | "processing" | "completed" | "cancelled";
+    invoiceNumber?: string; // Assigned when the invoice is first generated (e.g., INV-2026-0001)
+    orderStatus: OrderStatus;
     customer: OrderCustomer;
     items: OrderItem[];
     pricing: OrderPricing;
+    coupon?: AppliedCoupon;
     payment: OrderPayment;
     cancellation: OrderCancellation;
+    statusHistory: OrderStatusHistoryEntry[];
     notes?: string; // Admin or customer notes
+    contactId?: ObjectId; // Contact inquiry the order originated from
+    quoteId?: ObjectId; // Accepted quote the order was created from
     createdAt: Date;
     updatedAt?: Date;
 }
@@ -0,0 +1,124 @@
+import { Db, ObjectId } from "mongodb";
+import { Order, OrderCustomer, OrderItem, OrderPricing, OrderStatusHistoryEntry } from "./order.model";
+import { buildStatusHistoryEntry } from "./order.lifecycle";
+import { AppliedCoupon, Coupon } from "../coupons/coupon.model";
+import { reserveCouponRedemption, releaseCouponRedemption, recordCouponRedemption } from "../coupons/coupon.engine";
+import { notifyInBackground, sendOrderConfirmationEmail, sendAdminNewOrderEmail } from "./order.emails";
+import { generateSequenceNumber, findHighestIssuedSequence } from "../../utils/sequence";
+import { AppError } from "../../utils/errors";
+
+export class OrderPlacementError extends AppError {
+    constructor(message: string, statusCode = 400) {
+        super(message, statusCode);
+        this.name = "OrderPlacementError";
+    }
+}
+
+// A priced order ready to be stored. Items and pricing must already be validated.
+export interface OrderDraft {
+    customer: Omit<OrderCustomer, "customerId"> & { customerId?: string | ObjectId };
+    items: OrderItem[];
+    pricing: OrderPricing;
+    coupon?: { coupon: Coupon; applied: AppliedCoupon };
+    payment?: {
+        method?: string;
+        transactionId?: string;
+        receiverNumber?: string;
+    };
+    notes?: string;
+    contactId?: ObjectId;
+    quoteId?: ObjectId;
+    historyNote?: string; // Note on the initial status history entry
+}
+
+// Order numbers come from the shared sequence service; the first order of a year
+// continues from the highest number already stored in the orders collection
+const generateOrderNumber = (): Promise<string> => {
+    return generateSequenceNumber("order", {
+        seed: (date) => findHighestIssuedSequence("order", "orders", "orderNumber", date)
+    });
+};
+
+/**
+ * Store a new pending order: checks the transaction id, assigns the order number,
+ * claims the coupon and queues the confirmation emails. Used by checkout and by quote acceptance.
+ * An order whose total a coupon brings to zero is stored as paid with method "coupon".
+ * Throws OrderPlacementError, or CouponError when the coupon can no longer be redeemed.
+ */
+export const placeOrder = async (db: Db, draft: OrderDraft, actor: OrderStatusHistoryEntry["changedBy"]): Promise<Order> => {
+    // A coupon may cover the whole order; there is nothing to pay for it then
+    const coveredByCoupon = draft.pricing.grandTotal === 0 && Boolean(draft.coupon) && (draft.pricing.discount || 0) > 0;
+    if (draft.pricing.grandTotal < 0 || (draft.pricing.grandTotal === 0 && !coveredByCoupon)) {
+        throw new OrderPlacementError("Grand total must be greater than 0");
+    }
+
+    const transactionId = draft.payment?.transactionId;
+    if (transactionId) {
+        const existingOrder = await db.collection("orders").findOne({ "payment.transactionId": transactionId });
+        if (existingOrder) {
+            throw new OrderPlacementError("Invalid transaction ID. This transaction ID already exists.");
+        }
+    }
+
+    const orderNumber = await generateOrderNumber();
+    const { customer, coupon } = draft;
+
+    const order: Order = {
+        orderNumber,
+        orderStatus: "pending",
+        customer: {
+            ...customer,
+            customerId: customer.customerId ? new ObjectId(customer.customerId) : undefined
+        },
+        items: draft.items,
+        pricing: draft.pricing,
+        coupon: coupon?.applied,
+        payment: coveredByCoupon
+            ? { status: "paid", method: "coupon", paidAt: new Date() }
+            : {
+                status: "pending", // Only admins or payment providers may mark an order as paid
+                method: draft.payment?.method,
+                transactionId,
+                receiverNumber: draft.payment?.receiverNumber
+            },
+        cancellation: {
+            isCancelled: false
+        },
+        statusHistory: [
+            buildStatusHistoryEntry(null, "pending", actor, draft.historyNote || "Order placed")
+        ],
+        notes: draft.notes || "",
+        ...(draft.contactId ? { contactId: draft.contactId } : {}),
+        ...(draft.quoteId ? { quoteId: draft.quoteId } : {}),
+        createdAt: new Date()
+    };
+
+    // Claim the coupon use right before saving so limits hold under concurrent orders
+    if (coupon) {
+        await reserveCouponRedemption(db, coupon.coupon, customer.email);
+    }
+
+    let result;
+    try {
+        result = await db.collection("orders").insertOne(order);
+    } catch (insertError) {
+        if (coupon) {
+            await releaseCouponRedemption(db, coupon.coupon, customer.email);
+        }
+        throw insertError;
+    }
+
+    if (coupon) {
+        await recordCouponRedemption(db, coupon.applied, customer.email, {
+            _id: result.insertedId,
+            orderNumber,
+            currency: draft.pricing.currency
+        });
+    }
+
+    const createdOrder = { ...order, _id: result.insertedId } as Order;
+    notifyInBackground("Order confirmation", () => sendOrderConfirmationEmail(createdOrder));
+    notifyInBackground("Admin new order", () => sendAdminNewOrderEmail(createdOrder));
+
+    return createdOrder;
+};
@@ -0,0 +1,269 @@
+import { Db, ObjectId } from "mongodb";
+import { OrderItem, OrderPricing } from "./order.model";
+import { AppliedCoupon, Coupon } from "../coupons/coupon.model";
+import { CouponError, evaluateCoupon } from "../coupons/coupon.engine";
+import { TaxLocation } from "../tax/tax.model";
+import { AppliedExchangeRate } from "../currency/currency.model";
+import { CurrencyConversionError, assertSupportedCurrency, getExchangeRate, normalizeCurrency } from "../currency/currency.engine";
+import { calculateTax, findApplicableTaxRules } from "../tax/tax.engine";
+import { AppError } from "../../utils/errors";
+
+// Line item as submitted by the client. Prices are only used to detect mismatches.
+export interface OrderItemInput {
+    serviceId?: string;
+    planId?: string;
+    categoryId?: string; // Pricing category the plan belongs to (plan ids are unique per category)
+    quantity?: number;
+    name?: string;
+    description?: string;
+    unitPrice?: number;
+    totalPrice?: number;
+}
+
+export interface PricingMismatch {
+    field: string;
+    submitted: number;
+    expected: number;
+}
+
+export class OrderPricingError extends AppError {
+    constructor(message: string, statusCode = 400, details?: any) {
+        super(message, statusCode, undefined, details);
+        this.name = "OrderPricingError";
+    }
+}
+
+interface ResolvedItem {
+    item: OrderItem;
+    currency: string;
+}
+
+export const roundAmount = (value: number): number => Math.round(value * 100) / 100;
+
+// Parse a client supplied amount such as 3000, "3000" or "$3,000"
+export const parseAmount = (value: unknown): number | undefined => {
+    if (value === undefined || value === null || value === "") return undefined;
+    const parsed = typeof value === "number" ? value : parseFloat(String(value).replace(/[^0-9.]/g, ""));
+    return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const parseQuantity = (value: unknown): number => {
+    if (value === undefined || value === null) return 1;
+    const quantity = Number(value);
+    if (!Number.isInteger(quantity) || quantity < 1) {
+        throw new OrderPricingError("Item quantity must be a positive whole number");
+    }
+    return quantity;
+};
+
+const resolveServiceItem = async (db: Db, input: OrderItemInput, quantity: number): Promise<ResolvedItem> => {
+    if (!ObjectId.isValid(input.serviceId as string)) {
+        throw new OrderPricingError(`Invalid service ID: ${input.serviceId}`);
+    }
+
+    const service = await db.collection("services").findOne({ _id: new ObjectId(input.serviceId as string) });
+    if (!service || service.status !== "active") {
+        throw new OrderPricingError(`Service not found or not available: ${input.serviceId}`, 404);
+    }
+
+    const unitPrice = roundAmount(Number(service.pricing?.basePrice) || 0);
+    if (unitPrice <= 0) {
+        throw new OrderPricingError(`Service "${service.title}" has no price configured`);
+    }
+
+    return {
+        currency: service.pricing?.currency || "USD",
+        item: {
+            serviceId: service._id,
+            serviceCategory: service.category,
+            name: service.title,
+            description: service.shortDescription,
+            quantity,
+            unitPrice,
+            totalPrice: roundAmount(unitPrice * quantity)
+        }
+    };
+};
+
+const resolvePlanItem = async (
+    db: Db,
+    input: OrderItemInput,
+    quantity: number,
+    currency?: string
+): Promise<ResolvedItem> => {
+    const filter: any = { isActive: true, "plans.id": input.planId };
+    if (input.categoryId) {
+        filter.$or = [{ id: input.categoryId }];
+        if (ObjectId.isValid(input.categoryId)) {
+            filter.$or.push({ _id: new ObjectId(input.categoryId) });
+        }
+    }
+
+    const categories = await db.collection("pricingCategories").find(filter).toArray();
+    if (categories.length === 0) {
+        throw new OrderPricingError(`Pricing plan not found: ${input.planId}`, 404);
+    }
+    if (categories.length > 1) {
+        throw new OrderPricingError(`Pricing plan "${input.planId}" exists in several categories. Please provide categoryId.`);
+    }
+
+    const category = categories[0];
+    const plan = (category.plans || []).find((p: any) => p.id === input.planId);
+    const prices = plan?.price || {};
+
+    // Use the plan's own price in the order currency when it has one; otherwise it is converted later
+    const planCurrency = [currency, "USD", "BDT"].find(
+        (code) => code && prices[code] !== null && prices[code] !== undefined
+    );
+
+    if (plan?.type === "custom" || !planCurrency) {
+        throw new OrderPricingError(`Plan "${plan?.name || input.planId}" has no fixed price. Please request a quote instead.`);
+    }
+
+    const price = prices[planCurrency];
+
+    const unitPrice = roundAmount(Number(price));
+
+    return {
+        currency: planCurrency,
+        item: {
+            planId: plan.id,
+            categoryId: category.id || category._id.toString(),
+            name: `${category.name} - ${plan.name}`,
+            description: plan.description,
+            quantity,
+            unitPrice,
+            totalPrice: roundAmount(unitPrice * quantity)
+        }
+    };
+};
+
+/**
+ * Resolve submitted items against the catalog and compute the order pricing.
+ * Client supplied prices are never used for the result.
+ */
+export const calculateOrderPricing = async (
+    db: Db,
+    inputs: OrderItemInput[],
+    requestedCurrency?: string,
+    options: { coupon?: Coupon; customerEmail?: string; taxLocation?: TaxLocation } = {}
+): Promise<{ items: OrderItem[]; pricing: OrderPricing; coupon?: AppliedCoupon }> => {
+    if (!Array.isArray(inputs) || inputs.length === 0) {
+        throw new OrderPricingError("At least one order item or plan is required");
+    }
+
+    if (requestedCurrency !== undefined && requestedCurrency !== null && requestedCurrency !== "") {
+        try {
+            requestedCurrency = assertSupportedCurrency(requestedCurrency);
+        } catch (error) {
+            if (error instanceof CurrencyConversionError) throw new OrderPricingError(error.message, 400, { currency: requestedCurrency });
+            throw error;
+        }
+    }
+
+    const resolved: ResolvedItem[] = [];
+    for (const input of inputs) {
+        const quantity = parseQuantity(input.quantity);
+
+        if (input.serviceId) {
+            resolved.push(await resolveServiceItem(db, input, quantity));
+        } else if (input.planId) {
+            resolved.push(await resolvePlanItem(db, input, quantity, requestedCurrency));
+        } else {
+            throw new OrderPricingError("Each item must reference a serviceId or a pricing planId");
+        }
+    }
+
+    const currency = normalizeCurrency(requestedCurrency || resolved[0].currency);
+
+    // Convert items priced in another currency using the admin maintained exchange rates
+    const exchangeRates: AppliedExchangeRate[] = [];
+    for (const entry of resolved) {
+        if (normalizeCurrency(entry.currency) === currency) continue;
+
+        let applied: AppliedExchangeRate;
+        try {
+            applied = await getExchangeRate(db, entry.currency, currency);
+        } catch (error) {
+            if (error instanceof CurrencyConversionError) {
+                throw new OrderPricingError(error.message, error.statusCode, { name: entry.item.name, currency: entry.currency });
+            }
+            throw error;
+        }
+
+        entry.item.unitPrice = roundAmount(entry.item.unitPrice * applied.rate);
+        entry.item.totalPrice = roundAmount(entry.item.unitPrice * entry.item.quantity);
+        if (!exchangeRates.some((r) => r.from === applied.from)) {
+            exchangeRates.push(applied);
+        }
+    }
+
+    const items = resolved.map((r) => r.item);
+    const subtotal = roundAmount(items.reduce((sum, item) => sum + item.totalPrice, 0));
+
+    let coupon: AppliedCoupon | undefined;
+    if (options.coupon) {
+        try {
+            coupon = await evaluateCoupon(db, options.coupon, items, currency, options.customerEmail);
+        } catch (error) {
+            if (error instanceof CouponError) {
+                throw new OrderPricingError(error.message, error.statusCode, { couponCode: options.coupon.code });
+            }
+            throw error;
+        }
+    }
+
+    const discount = coupon?.discount || 0;
+
+    const taxRules = options.taxLocation ? await findApplicableTaxRules(db, options.taxLocation) : [];
+    const tax = calculateTax(taxRules, items, discount);
+
+    return {
+        items,
+        coupon,
+        pricing: {
+            subtotal,
+            tax: tax.total,
+            taxBreakdown: tax.lines,
+            discount,
+            shippingCost: 0,
+            grandTotal: roundAmount(subtotal - discount + tax.exclusiveTotal),
+            currency,
+            ...(exchangeRates.length > 0 ? { exchangeRates } : {})
+        }
+    };
+};
+
+/**
+ * Compare client submitted amounts with the computed ones.
+ * Only fields the client actually sent are checked.
+ */
+export const findPricingMismatches = (
+    submittedItems: OrderItemInput[],
+    submittedPricing: Partial<Record<keyof OrderPricing, unknown>> | undefined,
+    items: OrderItem[],
+    pricing: OrderPricing
+): PricingMismatch[] => {
+    const mismatches: PricingMismatch[] = [];
+
+    const compare = (field: string, submitted: unknown, expected: number) => {
+        const amount = parseAmount(submitted);
+        if (amount !== undefined && roundAmount(amount) !== roundAmount(expected)) {
+            mismatches.push({ field, submitted: amount, expected });
+        }
+    };
+
+    submittedItems.forEach((input, index) => {
+        compare(`items[${index}].unitPrice`, input.unitPrice, items[index].unitPrice);
+        compare(`items[${index}].totalPrice`, input.totalPrice, items[index].totalPrice);
+    });
+
+    if (submittedPricing) {
+        const fields: (keyof OrderPricing)[] = ["subtotal", "tax", "discount", "shippingCost", "grandTotal"];
+        for (const field of fields) {
+            compare(`pricing.${field}`, submittedPricing[field], Number(pricing[field]) || 0);
+        }
+    }
+
+    return mismatches;
+};
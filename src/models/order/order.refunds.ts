@@ -0,0 +1,270 @@
+import crypto from "crypto";
+import { Db } from "mongodb";
+import { Order, OrderRefund, PaymentStatus } from "./order.model";
+import { roundAmount } from "./order.pricing";
+import { getPaymentProvider } from "../payments/payment.registry";
+import { AppError } from "../../utils/errors";
+
+export class RefundError extends AppError {
+    constructor(message: string, statusCode = 400) {
+        super(message, statusCode);
+        this.name = "RefundError";
+    }
+}
+
+// Payment statuses that still have money left to refund
+const REFUNDABLE_STATUSES: PaymentStatus[] = ["paid", "partially_refunded"];
+
+export const getRefundedAmount = (order: Order): number => {
+    return roundAmount(order.payment.refundedAmount || 0);
+};
+
+export const getRefundableAmount = (order: Order): number => {
+    return roundAmount(order.pricing.grandTotal - getRefundedAmount(order));
+};
+
+// Payment status implied by the amount refunded so far
+export const deriveRefundStatus = (grandTotal: number, refundedAmount: number): PaymentStatus => {
+    if (refundedAmount <= 0) return "paid";
+    return roundAmount(refundedAmount) >= roundAmount(grandTotal) ? "refunded" : "partially_refunded";
+};
+
+// Guard refund updates with the refunded amount we read, so concurrent refunds cannot exceed the total
+const refundedAmountFilter = (order: Order) => {
+    return order.payment.refundedAmount === undefined
+        ? { "payment.refundedAmount": { $exists: false } }
+        : { "payment.refundedAmount": order.payment.refundedAmount };
+};
+
+const buildRefund = (
+    amount: number,
+    reason: string,
+    refundedBy: OrderRefund["refundedBy"],
+    provider?: string,
+    providerReference?: string
+): OrderRefund => ({
+    id: `rf_${crypto.randomBytes(8).toString("hex")}`,
+    amount,
+    reason,
+    status: "pending",
+    provider,
+    // Provider refunds get their reference up front: it is the idempotency key sent to the
+    // provider and lets a webhook find this entry even before the provider call returns
+    providerReference: providerReference ?? (provider ? `ref_${crypto.randomBytes(12).toString("hex")}` : undefined),
+    refundedBy,
+    createdAt: new Date()
+});
+
+// Append a refund to the ledger and move the payment status accordingly
+const appendRefund = async (db: Db, order: Order, refund: OrderRefund): Promise<Order> => {
+    const refundedAmount = roundAmount(getRefundedAmount(order) + refund.amount);
+
+    const updated = await db.collection<Order>("orders").findOneAndUpdate(
+        {
+            _id: order._id,
+            "payment.status": { $in: REFUNDABLE_STATUSES },
+            ...refundedAmountFilter(order),
+            // Never record the same provider refund twice
+            ...(refund.providerReference ? { "payment.refunds.providerReference": { $ne: refund.providerReference } } : {})
+        },
+        {
+            $push: { "payment.refunds": refund },
+            $set: {
+                "payment.refundedAmount": refundedAmount,
+                "payment.status": deriveRefundStatus(order.pricing.grandTotal, refundedAmount),
+                updatedAt: new Date()
+            }
+        },
+        { returnDocument: "after" }
+    );
+
+    if (!updated) {
+        throw new RefundError("Order payment changed while refunding, please retry", 409);
+    }
+
+    return updated;
+};
+
+// Mark a pending ledger entry as failed and give its amount back. False when it is no longer pending.
+const failRefund = async (db: Db, orderId: Order["_id"], refund: OrderRefund, failureReason: string): Promise<boolean> => {
+    const orders = db.collection<Order>("orders");
+
+    // Retry on concurrent changes to the refunded amount
+    for (let attempt = 0; attempt < 5; attempt++) {
+        const order = await orders.findOne({ _id: orderId });
+        const current = order?.payment.refunds?.find((entry) => entry.id === refund.id);
+        if (!order || current?.status !== "pending") return false;
+
+        const refundedAmount = roundAmount(getRefundedAmount(order) - refund.amount);
+        const result = await orders.updateOne(
+            { _id: orderId, ...refundedAmountFilter(order), "payment.refunds": { $elemMatch: { id: refund.id, status: "pending" } } },
+            {
+                $set: {
+                    "payment.refunds.$.status": "failed",
+                    "payment.refunds.$.failureReason": failureReason,
+                    "payment.refundedAmount": refundedAmount,
+                    "payment.status": deriveRefundStatus(order.pricing.grandTotal, refundedAmount),
+                    updatedAt: new Date()
+                }
+            }
+        );
+
+        if (result.matchedCount > 0) return true;
+    }
+
+    throw new RefundError("Order payment changed while updating the refund, please retry", 409);
+};
+
+/**
+ * Refund part or all of a paid order. The refund is recorded as pending, with its
+ * provider reference, before the provider is called, so two refunds can never exceed
+ * the paid amount and the provider's webhook always finds it. It is marked failed if
+ * the provider rejects it.
+ */
+export const createRefund = async (
+    db: Db,
+    order: Order,
+    input: { amount: number; reason: string; refundedBy: OrderRefund["refundedBy"] }
+): Promise<{ order: Order; refund: OrderRefund }> => {
+    if (!REFUNDABLE_STATUSES.includes(order.payment.status)) {
+        throw new RefundError(`Cannot refund an order with payment status "${order.payment.status}"`, 409);
+    }
+
+    const amount = roundAmount(input.amount);
+    if (!Number.isFinite(amount) || amount <= 0) {
+        throw new RefundError("Refund amount must be a positive number");
+    }
+
+    const refundable = getRefundableAmount(order);
+    if (amount > refundable) {
+        throw new RefundError(`Refund amount exceeds the refundable amount of ${refundable} ${order.pricing.currency}`);
+    }
+
+    const provider = order.payment.provider ? getPaymentProvider(order.payment.provider) : undefined;
+    const refund = buildRefund(amount, input.reason, input.refundedBy, provider?.name);
+    await appendRefund(db, order, refund);
+
+    if (provider) {
+        try {
+            const result = await provider.refund(order, {
+                reference: refund.providerReference as string,
+                amount,
+                reason: input.reason
+            });
+            refund.status = result.status;
+            if (result.status === "succeeded") refund.completedAt = new Date();
+        } catch (error) {
+            const message = error instanceof Error ? error.message : "Provider refund failed";
+            await failRefund(db, order._id, refund, message);
+            throw new RefundError(`Refund failed: ${message}`, 502);
+        }
+    } else {
+        // Paid outside any provider; the admin has already returned the money
+        refund.status = "succeeded";
+        refund.completedAt = new Date();
+    }
+
+    const orders = db.collection<Order>("orders");
+
+    if (refund.status === "succeeded") {
+        // Only while still pending: a webhook may already have confirmed it
+        await orders.updateOne(
+            { _id: order._id, "payment.refunds": { $elemMatch: { id: refund.id, status: "pending" } } },
+            { $set: { "payment.refunds.$.status": "succeeded", "payment.refunds.$.completedAt": refund.completedAt, updatedAt: new Date() } }
+        );
+    }
+
+    const updated = (await orders.findOne({ _id: order._id })) || order;
+    return { order: updated, refund: updated.payment.refunds?.find((entry) => entry.id === refund.id) || refund };
+};
+
+/**
+ * Settle a pending refund by hand, e.g. once a manual wallet refund has been sent or
+ * turned out to be impossible. A failed refund gives its amount back to the order.
+ */
+export const settleRefund = async (
+    db: Db,
+    order: Order,
+    refundId: string,
+    input: { status: "succeeded" | "failed"; failureReason?: string }
+): Promise<{ order: Order; refund: OrderRefund }> => {
+    const refund = order.payment.refunds?.find((entry) => entry.id === refundId);
+    if (!refund) {
+        throw new RefundError("Refund not found", 404);
+    }
+    if (refund.status !== "pending") {
+        throw new RefundError(`Refund is already ${refund.status}`, 409);
+    }
+
+    const orders = db.collection<Order>("orders");
+    let settled: boolean;
+
+    if (input.status === "succeeded") {
+        const result = await orders.updateOne(
+            { _id: order._id, "payment.refunds": { $elemMatch: { id: refund.id, status: "pending" } } },
+            { $set: { "payment.refunds.$.status": "succeeded", "payment.refunds.$.completedAt": new Date(), updatedAt: new Date() } }
+        );
+        settled = result.modifiedCount > 0;
+    } else {
+        settled = await failRefund(db, order._id, refund, input.failureReason || "Marked as failed by an admin");
+    }
+
+    if (!settled) {
+        throw new RefundError("Refund was settled by another request", 409);
+    }
+
+    const updated = (await orders.findOne({ _id: order._id })) || order;
+    return { order: updated, refund: updated.payment.refunds?.find((entry) => entry.id === refund.id) || refund };
+};
+
+// Confirm the pending ledger entry with this provider reference. False when there is none.
+const confirmProviderRefund = async (db: Db, orderId: Order["_id"], providerReference: string): Promise<boolean> => {
+    const result = await db.collection<Order>("orders").updateOne(
+        { _id: orderId, "payment.refunds": { $elemMatch: { providerReference, status: "pending" } } },
+        { $set: { "payment.refunds.$.status": "succeeded", "payment.refunds.$.completedAt": new Date(), updatedAt: new Date() } }
+    );
+    return result.modifiedCount > 0;
+};
+
+/**
+ * Apply a provider's refund notification: confirm the matching pending refund, or record
+ * a refund that was issued directly in the provider's dashboard. Refunds are matched on
+ * their provider reference, so a notification is never recorded as a second refund.
+ */
+export const recordProviderRefund = async (
+    db: Db,
+    order: Order,
+    provider: string,
+    event: { refundReference?: string; amount?: number; reason?: string }
+): Promise<"applied" | "ignored"> => {
+    if (event.refundReference) {
+        if (await confirmProviderRefund(db, order._id, event.refundReference)) return "applied";
+
+        const existing = order.payment.refunds?.find((refund) => refund.providerReference === event.refundReference);
+        if (existing) return "ignored";
+    }
+
+    if (!REFUNDABLE_STATUSES.includes(order.payment.status)) {
+        return "ignored";
+    }
+
+    const amount = event.amount !== undefined ? roundAmount(event.amount) : getRefundableAmount(order);
+    if (amount <= 0 || amount > getRefundableAmount(order)) {
+        return "ignored";
+    }
+
+    const refund = buildRefund(amount, event.reason || "Refunded by payment provider", { role: "system" }, provider, event.refundReference);
+    refund.status = "succeeded";
+    refund.completedAt = new Date();
+
+    try {
+        await appendRefund(db, order, refund);
+    } catch (error) {
+        // The ledger changed since we read it, e.g. createRefund just recorded this reference
+        if (error instanceof RefundError && error.statusCode === 409 && event.refundReference) {
+            return (await confirmProviderRefund(db, order._id, event.refundReference)) ? "applied" : "ignored";
+        }
+        throw error;
+    }
+    return "applied";
+};
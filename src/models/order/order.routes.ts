@@ -7,30 +7,50 @@ import {
     getUserOrders,
     updateOrderStatus,
     updatePaymentStatus,
+    createOrderRefund,
+    updateOrderRefund,
     cancelOrder,
     updateOrder,
     deleteOrder,
     getOrderStats,
+    getOrderHistory,
+    getOrderInvoice,
     trackOrdersByEmail
 } from "./order.controller";
-import { verifyToken, requireAdmin } from "../../middlewares/auth.middleware";
+import { verifyToken, requirePermission, requireVerifiedEmail } from "../../middlewares/auth.middleware";
+import { validate } from "../../middlewares/validate.middleware";
+import {
+    cancelOrderSchema,
+    createOrderSchema,
+    orderParams,
+    orderRefundParams,
+    orderRefundSchema,
+    orderRefundUpdateSchema,
+    orderStatusSchema,
+    paymentStatusSchema,
+    updateOrderSchema
+} from "./order.schema";
 
 const router = express.Router();
 
-router.post("/",verifyToken, createOrder);
+router.post("/", verifyToken, requireVerifiedEmail, validate({ body: createOrderSchema }), createOrder);
 router.get("/track/:email", trackOrdersByEmail);
 
 router.get("/my-orders", verifyToken, getUserOrders);
 router.get("/:id/status", verifyToken, getOrderById);
-router.patch("/:id/cancel", verifyToken, cancelOrder);
+router.get("/:id/history", verifyToken, getOrderHistory);
+router.get("/:id/invoice.pdf", verifyToken, getOrderInvoice);
+router.patch("/:id/cancel", verifyToken, validate({ params: orderParams, body: cancelOrderSchema }), cancelOrder);
 
-router.get("/", verifyToken, requireAdmin, getAllOrders);
-router.get("/stats", verifyToken, requireAdmin, getOrderStats);
+router.get("/", verifyToken, requirePermission("orders:read"), getAllOrders);
+router.get("/stats", verifyToken, requirePermission("orders:read"), getOrderStats);
 router.get("/number/:orderNumber", verifyToken, getOrderByOrderNumber);
 router.get("/:id", verifyToken, getOrderById);
-router.patch("/:id/status", verifyToken, requireAdmin, updateOrderStatus);
-router.patch("/:id/payment", verifyToken, requireAdmin, updatePaymentStatus);
-router.put("/:id", verifyToken, requireAdmin, updateOrder);
-router.delete("/:id", verifyToken, requireAdmin, deleteOrder);
+router.patch("/:id/status", verifyToken, requirePermission("orders:write"), validate({ params: orderParams, body: orderStatusSchema }), updateOrderStatus);
+router.patch("/:id/payment", verifyToken, requirePermission("orders:write"), validate({ params: orderParams, body: paymentStatusSchema }), updatePaymentStatus);
+router.post("/:id/refunds", verifyToken, requirePermission("orders:refund"), validate({ params: orderParams, body: orderRefundSchema }), createOrderRefund);
+router.patch("/:id/refunds/:refundId", verifyToken, requirePermission("orders:refund"), validate({ params: orderRefundParams, body: orderRefundUpdateSchema }), updateOrderRefund);
+router.put("/:id", verifyToken, requirePermission("orders:write"), validate({ params: orderParams, body: updateOrderSchema }), updateOrder);
+router.delete("/:id", verifyToken, requirePermission("orders:write"), deleteOrder);
 
 export default router;
@@ -0,0 +1,113 @@
+import { Schema, s } from "../../utils/schema";
+import { OrderCustomer } from "./order.model";
+import { ORDER_STATUSES, PAYMENT_STATUSES } from "./order.lifecycle";
+import { parseAmount } from "./order.pricing";
+
+type OrderCustomerInput = Omit<OrderCustomer, "customerId"> & { customerId?: string };
+
+// Optional amount as a number or a formatted string such as "$1,200", read with parseAmount.
+// Prices a client submits with an order are only compared with the server's own pricing.
+export const amount = () => new Schema<number | string | undefined>((value, path, issues) => {
+  if (value === undefined || value === null || value === "") return undefined;
+  if ((typeof value !== "number" && typeof value !== "string") || parseAmount(value) === undefined) {
+    issues.push({ path, message: "must be an amount" });
+  }
+  return value as number | string;
+});
+
+const customerFields = {
+  name: s.string({ min: 1, max: 200 }),
+  email: s.email(),
+  phone: s.string({ min: 1, max: 30 }),
+  address: s.string({ max: 500 }).optional(),
+};
+
+const orderCustomerSchema = s.object<OrderCustomerInput>({
+  ...customerFields,
+  country: s.string({ max: 100 }).optional(),
+  region: s.string({ max: 100 }).optional(),
+  customerId: s.objectId().optional(),
+});
+
+// Items, pricing and plan may echo what the server sent back (e.g. `expected` from a
+// price mismatch), so extra keys are dropped rather than rejected
+export const orderItemSchema = s.object({
+  serviceId: s.objectId().optional(),
+  planId: s.string({ min: 1, max: 100 }).optional(),
+  categoryId: s.string({ min: 1, max: 100 }).optional(),
+  quantity: s.number({ integer: true, min: 1 }).optional(),
+  name: s.string({ max: 200 }).optional(),
+  description: s.string({ max: 2000 }).optional(),
+  unitPrice: amount(),
+  totalPrice: amount(),
+}).strip();
+
+const currency = s.string({ pattern: /^[a-z]{3}$/i, patternMessage: "must be a 3-letter currency code" });
+
+export const createOrderSchema = s.object({
+  customer: orderCustomerSchema,
+  items: s.array(orderItemSchema, { max: 100 }).optional(),
+  // Single plan checkout, either as the plan object or as separate fields
+  plan: s.object({
+    id: s.string({ min: 1, max: 100 }).optional(),
+    planId: s.string({ min: 1, max: 100 }).optional(),
+    categoryId: s.string({ min: 1, max: 100 }).optional(),
+    price: amount(),
+  }).strip().optional(),
+  planId: s.string({ min: 1, max: 100 }).optional(),
+  categoryId: s.string({ min: 1, max: 100 }).optional(),
+  planPrice: amount(),
+  pricing: s.object({
+    subtotal: amount(),
+    tax: amount(),
+    discount: amount(),
+    shippingCost: amount(),
+    grandTotal: amount(),
+    currency: currency.optional(),
+  }).strip().optional(),
+  currency: currency.optional(),
+  couponCode: s.string({ min: 1, max: 50 }).optional(),
+  payment: s.object({
+    method: s.string({ max: 50 }).optional(),
+    transactionId: s.string({ max: 100 }).optional(),
+    receiverNumber: s.string({ max: 30 }).optional(),
+  }).optional(),
+  paymentMethod: s.string({ max: 50 }).optional(),
+  transactionId: s.string({ max: 100 }).optional(),
+  receiverNumber: s.string({ max: 30 }).optional(),
+  notes: s.string({ max: 2000 }).optional(),
+});
+
+// Notes and customer contact details only; see EDITABLE_ORDER_FIELDS in the controller
+export const updateOrderSchema = s.object({
+  notes: s.string({ max: 2000 }),
+  customer: s.object(customerFields).patch(),
+}).patch();
+
+export const orderStatusSchema = s.object({
+  orderStatus: s.enum(ORDER_STATUSES),
+  note: s.string({ max: 1000 }).optional(),
+});
+
+export const paymentStatusSchema = s.object({
+  paymentStatus: s.enum(PAYMENT_STATUSES),
+  transactionId: s.string({ max: 100 }).optional(),
+  paymentMethod: s.string({ max: 50 }).optional(),
+});
+
+export const cancelOrderSchema = s.object<{ reason?: string }>({
+  reason: s.string({ max: 1000 }).optional(),
+}).default(() => ({}));
+
+export const orderRefundSchema = s.object({
+  amount: s.number({ min: 0 }),
+  reason: s.string({ min: 1, max: 1000 }),
+});
+
+export const orderRefundUpdateSchema = s.object({
+  status: s.enum(["succeeded", "failed"]),
+  failureReason: s.string({ max: 1000 }).optional(),
+});
+
+export const orderParams = s.object({ id: s.objectId() });
+export const orderRefundParams = s.object({ id: s.objectId(), refundId: s.string({ min: 1, max: 100 }) });
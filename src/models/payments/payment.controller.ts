@@ -0,0 +1,153 @@
+import { Request, Response } from "express";
+import { ObjectId } from "mongodb";
+import { getDB } from "../../config/db";
+import { Order } from "../order/order.model";
+import { PaymentProviderError } from "./payment.model";
+import { DEFAULT_PAYMENT_PROVIDER, getPaymentProvider, getPaymentProviderNames } from "./payment.registry";
+import { processWebhookEvent } from "./payment.engine";
+import { userHasPermission } from "../../middlewares/auth.middleware";
+
+// List the payment providers enabled on this server (public)
+export const getPaymentProviders = async (_req: Request, res: Response) => {
+    return res.status(200).json({
+        success: true,
+        data: getPaymentProviderNames()
+    });
+};
+
+// Start paying for an order with a provider (order owner or admin)
+export const createPaymentIntent = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        const providerName: string = req.body?.provider || DEFAULT_PAYMENT_PROVIDER;
+
+        if (!id || !ObjectId.isValid(id as string)) {
+            return res.status(400).json({
+                success: false,
+                message: "Invalid order ID"
+            });
+        }
+
+        const provider = getPaymentProvider(providerName);
+        if (!provider) {
+            return res.status(400).json({
+                success: false,
+                message: `Unknown payment provider. Must be one of: ${getPaymentProviderNames().join(", ")}`
+            });
+        }
+
+        const db = getDB();
+        const order = await db.collection<Order>("orders").findOne({ _id: new ObjectId(id as string) });
+
+        if (!order) {
+            return res.status(404).json({
+                success: false,
+                message: "Order not found"
+            });
+        }
+
+        const user = req.user;
+        const isAdmin = await userHasPermission(req, "orders:write");
+        const isOwner = user?.uid && order.customer.customerId?.toString() === user.uid;
+
+        if (!isAdmin && !isOwner) {
+            return res.status(403).json({
+                success: false,
+                message: "Access denied"
+            });
+        }
+
+        if (order.payment.status !== "pending" && order.payment.status !== "failed") {
+            return res.status(409).json({
+                success: false,
+                message: `Order payment is already ${order.payment.status}`
+            });
+        }
+
+        if (order.orderStatus === "cancelled") {
+            return res.status(409).json({
+                success: false,
+                message: "Cannot pay for a cancelled order"
+            });
+        }
+
+        const intent = await provider.createIntent(order);
+
+        // Only attach the intent while the order is still unpaid
+        const updated = await db.collection<Order>("orders").updateOne(
+            { _id: order._id, "payment.status": { $in: ["pending", "failed"] } },
+            {
+                $set: {
+                    "payment.status": "pending",
+                    "payment.provider": provider.name,
+                    "payment.providerReference": intent.reference,
+                    "payment.method": provider.name === "manual" ? order.payment.method : provider.name,
+                    updatedAt: new Date()
+                },
+                $unset: { "payment.failureReason": "" }
+            }
+        );
+
+        if (updated.matchedCount === 0) {
+            return res.status(409).json({
+                success: false,
+                message: "Order payment changed, please retry"
+            });
+        }
+
+        return res.status(201).json({
+            success: true,
+            message: "Payment started",
+            data: intent
+        });
+    } catch (error) {
+        if (error instanceof PaymentProviderError) {
+            return res.status(error.statusCode).json({ success: false, message: error.message });
+        }
+        console.error("Create payment intent error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to start payment",
+        });
+    }
+};
+
+// Receive a signed payment notification from a provider (public, verified by signature)
+export const handlePaymentWebhook = async (req: Request, res: Response) => {
+    try {
+        const provider = getPaymentProvider(req.params.provider as string);
+
+        if (!provider) {
+            return res.status(404).json({
+                success: false,
+                message: "Unknown payment provider"
+            });
+        }
+
+        const db = getDB();
+        const { duplicate, record } = await processWebhookEvent(db, provider, {
+            headers: req.headers,
+            rawBody: req.rawBody,
+            body: req.body
+        });
+
+        // Always acknowledge verified events so the provider stops retrying
+        return res.status(200).json({
+            success: true,
+            message: duplicate ? "Event already processed" : "Event processed",
+            data: {
+                eventId: record.eventId,
+                result: record.result
+            }
+        });
+    } catch (error) {
+        if (error instanceof PaymentProviderError) {
+            return res.status(error.statusCode).json({ success: false, message: error.message });
+        }
+        console.error("Payment webhook error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to process payment webhook"
+        });
+    }
+};
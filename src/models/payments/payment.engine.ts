@@ -0,0 +1,161 @@
+import { Db, ObjectId } from "mongodb";
+import { Order, OrderPayment, PaymentStatus } from "../order/order.model";
+import { REFUND_PAYMENT_STATUSES, canTransitionPayment, paymentStatusesLeadingTo } from "../order/order.lifecycle";
+import { roundAmount } from "../order/order.pricing";
+import { recordProviderRefund } from "../order/order.refunds";
+import { notifyInBackground, sendPaymentReceivedEmail } from "../order/order.emails";
+import { PaymentEventRecord, PaymentProvider, PaymentWebhookEvent, WebhookRequest } from "./payment.model";
+
+export interface PaymentStatusChange {
+    result: "applied" | "unchanged" | "invalid_transition" | "not_found";
+    order?: Order;
+}
+
+type PaymentDetails = Partial<Pick<OrderPayment, "method" | "transactionId" | "provider" | "providerReference" | "failureReason">>;
+
+/**
+ * Move an order's payment to `to`. Repeating the current status is a no-op, so retried
+ * webhooks and double clicks are safe. The update only matches while the payment is
+ * still in a status that may move to `to`, which keeps concurrent changes consistent.
+ * Refund statuses are owned by the refund ledger and cannot be set here.
+ */
+export const applyPaymentStatus = async (
+    db: Db,
+    orderId: ObjectId,
+    to: PaymentStatus,
+    details: PaymentDetails = {}
+): Promise<PaymentStatusChange> => {
+    const orders = db.collection<Order>("orders");
+    const order = await orders.findOne({ _id: orderId });
+
+    if (!order) {
+        return { result: "not_found" };
+    }
+
+    if (order.payment.status === to) {
+        return { result: "unchanged", order };
+    }
+
+    const touchesRefunds = REFUND_PAYMENT_STATUSES.includes(to) || REFUND_PAYMENT_STATUSES.includes(order.payment.status);
+    if (touchesRefunds || !canTransitionPayment(order.payment.status, to)) {
+        return { result: "invalid_transition", order };
+    }
+
+    const now = new Date();
+    const update: Record<string, unknown> = {
+        "payment.status": to,
+        updatedAt: now
+    };
+
+    if (to === "paid") update["payment.paidAt"] = now;
+    for (const [key, value] of Object.entries(details)) {
+        if (value !== undefined) update[`payment.${key}`] = value;
+    }
+
+    const updated = await orders.findOneAndUpdate(
+        { _id: orderId, "payment.status": { $in: paymentStatusesLeadingTo(to) } },
+        { $set: update },
+        { returnDocument: "after" }
+    );
+
+    if (!updated) {
+        // Changed by someone else in the meantime
+        const current = await orders.findOne({ _id: orderId });
+        return { result: current?.payment.status === to ? "unchanged" : "invalid_transition", order: current || undefined };
+    }
+
+    return { result: "applied", order: updated };
+};
+
+const EVENT_STATUS: Record<Exclude<PaymentWebhookEvent["type"], "payment.refunded">, PaymentStatus> = {
+    "payment.succeeded": "paid",
+    "payment.failed": "failed"
+};
+
+// Find the order a webhook event belongs to by the provider reference stored on it
+const findEventOrder = async (db: Db, provider: string, event: PaymentWebhookEvent): Promise<Order | null> => {
+    const orders = db.collection<Order>("orders");
+
+    // Only the reference we stored when creating the intent identifies the order; order
+    // numbers are guessable and would let one payment settle someone else's order
+    if (!event.reference) return null;
+
+    return orders.findOne({ "payment.provider": provider, "payment.providerReference": event.reference });
+};
+
+/**
+ * Verify and apply a webhook delivery. Each event is recorded once per provider,
+ * so redelivered events are acknowledged without being applied again.
+ */
+export const processWebhookEvent = async (
+    db: Db,
+    provider: PaymentProvider,
+    request: WebhookRequest
+): Promise<{ duplicate: boolean; record: PaymentEventRecord }> => {
+    const event = provider.verifyWebhook(request);
+    const events = db.collection<PaymentEventRecord>("paymentEvents");
+
+    const record: PaymentEventRecord = {
+        provider: provider.name,
+        eventId: event.eventId,
+        type: event.type,
+        result: "received",
+        receivedAt: new Date()
+    };
+
+    try {
+        const inserted = await events.insertOne(record);
+        record._id = inserted.insertedId;
+    } catch (error: any) {
+        if (error?.code !== 11000) throw error;
+        const existing = await events.findOne({ provider: provider.name, eventId: event.eventId });
+        return { duplicate: true, record: existing || record };
+    }
+
+    try {
+        const order = await findEventOrder(db, provider.name, event);
+
+        if (!order) {
+            record.result = "order_not_found";
+        } else if (event.type === "payment.refunded") {
+            record.orderId = order._id;
+            record.result = await recordProviderRefund(db, order, provider.name, event);
+        } else {
+            record.orderId = order._id;
+            const to = EVENT_STATUS[event.type];
+
+            const amountMismatch = event.amount !== undefined && roundAmount(event.amount) !== roundAmount(order.pricing.grandTotal);
+            const currencyMismatch = !!event.currency && event.currency.toUpperCase() !== order.pricing.currency.toUpperCase();
+
+            if (to === "paid" && (amountMismatch || currencyMismatch)) {
+                record.result = "amount_mismatch";
+                record.message = `Expected ${order.pricing.grandTotal} ${order.pricing.currency}, received ${event.amount} ${event.currency || order.pricing.currency}`;
+            } else {
+                const change = await applyPaymentStatus(db, order._id!, to, {
+                    provider: provider.name,
+                    transactionId: event.transactionId,
+                    failureReason: to === "failed" ? event.reason : undefined
+                });
+                record.result = change.result === "applied" ? "applied" : "ignored";
+                if (change.result === "applied" && to === "paid" && change.order) {
+                    const paidOrder = change.order;
+                    notifyInBackground("Payment received", () => sendPaymentReceivedEmail(paidOrder));
+                }
+                if (change.result === "invalid_transition") {
+                    record.message = `Cannot change payment status from "${change.order?.payment.status}" to "${to}"`;
+                }
+            }
+        }
+
+        await events.updateOne(
+            { _id: record._id },
+            { $set: { result: record.result, orderId: record.orderId, message: record.message } }
+        );
+    } catch (error) {
+        // Let the provider redeliver the event
+        await events.deleteOne({ _id: record._id });
+        throw error;
+    }
+
+    return { duplicate: false, record };
+};
@@ -0,0 +1,72 @@
+import { IncomingHttpHeaders } from "http";
+import { ObjectId } from "mongodb";
+import { Order } from "../order/order.model";
+import { AppError } from "../../utils/errors";
+
+export interface PaymentIntent {
+    provider: string;
+    reference: string; // Provider side reference, stored as order.payment.providerReference
+    amount: number;
+    currency: string;
+    status: "requires_action" | "pending" | "succeeded";
+    instructions?: string; // Shown to the customer, e.g. how to send a mobile wallet payment
+    receiverNumber?: string;
+    redirectUrl?: string;
+}
+
+export interface PaymentWebhookEvent {
+    eventId: string; // Unique per provider; used to ignore retried deliveries
+    type: "payment.succeeded" | "payment.failed" | "payment.refunded";
+    reference?: string;
+    orderNumber?: string; // Informational only; events are matched by reference
+    transactionId?: string;
+    refundReference?: string; // For payment.refunded: the provider's refund reference
+    amount?: number;
+    currency?: string;
+    reason?: string;
+}
+
+// A refund already recorded as pending in the order's ledger
+export interface PaymentRefundRequest {
+    reference: string; // Our refund reference; sent as the idempotency key and echoed back in webhooks
+    amount: number;
+    reason?: string;
+}
+
+export interface PaymentRefundResult {
+    reference: string;
+    status: "succeeded" | "pending";
+}
+
+// The parts of an incoming webhook request a provider needs to verify it
+export interface WebhookRequest {
+    headers: IncomingHttpHeaders;
+    rawBody?: Buffer;
+    body: any;
+}
+
+export interface PaymentProvider {
+    name: string;
+    createIntent(order: Order): Promise<PaymentIntent>;
+    verifyWebhook(request: WebhookRequest): PaymentWebhookEvent; // Throws PaymentProviderError when invalid
+    refund(order: Order, request: PaymentRefundRequest): Promise<PaymentRefundResult>;
+}
+
+export class PaymentProviderError extends AppError {
+    constructor(message: string, statusCode = 400) {
+        super(message, statusCode);
+        this.name = "PaymentProviderError";
+    }
+}
+
+// Every verified webhook delivery, unique per (provider, eventId)
+export interface PaymentEventRecord {
+    _id?: ObjectId;
+    provider: string;
+    eventId: string;
+    type: PaymentWebhookEvent["type"];
+    orderId?: ObjectId;
+    result: "received" | "applied" | "ignored" | "amount_mismatch" | "order_not_found";
+    message?: string;
+    receivedAt: Date;
+}
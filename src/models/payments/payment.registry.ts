@@ -0,0 +1,41 @@
+import { PaymentProvider } from "./payment.model";
+import { createHmacProvider } from "./providers/hmac.provider";
+import { manualProvider } from "./providers/manual.provider";
+import { createFakeProvider } from "./providers/fake.provider";
+
+const providers = new Map<string, PaymentProvider>();
+
+const register = (provider: PaymentProvider) => {
+    providers.set(provider.name, provider);
+};
+
+register(manualProvider);
+
+// Generic gateway notifying us through HMAC signed webhooks
+if (process.env.PAYMENT_WEBHOOK_SECRET) {
+    register(createHmacProvider({
+        name: "webhook",
+        secret: process.env.PAYMENT_WEBHOOK_SECRET,
+        checkoutUrl: process.env.PAYMENT_CHECKOUT_URL,
+        refundUrl: process.env.PAYMENT_REFUND_URL
+    }));
+}
+
+// Local fake provider, only when explicitly enabled. Its secret has no default so
+// nobody can sign events for it with a well-known value.
+if (process.env.PAYMENT_FAKE_PROVIDER === "true") {
+    if (!process.env.PAYMENT_FAKE_SECRET) {
+        throw new Error("PAYMENT_FAKE_PROVIDER is enabled but PAYMENT_FAKE_SECRET is not set");
+    }
+    register(createFakeProvider(process.env.PAYMENT_FAKE_SECRET));
+}
+
+export const DEFAULT_PAYMENT_PROVIDER = "manual";
+
+export const getPaymentProvider = (name: string): PaymentProvider | undefined => {
+    return providers.get(name);
+};
+
+export const getPaymentProviderNames = (): string[] => {
+    return Array.from(providers.keys());
+};
@@ -0,0 +1,14 @@
+import express from "express";
+import { getPaymentProviders, createPaymentIntent, handlePaymentWebhook } from "./payment.controller";
+import { verifyToken } from "../../middlewares/auth.middleware";
+
+const router = express.Router();
+
+// Public routes
+router.get("/providers", getPaymentProviders);
+router.post("/webhook/:provider", handlePaymentWebhook);
+
+// Customer routes
+router.post("/orders/:id/intent", verifyToken, createPaymentIntent);
+
+export default router;
@@ -0,0 +1,13 @@
+import { PaymentProvider } from "../payment.model";
+import { createHmacProvider } from "./hmac.provider";
+
+/**
+ * Local provider for development and tests. Behaves like the HMAC webhook provider
+ * with refunds that succeed immediately. Only registered when PAYMENT_FAKE_PROVIDER=true;
+ * sign events for it with signWebhookPayload and PAYMENT_FAKE_SECRET.
+ */
+export const createFakeProvider = (secret: string): PaymentProvider => createHmacProvider({
+    name: "fake",
+    secret,
+    instantRefunds: true
+});
@@ -0,0 +1,142 @@
+import crypto from "crypto";
+import axios from "axios";
+import { Order } from "../../order/order.model";
+import {
+    PaymentIntent,
+    PaymentProvider,
+    PaymentProviderError,
+    PaymentRefundRequest,
+    PaymentRefundResult,
+    PaymentWebhookEvent,
+    WebhookRequest
+} from "../payment.model";
+
+export const SIGNATURE_HEADER = "x-signature";
+
+// Signatures older than this are rejected to stop replayed deliveries
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+const EVENT_TYPES: PaymentWebhookEvent["type"][] = ["payment.succeeded", "payment.failed", "payment.refunded"];
+
+interface HmacProviderOptions {
+    name: string;
+    secret: string;
+    checkoutUrl?: string; // Customers are sent here with ?reference=...
+    refundUrl?: string; // Signed refund requests are POSTed here
+    instantRefunds?: boolean; // Report refunds as succeeded without calling out (used by the fake provider)
+}
+
+const computeSignature = (secret: string, timestamp: string, payload: string): string => {
+    return crypto.createHmac("sha256", secret).update(`${timestamp}.${payload}`).digest("hex");
+};
+
+/**
+ * Build the signature header for a payload: `t=<unix seconds>,v1=<hex hmac-sha256>`
+ * of "<t>.<payload>".
+ */
+export const signWebhookPayload = (secret: string, payload: string, timestamp = Math.floor(Date.now() / 1000)): string => {
+    return `t=${timestamp},v1=${computeSignature(secret, String(timestamp), payload)}`;
+};
+
+/**
+ * Provider for gateways that notify us with HMAC signed webhooks.
+ * Expected body: { id, type, data: { reference, orderNumber, transactionId, refundReference, amount, currency, reason } }
+ */
+export const createHmacProvider = (options: HmacProviderOptions): PaymentProvider => ({
+    name: options.name,
+
+    async createIntent(order: Order): Promise<PaymentIntent> {
+        const reference = `pay_${crypto.randomBytes(12).toString("hex")}`;
+
+        return {
+            provider: options.name,
+            reference,
+            amount: order.pricing.grandTotal,
+            currency: order.pricing.currency,
+            status: "requires_action",
+            redirectUrl: options.checkoutUrl
+                ? `${options.checkoutUrl}?reference=${reference}&order=${encodeURIComponent(order.orderNumber)}`
+                : undefined
+        };
+    },
+
+    verifyWebhook(request: WebhookRequest): PaymentWebhookEvent {
+        if (!options.secret) {
+            throw new PaymentProviderError(`Webhook secret for provider "${options.name}" is not configured`, 500);
+        }
+
+        const header = request.headers[SIGNATURE_HEADER];
+        const signature = Array.isArray(header) ? header[0] : header;
+        if (!signature || !request.rawBody) {
+            throw new PaymentProviderError("Missing webhook signature", 401);
+        }
+
+        const parts = Object.fromEntries(
+            signature.split(",").map((part) => part.trim().split("=") as [string, string])
+        );
+        const timestamp = parts.t;
+        const received = parts.v1;
+        if (!timestamp || !received) {
+            throw new PaymentProviderError("Malformed webhook signature", 401);
+        }
+
+        const age = Math.abs(Math.floor(Date.now() / 1000) - Number(timestamp));
+        if (!Number.isFinite(age) || age > SIGNATURE_TOLERANCE_SECONDS) {
+            throw new PaymentProviderError("Webhook signature has expired", 401);
+        }
+
+        const expected = computeSignature(options.secret, timestamp, request.rawBody.toString("utf8"));
+        const expectedBuffer = Buffer.from(expected, "hex");
+        const receivedBuffer = Buffer.from(received, "hex");
+        if (expectedBuffer.length !== receivedBuffer.length || !crypto.timingSafeEqual(expectedBuffer, receivedBuffer)) {
+            throw new PaymentProviderError("Invalid webhook signature", 401);
+        }
+
+        const { id, type, data = {} } = request.body || {};
+        if (!id || !EVENT_TYPES.includes(type)) {
+            throw new PaymentProviderError("Unsupported webhook payload");
+        }
+
+        return {
+            eventId: String(id),
+            type,
+            reference: data.reference,
+            orderNumber: data.orderNumber,
+            transactionId: data.transactionId,
+            refundReference: data.refundReference,
+            amount: data.amount !== undefined ? Number(data.amount) : undefined,
+            currency: data.currency,
+            reason: data.reason
+        };
+    },
+
+    async refund(order: Order, { reference, amount, reason }: PaymentRefundRequest): Promise<PaymentRefundResult> {
+        if (options.instantRefunds) {
+            return { reference, status: "succeeded" };
+        }
+
+        if (!options.refundUrl) {
+            throw new PaymentProviderError(`Refunds are not configured for provider "${options.name}"`, 501);
+        }
+
+        // The gateway confirms the refund later with a payment.refunded webhook
+        const payload = JSON.stringify({
+            reference,
+            paymentReference: order.payment.providerReference,
+            transactionId: order.payment.transactionId,
+            amount,
+            currency: order.pricing.currency,
+            reason
+        });
+        await axios.post(options.refundUrl, payload, {
+            headers: {
+                "Content-Type": "application/json",
+                // Retried requests for the same ledger entry must not refund twice
+                "Idempotency-Key": reference,
+                [SIGNATURE_HEADER]: signWebhookPayload(options.secret, payload)
+            }
+        });
+
+        return { reference, status: "pending" };
+    }
+});
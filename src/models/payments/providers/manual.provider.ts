@@ -0,0 +1,48 @@
+import crypto from "crypto";
+import { Order } from "../../order/order.model";
+import {
+    PaymentIntent,
+    PaymentProvider,
+    PaymentProviderError,
+    PaymentRefundRequest,
+    PaymentRefundResult,
+    PaymentWebhookEvent
+} from "../payment.model";
+
+const RECEIVER_NUMBER = process.env.MANUAL_PAYMENT_RECEIVER_NUMBER || "";
+const WALLET_NAME = process.env.MANUAL_PAYMENT_WALLET_NAME || "mobile wallet";
+
+/**
+ * Mobile wallet payments sent by the customer by hand (bKash, Nagad, ...).
+ * The customer submits the transaction ID with the order and an admin confirms it
+ * through PATCH /api/orders/:id/payment, so there are no webhooks to verify.
+ */
+export const manualProvider: PaymentProvider = {
+    name: "manual",
+
+    async createIntent(order: Order): Promise<PaymentIntent> {
+        const amount = `${order.pricing.grandTotal} ${order.pricing.currency}`;
+
+        return {
+            provider: "manual",
+            reference: `man_${crypto.randomBytes(8).toString("hex")}`,
+            amount: order.pricing.grandTotal,
+            currency: order.pricing.currency,
+            status: "pending",
+            receiverNumber: RECEIVER_NUMBER || undefined,
+            instructions: RECEIVER_NUMBER
+                ? `Send ${amount} via ${WALLET_NAME} to ${RECEIVER_NUMBER} with reference ${order.orderNumber}, then submit the transaction ID.`
+                : `Send ${amount} via ${WALLET_NAME} with reference ${order.orderNumber}, then submit the transaction ID.`
+        };
+    },
+
+    verifyWebhook(): PaymentWebhookEvent {
+        throw new PaymentProviderError("Manual payments are confirmed by an admin and do not accept webhooks", 404);
+    },
+
+    // The money is returned by hand, so the refund stays pending until an admin marks it done
+    // through PATCH /api/orders/:id/refunds/:refundId
+    async refund(_order: Order, { reference }: PaymentRefundRequest): Promise<PaymentRefundResult> {
+        return { reference, status: "pending" };
+    }
+};
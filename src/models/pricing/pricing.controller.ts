@@ -25,11 +25,6 @@ export const createPricingCategory = async (req: Request, res: Response) => {
     categoryData.createdAt = new Date();
     categoryData.updatedAt = new Date();
 
-    // Initialize empty plans array if not provided
-    if (!categoryData.plans) {
-      categoryData.plans = [];
-    }
-
     const db = await connectDB();
 
     // Check if category with same id already exists
@@ -53,7 +48,6 @@ export const createPricingCategory = async (req: Request, res: Response) => {
     return res.status(500).json({
       success: false,
       message: "Failed to create pricing category",
-      error: error instanceof Error ? error.message : "Unknown error"
     });
   }
 };
@@ -91,7 +85,6 @@ export const getAllPricingCategories = async (req: Request, res: Response) => {
     return res.status(500).json({
       success: false,
       message: "Failed to fetch pricing categories",
-      error: error instanceof Error ? error.message : "Unknown error"
     });
   }
 };
@@ -124,7 +117,6 @@ export const getPricingCategoryById = async (req: Request, res: Response) => {
     return res.status(500).json({
       success: false,
       message: "Failed to fetch pricing category",
-      error: error instanceof Error ? error.message : "Unknown error"
     });
   }
 };
@@ -137,9 +129,6 @@ export const updatePricingCategory = async (req: Request, res: Response) => {
     // Add update timestamp
     updateData.updatedAt = new Date();
 
-    // Remove _id from update data if present
-    delete updateData._id;
-
     const db = await connectDB();
 
     // Try to update by custom id first, then by _id
@@ -171,7 +160,6 @@ export const updatePricingCategory = async (req: Request, res: Response) => {
     return res.status(500).json({
       success: false,
       message: "Failed to update pricing category",
-      error: error instanceof Error ? error.message : "Unknown error"
     });
   }
 };
@@ -204,7 +192,6 @@ export const deletePricingCategory = async (req: Request, res: Response) => {
     return res.status(500).json({
       success: false,
       message: "Failed to delete pricing category",
-      error: error instanceof Error ? error.message : "Unknown error"
     });
   }
 };
@@ -274,7 +261,6 @@ export const addPlanToCategory = async (req: Request, res: Response) => {
     return res.status(500).json({
       success: false,
       message: "Failed to add plan to category",
-      error: error instanceof Error ? error.message : "Unknown error"
     });
   }
 };
@@ -301,7 +287,15 @@ export const updatePlanInCategory = async (req: Request, res: Response) => {
       });
     }
 
-    // Update the specific plan
+    const existingPlan = category.plans?.find((plan: any) => plan.id === planId);
+    if (!existingPlan) {
+      return res.status(404).json({
+        success: false,
+        message: "Plan not found in this category"
+      });
+    }
+
+    // Merge so a partial update keeps the fields it does not mention
     const updateResult = await db.collection("pricingCategories").updateOne(
       {
         _id: category._id,
@@ -309,7 +303,7 @@ export const updatePlanInCategory = async (req: Request, res: Response) => {
       },
       {
         $set: {
-          "plans.$": { ...updateData, id: planId },
+          "plans.$": { ...existingPlan, ...updateData, id: planId },
           updatedAt: new Date()
         }
       }
@@ -331,7 +325,6 @@ export const updatePlanInCategory = async (req: Request, res: Response) => {
     return res.status(500).json({
       success: false,
       message: "Failed to update plan",
-      error: error instanceof Error ? error.message : "Unknown error"
     });
   }
 };
@@ -382,7 +375,6 @@ export const removePlanFromCategory = async (req: Request, res: Response) => {
     return res.status(500).json({
       success: false,
       message: "Failed to remove plan from category",
-      error: error instanceof Error ? error.message : "Unknown error"
     });
   }
 };
\ No newline at end of file
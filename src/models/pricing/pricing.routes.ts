@@ -11,25 +11,36 @@ import {
   updatePlanInCategory,
   removePlanFromCategory
 } from "./pricing.controller";
-import { verifyToken, requireAdmin } from "../../middlewares/auth.middleware";
+import { verifyToken, requirePermission } from "../../middlewares/auth.middleware";
+import { validate } from "../../middlewares/validate.middleware";
+import {
+  pricingCategoryParams,
+  pricingCategoryPlansParams,
+  pricingCategorySchema,
+  pricingListQuery,
+  pricingPlanParams,
+  pricingPlanSchema,
+  updatePricingCategorySchema,
+  updatePricingPlanSchema
+} from "./pricing.schema";
 
 const router = express.Router();
 
 // Public routes for pricing
-router.get("/", getAllPricingCategories);
-router.get("/categories/:id", getPricingCategoryById);
+router.get("/", validate({ query: pricingListQuery }), getAllPricingCategories);
+router.get("/categories/:id", validate({ params: pricingCategoryParams }), getPricingCategoryById);
 
-// Admin-only routes for pricing categories
-router.post("/categories", verifyToken, requireAdmin, createPricingCategory);
-router.put("/categories/:id", verifyToken, requireAdmin, updatePricingCategory);
-router.patch("/categories/:id", verifyToken, requireAdmin, updatePricingCategory);
-router.delete("/categories/:id", verifyToken, requireAdmin, deletePricingCategory);
+// Staff routes for pricing categories
+router.post("/categories", verifyToken, requirePermission("catalog:manage"), validate({ body: pricingCategorySchema }), createPricingCategory);
+router.put("/categories/:id", verifyToken, requirePermission("catalog:manage"), validate({ params: pricingCategoryParams, body: updatePricingCategorySchema }), updatePricingCategory);
+router.patch("/categories/:id", verifyToken, requirePermission("catalog:manage"), validate({ params: pricingCategoryParams, body: updatePricingCategorySchema }), updatePricingCategory);
+router.delete("/categories/:id", verifyToken, requirePermission("catalog:manage"), validate({ params: pricingCategoryParams }), deletePricingCategory);
 
 
-// Admin-only routes for plan management within categories
-router.post("/categories/:categoryId/plans", verifyToken, requireAdmin, addPlanToCategory);
-router.put("/categories/:categoryId/plans/:planId", verifyToken, requireAdmin, updatePlanInCategory);
-router.patch("/categories/:categoryId/plans/:planId", verifyToken, requireAdmin, updatePlanInCategory);
-router.delete("/categories/:categoryId/plans/:planId", verifyToken, requireAdmin, removePlanFromCategory);
+// Staff routes for plan management within categories
+router.post("/categories/:categoryId/plans", verifyToken, requirePermission("catalog:manage"), validate({ params: pricingCategoryPlansParams, body: pricingPlanSchema }), addPlanToCategory);
+router.put("/categories/:categoryId/plans/:planId", verifyToken, requirePermission("catalog:manage"), validate({ params: pricingPlanParams, body: updatePricingPlanSchema }), updatePlanInCategory);
+router.patch("/categories/:categoryId/plans/:planId", verifyToken, requirePermission("catalog:manage"), validate({ params: pricingPlanParams, body: updatePricingPlanSchema }), updatePlanInCategory);
+router.delete("/categories/:categoryId/plans/:planId", verifyToken, requirePermission("catalog:manage"), validate({ params: pricingPlanParams }), removePlanFromCategory);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,54 @@
+import { s } from "../../utils/schema";
+import { PricingCategory, PricingPlan } from "./pricing.model";
+
+export type PricingPlanInput = Omit<PricingPlan, "_id">;
+export type PricingCategoryInput = Omit<PricingCategory, "_id" | "createdAt" | "updatedAt">;
+
+const slug = () => s.string({ min: 1, max: 100, pattern: /^[a-z0-9-]+$/, patternMessage: "may only contain lowercase letters, numbers and hyphens" });
+
+// null means the plan has no fixed price in that currency
+const planPrice = () => s.number({ min: 0 }).nullable().default(null);
+
+export const pricingPlanSchema = s.object<PricingPlanInput>({
+  id: slug().optional(),
+  name: s.string({ min: 1, max: 100 }),
+  description: s.string({ max: 1000 }).default(""),
+  type: s.enum(["fixed", "custom"]),
+  popular: s.boolean().default(false),
+  price: s.object<PricingPlan["price"]>({
+    USD: planPrice(),
+    BDT: planPrice(),
+  }).default(() => ({ USD: null, BDT: null })),
+  billingCycle: s.enum(["monthly", "yearly", "custom"]),
+  features: s.array(s.string({ min: 1, max: 500 }), { max: 100 }).default([]),
+  cta: s.object<PricingPlan["cta"]>({
+    text: s.string({ min: 1, max: 100 }),
+    action: s.string({ min: 1, max: 2048 }),
+  }),
+  order: s.number({ integer: true }).default(0),
+});
+
+export const updatePricingPlanSchema = pricingPlanSchema.patch();
+
+export const pricingCategorySchema = s.object<PricingCategoryInput>({
+  id: slug().optional(),
+  name: s.string({ min: 1, max: 100 }),
+  order: s.number({ integer: true }).default(0),
+  isActive: s.boolean().default(true),
+  plans: s.array(pricingPlanSchema, { max: 50 }).default([]),
+});
+
+export const updatePricingCategorySchema = pricingCategorySchema.patch();
+
+export const pricingCategoryParams = s.object({ id: s.string({ min: 1, max: 100 }) });
+export const pricingCategoryPlansParams = s.object({ categoryId: s.string({ min: 1, max: 100 }) });
+export const pricingPlanParams = s.object({
+  categoryId: s.string({ min: 1, max: 100 }),
+  planId: s.string({ min: 1, max: 100 }),
+});
+
+export const pricingListQuery = s.object({
+  isActive: s.enum(["true", "false"]).optional(),
+  sortBy: s.enum(["order", "name", "createdAt"]).default("order"),
+  sortOrder: s.enum(["asc", "desc"]).default("asc"),
+}).strip();
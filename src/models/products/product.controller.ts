@@ -1,6 +1,7 @@
 import { Request, Response } from "express";
 import { getDB } from "../../config/db";
 import { ObjectId } from "mongodb";
+import { findUserByIdentifier } from "../user/user.store";
 
 // Create a new product
 
@@ -27,22 +28,7 @@ export const createProduct = async (req: Request, res: Response) => {
       order,
     } = req.body;
 
-    if (!slug || !title) {
-      return res.status(400).json({ message: "Required fields missing: slug and title" });
-    }
-
-    if (!userId) {
-      return res.status(400).json({ message: "User ID is required in URL" });
-    }
-
-    // Find user by _id first, then firebaseUid
-    let user = null;
-    if (ObjectId.isValid(userId as string)) {
-      user = await db.collection("users").findOne({ _id: new ObjectId(userId as string) });
-    }
-    if (!user) {
-      user = await db.collection("users").findOne({ firebaseUid: userId });
-    }
+    const user = await findUserByIdentifier(userId as string);
 
     if (!user) {
       return res.status(404).json({ message: "User not found" });
@@ -61,8 +47,8 @@ export const createProduct = async (req: Request, res: Response) => {
       features,
       cta,
       theme,
-      status: status || "active",
-      order: order || 0,
+      status,
+      order,
       postedBy: user._id, // Use MongoDB _id from authenticated user
       postedByUid: user.firebaseUid, // Store Firebase UID for reference
       createdAt: new Date(),
@@ -126,10 +112,6 @@ export const updateProduct = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
 
-    if (!id || !ObjectId.isValid(id as string)) {
-      return res.status(400).json({ message: "Invalid product ID" });
-    }
-
     const db = getDB();
 
     const updateData: any = {
@@ -137,10 +119,6 @@ export const updateProduct = async (req: Request, res: Response) => {
       updatedAt: new Date(),
     };
 
-    delete updateData.postedBy;
-    delete updateData._id;
-    delete updateData.createdAt;
-
     const result = await db.collection("products").findOneAndUpdate(
       { _id: new ObjectId(id as string) },
       { $set: updateData },
@@ -167,10 +145,6 @@ export const deleteProduct = async (req: Request, res: Response) => {
     const { id } = req.params;
 
     // Validate product ID
-    if (!id || !ObjectId.isValid(id as string)) {
-      return res.status(400).json({ message: "Invalid product ID" });
-    }
-
     const db = getDB();
 
     const result = await db.collection("products").deleteOne({
@@ -38,3 +38,17 @@ export interface Product {
   postedBy: ObjectId; //USER ID
   createdAt: Date;
 }
+
+// Shape written by the /api/products store routes; shares the products collection with Product
+export interface StoreProduct {
+  _id?: ObjectId;
+  name: string;
+  description: string;
+  price: number;
+  category: string;
+  stock: number;
+  imageUrl?: string;
+  createdBy: string; // Firebase UID
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -1,15 +1,17 @@
 import express from "express";
 import { createProduct, deleteProduct, getAllProducts, updateProduct } from "./product.controller";
-import { verifyToken, requireAdmin, requireUser, optionalToken } from "../../middlewares/auth.middleware";
+import { verifyToken, requirePermission, requireUser, optionalToken } from "../../middlewares/auth.middleware";
+import { validate } from "../../middlewares/validate.middleware";
+import { productOwnerParams, productParams, productSchema, updateProductSchema } from "./product.schema";
 
 const router = express.Router();
 
 // User routes - authenticated users can create products
-router.post("/:userId", verifyToken, requireUser, createProduct);
+router.post("/:userId", verifyToken, requireUser, validate({ params: productOwnerParams, body: productSchema }), createProduct);
 
-// Admin-only routes (update, delete)
-router.put("/:id", verifyToken, requireAdmin, updateProduct);
-router.delete("/:id", verifyToken, requireAdmin, deleteProduct);
+// Staff routes (update, delete)
+router.put("/:id", verifyToken, requirePermission("catalog:manage"), validate({ params: productParams, body: updateProductSchema }), updateProduct);
+router.delete("/:id", verifyToken, requirePermission("catalog:manage"), validate({ params: productParams }), deleteProduct);
 
 // Public routes (view products)
 router.get("/", optionalToken, getAllProducts); // Public access with optional user info
@@ -0,0 +1,41 @@
+import { s } from "../../utils/schema";
+import { Product } from "./product.model";
+
+export type ProductInput = Omit<Product, "_id" | "postedBy" | "createdAt">;
+
+export const productSchema = s.object<ProductInput>({
+  slug: s.string({ min: 1, max: 100, pattern: /^[a-z0-9-]+$/, patternMessage: "may only contain lowercase letters, numbers and hyphens" }),
+  title: s.string({ min: 1, max: 200 }),
+  tagline: s.string({ max: 300 }).default(""),
+  description: s.string({ max: 10000 }).default(""),
+  coverImage: s.object<Product["coverImage"]>({
+    url: s.string({ min: 1, max: 2048 }),
+    alt: s.string({ max: 300 }).default(""),
+  }),
+  badge: s.object<NonNullable<Product["badge"]>>({
+    label: s.string({ min: 1, max: 50 }),
+    color: s.string({ min: 1, max: 50 }),
+  }).optional(),
+  liveLink: s.url().optional(),
+  repoLink: s.url().optional(),
+  highlights: s.array(s.object<Product["highlights"][number]>({
+    label: s.string({ min: 1, max: 100 }),
+    value: s.string({ min: 1, max: 100 }),
+  }), { max: 20 }).default([]),
+  features: s.array(s.string({ min: 1, max: 500 }), { max: 100 }).default([]),
+  cta: s.object<Product["cta"]>({
+    text: s.string({ min: 1, max: 100 }),
+    url: s.string({ min: 1, max: 2048 }),
+  }),
+  theme: s.object<Product["theme"]>({
+    gradientFrom: s.string({ min: 1, max: 50 }),
+    gradientTo: s.string({ min: 1, max: 50 }),
+  }),
+  status: s.enum(["active", "inactive"]).default("active"),
+  order: s.number({ integer: true }).default(0),
+});
+
+export const updateProductSchema = productSchema.patch();
+
+export const productOwnerParams = s.object({ userId: s.string({ min: 1, max: 128 }) });
+export const productParams = s.object({ id: s.objectId() });
@@ -22,7 +22,6 @@ export const createProjectCategory = async (req: Request, res: Response) => {
         .replace(/[^a-z0-9\-]/g, ''), // Remove special characters except hyphens
       createdAt: new Date(),
       updatedAt: new Date(),
-      isActive: categoryData.isActive !== undefined ? categoryData.isActive : true,
       projects: [] // Initialize empty projects array
     };
 
@@ -51,7 +50,6 @@ export const createProjectCategory = async (req: Request, res: Response) => {
     return res.status(500).json({
       success: false,
       message: "Failed to create project category",
-      error: error instanceof Error ? error.message : "Unknown error"
     });
   }
 };
@@ -89,7 +87,6 @@ export const getAllProjectCategories = async (req: Request, res: Response) => {
     return res.status(500).json({
       success: false,
       message: "Failed to fetch project categories",
-      error: error instanceof Error ? error.message : "Unknown error"
     });
   }
 };
@@ -122,7 +119,6 @@ export const getProjectCategoryById = async (req: Request, res: Response) => {
     return res.status(500).json({
       success: false,
       message: "Failed to fetch project category",
-      error: error instanceof Error ? error.message : "Unknown error"
     });
   }
 };
@@ -193,7 +189,6 @@ export const updateProjectCategory = async (req: Request, res: Response) => {
     return res.status(500).json({
       success: false,
       message: "Failed to update project category",
-      error: error instanceof Error ? error.message : "Unknown error"
     });
   }
 };
@@ -231,7 +226,6 @@ export const deleteProjectCategory = async (req: Request, res: Response) => {
     return res.status(500).json({
       success: false,
       message: "Failed to delete project category",
-      error: error instanceof Error ? error.message : "Unknown error"
     });
   }
 };
@@ -248,9 +242,7 @@ export const addProjectToCategory = async (req: Request, res: Response) => {
       id: projectData.id || projectData.title
         .toLowerCase()
         .replace(/\s+/g, '-')
-        .replace(/[^a-z0-9\-]/g, ''), // Remove special characters except hyphens
-      isFeatured: projectData.isFeatured !== undefined ? projectData.isFeatured : false,
-      tags: projectData.tags || []
+        .replace(/[^a-z0-9\-]/g, '') // Remove special characters except hyphens
     };
 
     const db = await connectDB();
@@ -296,7 +288,6 @@ export const addProjectToCategory = async (req: Request, res: Response) => {
     return res.status(500).json({
       success: false,
       message: "Failed to add project to category",
-      error: error instanceof Error ? error.message : "Unknown error"
     });
   }
 };
@@ -354,7 +345,6 @@ export const updateProjectInCategory = async (req: Request, res: Response) => {
     return res.status(500).json({
       success: false,
       message: "Failed to update project in category",
-      error: error instanceof Error ? error.message : "Unknown error"
     });
   }
 };
@@ -407,7 +397,6 @@ export const removeProjectFromCategory = async (req: Request, res: Response) =>
     return res.status(500).json({
       success: false,
       message: "Failed to remove project from category",
-      error: error instanceof Error ? error.message : "Unknown error"
     });
   }
 };
\ No newline at end of file
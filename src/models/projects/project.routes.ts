@@ -11,24 +11,35 @@ import {
   updateProjectInCategory,
   removeProjectFromCategory
 } from "./project.controller";
-import { verifyToken, requireAdmin } from "../../middlewares/auth.middleware";
+import { verifyToken, requirePermission } from "../../middlewares/auth.middleware";
+import { validate } from "../../middlewares/validate.middleware";
+import {
+  projectCategoryParams,
+  projectCategoryProjectsParams,
+  projectCategorySchema,
+  projectListQuery,
+  projectParams,
+  projectSchema,
+  updateProjectCategorySchema,
+  updateProjectSchema
+} from "./project.schema";
 
 const router = express.Router();
 
 // Public routes for project categories
-router.get("/", getAllProjectCategories);
-router.get("/categories/:id", getProjectCategoryById);
+router.get("/", validate({ query: projectListQuery }), getAllProjectCategories);
+router.get("/categories/:id", validate({ params: projectCategoryParams }), getProjectCategoryById);
 
-// Admin-only routes for project categories
-router.post("/categories", verifyToken, requireAdmin, createProjectCategory);
-router.put("/categories/:id", verifyToken, requireAdmin, updateProjectCategory);
-router.patch("/categories/:id", verifyToken, requireAdmin, updateProjectCategory);
-router.delete("/categories/:id", verifyToken, requireAdmin, deleteProjectCategory);
+// Staff routes for project categories
+router.post("/categories", verifyToken, requirePermission("content:publish"), validate({ body: projectCategorySchema }), createProjectCategory);
+router.put("/categories/:id", verifyToken, requirePermission("content:publish"), validate({ params: projectCategoryParams, body: updateProjectCategorySchema }), updateProjectCategory);
+router.patch("/categories/:id", verifyToken, requirePermission("content:publish"), validate({ params: projectCategoryParams, body: updateProjectCategorySchema }), updateProjectCategory);
+router.delete("/categories/:id", verifyToken, requirePermission("content:publish"), validate({ params: projectCategoryParams }), deleteProjectCategory);
 
-// Admin-only routes for project management within categories
-router.post("/categories/:categoryId/projects", verifyToken, requireAdmin, addProjectToCategory);
-router.put("/categories/:categoryId/projects/:projectId", verifyToken, requireAdmin, updateProjectInCategory);
-router.patch("/categories/:categoryId/projects/:projectId", verifyToken, requireAdmin, updateProjectInCategory);
-router.delete("/categories/:categoryId/projects/:projectId", verifyToken, requireAdmin, removeProjectFromCategory);
+// Staff routes for project management within categories
+router.post("/categories/:categoryId/projects", verifyToken, requirePermission("content:publish"), validate({ params: projectCategoryProjectsParams, body: projectSchema }), addProjectToCategory);
+router.put("/categories/:categoryId/projects/:projectId", verifyToken, requirePermission("content:publish"), validate({ params: projectParams, body: updateProjectSchema }), updateProjectInCategory);
+router.patch("/categories/:categoryId/projects/:projectId", verifyToken, requirePermission("content:publish"), validate({ params: projectParams, body: updateProjectSchema }), updateProjectInCategory);
+router.delete("/categories/:categoryId/projects/:projectId", verifyToken, requirePermission("content:publish"), validate({ params: projectParams }), removeProjectFromCategory);
 
 export default router;
\ No newline at end of file
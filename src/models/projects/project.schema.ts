@@ -0,0 +1,40 @@
+import { s } from "../../utils/schema";
+import { ProjectCategoryInput, ProjectInput } from "./project.model";
+
+const slug = () => s.string({ min: 1, max: 100, pattern: /^[a-z0-9-]+$/, patternMessage: "may only contain lowercase letters, numbers and hyphens" });
+
+export const projectSchema = s.object<ProjectInput>({
+  id: slug().optional(),
+  title: s.string({ min: 1, max: 200 }),
+  description: s.string({ min: 1, max: 5000 }),
+  tags: s.array(s.string({ min: 1, max: 50 }), { max: 30 }).default([]),
+  thumbnail: s.string({ min: 1, max: 2048 }),
+  previewUrl: s.url().optional(),
+  isFeatured: s.boolean().default(false),
+  order: s.number({ integer: true }),
+});
+
+export const updateProjectSchema = projectSchema.patch();
+
+export const projectCategorySchema = s.object<ProjectCategoryInput>({
+  id: slug().optional(),
+  name: s.string({ min: 1, max: 100 }),
+  description: s.string({ max: 1000 }).optional(),
+  order: s.number({ integer: true }),
+  isActive: s.boolean().default(true),
+});
+
+export const updateProjectCategorySchema = projectCategorySchema.patch();
+
+export const projectCategoryParams = s.object({ id: s.string({ min: 1, max: 100 }) });
+export const projectCategoryProjectsParams = s.object({ categoryId: s.string({ min: 1, max: 100 }) });
+export const projectParams = s.object({
+  categoryId: s.string({ min: 1, max: 100 }),
+  projectId: s.string({ min: 1, max: 100 }),
+});
+
+export const projectListQuery = s.object({
+  isActive: s.enum(["true", "false"]).optional(),
+  sortBy: s.enum(["order", "name", "createdAt"]).default("order"),
+  sortOrder: s.enum(["asc", "desc"]).default("asc"),
+}).strip();
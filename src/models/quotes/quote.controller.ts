@@ -0,0 +1,352 @@
+import { Request, Response } from "express";
+import { ObjectId } from "mongodb";
+import { getDB } from "../../config/db";
+import { Quote } from "./quote.model";
+import { OrderPlacementError } from "../order/order.placement";
+import {
+    QUOTE_STATUSES,
+    QuoteError,
+    acceptQuote,
+    createQuote,
+    declineQuote,
+    expireQuotes,
+    findQuoteByToken,
+    sendQuoteEmail,
+    toAdminQuote,
+    toPublicQuote,
+    updateQuote
+} from "./quote.engine";
+
+// The customer link carries the token as a query parameter; JSON bodies may send it instead
+const getToken = (req: Request): unknown => req.body?.token || req.query.token;
+
+const sendQuoteError = (res: Response, error: QuoteError | OrderPlacementError) => {
+    return res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        ...(error instanceof QuoteError && error.details ? { details: error.details } : {})
+    });
+};
+
+const findQuoteById = async (id: string): Promise<Quote | null> => {
+    if (!ObjectId.isValid(id)) return null;
+    return getDB().collection<Quote>("quotes").findOne({ _id: new ObjectId(id) });
+};
+
+// Create a quote for a custom pricing plan (admin only)
+export const createQuoteForPlan = async (req: Request, res: Response) => {
+    try {
+        const db = getDB();
+        const { planId, categoryId, customer, items, currency, discount, validUntil, validDays, terms, notes, contactId, send } = req.body;
+
+        if (!planId) {
+            return res.status(400).json({
+                success: false,
+                message: "planId is required"
+            });
+        }
+
+        if (contactId && !ObjectId.isValid(contactId)) {
+            return res.status(400).json({
+                success: false,
+                message: "Invalid contact ID"
+            });
+        }
+
+        const user = req.user;
+        let quote = await createQuote(db, {
+            planId,
+            categoryId,
+            customer,
+            items,
+            currency,
+            discount,
+            validUntil,
+            validDays,
+            terms,
+            notes,
+            contactId: contactId ? new ObjectId(contactId) : undefined
+        }, {
+            uid: user?.uid || user?.user_id || user?._id?.toString(),
+            name: user?.name || user?.displayName
+        });
+
+        if (send === true) {
+            quote = await sendQuoteEmail(db, quote);
+        }
+
+        return res.status(201).json({
+            success: true,
+            message: send === true ? "Quote created and sent to the customer" : "Quote created successfully",
+            data: toAdminQuote(quote)
+        });
+    } catch (error) {
+        if (error instanceof QuoteError) {
+            return sendQuoteError(res, error);
+        }
+        console.error("Create quote error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to create quote",
+        });
+    }
+};
+
+// List quotes with filtering and pagination (admin only)
+export const getAllQuotes = async (req: Request, res: Response) => {
+    try {
+        const db = getDB();
+        const { status, planId, contactId, email, search, limit = "50", skip } = req.query;
+
+        const filter: any = {};
+
+        if (status) {
+            if (!QUOTE_STATUSES.includes(status as any)) {
+                return res.status(400).json({
+                    success: false,
+                    message: `Invalid status. Must be one of: ${QUOTE_STATUSES.join(", ")}`
+                });
+            }
+            filter.status = status;
+        }
+
+        if (planId) {
+            filter["plan.planId"] = planId;
+        }
+
+        if (contactId && ObjectId.isValid(contactId as string)) {
+            filter.contactId = new ObjectId(contactId as string);
+        }
+
+        if (email) {
+            filter["customer.email"] = (email as string).toLowerCase();
+        }
+
+        if (search) {
+            const pattern = { $regex: (search as string).replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), $options: "i" };
+            filter.$or = [{ quoteNumber: pattern }, { "customer.name": pattern }, { "customer.email": pattern }];
+        }
+
+        let query = db.collection<Quote>("quotes")
+            .find(filter, { projection: { accessTokenHash: 0, linkNonce: 0 } })
+            .sort({ createdAt: -1 });
+
+        if (skip) query = query.skip(Number(skip));
+        query = query.limit(Number(limit));
+
+        const quotes = await query.toArray();
+        const totalCount = await db.collection("quotes").countDocuments(filter);
+
+        const statusCounts: Record<string, number> = {};
+        for (const value of QUOTE_STATUSES) {
+            statusCounts[value] = await db.collection("quotes").countDocuments({ status: value });
+        }
+
+        return res.status(200).json({
+            success: true,
+            count: quotes.length,
+            totalCount,
+            statusCounts,
+            data: quotes,
+            pagination: {
+                skip: Number(skip) || 0,
+                limit: Number(limit),
+                hasMore: (Number(skip) || 0) + quotes.length < totalCount
+            }
+        });
+    } catch (error) {
+        console.error("Get all quotes error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to get quotes"
+        });
+    }
+};
+
+// Get a quote with its customer link (admin only)
+export const getQuoteById = async (req: Request, res: Response) => {
+    try {
+        const quote = await findQuoteById(req.params.id as string);
+
+        if (!quote) {
+            return res.status(404).json({
+                success: false,
+                message: "Quote not found"
+            });
+        }
+
+        return res.status(200).json({
+            success: true,
+            data: toAdminQuote(quote)
+        });
+    } catch (error) {
+        console.error("Get quote by ID error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to get quote"
+        });
+    }
+};
+
+// Update items, pricing, expiry or terms of an open quote (admin only)
+export const updateQuoteById = async (req: Request, res: Response) => {
+    try {
+        const db = getDB();
+        const quote = await findQuoteById(req.params.id as string);
+
+        if (!quote) {
+            return res.status(404).json({
+                success: false,
+                message: "Quote not found"
+            });
+        }
+
+        const { customer, items, currency, discount, validUntil, validDays, terms, notes } = req.body;
+        const updated = await updateQuote(db, quote, { customer, items, currency, discount, validUntil, validDays, terms, notes });
+
+        return res.status(200).json({
+            success: true,
+            message: "Quote updated successfully",
+            data: toAdminQuote(updated)
+        });
+    } catch (error) {
+        if (error instanceof QuoteError) {
+            return sendQuoteError(res, error);
+        }
+        console.error("Update quote error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to update quote",
+        });
+    }
+};
+
+// Email the quote link to the customer, or send it again (admin only)
+export const sendQuote = async (req: Request, res: Response) => {
+    try {
+        const db = getDB();
+        const quote = await findQuoteById(req.params.id as string);
+
+        if (!quote) {
+            return res.status(404).json({
+                success: false,
+                message: "Quote not found"
+            });
+        }
+
+        const sent = await sendQuoteEmail(db, quote);
+
+        return res.status(200).json({
+            success: true,
+            message: "Quote sent to the customer",
+            data: toAdminQuote(sent)
+        });
+    } catch (error) {
+        if (error instanceof QuoteError) {
+            return sendQuoteError(res, error);
+        }
+        console.error("Send quote error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to send quote",
+        });
+    }
+};
+
+// Expire open quotes past their validity date now (admin only)
+export const expireQuotesNow = async (req: Request, res: Response) => {
+    try {
+        const expired = await expireQuotes(getDB());
+
+        return res.status(200).json({
+            success: true,
+            message: `${expired} quote(s) expired`,
+            data: { expired }
+        });
+    } catch (error) {
+        console.error("Expire quotes error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to expire quotes"
+        });
+    }
+};
+
+// View a quote through the customer link (public, token protected)
+export const getQuoteByToken = async (req: Request, res: Response) => {
+    try {
+        const db = getDB();
+        const quote = await findQuoteByToken(db, req.params.id as string, getToken(req));
+
+        return res.status(200).json({
+            success: true,
+            data: toPublicQuote(quote)
+        });
+    } catch (error) {
+        if (error instanceof QuoteError) {
+            return sendQuoteError(res, error);
+        }
+        console.error("Get quote by token error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to get quote"
+        });
+    }
+};
+
+// Accept a quote through the customer link and place the order (public, token protected)
+export const acceptQuoteByToken = async (req: Request, res: Response) => {
+    try {
+        const db = getDB();
+        const quote = await findQuoteByToken(db, req.params.id as string, getToken(req));
+
+        const order = await acceptQuote(db, quote, {
+            uid: quote.customer.customerId?.toString(),
+            role: "user"
+        });
+
+        return res.status(201).json({
+            success: true,
+            message: "Quote accepted and order created",
+            data: {
+                quoteNumber: quote.quoteNumber,
+                order
+            }
+        });
+    } catch (error) {
+        if (error instanceof QuoteError || error instanceof OrderPlacementError) {
+            return sendQuoteError(res, error);
+        }
+        console.error("Accept quote error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to accept quote",
+        });
+    }
+};
+
+// Decline a quote through the customer link (public, token protected)
+export const declineQuoteByToken = async (req: Request, res: Response) => {
+    try {
+        const db = getDB();
+        const quote = await findQuoteByToken(db, req.params.id as string, getToken(req));
+        const { reason } = req.body;
+
+        const declined = await declineQuote(db, quote, typeof reason === "string" ? reason.trim().slice(0, 1000) : undefined);
+
+        return res.status(200).json({
+            success: true,
+            message: "Quote declined",
+            data: toPublicQuote(declined)
+        });
+    } catch (error) {
+        if (error instanceof QuoteError) {
+            return sendQuoteError(res, error);
+        }
+        console.error("Decline quote error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to decline quote"
+        });
+    }
+};
@@ -0,0 +1,506 @@
+import crypto from "crypto";
+import { Db, ObjectId } from "mongodb";
+import { Quote, QuotePlan, QuoteStatus } from "./quote.model";
+import { Order, OrderCustomer, OrderItem, OrderPricing, OrderStatusHistoryEntry } from "../order/order.model";
+import { parseAmount, roundAmount } from "../order/order.pricing";
+import { placeOrder } from "../order/order.placement";
+import { TaxLocation } from "../tax/tax.model";
+import { calculateTax, findApplicableTaxRules, resolveTaxLocation } from "../tax/tax.engine";
+import { normalizeCurrency } from "../currency/currency.engine";
+import { generateSequenceNumber, findHighestIssuedSequence } from "../../utils/sequence";
+import { queueTemplatedEmail } from "../../emailService";
+import { AppError } from "../../utils/errors";
+import { resolveSecret } from "../../utils/secrets";
+
+export const QUOTE_VALIDITY_DAYS = Number(process.env.QUOTE_VALIDITY_DAYS) || 14;
+
+// Key for signing customer links; falls back to the session secret
+const LINK_SECRET = resolveSecret("QUOTE_LINK_SECRET", "JWT_SECRET");
+
+export const QUOTE_STATUSES: QuoteStatus[] = ["draft", "sent", "accepted", "declined", "expired"];
+
+// Statuses in which the customer can still accept or decline the quote
+export const OPEN_QUOTE_STATUSES: QuoteStatus[] = ["draft", "sent"];
+
+export class QuoteError extends AppError {
+    constructor(message: string, statusCode = 400, details?: any) {
+        super(message, statusCode, undefined, details);
+        this.name = "QuoteError";
+    }
+}
+
+// Line item as entered by the admin. The price is the one agreed with the customer.
+export interface QuoteItemInput {
+    name?: string;
+    description?: string;
+    quantity?: number;
+    unitPrice?: number | string;
+    serviceId?: string;
+    planId?: string;
+    categoryId?: string;
+}
+
+type QuoteCustomerInput = Omit<OrderCustomer, "customerId"> & { customerId?: string };
+
+export interface QuoteInput {
+    customer: QuoteCustomerInput;
+    items: QuoteItemInput[];
+    currency?: string;
+    discount?: number | string;
+    validUntil?: string | Date;
+    validDays?: number;
+    terms?: string;
+    notes?: string;
+    contactId?: ObjectId;
+    planId?: string;
+    categoryId?: string;
+}
+
+const hashToken = (token: string): string => crypto.createHash("sha256").update(token).digest("hex");
+
+const signLink = (quoteId: ObjectId, nonce: string): string => {
+    return crypto.createHmac("sha256", LINK_SECRET).update(`quote:${quoteId}:${nonce}`).digest("base64url");
+};
+
+const safeEqual = (a: string, b: string): boolean => {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
+
+const generateQuoteNumber = (): Promise<string> => {
+    return generateSequenceNumber("quote", {
+        seed: (date) => findHighestIssuedSequence("quote", "quotes", "quoteNumber", date)
+    });
+};
+
+const parseQuoteItem = (input: QuoteItemInput, index: number): OrderItem => {
+    const name = typeof input.name === "string" ? input.name.trim() : "";
+    if (!name) {
+        throw new QuoteError(`items[${index}].name is required`);
+    }
+
+    const quantity = input.quantity === undefined || input.quantity === null ? 1 : Number(input.quantity);
+    if (!Number.isInteger(quantity) || quantity < 1) {
+        throw new QuoteError(`items[${index}].quantity must be a positive whole number`);
+    }
+
+    const unitPrice = parseAmount(input.unitPrice);
+    if (unitPrice === undefined || unitPrice < 0) {
+        throw new QuoteError(`items[${index}].unitPrice must be a non-negative amount`);
+    }
+
+    if (input.serviceId && !ObjectId.isValid(input.serviceId)) {
+        throw new QuoteError(`Invalid service ID: ${input.serviceId}`);
+    }
+
+    return {
+        ...(input.serviceId ? { serviceId: new ObjectId(input.serviceId) } : {}),
+        ...(input.planId ? { planId: input.planId, categoryId: input.categoryId } : {}),
+        name,
+        description: input.description,
+        quantity,
+        unitPrice: roundAmount(unitPrice),
+        totalPrice: roundAmount(unitPrice * quantity)
+    };
+};
+
+// Stored items back in the shape accepted by calculateQuotePricing, for partial updates
+const toItemInputs = (items: OrderItem[]): QuoteItemInput[] => {
+    return items.map((item) => ({
+        name: item.name,
+        description: item.description,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        serviceId: item.serviceId?.toString(),
+        planId: item.planId,
+        categoryId: item.categoryId
+    }));
+};
+
+/**
+ * Price quote items as entered by the admin. Tax rules for the customer's location
+ * are applied at quote time so the customer accepts the exact total they were shown.
+ */
+export const calculateQuotePricing = async (
+    db: Db,
+    inputs: QuoteItemInput[],
+    currency: string,
+    options: { discount?: number | string; taxLocation?: TaxLocation } = {}
+): Promise<{ items: OrderItem[]; pricing: OrderPricing }> => {
+    if (!Array.isArray(inputs) || inputs.length === 0) {
+        throw new QuoteError("At least one quote item is required");
+    }
+
+    const items = inputs.map(parseQuoteItem);
+    const subtotal = roundAmount(items.reduce((sum, item) => sum + item.totalPrice, 0));
+
+    const discount = roundAmount(parseAmount(options.discount) || 0);
+    if (discount < 0 || discount > subtotal) {
+        throw new QuoteError("Discount must be between 0 and the quote subtotal");
+    }
+
+    const taxRules = options.taxLocation ? await findApplicableTaxRules(db, options.taxLocation) : [];
+    const tax = calculateTax(taxRules, items, discount);
+
+    const pricing: OrderPricing = {
+        subtotal,
+        tax: tax.total,
+        taxBreakdown: tax.lines,
+        discount,
+        shippingCost: 0,
+        grandTotal: roundAmount(subtotal - discount + tax.exclusiveTotal),
+        currency: normalizeCurrency(currency)
+    };
+
+    if (pricing.grandTotal <= 0) {
+        throw new QuoteError("Quote total must be greater than 0");
+    }
+
+    return { items, pricing };
+};
+
+// Explicit date, or a number of days from now
+export const resolveValidUntil = (validUntil?: string | Date, validDays?: number): Date => {
+    if (validUntil) {
+        const date = new Date(validUntil);
+        if (isNaN(date.getTime())) {
+            throw new QuoteError("validUntil must be a valid date");
+        }
+        if (date.getTime() <= Date.now()) {
+            throw new QuoteError("validUntil must be in the future");
+        }
+        return date;
+    }
+
+    const days = validDays === undefined || validDays === null ? QUOTE_VALIDITY_DAYS : Number(validDays);
+    if (!Number.isFinite(days) || days <= 0) {
+        throw new QuoteError("validDays must be a positive number");
+    }
+    return new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+};
+
+/**
+ * Look up a custom pricing plan. Plans with a fixed price are ordered directly
+ * and cannot be quoted.
+ */
+export const findCustomPlan = async (db: Db, planId: string, categoryId?: string): Promise<QuotePlan> => {
+    const filter: any = { "plans.id": planId };
+    if (categoryId) {
+        filter.$or = [{ id: categoryId }];
+        if (ObjectId.isValid(categoryId)) {
+            filter.$or.push({ _id: new ObjectId(categoryId) });
+        }
+    }
+
+    const categories = await db.collection("pricingCategories").find(filter).toArray();
+    if (categories.length === 0) {
+        throw new QuoteError(`Pricing plan not found: ${planId}`, 404);
+    }
+    if (categories.length > 1) {
+        throw new QuoteError(`Pricing plan "${planId}" exists in several categories. Please provide categoryId.`);
+    }
+
+    const category = categories[0];
+    const plan = (category.plans || []).find((p: any) => p.id === planId);
+    if (plan?.type !== "custom") {
+        throw new QuoteError(`Plan "${plan?.name || planId}" has a fixed price and can be ordered directly`);
+    }
+
+    return {
+        categoryId: category.id || category._id.toString(),
+        planId,
+        name: `${category.name} - ${plan.name}`
+    };
+};
+
+const normalizeCustomer = (customer: QuoteCustomerInput): OrderCustomer => {
+    if (!customer?.name || !customer.email) {
+        throw new QuoteError("Customer name and email are required");
+    }
+
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    if (!emailRegex.test(customer.email)) {
+        throw new QuoteError("Invalid customer email format");
+    }
+
+    return {
+        ...customer,
+        email: customer.email.toLowerCase(),
+        phone: customer.phone || "",
+        customerId: customer.customerId && ObjectId.isValid(customer.customerId) ? new ObjectId(customer.customerId) : undefined
+    };
+};
+
+/**
+ * Create a draft quote. When a custom plan is given, items without their own name
+ * or catalog reference are recorded as that plan.
+ */
+export const createQuote = async (db: Db, input: QuoteInput, createdBy: Quote["createdBy"]): Promise<Quote> => {
+    const customer = normalizeCustomer(input.customer);
+    const plan = input.planId ? await findCustomPlan(db, input.planId, input.categoryId) : undefined;
+
+    const itemInputs = plan && Array.isArray(input.items)
+        ? input.items.map((item) => item.serviceId || item.planId
+            ? item
+            : { ...item, name: item.name || plan.name, planId: plan.planId, categoryId: plan.categoryId })
+        : input.items;
+
+    const { items, pricing } = await calculateQuotePricing(db, itemInputs, input.currency || "USD", {
+        discount: input.discount,
+        taxLocation: resolveTaxLocation(customer)
+    });
+    const validUntil = resolveValidUntil(input.validUntil, input.validDays);
+    const now = new Date();
+
+    const quote: Quote = {
+        quoteNumber: await generateQuoteNumber(),
+        status: "draft",
+        customer,
+        ...(plan ? { plan } : {}),
+        items,
+        pricing,
+        validUntil,
+        terms: input.terms || "",
+        notes: input.notes || "",
+        ...(input.contactId ? { contactId: input.contactId } : {}),
+        linkNonce: crypto.randomBytes(16).toString("hex"),
+        createdBy,
+        createdAt: now,
+        updatedAt: now
+    };
+
+    const result = await db.collection<Quote>("quotes").insertOne(quote);
+    return { ...quote, _id: result.insertedId };
+};
+
+/**
+ * Change an open quote. Pricing is recalculated from the merged items, so a
+ * quote the customer already received shows the new total on their next visit.
+ */
+export const updateQuote = async (db: Db, quote: Quote, changes: Partial<QuoteInput>): Promise<Quote> => {
+    if (!OPEN_QUOTE_STATUSES.includes(quote.status)) {
+        throw new QuoteError(`Only draft or sent quotes can be changed (status: ${quote.status})`, 409);
+    }
+
+    const customer = changes.customer
+        ? normalizeCustomer({ ...quote.customer, customerId: quote.customer.customerId?.toString(), ...changes.customer })
+        : quote.customer;
+
+    const { items, pricing } = await calculateQuotePricing(
+        db,
+        changes.items || toItemInputs(quote.items),
+        changes.currency || quote.pricing.currency,
+        {
+            discount: changes.discount !== undefined ? changes.discount : quote.pricing.discount,
+            taxLocation: resolveTaxLocation(customer)
+        }
+    );
+
+    const update: Partial<Quote> = {
+        customer,
+        items,
+        pricing,
+        updatedAt: new Date()
+    };
+    if (changes.validUntil !== undefined || changes.validDays !== undefined) {
+        update.validUntil = resolveValidUntil(changes.validUntil, changes.validDays);
+    }
+    if (changes.terms !== undefined) update.terms = changes.terms;
+    if (changes.notes !== undefined) update.notes = changes.notes;
+
+    // Conditional on the status so a quote accepted in the meantime is left alone
+    const updated = await db.collection<Quote>("quotes").findOneAndUpdate(
+        { _id: quote._id, status: quote.status },
+        { $set: update },
+        { returnDocument: "after" }
+    );
+
+    if (!updated) {
+        throw new QuoteError("Quote was changed by another request, please reload", 409);
+    }
+
+    return updated;
+};
+
+/**
+ * Customer link for a quote: `<frontend>/quotes/<id>?token=<signature>`
+ */
+export const buildQuoteLink = (quote: Quote): string => {
+    const token = quote.linkNonce ? signLink(quote._id!, quote.linkNonce) : "";
+    return `${process.env.FRONTEND_URL || "http://localhost:3000"}/quotes/${quote._id}?token=${token}`;
+};
+
+const formatMoney = (amount: number | undefined, currency: string): string => {
+    return `${(Number(amount) || 0).toFixed(2)} ${currency}`;
+};
+
+/**
+ * Email the quote link to the customer and mark the quote as sent
+ */
+export const sendQuoteEmail = async (db: Db, quote: Quote): Promise<Quote> => {
+    if (!OPEN_QUOTE_STATUSES.includes(quote.status)) {
+        throw new QuoteError(`Only draft or sent quotes can be sent (status: ${quote.status})`, 409);
+    }
+    if (quote.validUntil.getTime() <= Date.now()) {
+        throw new QuoteError("Quote has expired. Extend validUntil before sending it.", 409);
+    }
+
+    // Quotes created before links were signed get a signing nonce on their next send
+    const linkNonce = quote.linkNonce || crypto.randomBytes(16).toString("hex");
+    const signedQuote = { ...quote, linkNonce };
+
+    const { currency } = quote.pricing;
+    const email = await queueTemplatedEmail("quote-sent", quote.customer.email, {
+        quoteNumber: quote.quoteNumber,
+        customerName: quote.customer.name || "there",
+        planName: quote.plan?.name || "",
+        items: quote.items.map((item) => ({
+            name: item.name,
+            quantity: item.quantity,
+            total: formatMoney(item.totalPrice, currency)
+        })),
+        discount: quote.pricing.discount ? formatMoney(quote.pricing.discount, currency) : "",
+        tax: quote.pricing.tax ? formatMoney(quote.pricing.tax, currency) : "",
+        total: formatMoney(quote.pricing.grandTotal, currency),
+        validUntil: quote.validUntil.toISOString().slice(0, 10),
+        terms: quote.terms || "",
+        notes: quote.notes || "",
+        quoteLink: buildQuoteLink(signedQuote)
+    });
+
+    const now = new Date();
+    const updated = await db.collection<Quote>("quotes").findOneAndUpdate(
+        { _id: quote._id },
+        { $set: { linkNonce, emailId: email._id, sentAt: now, updatedAt: now, ...(quote.status === "draft" ? { status: "sent" as QuoteStatus } : {}) } },
+        { returnDocument: "after" }
+    );
+
+    return updated || signedQuote;
+};
+
+/**
+ * Load a quote for a customer link. Unknown ids and wrong tokens look the same to the caller.
+ */
+export const findQuoteByToken = async (db: Db, id: string, token: unknown): Promise<Quote> => {
+    if (!ObjectId.isValid(id) || typeof token !== "string" || !token) {
+        throw new QuoteError("Quote not found", 404);
+    }
+
+    const quote = await db.collection<Quote>("quotes").findOne({ _id: new ObjectId(id) });
+
+    const valid = quote?.linkNonce
+        ? safeEqual(signLink(quote._id, quote.linkNonce), token)
+        : Boolean(quote?.accessTokenHash) && safeEqual(quote!.accessTokenHash!, hashToken(token));
+
+    if (!quote || !valid) {
+        throw new QuoteError("Quote not found", 404);
+    }
+
+    return quote;
+};
+
+// Quote fields the customer may see
+export const toPublicQuote = (quote: Quote) => {
+    const { accessTokenHash, linkNonce, createdBy, emailId, contactId, ...rest } = quote;
+    return {
+        ...rest,
+        isExpired: quote.status === "expired" || (OPEN_QUOTE_STATUSES.includes(quote.status) && quote.validUntil.getTime() <= Date.now())
+    };
+};
+
+// Quote fields shown to admins; the link lets them share the quote by other means
+export const toAdminQuote = (quote: Quote) => {
+    const { accessTokenHash, linkNonce, ...rest } = quote;
+    return {
+        ...rest,
+        quoteLink: quote.linkNonce ? buildQuoteLink(quote) : undefined
+    };
+};
+
+// Explain why an update restricted to open quotes did not match
+const describeClosedQuote = async (db: Db, quoteId: ObjectId, action: string): Promise<QuoteError> => {
+    const current = await db.collection<Quote>("quotes").findOne({ _id: quoteId });
+    if (current?.status === "accepted") {
+        return new QuoteError("Quote has already been accepted", 409, { orderNumber: current.orderNumber });
+    }
+    if (current?.status === "expired" || (current && OPEN_QUOTE_STATUSES.includes(current.status) && current.validUntil.getTime() <= Date.now())) {
+        return new QuoteError("Quote has expired", 410);
+    }
+    return new QuoteError(`Quote can no longer be ${action} (status: ${current?.status || "unknown"})`, 409);
+};
+
+/**
+ * Accept an open quote and place the order for it. The quote is claimed first so
+ * two concurrent acceptances can never create two orders.
+ */
+export const acceptQuote = async (db: Db, quote: Quote, actor: OrderStatusHistoryEntry["changedBy"]): Promise<Order> => {
+    const quotes = db.collection<Quote>("quotes");
+    const now = new Date();
+
+    const claimed = await quotes.findOneAndUpdate(
+        { _id: quote._id, status: { $in: OPEN_QUOTE_STATUSES }, validUntil: { $gt: now } },
+        { $set: { status: "accepted", acceptedAt: now, updatedAt: now } },
+        { returnDocument: "before" }
+    );
+
+    if (!claimed) {
+        throw await describeClosedQuote(db, quote._id!, "accepted");
+    }
+
+    let order: Order;
+    try {
+        order = await placeOrder(db, {
+            customer: claimed.customer,
+            items: claimed.items,
+            pricing: claimed.pricing,
+            notes: claimed.notes,
+            contactId: claimed.contactId,
+            quoteId: claimed._id,
+            historyNote: `Order placed from quote ${claimed.quoteNumber}`
+        }, actor);
+    } catch (error) {
+        // Reopen the quote so the customer can try again
+        await quotes.updateOne(
+            { _id: claimed._id, status: "accepted", orderId: { $exists: false } },
+            { $set: { status: claimed.status, updatedAt: new Date() }, $unset: { acceptedAt: "" } }
+        );
+        throw error;
+    }
+
+    await quotes.updateOne(
+        { _id: claimed._id },
+        { $set: { orderId: order._id, orderNumber: order.orderNumber, updatedAt: new Date() } }
+    );
+
+    return order;
+};
+
+/**
+ * Record that the customer turned the quote down
+ */
+export const declineQuote = async (db: Db, quote: Quote, reason?: string): Promise<Quote> => {
+    const now = new Date();
+    const declined = await db.collection<Quote>("quotes").findOneAndUpdate(
+        { _id: quote._id, status: { $in: OPEN_QUOTE_STATUSES }, validUntil: { $gt: now } },
+        { $set: { status: "declined", declinedAt: now, declineReason: reason || "", updatedAt: now } },
+        { returnDocument: "after" }
+    );
+
+    if (!declined) {
+        throw await describeClosedQuote(db, quote._id!, "declined");
+    }
+
+    return declined;
+};
+
+/**
+ * Mark open quotes past their validity date as expired. Returns the number of quotes swept.
+ */
+export const expireQuotes = async (db: Db, now: Date = new Date()): Promise<number> => {
+    const result = await db.collection<Quote>("quotes").updateMany(
+        { status: { $in: OPEN_QUOTE_STATUSES }, validUntil: { $lte: now } },
+        { $set: { status: "expired", expiredAt: now, updatedAt: now } }
+    );
+    return result.modifiedCount;
+};
@@ -0,0 +1,42 @@
+import { ObjectId } from "mongodb";
+import { OrderCustomer, OrderItem, OrderPricing } from "../order/order.model";
+
+// draft: created, link not emailed yet; sent: emailed to the customer; accepted: turned into an order;
+// declined: rejected by the customer; expired: validity date passed while still open
+export type QuoteStatus = "draft" | "sent" | "accepted" | "declined" | "expired";
+
+export interface QuotePlan {
+    categoryId: string;
+    planId: string;
+    name: string; // "<category> - <plan>" at the time the quote was made
+}
+
+export interface Quote {
+    _id?: ObjectId;
+    quoteNumber: string; // Auto-generated unique quote number (e.g., QUO-2026-0001)
+    status: QuoteStatus;
+    customer: OrderCustomer;
+    plan?: QuotePlan; // Custom pricing plan the quote prices
+    items: OrderItem[]; // Prices agreed with the customer, not looked up from the catalog
+    pricing: OrderPricing;
+    validUntil: Date;
+    terms?: string; // Terms the customer agrees to by accepting
+    notes?: string; // Shown to the customer
+    contactId?: ObjectId; // Contact inquiry the quote was prepared for
+    linkNonce?: string; // Part of the signed customer link; replacing it revokes old links
+    accessTokenHash?: string; // SHA-256 of the random token used by links issued before links were signed
+    createdBy: {
+        uid?: string;
+        name?: string;
+    };
+    emailId?: ObjectId; // Outbox message that delivered the link
+    sentAt?: Date;
+    acceptedAt?: Date;
+    declinedAt?: Date;
+    declineReason?: string;
+    expiredAt?: Date;
+    orderId?: ObjectId;
+    orderNumber?: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
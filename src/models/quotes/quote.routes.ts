@@ -0,0 +1,32 @@
+import express from "express";
+import {
+    createQuoteForPlan,
+    getAllQuotes,
+    getQuoteById,
+    updateQuoteById,
+    sendQuote,
+    expireQuotesNow,
+    getQuoteByToken,
+    acceptQuoteByToken,
+    declineQuoteByToken
+} from "./quote.controller";
+import { verifyToken, requirePermission } from "../../middlewares/auth.middleware";
+import { validate } from "../../middlewares/validate.middleware";
+import { acceptQuoteSchema, createQuoteSchema, declineQuoteSchema, quoteParams, updateQuoteSchema } from "./quote.schema";
+
+const router = express.Router();
+
+// Public routes - protected by the signed token in the customer link
+router.get("/:id/view", getQuoteByToken);
+router.post("/:id/accept", validate({ body: acceptQuoteSchema }), acceptQuoteByToken);
+router.post("/:id/decline", validate({ body: declineQuoteSchema }), declineQuoteByToken);
+
+// Staff routes
+router.get("/", verifyToken, requirePermission("quotes:read"), getAllQuotes);
+router.post("/", verifyToken, requirePermission("quotes:write"), validate({ body: createQuoteSchema }), createQuoteForPlan);
+router.post("/expire", verifyToken, requirePermission("quotes:write"), expireQuotesNow);
+router.get("/:id", verifyToken, requirePermission("quotes:read"), getQuoteById);
+router.patch("/:id", verifyToken, requirePermission("quotes:write"), validate({ params: quoteParams, body: updateQuoteSchema }), updateQuoteById);
+router.post("/:id/send", verifyToken, requirePermission("quotes:write"), sendQuote);
+
+export default router;
@@ -0,0 +1,61 @@
+import { s } from "../../utils/schema";
+import { amount } from "../order/order.schema";
+
+export const quoteCustomerSchema = s.object({
+  name: s.string({ min: 1, max: 200 }),
+  email: s.email(),
+  phone: s.string({ max: 30 }).optional(),
+  address: s.string({ max: 500 }).optional(),
+  country: s.string({ max: 100 }).optional(),
+  region: s.string({ max: 100 }).optional(),
+  customerId: s.objectId().optional(),
+});
+
+// Prices are the ones agreed with the customer; items without a name take the plan's
+const quoteItemSchema = s.object({
+  name: s.string({ max: 200 }).optional(),
+  description: s.string({ max: 2000 }).optional(),
+  quantity: s.number({ integer: true, min: 1 }).optional(),
+  unitPrice: amount(),
+  serviceId: s.objectId().optional(),
+  planId: s.string({ min: 1, max: 100 }).optional(),
+  categoryId: s.string({ min: 1, max: 100 }).optional(),
+});
+
+// Terms that can change after the quote was created
+export const quoteTerms = {
+  items: s.array(quoteItemSchema, { min: 1, max: 100 }).optional(),
+  currency: s.string({ pattern: /^[a-z]{3}$/i, patternMessage: "must be a 3-letter currency code" }).optional(),
+  discount: amount(),
+  // validUntil wins over validDays; the engine checks that the date is in the future
+  validUntil: s.string({ max: 50 }).refine((value) => !isNaN(Date.parse(value)), "must be a valid date").optional(),
+  validDays: s.number({ min: 1 }).optional(),
+  terms: s.string({ max: 10000 }).optional(),
+  notes: s.string({ max: 5000 }).optional(),
+};
+
+export const createQuoteSchema = s.object({
+  planId: s.string({ min: 1, max: 100 }),
+  categoryId: s.string({ min: 1, max: 100 }).optional(),
+  customer: quoteCustomerSchema,
+  ...quoteTerms,
+  contactId: s.objectId().optional(),
+  send: s.boolean().optional(),
+});
+
+export const updateQuoteSchema = s.object({
+  customer: quoteCustomerSchema.patch(),
+  ...quoteTerms,
+}).patch();
+
+// The customer link passes the token in the query string; JSON clients may send it here instead
+export const acceptQuoteSchema = s.object<{ token?: string }>({
+  token: s.string({ max: 512 }).optional(),
+}).default(() => ({}));
+
+export const declineQuoteSchema = s.object<{ token?: string; reason?: string }>({
+  token: s.string({ max: 512 }).optional(),
+  reason: s.string({ max: 1000 }).optional(),
+}).default(() => ({}));
+
+export const quoteParams = s.object({ id: s.objectId() });
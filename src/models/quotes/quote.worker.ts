@@ -0,0 +1,47 @@
+import { Db } from "mongodb";
+import { getDB } from "../../config/db";
+import { expireQuotes } from "./quote.engine";
+
+const INTERVAL_MS = Number(process.env.QUOTE_SWEEP_INTERVAL_MS) || 60 * 60 * 1000;
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+const tick = async () => {
+    // Skip overlapping runs and runs before the database is connected
+    if (running) return;
+
+    let db: Db;
+    try {
+        db = getDB();
+    } catch {
+        return;
+    }
+
+    running = true;
+    try {
+        const expired = await expireQuotes(db);
+        if (expired) {
+            console.log(`Quotes: ${expired} expired`);
+        }
+    } catch (error) {
+        console.error("Quote expiry worker error:", error);
+    } finally {
+        running = false;
+    }
+};
+
+/**
+ * Periodically expire open quotes past their validity date. On Vercel the cron in
+ * vercel.json calls GET /api/cron/expire-quotes instead.
+ */
+export const startQuoteExpiryWorker = () => {
+    if (timer) return;
+    timer = setInterval(tick, INTERVAL_MS);
+    timer.unref();
+};
+
+export const stopQuoteExpiryWorker = () => {
+    if (timer) clearInterval(timer);
+    timer = null;
+};
@@ -0,0 +1,144 @@
+import { Request, Response } from "express";
+import { getDB } from "../../config/db";
+import { Role } from "./role.model";
+import { RoleError, createRole, deleteRole, updateRole } from "./role.engine";
+import { PERMISSIONS, hasPermission } from "./role.permissions";
+
+// Staff can only hand out permissions they hold themselves
+const findUngrantablePermissions = (req: Request, permissions: unknown): string[] => {
+    if (!Array.isArray(permissions)) return [];
+    return permissions.filter((permission) => typeof permission === "string" && !hasPermission(req.user?.permissions, permission));
+};
+
+// List roles with the number of users holding each
+export const getRoles = async (req: Request, res: Response) => {
+    try {
+        const db = getDB();
+        const roles = await db.collection<Role>("roles").find().sort({ isSystem: -1, name: 1 }).toArray();
+
+        const counts = await db.collection("users")
+            .aggregate<{ _id: string | null; count: number }>([{ $group: { _id: "$role", count: { $sum: 1 } } }])
+            .toArray();
+
+        return res.status(200).json({
+            success: true,
+            data: roles.map((role) => ({
+                ...role,
+                // Users without a role count as "user"
+                userCount: counts
+                    .filter((c) => (c._id || "user") === role.key)
+                    .reduce((sum, c) => sum + c.count, 0)
+            }))
+        });
+    } catch (error) {
+        console.error("Get roles error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to get roles"
+        });
+    }
+};
+
+// List every permission that can be granted
+export const getPermissions = async (_req: Request, res: Response) => {
+    return res.status(200).json({
+        success: true,
+        data: Object.entries(PERMISSIONS).map(([key, description]) => ({ key, description }))
+    });
+};
+
+// Create a custom role
+export const createCustomRole = async (req: Request, res: Response) => {
+    try {
+        const { key, name, description, permissions } = req.body;
+
+        const ungrantable = findUngrantablePermissions(req, permissions);
+        if (ungrantable.length > 0) {
+            return res.status(403).json({
+                success: false,
+                message: "You cannot grant permissions you do not have",
+                missing: ungrantable
+            });
+        }
+
+        const role = await createRole(getDB(), { key, name, description, permissions });
+
+        return res.status(201).json({
+            success: true,
+            message: "Role created successfully",
+            data: role
+        });
+    } catch (error) {
+        if (error instanceof RoleError) {
+            return res.status(error.statusCode).json({
+                success: false,
+                message: error.message
+            });
+        }
+        console.error("Create role error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to create role",
+        });
+    }
+};
+
+// Rename a role or change its permissions
+export const updateRoleByKey = async (req: Request, res: Response) => {
+    try {
+        const { name, description, permissions } = req.body;
+
+        const ungrantable = findUngrantablePermissions(req, permissions);
+        if (ungrantable.length > 0) {
+            return res.status(403).json({
+                success: false,
+                message: "You cannot grant permissions you do not have",
+                missing: ungrantable
+            });
+        }
+
+        const role = await updateRole(getDB(), req.params.key as string, { name, description, permissions });
+
+        return res.status(200).json({
+            success: true,
+            message: "Role updated successfully",
+            data: role
+        });
+    } catch (error) {
+        if (error instanceof RoleError) {
+            return res.status(error.statusCode).json({
+                success: false,
+                message: error.message
+            });
+        }
+        console.error("Update role error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to update role",
+        });
+    }
+};
+
+// Delete a custom role that no user holds
+export const deleteRoleByKey = async (req: Request, res: Response) => {
+    try {
+        await deleteRole(getDB(), req.params.key as string);
+
+        return res.status(200).json({
+            success: true,
+            message: "Role deleted successfully"
+        });
+    } catch (error) {
+        if (error instanceof RoleError) {
+            return res.status(error.statusCode).json({
+                success: false,
+                message: error.message
+            });
+        }
+        console.error("Delete role error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to delete role"
+        });
+    }
+};
@@ -0,0 +1,156 @@
+import { Db } from "mongodb";
+import { Role } from "./role.model";
+import { DEFAULT_ROLES, DEFAULT_USER_ROLE, LOCKED_ROLES, isValidPermission } from "./role.permissions";
+import { AppError } from "../../utils/errors";
+
+// Permissions are read on every protected request; keep them briefly in memory
+const CACHE_TTL_MS = 30 * 1000;
+const cache = new Map<string, { permissions: string[]; loadedAt: number }>();
+
+export class RoleError extends AppError {
+    constructor(message: string, statusCode = 400) {
+        super(message, statusCode);
+        this.name = "RoleError";
+    }
+}
+
+export const clearRoleCache = () => cache.clear();
+
+/**
+ * Create the built-in roles that are missing. Existing roles keep their edited permissions.
+ */
+export const seedDefaultRoles = async (db: Db): Promise<void> => {
+    const now = new Date();
+    for (const role of DEFAULT_ROLES) {
+        await db.collection<Role>("roles").updateOne(
+            { key: role.key },
+            { $setOnInsert: { ...role, isSystem: true, createdAt: now, updatedAt: now } },
+            { upsert: true }
+        );
+    }
+};
+
+/**
+ * Permissions granted by a role. Unknown roles grant nothing.
+ */
+export const getRolePermissions = async (db: Db, roleKey?: string | null): Promise<string[]> => {
+    const key = roleKey || DEFAULT_USER_ROLE;
+    const cached = cache.get(key);
+    if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+        return cached.permissions;
+    }
+
+    const role = await db.collection<Role>("roles").findOne({ key }, { projection: { permissions: 1 } });
+    // Fall back to the built-in definition until the roles collection is seeded
+    const permissions = role?.permissions || DEFAULT_ROLES.find((r) => r.key === key)?.permissions || [];
+
+    cache.set(key, { permissions, loadedAt: Date.now() });
+    return permissions;
+};
+
+export const roleExists = async (db: Db, roleKey: string): Promise<boolean> => {
+    const count = await db.collection<Role>("roles").countDocuments({ key: roleKey }, { limit: 1 });
+    return count > 0;
+};
+
+const validatePermissions = (permissions: unknown): string[] => {
+    if (!Array.isArray(permissions)) {
+        throw new RoleError("permissions must be an array of permission strings");
+    }
+
+    const invalid = permissions.filter((p) => typeof p !== "string" || !isValidPermission(p));
+    if (invalid.length > 0) {
+        throw new RoleError(`Unknown permissions: ${invalid.join(", ")}`);
+    }
+
+    return Array.from(new Set(permissions as string[]));
+};
+
+export const createRole = async (
+    db: Db,
+    input: { key?: string; name?: string; description?: string; permissions?: unknown }
+): Promise<Role> => {
+    const key = String(input.key || "").trim().toLowerCase();
+    if (!/^[a-z][a-z0-9_-]{1,39}$/.test(key)) {
+        throw new RoleError("key must be 2-40 characters: lowercase letters, digits, - or _, starting with a letter");
+    }
+    if (!input.name || !String(input.name).trim()) {
+        throw new RoleError("name is required");
+    }
+
+    const now = new Date();
+    const role: Role = {
+        key,
+        name: String(input.name).trim(),
+        description: input.description ? String(input.description) : "",
+        permissions: validatePermissions(input.permissions || []),
+        isSystem: false,
+        createdAt: now,
+        updatedAt: now
+    };
+
+    try {
+        const result = await db.collection<Role>("roles").insertOne(role);
+        clearRoleCache();
+        return { ...role, _id: result.insertedId };
+    } catch (error: any) {
+        if (error?.code === 11000) {
+            throw new RoleError(`Role "${key}" already exists`, 409);
+        }
+        throw error;
+    }
+};
+
+export const updateRole = async (
+    db: Db,
+    key: string,
+    changes: { name?: string; description?: string; permissions?: unknown }
+): Promise<Role> => {
+    const update: Partial<Role> = { updatedAt: new Date() };
+
+    if (changes.name !== undefined) {
+        if (!String(changes.name).trim()) {
+            throw new RoleError("name cannot be empty");
+        }
+        update.name = String(changes.name).trim();
+    }
+    if (changes.description !== undefined) {
+        update.description = String(changes.description);
+    }
+    if (changes.permissions !== undefined) {
+        if (LOCKED_ROLES.includes(key)) {
+            throw new RoleError(`Permissions of the "${key}" role cannot be changed`, 403);
+        }
+        update.permissions = validatePermissions(changes.permissions);
+    }
+
+    const role = await db.collection<Role>("roles").findOneAndUpdate(
+        { key },
+        { $set: update },
+        { returnDocument: "after" }
+    );
+    if (!role) {
+        throw new RoleError("Role not found", 404);
+    }
+
+    clearRoleCache();
+    return role;
+};
+
+export const deleteRole = async (db: Db, key: string): Promise<void> => {
+    const role = await db.collection<Role>("roles").findOne({ key });
+    if (!role) {
+        throw new RoleError("Role not found", 404);
+    }
+    if (role.isSystem) {
+        throw new RoleError("Built-in roles cannot be deleted", 403);
+    }
+
+    const assigned = await db.collection("users").countDocuments({ role: key });
+    if (assigned > 0) {
+        throw new RoleError(`Role is assigned to ${assigned} user(s). Reassign them first.`, 409);
+    }
+
+    await db.collection<Role>("roles").deleteOne({ _id: role._id });
+    clearRoleCache();
+};
@@ -0,0 +1,12 @@
+import { ObjectId } from "mongodb";
+
+export interface Role {
+    _id?: ObjectId;
+    key: string; // Stored in users.role, e.g. "admin", "support-agent"
+    name: string;
+    description?: string;
+    permissions: string[]; // Catalog permissions or wildcards, see role.permissions.ts
+    isSystem: boolean; // Built-in roles cannot be deleted
+    createdAt: Date;
+    updatedAt: Date;
+}
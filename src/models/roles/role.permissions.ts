@@ -0,0 +1,79 @@
+/**
+ * Permission catalog. Permissions are "<resource>:<action>" strings; a role may also
+ * grant "<resource>:*" for every action on a resource or "*" for everything.
+ */
+export const PERMISSIONS = {
+    "dashboard:read": "View dashboard statistics",
+    "orders:read": "View all orders and order statistics",
+    "orders:write": "Change order details, status and payment status",
+    "orders:refund": "Issue refunds",
+    "quotes:read": "View quotes",
+    "quotes:write": "Create, change and send quotes",
+    "contacts:read": "View contact inquiries",
+    "contacts:write": "Reply to, convert, file and delete contact inquiries",
+    "content:publish": "Change public site content: banners, FAQs, testimonials, projects and team",
+    "catalog:manage": "Manage services, pricing plans and products",
+    "billing:manage": "Manage coupons, tax rules and exchange rates",
+    "email:manage": "Manage email templates and the email outbox",
+    "users:read": "View user accounts",
+    "users:manage": "Change, suspend and delete user accounts and assign roles",
+    "roles:manage": "Create and change roles"
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const PERMISSION_KEYS = Object.keys(PERMISSIONS) as Permission[];
+
+export interface DefaultRole {
+    key: string;
+    name: string;
+    description: string;
+    permissions: string[];
+}
+
+// Built-in roles, created on startup when missing. Admins may change moderator and user.
+export const DEFAULT_ROLES: DefaultRole[] = [
+    {
+        key: "admin",
+        name: "Administrator",
+        description: "Full access to everything",
+        permissions: ["*"]
+    },
+    {
+        key: "moderator",
+        name: "Moderator",
+        description: "Keeps site content and contact inquiries up to date",
+        permissions: ["dashboard:read", "content:publish", "contacts:read", "contacts:write", "orders:read", "quotes:read"]
+    },
+    {
+        key: "user",
+        name: "User",
+        description: "Customer account; can only access their own data",
+        permissions: []
+    }
+];
+
+// Roles whose permissions cannot be edited, so nobody can lock every admin out
+export const LOCKED_ROLES = ["admin"];
+
+// The role users get when their account has none
+export const DEFAULT_USER_ROLE = "user";
+
+/**
+ * Whether a set of granted permissions (which may contain wildcards) covers the required one
+ */
+export const hasPermission = (granted: string[] | undefined, required: string): boolean => {
+    if (!granted || granted.length === 0) return false;
+    if (granted.includes("*") || granted.includes(required)) return true;
+
+    const [resource] = required.split(":");
+    return granted.includes(`${resource}:*`);
+};
+
+// A permission string is valid when it names a catalog entry or a wildcard over a known resource
+export const isValidPermission = (permission: string): boolean => {
+    if (permission === "*" || (PERMISSION_KEYS as string[]).includes(permission)) return true;
+
+    const match = /^([a-z]+):\*$/.exec(permission);
+    return Boolean(match && PERMISSION_KEYS.some((key) => key.startsWith(`${match[1]}:`)));
+};
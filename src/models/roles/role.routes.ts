@@ -0,0 +1,14 @@
+import express from "express";
+import { getRoles, getPermissions, createCustomRole, updateRoleByKey, deleteRoleByKey } from "./role.controller";
+import { verifyToken, requirePermission } from "../../middlewares/auth.middleware";
+
+const router = express.Router();
+
+// Staff routes
+router.get("/", verifyToken, requirePermission("users:read"), getRoles);
+router.get("/permissions", verifyToken, requirePermission("users:read"), getPermissions);
+router.post("/", verifyToken, requirePermission("roles:manage"), createCustomRole);
+router.patch("/:key", verifyToken, requirePermission("roles:manage"), updateRoleByKey);
+router.delete("/:key", verifyToken, requirePermission("roles:manage"), deleteRoleByKey);
+
+export default router;
@@ -8,49 +8,9 @@ export const createService = async (req: Request, res: Response) => {
   try {
     const db = getDB();
 
-    const {
-      title,
-      shortDescription,
-      category,
-      tags,
-      images,
-      links,
-      pricing,
-      deliveryTimeDays,
-      features,
-      technologies,
-      requirements,
-      status
-    } = req.body;
-
-    // Validate required fields
-    if (!title || !shortDescription || !category || !pricing?.basePrice || !deliveryTimeDays) {
-      return res.status(400).json({ message: "Required fields missing" });
-    }
-
+    // Body is validated against serviceSchema, which fills in the optional parts
     const service: Service = {
-      title,
-      shortDescription,
-      category,
-      tags: tags || [],
-      images: images || { thumbnail: "", gallery: [] },
-      links: links || {},
-      pricing: {
-        basePrice: pricing.basePrice,
-        currency: pricing.currency || "USD"
-      },
-      deliveryTimeDays,
-      features: features || [],
-      technologies: technologies || [],
-      requirements: requirements || {
-        businessName: false,
-        businessType: false,
-        pagesCount: false,
-        contentProvided: false,
-        referenceWebsites: false,
-        domainHosting: false
-      },
-      status: status || "active",
+      ...req.body,
       createdAt: new Date()
     };
 
@@ -127,10 +87,6 @@ export const getServiceById = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
 
-    if (!id || !ObjectId.isValid(id as string)) {
-      return res.status(400).json({ message: "Invalid service ID" });
-    }
-
     const db = getDB();
 
     const service = await db.collection("services").findOne({ _id: new ObjectId(id as string) });
@@ -155,10 +111,6 @@ export const getServicesByCategory = async (req: Request, res: Response) => {
     const { category } = req.params;
     const { status, limit, skip } = req.query;
 
-    if (!category) {
-      return res.status(400).json({ message: "Category is required" });
-    }
-
     const db = getDB();
 
     // Build filter
@@ -200,20 +152,6 @@ export const updateService = async (req: Request, res: Response) => {
     const { id } = req.params;
     const updateData = req.body;
 
-    if (!id || !ObjectId.isValid(id as string)) {
-      return res.status(400).json({
-        success: false,
-        message: "Invalid service ID"
-      });
-    }
-
-    if (!updateData || typeof updateData !== 'object' || Object.keys(updateData).length === 0) {
-      return res.status(400).json({
-        success: false,
-        message: "Request body is required and must contain update data"
-      });
-    }
-
     const db = getDB();
 
     // First check if service exists
@@ -226,10 +164,6 @@ export const updateService = async (req: Request, res: Response) => {
       });
     }
 
-    // Remove fields that shouldn't be updated
-    delete updateData._id;
-    delete updateData.createdAt;
-
     // Add updated timestamp
     updateData.updatedAt = new Date();
 
@@ -251,7 +185,6 @@ export const updateService = async (req: Request, res: Response) => {
     return res.status(500).json({
       success: false,
       message: "Failed to update service",
-      error: error instanceof Error ? error.message : "Unknown error"
     });
   }
 };
@@ -261,10 +194,6 @@ export const deleteService = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
 
-    if (!id || !ObjectId.isValid(id as string)) {
-      return res.status(400).json({ message: "Invalid service ID" });
-    }
-
     const db = getDB();
 
     const result = await db.collection("services").deleteOne({ _id: new ObjectId(id as string) });
@@ -290,11 +219,6 @@ export const createCategory = async (req: Request, res: Response) => {
     const db = getDB();
     const { name, title, description, icon, status } = req.body;
 
-    // Validate required fields
-    if (!name || !title || !description) {
-      return res.status(400).json({ message: "Name, title, and description are required" });
-    }
-
     // Auto-generate ID from name
     const categoryId = name
       .toLowerCase()
@@ -315,8 +239,8 @@ export const createCategory = async (req: Request, res: Response) => {
       name,
       title,
       description,
-      icon: icon || "",
-      status: status || "active",
+      icon,
+      status,
       createdAt: new Date(),
       updatedAt: new Date()
     };
@@ -333,7 +257,6 @@ export const createCategory = async (req: Request, res: Response) => {
     return res.status(500).json({
       success: false,
       message: "Failed to create category",
-      error: error instanceof Error ? error.message : "Unknown error"
     });
   }
 };
@@ -369,20 +292,6 @@ export const updateCategory = async (req: Request, res: Response) => {
     const { id } = req.params;
     const updateData = req.body;
 
-    if (!id) {
-      return res.status(400).json({
-        success: false,
-        message: "Category ID is required"
-      });
-    }
-
-    if (!updateData || typeof updateData !== 'object' || Object.keys(updateData).length === 0) {
-      return res.status(400).json({
-        success: false,
-        message: "Request body is required and must contain update data"
-      });
-    }
-
     const db = getDB();
 
     // First check if category exists
@@ -395,11 +304,6 @@ export const updateCategory = async (req: Request, res: Response) => {
       });
     }
 
-    // Remove fields that shouldn't be updated
-    delete updateData._id;
-    delete updateData.id;
-    delete updateData.createdAt;
-
     // Add updated timestamp
     updateData.updatedAt = new Date();
 
@@ -421,7 +325,6 @@ export const updateCategory = async (req: Request, res: Response) => {
     return res.status(500).json({
       success: false,
       message: "Failed to update category",
-      error: error instanceof Error ? error.message : "Unknown error"
     });
   }
 };
@@ -431,13 +334,6 @@ export const deleteCategory = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
 
-    if (!id) {
-      return res.status(400).json({
-        success: false,
-        message: "Category ID is required"
-      });
-    }
-
     const db = getDB();
 
     const result = await db.collection("service_categories").deleteOne({ id: id });
@@ -459,7 +355,6 @@ export const deleteCategory = async (req: Request, res: Response) => {
     return res.status(500).json({
       success: false,
       message: "Failed to delete category",
-      error: error instanceof Error ? error.message : "Unknown error"
     });
   }
 };
\ No newline at end of file
@@ -11,27 +11,38 @@ import {
   updateCategory,
   deleteCategory
 } from "./service.controller";
-import { verifyToken, requireAdmin } from "../../middlewares/auth.middleware";
+import { verifyToken, requirePermission } from "../../middlewares/auth.middleware";
+import { validate } from "../../middlewares/validate.middleware";
+import {
+  serviceCategoryNameParams,
+  serviceCategoryParams,
+  serviceCategorySchema,
+  serviceListQuery,
+  serviceParams,
+  serviceSchema,
+  updateServiceCategorySchema,
+  updateServiceSchema
+} from "./service.schema";
 
 const router = express.Router();
 
 // Public routes
-router.get("/", getAllServices);
+router.get("/", validate({ query: serviceListQuery }), getAllServices);
 router.get("/categories", getCategories);
-router.get("/category/:category", getServicesByCategory);
-router.get("/:id", getServiceById);
-router.patch("/test/:id", updateService); // Temporary public update route for testing
+router.get("/category/:category", validate({ params: serviceCategoryNameParams, query: serviceListQuery }), getServicesByCategory);
+router.get("/:id", validate({ params: serviceParams }), getServiceById);
+router.patch("/test/:id", validate({ params: serviceParams, body: updateServiceSchema }), updateService); // Temporary public update route for testing
 
-// Admin-only routes
-router.post("/categories", verifyToken, requireAdmin, createCategory);
-router.put("/categories/:id", verifyToken, requireAdmin, updateCategory);
-router.patch("/categories/:id", verifyToken, requireAdmin, updateCategory);
-router.delete("/categories/:id", verifyToken, requireAdmin, deleteCategory);
+// Staff routes
+router.post("/categories", verifyToken, requirePermission("catalog:manage"), validate({ body: serviceCategorySchema }), createCategory);
+router.put("/categories/:id", verifyToken, requirePermission("catalog:manage"), validate({ params: serviceCategoryParams, body: updateServiceCategorySchema }), updateCategory);
+router.patch("/categories/:id", verifyToken, requirePermission("catalog:manage"), validate({ params: serviceCategoryParams, body: updateServiceCategorySchema }), updateCategory);
+router.delete("/categories/:id", verifyToken, requirePermission("catalog:manage"), validate({ params: serviceCategoryParams }), deleteCategory);
 
 // this is service routes
-router.post("/", verifyToken, requireAdmin, createService);
-router.put("/:id", verifyToken, requireAdmin, updateService);
-router.patch("/:id", verifyToken, requireAdmin, updateService);
-router.delete("/:id", verifyToken, requireAdmin, deleteService);
+router.post("/", verifyToken, requirePermission("catalog:manage"), validate({ body: serviceSchema }), createService);
+router.put("/:id", verifyToken, requirePermission("catalog:manage"), validate({ params: serviceParams, body: updateServiceSchema }), updateService);
+router.patch("/:id", verifyToken, requirePermission("catalog:manage"), validate({ params: serviceParams, body: updateServiceSchema }), updateService);
+router.delete("/:id", verifyToken, requirePermission("catalog:manage"), validate({ params: serviceParams }), deleteService);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,74 @@
+import { s } from "../../utils/schema";
+import { Service, ServiceCategory } from "./service.model";
+
+export type ServiceInput = Omit<Service, "_id" | "createdAt" | "updatedAt">;
+export type ServiceCategoryInput = Omit<ServiceCategory, "_id" | "id" | "createdAt" | "updatedAt">;
+
+const SERVICE_STATUSES = ["active", "inactive", "draft"] as const;
+
+const requirementFlag = s.boolean().default(false);
+
+export const serviceSchema = s.object<ServiceInput>({
+  title: s.string({ min: 1, max: 200 }),
+  shortDescription: s.string({ min: 1, max: 1000 }),
+  category: s.string({ min: 1, max: 100 }),
+  tags: s.array(s.string({ min: 1, max: 50 }), { max: 30 }).default([]),
+  images: s.object<Service["images"]>({
+    thumbnail: s.string({ max: 2048 }).default(""),
+    gallery: s.array(s.string({ min: 1, max: 2048 }), { max: 30 }).default([]),
+  }).default(() => ({ thumbnail: "", gallery: [] })),
+  links: s.object<Service["links"]>({
+    liveDemo: s.url().optional(),
+    youtubeDemo: s.url().optional(),
+    githubRepo: s.url().optional(),
+  }).default(() => ({})),
+  pricing: s.object<Service["pricing"]>({
+    basePrice: s.number({ min: 0 }),
+    currency: s.string({ pattern: /^[A-Z]{3}$/, patternMessage: "must be a 3-letter currency code" }).default("USD"),
+  }),
+  deliveryTimeDays: s.number({ integer: true, min: 1 }),
+  features: s.array(s.string({ min: 1, max: 500 }), { max: 100 }).default([]),
+  technologies: s.array(s.string({ min: 1, max: 100 }), { max: 100 }).default([]),
+  requirements: s.object<Service["requirements"]>({
+    businessName: requirementFlag,
+    businessType: requirementFlag,
+    pagesCount: requirementFlag,
+    contentProvided: requirementFlag,
+    referenceWebsites: requirementFlag,
+    domainHosting: requirementFlag,
+  }).default(() => ({
+    businessName: false,
+    businessType: false,
+    pagesCount: false,
+    contentProvided: false,
+    referenceWebsites: false,
+    domainHosting: false,
+  })),
+  status: s.enum(SERVICE_STATUSES).default("active"),
+});
+
+export const updateServiceSchema = serviceSchema.patch();
+
+export const serviceCategorySchema = s.object<ServiceCategoryInput>({
+  name: s.string({ min: 1, max: 100 }),
+  title: s.string({ min: 1, max: 200 }),
+  description: s.string({ min: 1, max: 2000 }),
+  icon: s.string({ max: 2048 }).default(""),
+  status: s.enum(["active", "inactive"]).default("active"),
+});
+
+export const updateServiceCategorySchema = serviceCategorySchema.patch();
+
+export const serviceParams = s.object({ id: s.objectId() });
+export const serviceCategoryParams = s.object({ id: s.string({ min: 1, max: 100 }) });
+export const serviceCategoryNameParams = s.object({ category: s.string({ min: 1, max: 100 }) });
+
+export const serviceListQuery = s.object({
+  category: s.string({ max: 100 }).optional(),
+  status: s.enum(SERVICE_STATUSES).optional(),
+  tags: s.string({ max: 500 }).optional(), // Comma separated
+  minPrice: s.number({ coerce: true, min: 0 }).optional(),
+  maxPrice: s.number({ coerce: true, min: 0 }).optional(),
+  limit: s.number({ coerce: true, integer: true, min: 1, max: 100 }).optional(),
+  skip: s.number({ coerce: true, integer: true, min: 0 }).optional(),
+}).strip();
@@ -0,0 +1,261 @@
+import { Request, Response } from "express";
+import { ObjectId } from "mongodb";
+import { getDB } from "../../config/db";
+import { TaxRule } from "./tax.model";
+
+// Validate and normalize tax rule fields from the request body
+const parseTaxRuleInput = (body: any, isUpdate: boolean): { error?: string; data?: Partial<TaxRule> } => {
+    const { name, country, region, rate, inclusive, exemptServiceCategories, isActive } = body;
+    const data: Partial<TaxRule> = {};
+
+    if (!isUpdate && (!name || !country || rate === undefined)) {
+        return { error: "Required fields missing: name, country and rate" };
+    }
+
+    if (name !== undefined) data.name = String(name).trim();
+    if (country !== undefined) data.country = String(country).trim();
+    if (region !== undefined) data.region = region ? String(region).trim() : "";
+
+    if (rate !== undefined) {
+        const parsedRate = Number(rate);
+        if (!Number.isFinite(parsedRate) || parsedRate < 0 || parsedRate > 100) {
+            return { error: "Rate must be a percentage between 0 and 100" };
+        }
+        data.rate = parsedRate;
+    }
+
+    if (inclusive !== undefined) data.inclusive = Boolean(inclusive);
+
+    if (exemptServiceCategories !== undefined) {
+        if (!Array.isArray(exemptServiceCategories)) {
+            return { error: "exemptServiceCategories must be an array" };
+        }
+        data.exemptServiceCategories = exemptServiceCategories.map(String);
+    }
+
+    if (isActive !== undefined) data.isActive = Boolean(isActive);
+
+    return { data };
+};
+
+// Create a tax rule (admin only)
+export const createTaxRule = async (req: Request, res: Response) => {
+    try {
+        const { error, data } = parseTaxRuleInput(req.body, false);
+        if (error) {
+            return res.status(400).json({ success: false, message: error });
+        }
+
+        const taxRule: TaxRule = {
+            name: data!.name!,
+            country: data!.country!,
+            region: data!.region || "",
+            rate: data!.rate!,
+            inclusive: data!.inclusive ?? false,
+            exemptServiceCategories: data!.exemptServiceCategories || [],
+            isActive: data!.isActive ?? true,
+            createdAt: new Date()
+        };
+
+        const db = getDB();
+        const result = await db.collection("taxRules").insertOne(taxRule);
+
+        return res.status(201).json({
+            success: true,
+            message: "Tax rule created successfully",
+            data: { ...taxRule, _id: result.insertedId }
+        });
+    } catch (error) {
+        console.error("Create tax rule error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to create tax rule",
+        });
+    }
+};
+
+// Get all tax rules (admin only)
+export const getAllTaxRules = async (req: Request, res: Response) => {
+    try {
+        const db = getDB();
+        const { country, isActive } = req.query;
+
+        const filter: any = {};
+        if (country) {
+            filter.country = { $regex: `^${country}$`, $options: "i" };
+        }
+        if (isActive !== undefined) {
+            filter.isActive = isActive === "true";
+        }
+
+        const taxRules = await db.collection("taxRules")
+            .find(filter)
+            .sort({ country: 1, region: 1, name: 1 })
+            .toArray();
+
+        return res.status(200).json({
+            success: true,
+            count: taxRules.length,
+            data: taxRules
+        });
+    } catch (error) {
+        console.error("Get all tax rules error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to get tax rules"
+        });
+    }
+};
+
+// Get a tax rule by ID (admin only)
+export const getTaxRuleById = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+
+        if (!ObjectId.isValid(id as string)) {
+            return res.status(400).json({ success: false, message: "Invalid tax rule ID" });
+        }
+
+        const db = getDB();
+        const taxRule = await db.collection("taxRules").findOne({ _id: new ObjectId(id as string) });
+
+        if (!taxRule) {
+            return res.status(404).json({ success: false, message: "Tax rule not found" });
+        }
+
+        return res.status(200).json({ success: true, data: taxRule });
+    } catch (error) {
+        console.error("Get tax rule by ID error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to get tax rule"
+        });
+    }
+};
+
+// Update a tax rule (admin only)
+export const updateTaxRule = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+
+        if (!ObjectId.isValid(id as string)) {
+            return res.status(400).json({ success: false, message: "Invalid tax rule ID" });
+        }
+
+        const { error, data } = parseTaxRuleInput(req.body, true);
+        if (error) {
+            return res.status(400).json({ success: false, message: error });
+        }
+
+        const db = getDB();
+        const result = await db.collection("taxRules").findOneAndUpdate(
+            { _id: new ObjectId(id as string) },
+            { $set: { ...data, updatedAt: new Date() } },
+            { returnDocument: "after" }
+        );
+
+        if (!result) {
+            return res.status(404).json({ success: false, message: "Tax rule not found" });
+        }
+
+        return res.status(200).json({
+            success: true,
+            message: "Tax rule updated successfully",
+            data: result
+        });
+    } catch (error) {
+        console.error("Update tax rule error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to update tax rule",
+        });
+    }
+};
+
+// Delete a tax rule (admin only)
+export const deleteTaxRule = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+
+        if (!ObjectId.isValid(id as string)) {
+            return res.status(400).json({ success: false, message: "Invalid tax rule ID" });
+        }
+
+        const db = getDB();
+        const result = await db.collection("taxRules").deleteOne({ _id: new ObjectId(id as string) });
+
+        if (result.deletedCount === 0) {
+            return res.status(404).json({ success: false, message: "Tax rule not found" });
+        }
+
+        return res.status(200).json({
+            success: true,
+            message: "Tax rule deleted successfully"
+        });
+    } catch (error) {
+        console.error("Delete tax rule error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to delete tax rule"
+        });
+    }
+};
+
+// Tax collected per rule and currency for a date range (admin only)
+export const getTaxReport = async (req: Request, res: Response) => {
+    try {
+        const db = getDB();
+        const { startDate, endDate } = req.query;
+
+        const match: any = { "cancellation.isCancelled": { $ne: true } };
+        if (startDate || endDate) {
+            match.createdAt = {};
+            if (startDate) match.createdAt.$gte = new Date(startDate as string);
+            if (endDate) match.createdAt.$lte = new Date(endDate as string);
+        }
+
+        const report = await db.collection("orders").aggregate([
+            { $match: match },
+            { $unwind: "$pricing.taxBreakdown" },
+            {
+                $group: {
+                    _id: {
+                        ruleId: "$pricing.taxBreakdown.ruleId",
+                        currency: "$pricing.currency"
+                    },
+                    name: { $first: "$pricing.taxBreakdown.name" },
+                    country: { $first: "$pricing.taxBreakdown.country" },
+                    region: { $first: "$pricing.taxBreakdown.region" },
+                    rate: { $first: "$pricing.taxBreakdown.rate" },
+                    inclusive: { $first: "$pricing.taxBreakdown.inclusive" },
+                    taxableAmount: { $sum: "$pricing.taxBreakdown.taxableAmount" },
+                    taxAmount: { $sum: "$pricing.taxBreakdown.amount" },
+                    orderCount: { $sum: 1 }
+                }
+            },
+            { $sort: { country: 1, region: 1, name: 1 } }
+        ]).toArray();
+
+        return res.status(200).json({
+            success: true,
+            data: report.map((row) => ({
+                ruleId: row._id.ruleId,
+                currency: row._id.currency,
+                name: row.name,
+                country: row.country,
+                region: row.region,
+                rate: row.rate,
+                inclusive: row.inclusive,
+                taxableAmount: Math.round(row.taxableAmount * 100) / 100,
+                taxAmount: Math.round(row.taxAmount * 100) / 100,
+                orderCount: row.orderCount
+            }))
+        });
+    } catch (error) {
+        console.error("Get tax report error:", error);
+        return res.status(500).json({
+            success: false,
+            message: "Failed to get tax report"
+        });
+    }
+};
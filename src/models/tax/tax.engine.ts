@@ -0,0 +1,90 @@
+import { Db } from "mongodb";
+import { OrderCustomer, OrderItem } from "../order/order.model";
+import { OrderTaxLine, TaxLocation, TaxRule } from "./tax.model";
+
+const roundAmount = (value: number): number => Math.round(value * 100) / 100;
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const exactMatch = (value: string) => new RegExp(`^${escapeRegex(value.trim())}$`, "i");
+
+/**
+ * Work out where the customer is taxed. Explicit country/region fields win; otherwise
+ * the address is read as "..., region, country".
+ */
+export const resolveTaxLocation = (customer: Partial<OrderCustomer>): TaxLocation => {
+    const parts = (customer.address || "")
+        .split(",")
+        .map((part) => part.trim())
+        .filter(Boolean);
+
+    return {
+        country: customer.country || parts[parts.length - 1],
+        region: customer.region || (parts.length > 1 ? parts[parts.length - 2] : undefined)
+    };
+};
+
+// Active rules for the location: all country-wide rules plus rules for the customer's region
+export const findApplicableTaxRules = async (db: Db, location: TaxLocation): Promise<TaxRule[]> => {
+    if (!location.country) return [];
+
+    const regionFilter: any[] = [{ region: { $exists: false } }, { region: null }, { region: "" }];
+    if (location.region) {
+        regionFilter.push({ region: exactMatch(location.region) });
+    }
+
+    return db.collection<TaxRule>("taxRules")
+        .find({
+            isActive: true,
+            country: exactMatch(location.country),
+            $or: regionFilter
+        })
+        .sort({ region: 1, name: 1 })
+        .toArray();
+};
+
+/**
+ * Compute tax lines for the given items. The order discount is spread over items in
+ * proportion to their totals before tax is applied.
+ */
+export const calculateTax = (
+    rules: TaxRule[],
+    items: OrderItem[],
+    discount: number
+): { lines: OrderTaxLine[]; exclusiveTotal: number; total: number } => {
+    const subtotal = items.reduce((sum, item) => sum + item.totalPrice, 0);
+    const discountRatio = subtotal > 0 ? Math.min(discount / subtotal, 1) : 0;
+
+    const lines: OrderTaxLine[] = [];
+    for (const rule of rules) {
+        const exempt = rule.exemptServiceCategories || [];
+        const taxableAmount = roundAmount(
+            items
+                .filter((item) => !item.serviceCategory || !exempt.includes(item.serviceCategory))
+                .reduce((sum, item) => sum + item.totalPrice * (1 - discountRatio), 0)
+        );
+
+        if (taxableAmount <= 0) continue;
+
+        const rate = rule.rate / 100;
+        const amount = rule.inclusive
+            ? taxableAmount - taxableAmount / (1 + rate) // Portion already contained in the price
+            : taxableAmount * rate;
+
+        lines.push({
+            ruleId: rule._id!,
+            name: rule.name,
+            country: rule.country,
+            region: rule.region || undefined,
+            rate: rule.rate,
+            inclusive: rule.inclusive,
+            taxableAmount,
+            amount: roundAmount(amount)
+        });
+    }
+
+    const exclusiveTotal = roundAmount(lines.filter((l) => !l.inclusive).reduce((sum, l) => sum + l.amount, 0));
+    const total = roundAmount(lines.reduce((sum, l) => sum + l.amount, 0));
+
+    return { lines, exclusiveTotal, total };
+};
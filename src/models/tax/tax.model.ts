@@ -0,0 +1,31 @@
+import { ObjectId } from "mongodb";
+
+export interface TaxRule {
+    _id?: ObjectId;
+    name: string; // Shown on invoices, e.g. "VAT" or "GST"
+    country: string; // Country name or ISO code as customers enter it, matched case-insensitively
+    region?: string; // State/division; leave empty for a country-wide rule
+    rate: number; // Percent, e.g. 15 for 15%
+    inclusive: boolean; // true when catalog prices already include this tax
+    exemptServiceCategories: string[]; // Service categories this tax does not apply to
+    isActive: boolean;
+    createdAt: Date;
+    updatedAt?: Date;
+}
+
+export interface TaxLocation {
+    country?: string;
+    region?: string;
+}
+
+// Tax applied to an order by one rule, stored on the order for accounting exports
+export interface OrderTaxLine {
+    ruleId: ObjectId;
+    name: string;
+    country: string;
+    region?: string;
+    rate: number;
+    inclusive: boolean;
+    taxableAmount: number;
+    amount: number;
+}
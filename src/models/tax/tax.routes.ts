@@ -0,0 +1,25 @@
+import express from "express";
+import {
+    createTaxRule,
+    getAllTaxRules,
+    getTaxRuleById,
+    updateTaxRule,
+    deleteTaxRule,
+    getTaxReport
+} from "./tax.controller";
+import { verifyToken, requirePermission } from "../../middlewares/auth.middleware";
+import { validate } from "../../middlewares/validate.middleware";
+import { taxRuleParams, taxRuleSchema, updateTaxRuleSchema } from "./tax.schema";
+
+const router = express.Router();
+
+// Staff routes
+router.get("/", verifyToken, requirePermission("billing:manage"), getAllTaxRules);
+router.get("/report", verifyToken, requirePermission("billing:manage"), getTaxReport);
+router.post("/", verifyToken, requirePermission("billing:manage"), validate({ body: taxRuleSchema }), createTaxRule);
+router.get("/:id", verifyToken, requirePermission("billing:manage"), getTaxRuleById);
+router.put("/:id", verifyToken, requirePermission("billing:manage"), validate({ params: taxRuleParams, body: updateTaxRuleSchema }), updateTaxRule);
+router.patch("/:id", verifyToken, requirePermission("billing:manage"), validate({ params: taxRuleParams, body: updateTaxRuleSchema }), updateTaxRule);
+router.delete("/:id", verifyToken, requirePermission("billing:manage"), deleteTaxRule);
+
+export default router;
@@ -0,0 +1,20 @@
+import { s } from "../../utils/schema";
+import { TaxRule } from "./tax.model";
+
+// Fields the controller fills in are optional here; an empty or null region makes the rule country-wide
+export type TaxRuleInput = Pick<TaxRule, "name" | "country" | "rate"> &
+  Partial<Pick<TaxRule, "inclusive" | "exemptServiceCategories" | "isActive">> & { region?: string | null };
+
+export const taxRuleSchema = s.object<TaxRuleInput>({
+  name: s.string({ min: 1, max: 100 }),
+  country: s.string({ min: 1, max: 100 }),
+  region: s.string({ max: 100 }).optional().nullable(),
+  rate: s.number({ min: 0, max: 100 }),
+  inclusive: s.boolean().optional(),
+  exemptServiceCategories: s.array(s.string({ min: 1, max: 100 }), { max: 100 }).optional(),
+  isActive: s.boolean().optional(),
+});
+
+export const updateTaxRuleSchema = taxRuleSchema.patch();
+
+export const taxRuleParams = s.object({ id: s.objectId() });
@@ -30,7 +30,6 @@ export const createTeamMember = async (req: Request, res: Response) => {
     res.status(500).json({
       success: false,
       message: "Failed to create team member",
-      error: error instanceof Error ? error.message : "Unknown error"
     });
   }
 };
@@ -89,7 +88,6 @@ export const getAllTeamMembers = async (req: Request, res: Response) => {
     return res.status(500).json({
       success: false,
       message: "Failed to fetch team members",
-      error: error instanceof Error ? error.message : "Unknown error"
     });
   }
 };
@@ -122,7 +120,6 @@ export const getTeamMemberById = async (req: Request, res: Response) => {
     return res.status(500).json({
       success: false,
       message: "Failed to fetch team member",
-      error: error instanceof Error ? error.message : "Unknown error"
     });
   }
 };
@@ -159,7 +156,6 @@ export const getTeamMembersByDepartment = async (req: Request, res: Response) =>
     return res.status(500).json({
       success: false,
       message: "Failed to fetch team members by department",
-      error: error instanceof Error ? error.message : "Unknown error"
     });
   }
 };
@@ -172,9 +168,6 @@ export const updateTeamMember = async (req: Request, res: Response) => {
     // Add update timestamp
     updateData.updatedAt = new Date();
 
-    // Remove _id from update data if present
-    delete updateData._id;
-
     const db = await connectDB();
 
     // Try to update by custom id first, then by _id
@@ -206,7 +199,6 @@ export const updateTeamMember = async (req: Request, res: Response) => {
     return res.status(500).json({
       success: false,
       message: "Failed to update team member",
-      error: error instanceof Error ? error.message : "Unknown error"
     });
   }
 };
@@ -239,7 +231,6 @@ export const deleteTeamMember = async (req: Request, res: Response) => {
     return res.status(500).json({
       success: false,
       message: "Failed to delete team member",
-      error: error instanceof Error ? error.message : "Unknown error"
     });
   }
 };
@@ -249,16 +240,9 @@ export const createDepartment = async (req: Request, res: Response) => {
   try {
     const { name, description } = req.body;
 
-    if (!name) {
-      return res.status(400).json({
-        success: false,
-        message: "Department name is required"
-      });
-    }
-
     const departmentData = {
-      name: name.trim(),
-      description: description?.trim() || "",
+      name,
+      description,
       createdAt: new Date(),
       updatedAt: new Date()
     };
@@ -267,7 +251,7 @@ export const createDepartment = async (req: Request, res: Response) => {
 
     // Check if department already exists
     const existingDept = await db.collection("departments").findOne({
-      name: { $regex: `^${name.trim()}$`, $options: 'i' }
+      name: { $regex: `^${name}$`, $options: 'i' }
     });
 
     if (existingDept) {
@@ -289,7 +273,6 @@ export const createDepartment = async (req: Request, res: Response) => {
     return res.status(500).json({
       success: false,
       message: "Failed to create department",
-      error: error instanceof Error ? error.message : "Unknown error"
     });
   }
 };
@@ -332,7 +315,6 @@ export const deleteDepartment = async (req: Request, res: Response) => {
     return res.status(500).json({
       success: false,
       message: "Failed to delete department",
-      error: error instanceof Error ? error.message : "Unknown error"
     });
   }
 };
@@ -358,7 +340,6 @@ export const getDepartments = async (req: Request, res: Response) => {
     return res.status(500).json({
       success: false,
       message: "Failed to fetch departments",
-      error: error instanceof Error ? error.message : "Unknown error"
     });
   }
 };
\ No newline at end of file
@@ -13,25 +13,35 @@ import {
   // Utility routes
   getDepartments
 } from "./team.controller";
-import { verifyToken, requireAdmin } from "../../middlewares/auth.middleware";
+import { verifyToken, requirePermission } from "../../middlewares/auth.middleware";
+import { validate } from "../../middlewares/validate.middleware";
+import {
+  departmentNameParams,
+  departmentParams,
+  departmentSchema,
+  teamListQuery,
+  teamMemberParams,
+  teamMemberSchema,
+  updateTeamMemberSchema
+} from "./team.schema";
 
 const router = express.Router();
 
 
 // Public routes for team members
-router.get("/", getAllTeamMembers);
+router.get("/", validate({ query: teamListQuery }), getAllTeamMembers);
 router.get("/departments", getDepartments);
-router.get("/department/:department", getTeamMembersByDepartment);
-router.get("/:id", getTeamMemberById);
+router.get("/department/:department", validate({ params: departmentParams }), getTeamMembersByDepartment);
+router.get("/:id", validate({ params: teamMemberParams }), getTeamMemberById);
 
-// Admin-only routes for team members
-router.post("/", verifyToken, requireAdmin, createTeamMember);
-router.put("/:id", verifyToken, requireAdmin, updateTeamMember);
-router.patch("/:id", verifyToken, requireAdmin, updateTeamMember);
-router.delete("/:id", verifyToken, requireAdmin, deleteTeamMember);
+// Staff routes for team members
+router.post("/", verifyToken, requirePermission("content:publish"), validate({ body: teamMemberSchema }), createTeamMember);
+router.put("/:id", verifyToken, requirePermission("content:publish"), validate({ params: teamMemberParams, body: updateTeamMemberSchema }), updateTeamMember);
+router.patch("/:id", verifyToken, requirePermission("content:publish"), validate({ params: teamMemberParams, body: updateTeamMemberSchema }), updateTeamMember);
+router.delete("/:id", verifyToken, requirePermission("content:publish"), validate({ params: teamMemberParams }), deleteTeamMember);
 
-// Admin-only routes for departments
-router.post("/departments", verifyToken, requireAdmin, createDepartment);
-router.delete("/departments/:name", verifyToken, requireAdmin, deleteDepartment);
+// Staff routes for departments
+router.post("/departments", verifyToken, requirePermission("content:publish"), validate({ body: departmentSchema }), createDepartment);
+router.delete("/departments/:name", verifyToken, requirePermission("content:publish"), validate({ params: departmentNameParams }), deleteDepartment);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,53 @@
+import { s } from "../../utils/schema";
+import { Department, TeamMember } from "./team.model";
+
+export type TeamMemberInput = Omit<TeamMember, "_id" | "createdAt" | "updatedAt">;
+export type DepartmentInput = Omit<Department, "_id" | "createdAt" | "updatedAt">;
+
+const TEAM_STATUSES = ["active", "inactive"] as const;
+
+export const teamMemberSchema = s.object<TeamMemberInput>({
+  id: s.string({ min: 1, max: 100, pattern: /^[a-z0-9-]+$/i, patternMessage: "may only contain letters, numbers and hyphens" }),
+  name: s.string({ min: 1, max: 200 }),
+  role: s.string({ min: 1, max: 200 }),
+  roleValue: s.number({ integer: true, min: 0 }),
+  department: s.string({ min: 1, max: 200 }),
+  profileImage: s.string({ max: 2048 }).default(""),
+  bio: s.string({ max: 5000 }).default(""),
+  location: s.object<TeamMember["location"]>({
+    city: s.string({ max: 200 }).default(""),
+    state: s.string({ max: 200 }).default(""),
+    country: s.string({ max: 200 }).default(""),
+  }).default(() => ({ city: "", state: "", country: "" })),
+  joinedDate: s.string({ min: 1, max: 50 }),
+  skills: s.array(s.string({ min: 1, max: 100 }), { max: 50 }).default([]),
+  socialLinks: s.object<TeamMember["socialLinks"]>({
+    linkedin: s.url().optional(),
+    twitter: s.url().optional(),
+    email: s.email().optional(),
+    github: s.url().optional(),
+  }).default(() => ({})),
+  status: s.enum(TEAM_STATUSES).default("active"),
+});
+
+export const updateTeamMemberSchema = teamMemberSchema.patch();
+
+export const departmentSchema = s.object<DepartmentInput>({
+  name: s.string({ min: 1, max: 100 }),
+  description: s.string({ max: 1000 }).default(""),
+});
+
+export const teamMemberParams = s.object({ id: s.string({ min: 1, max: 100 }) });
+export const departmentParams = s.object({ department: s.string({ min: 1, max: 100 }) });
+export const departmentNameParams = s.object({ name: s.string({ min: 1, max: 100 }) });
+
+export const teamListQuery = s.object({
+  department: s.string({ max: 100 }).optional(),
+  status: s.enum(TEAM_STATUSES).optional(),
+  role: s.string({ max: 100 }).optional(),
+  skills: s.list(s.string({ min: 1, max: 100 }), { max: 20 }).optional(),
+  page: s.number({ coerce: true, integer: true, min: 1 }).default(1),
+  limit: s.number({ coerce: true, integer: true, min: 1, max: 100 }).default(10),
+  sortBy: s.enum(["roleValue", "name", "joinedDate", "department", "createdAt"]).default("roleValue"),
+  sortOrder: s.enum(["asc", "desc"]).default("asc"),
+}).strip();
@@ -1,13 +1,34 @@
 import { Request, Response } from "express";
 import { getDB } from "../../config/db";
-import { ObjectId } from "mongodb";
+import { resolvePermissions, userHasPermission } from "../../middlewares/auth.middleware";
+import { getRolePermissions, roleExists } from "../roles/role.engine";
+import { hasPermission } from "../roles/role.permissions";
+import { IUser } from "./user.model";
+import { PUBLIC_USER_PROJECTION, findUserByIdentifier, getUsersCollection, normalizeEmail } from "./user.store";
+import { revokeAllSessions } from "../auth/session.engine";
+import { unlockAccount } from "../auth/throttle.engine";
+import { auth } from "../../firebase";
+
+// A role can be assigned when it exists and grants nothing the caller lacks
+const checkRoleAssignment = async (req: Request, role: unknown): Promise<{ status: number; message: string } | null> => {
+  const db = getDB();
+  if (typeof role !== "string" || !role || !(await roleExists(db, role))) {
+    return { status: 400, message: "Invalid role. Use GET /api/admin/roles for the available roles" };
+  }
+
+  const granted = await getRolePermissions(db, role);
+  const own = await resolvePermissions(req);
+  if (granted.some((permission) => !hasPermission(own, permission))) {
+    return { status: 403, message: "You cannot assign a role with permissions you do not have" };
+  }
 
+  return null;
+};
 
 // Get all users
 export const getAllUsers = async (req: Request, res: Response) => {
   try {
-    const db = getDB();
-    const users = await db.collection("users").find().toArray();
+    const users = await getUsersCollection().find({}, { projection: PUBLIC_USER_PROJECTION }).toArray();
 
     console.log('📊 getAllUsers found', users.length, 'users');
     console.log('📋 Sample user:', users[0] ? JSON.stringify(users[0], null, 2) : 'No users');
@@ -34,47 +55,31 @@ export const getUserById = async (req: Request, res: Response) => {
       return res.status(400).json({ message: "Invalid user ID" });
     }
 
-    const db = getDB();
-
-    // Try to find by _id first (MongoDB primary key)
-    let user = null;
-    if (ObjectId.isValid(id as string)) {
-      user = await db.collection("users").findOne({ _id: new ObjectId(id as string) });
-      console.log('🔎 Search by _id result:', user ? 'Found' : 'Not found');
-    }
-
-    // Fallback to firebaseUid for backward compatibility
-    if (!user) {
-      user = await db.collection("users").findOne({ firebaseUid: id });
-      console.log('🔎 Search by firebaseUid result:', user ? 'Found' : 'Not found');
-    }
+    const user = await findUserByIdentifier(id as string);
 
     if (!user) {
       return res.status(404).json({ message: "User not found" });
     }
 
-    // Debug: Log what we found in the database
-    console.log('📊 Raw user data from DB:', JSON.stringify(user, null, 2));
-
-    // Map to complete user data structure
+    // name/phone/image mirror the canonical fields for clients built against the old schema
     const completeUserData = {
       _id: user._id,
-      uid: user.firebaseUid || user.uid,
-      firebaseUid: user.firebaseUid || user.uid,
-      name: user.displayName || user.name || '',
-      displayName: user.displayName || user.name || '',
+      uid: user.firebaseUid,
+      firebaseUid: user.firebaseUid,
+      name: user.displayName || '',
+      displayName: user.displayName || '',
       email: user.email || '',
-      phone: user.phoneNumber || user.phone || '',
-      phoneNumber: user.phoneNumber || user.phone || '',
+      phone: user.phoneNumber || '',
+      phoneNumber: user.phoneNumber || '',
       address: user.address || '',
-      image: user.photoURL || user.image || '',
-      photoURL: user.photoURL || user.image || '',
+      image: user.photoURL || '',
+      photoURL: user.photoURL || '',
       provider: user.provider || 'email',
       role: user.role || 'user',
       status: user.status || 'active',
       termsAccepted: user.termsAccepted || false,
-      createdAt: user.createdAt || new Date().toISOString(),
-      updatedAt: user.updatedAt || new Date().toISOString(),
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt,
     };
 
     console.log('✅ Sending complete user data with', Object.keys(completeUserData).length, 'fields');
@@ -99,28 +104,31 @@ export const updateUser = async (req: Request, res: Response) => {
       return res.status(400).json({ message: "Invalid user ID" });
     }
 
-    const db = getDB();
+    const user = await findUserByIdentifier(id as string);
 
-    // Find user by _id first, then firebaseUid
-    let user = null;
-    if (ObjectId.isValid(id as string)) {
-      user = await db.collection("users").findOne({ _id: new ObjectId(id as string) });
-    }
     if (!user) {
-      user = await db.collection("users").findOne({ firebaseUid: id });
+      return res.status(404).json({ message: "User not found" });
     }
 
-    if (!user) {
-      return res.status(404).json({ message: "User not found" });
+    // Users may edit their own profile, but role and status are managed by staff
+    if ((role || status) && !(await userHasPermission(req, "users:manage"))) {
+      return res.status(403).json({ message: "Changing role or status requires the users:manage permission" });
+    }
+
+    if (role) {
+      const roleError = await checkRoleAssignment(req, role);
+      if (roleError) {
+        return res.status(roleError.status).json({ message: roleError.message });
+      }
     }
 
     // Build update object dynamically with proper field mapping
-    const updateData: any = {
+    const updateData: Partial<IUser> = {
       updatedAt: new Date(),
     };
 
     if (displayName || name) updateData.displayName = displayName || name;
-    if (email) updateData.email = email;
+    if (email) updateData.email = normalizeEmail(email);
     if (phoneNumber || phone) updateData.phoneNumber = phoneNumber || phone;
     if (address) updateData.address = address;
     if (photoURL || image) updateData.photoURL = photoURL || image;
@@ -128,19 +136,16 @@ export const updateUser = async (req: Request, res: Response) => {
     if (role) updateData.role = role;
     if (status) updateData.status = status;
 
-    const filter = user._id ? { _id: user._id } : { firebaseUid: id };
-    const result = await db.collection("users").updateOne(
-      filter,
-      { $set: updateData }
+    const updatedUser = await getUsersCollection().findOneAndUpdate(
+      { _id: user._id },
+      { $set: updateData },
+      { returnDocument: "after", projection: PUBLIC_USER_PROJECTION }
     );
 
-    if (result.matchedCount === 0) {
+    if (!updatedUser) {
       return res.status(404).json({ message: "User not found" });
     }
 
-    // Get the updated user
-    const updatedUser = await db.collection("users").findOne(filter);
-
     return res.status(200).json({
       success: true,
       message: "User updated successfully",
@@ -161,24 +166,13 @@ export const deleteUser = async (req: Request, res: Response) => {
       return res.status(400).json({ message: "Invalid user ID" });
     }
 
-    const db = getDB();
-
-    // Find user by _id first, then firebaseUid
-    let user = null;
-    if (ObjectId.isValid(id as string)) {
-      user = await db.collection("users").findOne({ _id: new ObjectId(id as string) });
-    }
-    if (!user) {
-      user = await db.collection("users").findOne({ firebaseUid: id });
-    }
+    const user = await findUserByIdentifier(id as string);
 
     if (!user) {
       return res.status(404).json({ message: "User not found" });
     }
 
-    // Delete using the filter that found the user
-    const filter = user._id ? { _id: user._id } : { firebaseUid: id };
-    const result = await db.collection("users").deleteOne(filter);
+    const result = await getUsersCollection().deleteOne({ _id: user._id });
 
     if (result.deletedCount === 0) {
       return res.status(404).json({ message: "User not found" });
@@ -205,32 +199,13 @@ export const updateUserStatus = async (req: Request, res: Response) => {
       return res.status(400).json({ message: "Invalid user ID" });
     }
 
-    // Validate status
-    const validStatuses = ['active', 'inactive', 'suspended', 'pending'];
-    if (!status || !validStatuses.includes(status)) {
-      return res.status(400).json({
-        message: "Invalid status. Must be one of: active, inactive, suspended, pending"
-      });
-    }
-
-    const db = getDB();
-
-    // Check if user exists - try _id first, then firebaseUid for backward compatibility
-    let existingUser = null;
-    if (ObjectId.isValid(id as string)) {
-      existingUser = await db.collection("users").findOne({ _id: new ObjectId(id as string) });
-    }
-    if (!existingUser) {
-      existingUser = await db.collection("users").findOne({ firebaseUid: id });
-    }
+    const existingUser = await findUserByIdentifier(id as string);
     if (!existingUser) {
       return res.status(404).json({ message: "User not found" });
     }
 
-    // Update user status using _id
-    const filter = existingUser._id ? { _id: existingUser._id } : { firebaseUid: id };
-    const result = await db.collection("users").findOneAndUpdate(
-      filter,
+    const result = await getUsersCollection().findOneAndUpdate(
+      { _id: existingUser._id },
       {
         $set: {
           status: status,
@@ -240,16 +215,22 @@ export const updateUserStatus = async (req: Request, res: Response) => {
       { returnDocument: "after" }
     );
 
+    // A suspension takes effect immediately: drop cookie sessions and Firebase refresh tokens
+    if (status === "suspended" && existingUser.firebaseUid) {
+      await revokeAllSessions(getDB(), existingUser.firebaseUid);
+      await auth.revokeRefreshTokens(existingUser.firebaseUid);
+    }
+
     return res.status(200).json({
       success: true,
       message: "User status updated successfully",
       data: {
-        _id: result?.value?._id,
-        name: result?.value?.name,
-        email: result?.value?.email,
-        role: result?.value?.role,
-        status: result?.value?.status,
-        updatedAt: result?.value?.updatedAt
+        _id: result?._id,
+        name: result?.displayName,
+        email: result?.email,
+        role: result?.role,
+        status: result?.status,
+        updatedAt: result?.updatedAt
       },
     });
   } catch (error) {
@@ -261,8 +242,6 @@ export const updateUserStatus = async (req: Request, res: Response) => {
 // Get all users with their status (Admin only)
 export const getAllUsersWithStatus = async (req: Request, res: Response) => {
   try {
-    const db = getDB();
-
     // Get query parameters for filtering
     const { status, role } = req.query;
 
@@ -278,7 +257,7 @@ export const getAllUsersWithStatus = async (req: Request, res: Response) => {
     }
 
     // Fetch users with projection (only id and status)
-    const users = await db.collection("users")
+    const users = await getUsersCollection()
       .find(filter, {
         projection: {
           _id: 1,
@@ -326,35 +305,13 @@ export const getUserStatus = async (req: Request, res: Response) => {
       return res.status(400).json({ message: "Invalid user ID" });
     }
 
-    const db = getDB();
-
-    // Try _id first, then firebaseUid for backward compatibility
-    let user = null;
-    if (ObjectId.isValid(id as string)) {
-      user = await db.collection("users").findOne(
-        { _id: new ObjectId(id as string) },
-        {
-          projection: {
-            _id: 1,
-            firebaseUid: 1,
-            status: 1
-          }
-        }
-      );
-    }
-
-    if (!user) {
-      user = await db.collection("users").findOne(
-        { firebaseUid: id },
-        {
-          projection: {
-            _id: 1,
-            firebaseUid: 1,
-            status: 1
-          }
-        }
-      );
-    }
+    const user = await findUserByIdentifier(id as string, {
+      projection: {
+        _id: 1,
+        firebaseUid: 1,
+        status: 1
+      }
+    });
 
     if (!user) {
       return res.status(404).json({ message: "User not found" });
@@ -374,11 +331,35 @@ export const getUserStatus = async (req: Request, res: Response) => {
   }
 };
 
+// Lift a sign-in or password reset lockout (Admin only)
+export const unlockUser = async (req: Request, res: Response) => {
+  try {
+    const user = await findUserByIdentifier(req.params.id as string, { projection: { _id: 1, email: 1, firebaseUid: 1 } });
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    // Password steps are tracked by email, the two-factor step by uid
+    const cleared = await Promise.all([
+      unlockAccount(getDB(), normalizeEmail(user.email)),
+      unlockAccount(getDB(), user.firebaseUid),
+    ]);
+    const wasLocked = cleared.some(Boolean);
+
+    return res.status(200).json({
+      success: true,
+      message: wasLocked ? "Account unlocked" : "Account was not locked",
+      data: { _id: user._id, email: user.email, wasLocked }
+    });
+  } catch (error) {
+    console.error("Unlock user error:", error);
+    return res.status(500).json({ message: "Failed to unlock user" });
+  }
+};
+
 // Get all users with their roles (Admin only)
 export const getAllUsersWithRole = async (req: Request, res: Response) => {
   try {
-    const db = getDB();
-
     // Get query parameters for filtering
     const { role, status } = req.query;
 
@@ -392,7 +373,7 @@ export const getAllUsersWithRole = async (req: Request, res: Response) => {
     }
 
     // Fetch users with projection (only id and role)
-    const users = await db.collection("users")
+    const users = await getUsersCollection()
       .find(filter, {
         projection: {
           _id: 1,
@@ -434,33 +415,14 @@ export const getUserRole = async (req: Request, res: Response) => {
       return res.status(400).json({ message: "Invalid user ID" });
     }
 
-    const db = getDB();
-
-    // Try _id first, then firebaseUid for backward compatibility
-    let user = null;
-    if (ObjectId.isValid(id as string)) {
-      user = await db.collection("users").findOne(
-        { _id: new ObjectId(id as string) },
-        {
-          projection: {
-            _id: 1,
-            role: 1
-          }
-        }
-      );
-    }
+    const user = await findUserByIdentifier(id as string, {
+      projection: {
+        _id: 1,
+        role: 1
+      }
+    });
 
     if (!user) {
-      user = await db.collection("users").findOne(
-        { firebaseUid: id },
-        {
-          projection: {
-            _id: 1,
-            role: 1
-          }
-        }
-      );
-    }    if (!user) {
       return res.status(404).json({ message: "User not found" });
     }
 
@@ -489,31 +451,18 @@ export const updateUserRole = async (req: Request, res: Response) => {
     }
 
     // Validate role
-    const validRoles = ['admin', 'user', 'moderator'];
-    if (!role || !validRoles.includes(role)) {
-      return res.status(400).json({
-        message: "Invalid role. Must be one of: admin, user, moderator"
-      });
+    const roleError = await checkRoleAssignment(req, role);
+    if (roleError) {
+      return res.status(roleError.status).json({ message: roleError.message });
     }
 
-    const db = getDB();
-
-    // Check if user exists - try _id first, then firebaseUid for backward compatibility
-    let existingUser = null;
-    if (ObjectId.isValid(id as string)) {
-      existingUser = await db.collection("users").findOne({ _id: new ObjectId(id as string) });
-    }
-    if (!existingUser) {
-      existingUser = await db.collection("users").findOne({ firebaseUid: id });
-    }
+    const existingUser = await findUserByIdentifier(id as string);
     if (!existingUser) {
       return res.status(404).json({ message: "User not found" });
     }
 
-    // Update user role using _id
-    const filter = existingUser._id ? { _id: existingUser._id } : { firebaseUid: id };
-    const result = await db.collection("users").findOneAndUpdate(
-      filter,
+    const result = await getUsersCollection().findOneAndUpdate(
+      { _id: existingUser._id },
       {
         $set: {
           role: role,
@@ -527,9 +476,9 @@ export const updateUserRole = async (req: Request, res: Response) => {
       success: true,
       message: "User role updated successfully",
       data: {
-        _id: result?.value?._id,
-        role: result?.value?.role,
-        updatedAt: result?.value?.updatedAt
+        _id: result?._id,
+        role: result?.role,
+        updatedAt: result?.updatedAt
       },
     });
   } catch (error) {
@@ -1,16 +1,36 @@
 import { ObjectId } from 'mongodb';
 
+export type UserStatus = 'active' | 'inactive' | 'suspended' | 'pending';
+
+export const USER_STATUSES: UserStatus[] = ['active', 'inactive', 'suspended', 'pending'];
+
+// TOTP settings (see src/models/auth/twoFactor.engine.ts). Never sent to clients.
+export interface TwoFactorSettings {
+  enabled: boolean;
+  secret?: string; // Encrypted TOTP secret once enrollment is confirmed
+  pendingSecret?: string; // Encrypted secret awaiting its first code
+  recoveryCodeHashes: string[]; // SHA-256 of the unused recovery codes
+  lastUsedStep?: number; // Last accepted 30 second window, so a code cannot be replayed
+  enabledAt?: Date;
+}
+
+// The single shape of a document in the users collection. Credentials live in Firebase Auth,
+// so no password is stored here; documents written with the old name/image/phone/password
+// fields are rewritten by `npm run migrate:users`.
 export interface IUser {
   _id?: ObjectId;
-  name: string;
-  email: string;
-  password?: string;
-  phone?: string;
+  firebaseUid: string;
+  email: string; // Always stored lowercased
+  displayName: string;
+  phoneNumber?: string;
   address?: string;
-  image?: string;
-  provider?: string;
-  role?: string;
-  status?: 'active' | 'inactive' | 'suspended' | 'pending';
-  createdAt?: Date;
-  updatedAt?: Date;
+  photoURL?: string;
+  provider?: string; // "password", "google.com", ...
+  role: string; // 'user', 'admin', 'moderator' or a custom role key from the roles collection
+  status: UserStatus; // 'pending' until the email address is verified
+  termsAccepted: boolean;
+  emailVerifiedAt?: Date;
+  twoFactor?: TwoFactorSettings;
+  createdAt: Date;
+  updatedAt: Date;
 }
@@ -9,30 +9,34 @@ import {
   getUserStatus,
   getAllUsersWithRole,
   getUserRole,
-  updateUserRole
+  updateUserRole,
+  unlockUser
 } from "./user.controller";
-import { verifyToken, requireAdmin, requireUserOrAdmin } from "../../middlewares/auth.middleware";
+import { verifyToken, requirePermission, requireSelfOrPermission } from "../../middlewares/auth.middleware";
+import { validate } from "../../middlewares/validate.middleware";
+import { updateUserSchema, userListQuery, userParams, userRoleSchema, userStatusSchema } from "./user.schema";
 
 const router = express.Router();
 
 // Routes with specific paths MUST come before dynamic :id routes
 // Get all users
-router.get("/", verifyToken, requireUserOrAdmin, getAllUsers);
+router.get("/", verifyToken, requirePermission("users:read"), getAllUsers);
 
 // Status and role aggregate routes (MUST be before /:id routes)
-router.get("/status/all", verifyToken, requireUserOrAdmin, getAllUsersWithStatus);
-router.get("/role/all", verifyToken, requireUserOrAdmin, getAllUsersWithRole);
+router.get("/status/all", verifyToken, requirePermission("users:read"), validate({ query: userListQuery }), getAllUsersWithStatus);
+router.get("/role/all", verifyToken, requirePermission("users:read"), validate({ query: userListQuery }), getAllUsersWithRole);
 
-// Admin-only routes with :id
-router.get("/:id/status", verifyToken, requireAdmin, getUserStatus);
-router.get("/:id/role", verifyToken, requireUserOrAdmin, getUserRole);
-router.patch("/:id/status", verifyToken, requireAdmin, updateUserStatus);
-router.patch("/:id/role", verifyToken, requireAdmin, updateUserRole);
+// Staff routes with :id
+router.get("/:id/status", verifyToken, requirePermission("users:read"), validate({ params: userParams }), getUserStatus);
+router.get("/:id/role", verifyToken, requireSelfOrPermission("users:read"), validate({ params: userParams }), getUserRole);
+router.patch("/:id/status", verifyToken, requirePermission("users:manage"), validate({ params: userParams, body: userStatusSchema }), updateUserStatus);
+router.patch("/:id/role", verifyToken, requirePermission("users:manage"), validate({ params: userParams, body: userRoleSchema }), updateUserRole);
+router.post("/:id/unlock", verifyToken, requirePermission("users:manage"), validate({ params: userParams }), unlockUser);
 
-// User or Admin routes with :id (MUST be last)
-router.get("/:id", verifyToken, requireUserOrAdmin, getUserById);
-router.put("/:id", verifyToken, requireUserOrAdmin, updateUser);
-router.patch("/:id", verifyToken, requireUserOrAdmin, updateUser);
-router.delete("/:id", verifyToken, requireAdmin, deleteUser);
+// Own account or staff routes with :id (MUST be last)
+router.get("/:id", verifyToken, requireSelfOrPermission("users:read"), validate({ params: userParams }), getUserById);
+router.put("/:id", verifyToken, requireSelfOrPermission("users:manage"), validate({ params: userParams, body: updateUserSchema }), updateUser);
+router.patch("/:id", verifyToken, requireSelfOrPermission("users:manage"), validate({ params: userParams, body: updateUserSchema }), updateUser);
+router.delete("/:id", verifyToken, requirePermission("users:manage"), validate({ params: userParams }), deleteUser);
 
 export default router;
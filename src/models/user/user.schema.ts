@@ -0,0 +1,35 @@
+import { s } from "../../utils/schema";
+import { IUser, USER_STATUSES } from "./user.model";
+
+// Profile fields a user or staff member may change; name, phone and image are the
+// pre-unification spellings of displayName, phoneNumber and photoURL
+type UserUpdateInput = Partial<Pick<IUser, "displayName" | "email" | "phoneNumber" | "address" | "photoURL" | "provider" | "role" | "status">> & {
+  name?: string;
+  phone?: string;
+  image?: string;
+};
+
+export const updateUserSchema = s.object<UserUpdateInput>({
+  displayName: s.string({ min: 1, max: 200 }).optional(),
+  name: s.string({ min: 1, max: 200 }).optional(),
+  email: s.email().optional(),
+  phoneNumber: s.string({ max: 30 }).optional(),
+  phone: s.string({ max: 30 }).optional(),
+  address: s.string({ max: 500 }).optional(),
+  photoURL: s.string({ max: 2048 }).optional(),
+  image: s.string({ max: 2048 }).optional(),
+  provider: s.string({ max: 50 }).optional(),
+  role: s.string({ min: 1, max: 50 }).optional(),
+  status: s.enum(USER_STATUSES).optional(),
+}).refine((value) => Object.keys(value).length > 0, "must contain at least one field to update");
+
+export const userStatusSchema = s.object({ status: s.enum(USER_STATUSES) });
+export const userRoleSchema = s.object({ role: s.string({ min: 1, max: 50 }) });
+
+// Users are addressed by Mongo _id or Firebase UID
+export const userParams = s.object({ id: s.string({ min: 1, max: 128 }) });
+
+export const userListQuery = s.object({
+  status: s.enum(USER_STATUSES).optional(),
+  role: s.string({ max: 50 }).optional(),
+}).strip();
@@ -0,0 +1,66 @@
+import { Collection, Db, Filter, FindOptions, ObjectId } from "mongodb";
+import { getDB } from "../../config/db";
+import { DEFAULT_USER_ROLE } from "../roles/role.permissions";
+import { IUser, UserStatus } from "./user.model";
+
+export const getUsersCollection = (db: Db = getDB()): Collection<IUser> => {
+  return db.collection<IUser>("users");
+};
+
+export const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+// Projection for documents returned to clients: two-factor secrets and recovery code hashes stay on the server
+export const PUBLIC_USER_PROJECTION = { twoFactor: 0 } as const;
+
+// Users are addressed by their Mongo _id or by their Firebase UID
+export const userIdentifierFilter = (id: string): Filter<IUser> => {
+  return ObjectId.isValid(id)
+    ? { $or: [{ _id: new ObjectId(id) }, { firebaseUid: id }] }
+    : { firebaseUid: id };
+};
+
+export const findUserByIdentifier = (id: string, options?: FindOptions, db: Db = getDB()) => {
+  return getUsersCollection(db).findOne(userIdentifierFilter(id), options);
+};
+
+// Create or refresh the profile of a Firebase user. Role, status and terms are only
+// written when given, so signing in never resets what staff assigned.
+export const upsertUserProfile = async (fields: {
+  firebaseUid: string;
+  email: string;
+  displayName?: string;
+  phoneNumber?: string;
+  photoURL?: string;
+  address?: string;
+  provider?: string;
+  role?: string;
+  status?: UserStatus;
+  termsAccepted?: boolean;
+}, db: Db = getDB()) => {
+  const now = new Date();
+
+  const set: Partial<IUser> = {
+    firebaseUid: fields.firebaseUid,
+    email: normalizeEmail(fields.email),
+    displayName: fields.displayName || "",
+    updatedAt: now,
+  };
+  if (fields.phoneNumber) set.phoneNumber = fields.phoneNumber;
+  if (fields.photoURL) set.photoURL = fields.photoURL;
+  if (fields.address) set.address = fields.address;
+  if (fields.provider) set.provider = fields.provider;
+  if (fields.role) set.role = fields.role;
+  if (fields.status) set.status = fields.status;
+  if (fields.termsAccepted !== undefined) set.termsAccepted = fields.termsAccepted;
+
+  const setOnInsert: Partial<IUser> = { createdAt: now };
+  if (!fields.role) setOnInsert.role = DEFAULT_USER_ROLE;
+  if (!fields.status) setOnInsert.status = "active";
+  if (fields.termsAccepted === undefined) setOnInsert.termsAccepted = false;
+
+  return getUsersCollection(db).updateOne(
+    { firebaseUid: fields.firebaseUid },
+    { $set: set, $setOnInsert: setOnInsert },
+    { upsert: true }
+  );
+};
@@ -1,8 +1,12 @@
 import { Router } from 'express'
-import { createUser } from '../controllers/adminController'
+import { createUser, hasAdminSecret } from '../controllers/adminController'
+import { requirePermission } from '../middlewares/auth.middleware'
 
 const router = Router()
 
-router.post('/create-user', createUser)
+const canManageUsers = requirePermission('users:manage')
+
+// The ADMIN_SECRET header is kept for bootstrapping the first account; everyone else needs users:manage
+router.post('/create-user', (req, res, next) => (hasAdminSecret(req) ? next() : canManageUsers(req, res, next)), createUser)
 
 export default router
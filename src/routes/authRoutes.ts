@@ -5,11 +5,24 @@ import {
   googleLogin,
   googleRegister,
   logout,
+  refreshSession,
   getProfile,
   getMe,
+  verifyEmail,
+  resendVerificationEmail,
+  getSessions,
+  deleteSession,
+  setupTwoFactor,
+  verifyTwoFactorSetup,
+  regenerateTwoFactorRecoveryCodes,
+  disableTwoFactorAuth,
+  loginWithTwoFactor,
   forgotPassword,
   resetPassword,
 } from '../controllers/authController'
+import { verifyToken } from '../middlewares/auth.middleware'
+import { validate } from '../middlewares/validate.middleware'
+import { sessionParams, twoFactorCodeSchema, twoFactorLoginSchema, verifyEmailSchema } from '../models/auth/auth.schema'
 
 const router = Router()
 
@@ -23,11 +36,25 @@ router.post('/google-register', googleRegister)
 
 // Session management
 router.post('/logout', logout)
+router.post('/auth/refresh', refreshSession)
+router.get('/auth/sessions', verifyToken, getSessions)
+router.delete('/auth/sessions/:id', verifyToken, validate({ params: sessionParams }), deleteSession)
+
+// Two-factor authentication (TOTP); /auth/2fa/login is the second step of a sign-in
+router.post('/auth/2fa/login', validate({ body: twoFactorLoginSchema }), loginWithTwoFactor)
+router.post('/auth/2fa/setup', verifyToken, setupTwoFactor)
+router.post('/auth/2fa/verify', verifyToken, validate({ body: twoFactorCodeSchema }), verifyTwoFactorSetup)
+router.post('/auth/2fa/recovery-codes', verifyToken, validate({ body: twoFactorCodeSchema }), regenerateTwoFactorRecoveryCodes)
+router.post('/auth/2fa/disable', verifyToken, validate({ body: twoFactorCodeSchema }), disableTwoFactorAuth)
 
 // User profile
 router.get('/auth/profile', getProfile)
 router.get('/auth/me', getMe)
 
+// Email verification
+router.post('/auth/verify-email', validate({ body: verifyEmailSchema }), verifyEmail)
+router.post('/auth/resend-verification', verifyToken, resendVerificationEmail)
+
 // Password reset
 router.post('/forgot-password', forgotPassword)
 router.post('/reset-password', resetPassword)
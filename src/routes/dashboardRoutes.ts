@@ -1,10 +1,10 @@
 import express from "express";
 import { getDashboardStats } from "../controllers/dashboardController";
-import { verifyToken, requireAdmin } from "../middlewares/auth.middleware";
+import { verifyToken, requirePermission } from "../middlewares/auth.middleware";
 
 const router = express.Router();
 
-router.get("/", verifyToken, requireAdmin, getDashboardStats);
-router.get("/stats", verifyToken, requireAdmin, getDashboardStats);
+router.get("/", verifyToken, requirePermission("dashboard:read"), getDashboardStats);
+router.get("/stats", verifyToken, requirePermission("dashboard:read"), getDashboardStats);
 
 export default router;
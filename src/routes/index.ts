@@ -16,6 +16,14 @@ import teamRoutes from '../models/team/team.routes';
 import userManagementRoutes from '../models/user/user.routes';
 import orderRoutes from '../models/order/order.routes';
 import contactRoutes from '../models/contact/contact.routes';
+import couponRoutes from '../models/coupons/coupon.routes';
+import taxRoutes from '../models/tax/tax.routes';
+import currencyRoutes from '../models/currency/currency.routes';
+import paymentRoutes from '../models/payments/payment.routes';
+import emailTemplateRoutes from '../models/emailTemplates/emailTemplate.routes';
+import emailOutboxRoutes from '../models/emailOutbox/emailOutbox.routes';
+import quoteRoutes from '../models/quotes/quote.routes';
+import roleRoutes from '../models/roles/role.routes';
 
 // Home module routes
 import bannerRoutes from '../models/Home/Banner/banner.routes';
@@ -26,6 +34,9 @@ export const registerRoutes = (app: Express) => {
   // Core routes
   app.use('/api', adminRoutes);
   app.use('/api', authRoutes);
+  app.use('/api/admin/email-templates', emailTemplateRoutes);
+  app.use('/api/admin/email-outbox', emailOutboxRoutes);
+  app.use('/api/admin/roles', roleRoutes);
   app.use('/api/dashboard', dashboardRoutes);
 
   // User management
@@ -35,9 +46,14 @@ export const registerRoutes = (app: Express) => {
   app.use('/api/products', productRoutes);
   app.use('/api/products-module', productsRoutes);
   app.use('/api/orders', orderRoutes);
+  app.use('/api/quotes', quoteRoutes);
+  app.use('/api/coupons', couponRoutes);
+  app.use('/api/tax-rules', taxRoutes);
+  app.use('/api/payments', paymentRoutes);
 
   // Pricing
   app.use('/api/pricing', pricingRoutes);
+  app.use('/api/exchange-rates', currencyRoutes);
 
   // Portfolio & services
   app.use('/api/projects', projectsRoutes);
@@ -6,13 +6,14 @@ import {
   updateProduct,
   deleteProduct,
 } from '../controllers/productController'
+import { verifyToken, requirePermission, requireUser } from '../middlewares/auth.middleware'
 
 const router = Router()
 
 router.get('/', listProducts)
 router.get('/:id', getProduct)
-router.post('/', createProduct)
-router.put('/:id', updateProduct)
-router.delete('/:id', deleteProduct)
+router.post('/', verifyToken, requireUser, createProduct)
+router.put('/:id', verifyToken, requirePermission('catalog:manage'), updateProduct)
+router.delete('/:id', verifyToken, requirePermission('catalog:manage'), deleteProduct)
 
 export default router
@@ -5,12 +5,13 @@ import {
   updateUser,
   deleteUser,
 } from '../controllers/userController'
+import { verifyToken, requirePermission, requireSelfOrPermission } from '../middlewares/auth.middleware'
 
 const router = Router()
 
-router.get('/', listUsers)
-router.get('/:uid', getUser)
-router.put('/:uid', updateUser)
-router.delete('/:uid', deleteUser)
+router.get('/', verifyToken, requirePermission('users:read'), listUsers)
+router.get('/:uid', verifyToken, requireSelfOrPermission('users:read'), getUser)
+router.put('/:uid', verifyToken, requireSelfOrPermission('users:manage'), updateUser)
+router.delete('/:uid', verifyToken, requireSelfOrPermission('users:manage'), deleteUser)
 
 export default router
@@ -1,4 +1,8 @@
-import { connectDb, getProductsCollection } from './db'
+import dotenv from 'dotenv'
+dotenv.config()
+
+import { connectDB } from './config/db'
+import { StoreProduct } from './models/products/product.model'
 
 const dummyProducts = [
   {
@@ -95,11 +99,11 @@ const dummyProducts = [
 
 async function seedProducts() {
   try {
-    await connectDb()
-    console.log('Connected to database')
+    const db = await connectDB()
+    const productsCol = db.collection<StoreProduct>('products')
 
     // Clear existing products (optional)
-    const existingCount = await getProductsCollection().countDocuments()
+    const existingCount = await productsCol.countDocuments()
     console.log(`Found ${existingCount} existing products`)
 
     // Add timestamps to products
@@ -110,7 +114,7 @@ async function seedProducts() {
     }))
 
     // Insert dummy products
-    const result = await getProductsCollection().insertMany(productsWithTimestamps)
+    const result = await productsCol.insertMany(productsWithTimestamps)
     console.log(`✅ Successfully added ${result.insertedCount} dummy products!`)
 
     process.exit(0)
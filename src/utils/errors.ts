@@ -0,0 +1,108 @@
+/**
+ * Application errors
+ *
+ * Anything thrown from a route handler or middleware ends up in the central error
+ * handler (src/middlewares/error.middleware.ts). AppError and its subclasses are sent
+ * to the client as-is; any other error becomes a generic 500 so internal messages
+ * never leak.
+ *
+ * Every error response uses the same envelope:
+ *
+ *   { success: false, message: "Coupon has expired", code: "BAD_REQUEST", requestId: "…", details?: … }
+ */
+
+// Machine-readable code used when an error does not name a more specific one
+const STATUS_CODES: Record<number, string> = {
+  400: "BAD_REQUEST",
+  401: "UNAUTHORIZED",
+  402: "PAYMENT_REQUIRED",
+  403: "FORBIDDEN",
+  404: "NOT_FOUND",
+  405: "METHOD_NOT_ALLOWED",
+  409: "CONFLICT",
+  410: "GONE",
+  413: "PAYLOAD_TOO_LARGE",
+  422: "UNPROCESSABLE_ENTITY",
+  423: "LOCKED",
+  429: "TOO_MANY_REQUESTS",
+  500: "INTERNAL_ERROR",
+  502: "BAD_GATEWAY",
+  503: "SERVICE_UNAVAILABLE",
+};
+
+export function errorCodeForStatus(statusCode: number): string {
+  return STATUS_CODES[statusCode] || (statusCode >= 500 ? "INTERNAL_ERROR" : "BAD_REQUEST");
+}
+
+export class AppError extends Error {
+  statusCode: number;
+  code: string;
+  details?: any;
+
+  constructor(message: string, statusCode = 500, code?: string, details?: any) {
+    super(message);
+    this.name = "AppError";
+    this.statusCode = statusCode;
+    this.code = code || errorCodeForStatus(statusCode);
+    this.details = details;
+  }
+}
+
+export class BadRequestError extends AppError {
+  constructor(message = "Bad request", code = "BAD_REQUEST", details?: any) {
+    super(message, 400, code, details);
+    this.name = "BadRequestError";
+  }
+}
+
+export class ValidationError extends AppError {
+  constructor(details: { path: string; message: string }[], message = "Validation failed") {
+    super(message, 400, "VALIDATION_FAILED", details);
+    this.name = "ValidationError";
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(message = "Authentication required", code = "UNAUTHORIZED") {
+    super(message, 401, code);
+    this.name = "UnauthorizedError";
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message = "You do not have permission to perform this action", code = "FORBIDDEN") {
+    super(message, 403, code);
+    this.name = "ForbiddenError";
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message = "Resource not found", code = "NOT_FOUND") {
+    super(message, 404, code);
+    this.name = "NotFoundError";
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message: string, code = "CONFLICT") {
+    super(message, 409, code);
+    this.name = "ConflictError";
+  }
+}
+
+export class TooManyRequestsError extends AppError {
+  retryAfterSeconds?: number;
+
+  constructor(message = "Too many requests. Please try again later.", retryAfterSeconds?: number, code = "TOO_MANY_REQUESTS") {
+    super(message, 429, code);
+    this.name = "TooManyRequestsError";
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+export class ServiceUnavailableError extends AppError {
+  constructor(message = "Service temporarily unavailable", code = "SERVICE_UNAVAILABLE") {
+    super(message, 503, code);
+    this.name = "ServiceUnavailableError";
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * Declarative request schemas
+ *
+ * A schema both checks an incoming value and returns the cleaned value: strings are
+ * trimmed, query/param strings can be coerced to numbers and booleans, defaults are
+ * filled in and, for objects, unknown keys are rejected. Issues are collected with the
+ * full path of the offending field (e.g. "body.location.city") instead of stopping at
+ * the first one.
+ *
+ * `s.object<T>()` requires a validator for every key of T and nothing else, so a schema
+ * written against a model interface stops compiling when the interface changes.
+ */
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+type Parser<T> = (value: unknown, path: string, issues: ValidationIssue[]) => T;
+
+const isMissing = (value: unknown) => value === undefined || value === null;
+
+const joinPath = (path: string, key: string | number) => {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+};
+
+export class Schema<T> {
+  constructor(protected readonly parser: Parser<T>) {}
+
+  // Check a value, appending problems to `issues`. The result is only meaningful when no issue was added.
+  parse(value: unknown, path: string, issues: ValidationIssue[]): T {
+    return this.parser(value, path, issues);
+  }
+
+  optional(): Schema<T | undefined> {
+    return new Schema((value, path, issues) => (isMissing(value) ? undefined : this.parser(value, path, issues)));
+  }
+
+  nullable(): Schema<T | null> {
+    return new Schema((value, path, issues) => {
+      if (value === null) return null;
+      return this.parser(value, path, issues);
+    });
+  }
+
+  // Use `fallback` when the value is missing
+  default(fallback: T | (() => T)): Schema<T> {
+    return new Schema((value, path, issues) => {
+      if (!isMissing(value)) return this.parser(value, path, issues);
+      return typeof fallback === "function" ? (fallback as () => T)() : fallback;
+    });
+  }
+
+  refine(check: (value: T) => boolean, message: string): Schema<T> {
+    return new Schema((value, path, issues) => {
+      const before = issues.length;
+      const result = this.parser(value, path, issues);
+      if (issues.length === before && !check(result)) issues.push({ path, message });
+      return result;
+    });
+  }
+}
+
+// Required parser: a missing value is reported once, everything else goes to `check`
+const required = <T>(check: Parser<T>): Parser<T> => (value, path, issues) => {
+  if (isMissing(value)) {
+    issues.push({ path, message: "is required" });
+    return value as T;
+  }
+  return check(value, path, issues);
+};
+
+export type Shape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+export class ObjectSchema<T> extends Schema<T> {
+  constructor(readonly shape: Shape<T>, private readonly unknownKeys: "reject" | "strip" = "reject") {
+    super(required((value, path, issues) => {
+      if (typeof value !== "object" || Array.isArray(value)) {
+        issues.push({ path, message: "must be an object" });
+        return value as T;
+      }
+
+      const input = value as Record<string, unknown>;
+      const result: Record<string, unknown> = {};
+
+      for (const key of Object.keys(shape) as (keyof T & string)[]) {
+        const parsed = shape[key].parse(input[key], joinPath(path, key), issues);
+        if (parsed !== undefined) result[key] = parsed;
+      }
+
+      if (unknownKeys === "reject") {
+        for (const key of Object.keys(input)) {
+          if (!(key in shape)) issues.push({ path: joinPath(path, key), message: "is not allowed" });
+        }
+      }
+
+      return result as T;
+    }));
+  }
+
+  // Same fields, all optional and without defaults - for PATCH-style updates
+  partial(): ObjectSchema<Partial<T>> {
+    const shape: Record<string, Schema<unknown>> = {};
+    for (const key of Object.keys(this.shape)) {
+      const field = (this.shape as Record<string, Schema<unknown>>)[key];
+      shape[key] = new Schema((value, path, issues) => (value === undefined ? undefined : field.parse(value, path, issues)));
+    }
+    return new ObjectSchema(shape as Shape<Partial<T>>, this.unknownKeys);
+  }
+
+  // partial() that also rejects a body with nothing to update
+  patch(): Schema<Partial<T>> {
+    return this.partial().refine((value) => Object.keys(value).length > 0, "must contain at least one field to update");
+  }
+
+  // Drop unknown keys instead of reporting them (query strings often carry extra parameters)
+  strip(): ObjectSchema<T> {
+    return new ObjectSchema(this.shape, "strip");
+  }
+}
+
+interface StringOptions {
+  min?: number;
+  max?: number;
+  pattern?: RegExp;
+  patternMessage?: string;
+  trim?: boolean; // Default true
+}
+
+interface NumberOptions {
+  min?: number;
+  max?: number;
+  integer?: boolean;
+  coerce?: boolean; // Accept numeric strings (query strings and route params)
+}
+
+const OBJECT_ID_PATTERN = /^[a-f\d]{24}$/i;
+
+export const s = {
+  string(options: StringOptions = {}): Schema<string> {
+    return new Schema(required((value, path, issues) => {
+      if (typeof value !== "string") {
+        issues.push({ path, message: "must be a string" });
+        return value as string;
+      }
+      const result = options.trim === false ? value : value.trim();
+      if (options.min !== undefined && result.length < options.min) {
+        issues.push({ path, message: options.min === 1 ? "must not be empty" : `must be at least ${options.min} characters` });
+      } else if (options.max !== undefined && result.length > options.max) {
+        issues.push({ path, message: `must be at most ${options.max} characters` });
+      } else if (options.pattern && !options.pattern.test(result)) {
+        issues.push({ path, message: options.patternMessage || "has an invalid format" });
+      }
+      return result;
+    }));
+  },
+
+  number(options: NumberOptions = {}): Schema<number> {
+    return new Schema(required((value, path, issues) => {
+      const result = options.coerce && typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+      if (typeof result !== "number" || !Number.isFinite(result)) {
+        issues.push({ path, message: "must be a number" });
+        return result as number;
+      }
+      if (options.integer && !Number.isInteger(result)) {
+        issues.push({ path, message: "must be an integer" });
+      } else if (options.min !== undefined && result < options.min) {
+        issues.push({ path, message: `must be at least ${options.min}` });
+      } else if (options.max !== undefined && result > options.max) {
+        issues.push({ path, message: `must be at most ${options.max}` });
+      }
+      return result;
+    }));
+  },
+
+  boolean(options: { coerce?: boolean } = {}): Schema<boolean> {
+    return new Schema(required((value, path, issues) => {
+      if (options.coerce && (value === "true" || value === "false")) return value === "true";
+      if (typeof value !== "boolean") {
+        issues.push({ path, message: "must be true or false" });
+      }
+      return value as boolean;
+    }));
+  },
+
+  enum<const V extends readonly string[]>(values: V): Schema<V[number]> {
+    return new Schema(required((value, path, issues) => {
+      if (typeof value !== "string" || !values.includes(value)) {
+        issues.push({ path, message: `must be one of: ${values.join(", ")}` });
+      }
+      return value as V[number];
+    }));
+  },
+
+  // 24 character hex string; controllers still build the ObjectId themselves
+  objectId(): Schema<string> {
+    return s.string({ pattern: OBJECT_ID_PATTERN, patternMessage: "must be a valid ID" });
+  },
+
+  email(): Schema<string> {
+    return new Schema(required((value, path, issues) => {
+      const result = s.string({ max: 254, pattern: /^[^\s@]+@[^\s@]+\.[^\s@]+$/, patternMessage: "must be a valid email address" })
+        .parse(value, path, issues);
+      return typeof result === "string" ? result.toLowerCase() : result;
+    }));
+  },
+
+  url(): Schema<string> {
+    return s.string({ max: 2048, pattern: /^(https?:\/\/|\/)\S*$/i, patternMessage: "must be an http(s) URL or a path" });
+  },
+
+  array<T>(item: Schema<T>, options: { min?: number; max?: number } = {}): Schema<T[]> {
+    return new Schema(required((value, path, issues) => {
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: "must be an array" });
+        return value as T[];
+      }
+      if (options.min !== undefined && value.length < options.min) {
+        issues.push({ path, message: `must contain at least ${options.min} item(s)` });
+      } else if (options.max !== undefined && value.length > options.max) {
+        issues.push({ path, message: `must contain at most ${options.max} item(s)` });
+      }
+      return value.map((entry, index) => item.parse(entry, joinPath(path, index), issues));
+    }));
+  },
+
+  // Array that also accepts a single value or a comma separated string (?tags=a,b or ?tags=a&tags=b)
+  list<T>(item: Schema<T>, options: { max?: number } = {}): Schema<T[]> {
+    return new Schema(required((value, path, issues) => {
+      const values = Array.isArray(value)
+        ? value
+        : typeof value === "string" ? value.split(",").filter((entry) => entry.trim() !== "") : [value];
+      return s.array(item, options).parse(values, path, issues);
+    }));
+  },
+
+  object<T>(shape: Shape<T>): ObjectSchema<T> {
+    return new ObjectSchema(shape);
+  },
+
+  // Object with arbitrary keys, e.g. amounts keyed by currency ({ "USD": 100 })
+  record<T>(key: Schema<string>, value: Schema<T>): Schema<Record<string, T>> {
+    return new Schema(required((input, path, issues) => {
+      if (typeof input !== "object" || Array.isArray(input)) {
+        issues.push({ path, message: "must be an object" });
+        return input as Record<string, T>;
+      }
+      const result: Record<string, T> = {};
+      for (const [entryKey, entryValue] of Object.entries(input as Record<string, unknown>)) {
+        const entryPath = joinPath(path, entryKey);
+        result[key.parse(entryKey, entryPath, issues)] = value.parse(entryValue, entryPath, issues);
+      }
+      return result;
+    }));
+  },
+};
@@ -0,0 +1,29 @@
+/**
+ * Signing and encryption keys read from the environment
+ *
+ * Several features derive their key from a dedicated variable and fall back to
+ * JWT_SECRET. When none of them is set, production refuses to start rather than sign
+ * with a value anyone can read in this repository; other environments log a warning
+ * and use a development-only default.
+ */
+
+const DEVELOPMENT_SECRET = "dev-secret";
+
+/**
+ * The first configured secret among `names`, e.g. resolveSecret("EMAIL_VERIFICATION_SECRET", "JWT_SECRET").
+ */
+export const resolveSecret = (...names: string[]): string => {
+  for (const name of names) {
+    const value = process.env[name];
+    if (value) return value;
+  }
+
+  const description = names.join(" or ");
+  if (process.env.NODE_ENV === "production") {
+    throw new Error(`${description} must be set in production`);
+  }
+
+  // eslint-disable-next-line no-console
+  console.warn(`Warning: ${description} is not set; using a development-only default. Set it in production.`);
+  return DEVELOPMENT_SECRET;
+};
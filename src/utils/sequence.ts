@@ -0,0 +1,155 @@
+import { getDB } from "../config/db";
+
+/**
+ * Sequence service for human readable document numbers (orders, quotes, invoices)
+ *
+ * Counters live in the `counters` collection and are incremented atomically, so
+ * concurrent requests never receive the same number.
+ */
+
+export type SequenceType = "order" | "quote" | "invoice";
+
+interface SequenceCounter {
+  _id: string;
+  seq: number;
+  updatedAt: Date;
+}
+
+interface SequenceConfig {
+  prefix: string;
+  template: string;
+}
+
+// Supported tokens: {PREFIX}, {YYYY}, {YY}, {SEQ} and {SEQ:n} (zero padded to n digits)
+const DEFAULT_TEMPLATE = "{PREFIX}-{YYYY}-{SEQ:4}";
+
+const SEQUENCE_CONFIGS: Record<SequenceType, SequenceConfig> = {
+  order: {
+    prefix: process.env.ORDER_NUMBER_PREFIX || "ORD",
+    template: process.env.ORDER_NUMBER_FORMAT || DEFAULT_TEMPLATE,
+  },
+  quote: {
+    prefix: process.env.QUOTE_NUMBER_PREFIX || "QUO",
+    template: process.env.QUOTE_NUMBER_FORMAT || DEFAULT_TEMPLATE,
+  },
+  invoice: {
+    prefix: process.env.INVOICE_NUMBER_PREFIX || "INV",
+    template: process.env.INVOICE_NUMBER_FORMAT || DEFAULT_TEMPLATE,
+  },
+};
+
+const getCountersCollection = () => getDB().collection<SequenceCounter>("counters");
+
+/**
+ * Render a number template with the given prefix, date and sequence value
+ */
+export function formatSequenceNumber(template: string, prefix: string, seq: number, date: Date = new Date()): string {
+  const year = String(date.getFullYear());
+
+  return template
+    .replace(/\{PREFIX\}/g, prefix)
+    .replace(/\{YYYY\}/g, year)
+    .replace(/\{YY\}/g, year.slice(-2))
+    .replace(/\{SEQ(?::(\d+))?\}/g, (_match, width?: string) =>
+      width ? String(seq).padStart(Number(width), "0") : String(seq)
+    );
+}
+
+/**
+ * Counter key for a prefix. Templates containing the year get a fresh counter every year.
+ */
+function getCounterKey(config: SequenceConfig, date: Date): string {
+  const isYearly = /\{YYYY\}|\{YY\}/.test(config.template);
+  return isYearly ? `${config.prefix}-${date.getFullYear()}` : config.prefix;
+}
+
+/**
+ * Atomically increment and return the next value for a counter.
+ * `seed` is called only when the counter does not exist yet, so numbering can
+ * continue from documents issued before the counter was introduced.
+ */
+export async function getNextSequenceValue(key: string, seed?: () => Promise<number>): Promise<number> {
+  const counters = getCountersCollection();
+
+  if (seed && !(await counters.findOne({ _id: key }))) {
+    const start = await seed();
+    try {
+      await counters.updateOne(
+        { _id: key },
+        { $setOnInsert: { seq: start, updatedAt: new Date() } },
+        { upsert: true }
+      );
+    } catch (error: any) {
+      // Another request created the counter first - that is fine
+      if (error?.code !== 11000) throw error;
+    }
+  }
+
+  const counter = await counters.findOneAndUpdate(
+    { _id: key },
+    { $inc: { seq: 1 }, $set: { updatedAt: new Date() } },
+    { upsert: true, returnDocument: "after" }
+  );
+
+  if (!counter) {
+    throw new Error(`Failed to increment sequence "${key}"`);
+  }
+
+  return counter.seq;
+}
+
+/**
+ * Issue the next number for a document type, e.g. ORD-2026-0042
+ */
+export async function generateSequenceNumber(
+  type: SequenceType,
+  options: { seed?: (date: Date) => Promise<number>; date?: Date } = {}
+): Promise<string> {
+  const config = SEQUENCE_CONFIGS[type];
+  const date = options.date || new Date();
+  const key = getCounterKey(config, date);
+
+  const seq = await getNextSequenceValue(
+    key,
+    options.seed ? () => options.seed!(date) : undefined
+  );
+
+  return formatSequenceNumber(config.template, config.prefix, seq, date);
+}
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Highest sequence value already used in `collection.field` for numbers issued
+ * with the given type's template. Used to seed counters for existing data.
+ */
+export async function findHighestIssuedSequence(
+  type: SequenceType,
+  collection: string,
+  field: string,
+  date: Date = new Date()
+): Promise<number> {
+  const config = SEQUENCE_CONFIGS[type];
+
+  // Turn the template into a regex that captures the sequence part
+  const pattern = new RegExp(
+    "^" +
+      config.template
+        .split(/\{SEQ(?::\d+)?\}/)
+        .map((part) => escapeRegex(formatSequenceNumber(part, config.prefix, 0, date)))
+        .join("(\\d+)") +
+      "$"
+  );
+
+  const docs = await getDB()
+    .collection(collection)
+    .find({ [field]: pattern }, { projection: { [field]: 1 } })
+    .toArray();
+
+  // Compare numerically - lexicographic order breaks once numbers outgrow the padding
+  return docs.reduce((max, doc) => {
+    const match = String(doc[field]).match(pattern);
+    const value = match && match[1] ? parseInt(match[1], 10) : 0;
+    return value > max ? value : max;
+  }, 0);
+}
@@ -0,0 +1,90 @@
+import { describe, it, mock, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { ObjectId } from "mongodb";
+import { EMAIL_VERIFICATION_TTL_HOURS, createEmailVerificationToken, verifyEmailToken } from "../src/models/auth/emailVerification.engine";
+import { BadRequestError } from "../src/utils/errors";
+
+// A users collection holding one account
+const stubDb = (user: any) => {
+    const users = {
+        findOne: async (filter: any) => (filter.firebaseUid === user.firebaseUid ? user : null),
+        findOneAndUpdate: async (filter: any, update: any) => {
+            if (filter.status !== user.status) return null;
+            Object.assign(user, update.$set);
+            return user;
+        }
+    };
+    return { collection: () => users } as any;
+};
+
+const pendingUser = () => ({ _id: new ObjectId(), firebaseUid: "uid-1", email: "ada@example.com", status: "pending" });
+
+const invalidLink = (error: any) => error instanceof BadRequestError && error.code === "INVALID_VERIFICATION_TOKEN";
+
+describe("email verification tokens", () => {
+    afterEach(() => mock.restoreAll());
+
+    it("activates the pending account", async () => {
+        const user = pendingUser();
+        const verified = await verifyEmailToken(stubDb(user), createEmailVerificationToken(user.firebaseUid, user.email));
+
+        assert.equal(verified.status, "active");
+        assert.ok(verified.emailVerifiedAt instanceof Date);
+    });
+
+    it("can be used again once the account is active", async () => {
+        const user = pendingUser();
+        const token = createEmailVerificationToken(user.firebaseUid, user.email);
+        await verifyEmailToken(stubDb(user), token);
+
+        const again = await verifyEmailToken(stubDb(user), token);
+        assert.equal(again.status, "active");
+    });
+
+    it("does not lift a suspension", async () => {
+        const user = { ...pendingUser(), status: "suspended" };
+        const result = await verifyEmailToken(stubDb(user), createEmailVerificationToken(user.firebaseUid, user.email));
+        assert.equal(result.status, "suspended");
+    });
+
+    it("stops working once the email address changes", async () => {
+        const user = pendingUser();
+        const token = createEmailVerificationToken(user.firebaseUid, user.email);
+        user.email = "someone-else@example.com";
+
+        await assert.rejects(verifyEmailToken(stubDb(user), token), invalidLink);
+        assert.equal(user.status, "pending");
+    });
+
+    it("rejects a tampered signature or expiry", async () => {
+        const user = pendingUser();
+        const [uid, expiry, signature] = createEmailVerificationToken(user.firebaseUid, user.email).split(".");
+
+        await assert.rejects(verifyEmailToken(stubDb(user), `${uid}.${expiry}.${signature.slice(0, -2)}xx`), invalidLink);
+        await assert.rejects(verifyEmailToken(stubDb(user), `${uid}.${Number(expiry) + 60_000}.${signature}`), invalidLink);
+    });
+
+    it("rejects a token signed for another account", async () => {
+        const user = pendingUser();
+        const [, expiry, signature] = createEmailVerificationToken("uid-2", user.email).split(".");
+        const forged = `${Buffer.from(user.firebaseUid).toString("base64url")}.${expiry}.${signature}`;
+
+        await assert.rejects(verifyEmailToken(stubDb(user), forged), invalidLink);
+    });
+
+    it("expires", async () => {
+        const user = pendingUser();
+        const token = createEmailVerificationToken(user.firebaseUid, user.email);
+        const later = Date.now() + (EMAIL_VERIFICATION_TTL_HOURS + 1) * 60 * 60 * 1000;
+        mock.method(Date, "now", () => later);
+
+        await assert.rejects(verifyEmailToken(stubDb(user), token), invalidLink);
+    });
+
+    it("rejects malformed tokens", async () => {
+        const user = pendingUser();
+        for (const token of ["", "abc", "a.b.c", "..."]) {
+            await assert.rejects(verifyEmailToken(stubDb(user), token), invalidLink);
+        }
+    });
+});
@@ -0,0 +1,30 @@
+import { describe, it, mock, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { resolvePermissions } from "../src/middlewares/auth.middleware";
+import * as userStore from "../src/models/user/user.store";
+import * as roleEngine from "../src/models/roles/role.engine";
+import * as db from "../src/config/db";
+
+describe("role resolution", () => {
+    afterEach(() => mock.restoreAll());
+
+    const stubRoles = (storedRole: string | null) => {
+        mock.method(db, "getDB", () => ({}) as any);
+        mock.method(userStore, "findUserByIdentifier", async () => (storedRole ? { role: storedRole } : null) as any);
+        mock.method(roleEngine, "getRolePermissions", async (_db: unknown, role: string) => (role === "admin" ? ["*"] : [`role:${role}`]));
+    };
+
+    it("uses the role stored on the profile", async () => {
+        stubRoles("editor");
+        const req: any = { firebaseUser: { uid: "u1" } };
+        assert.deepEqual(await resolvePermissions(req), ["role:editor"]);
+        assert.equal(req.user.role, "editor");
+    });
+
+    it("ignores admin and role claims on the token", async () => {
+        stubRoles(null);
+        const req: any = { firebaseUser: { uid: "u1", admin: true, role: "admin" } };
+        assert.deepEqual(await resolvePermissions(req), ["role:user"]);
+        assert.equal(req.user.role, "user");
+    });
+});
@@ -0,0 +1,79 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { AddressInfo } from "node:net";
+import express from "express";
+import { assertNotThrottled, recordAuthAttempt } from "../src/models/auth/throttle.engine";
+import { getClientIp } from "../src/models/contact/contact.spam";
+import { errorHandler } from "../src/middlewares/error.middleware";
+
+// Just enough of the authAttempts collection to count attempts per scope and key
+const stubDb = () => {
+    const records = new Map<string, any>();
+    const collection = {
+        find: (filter: any) => ({
+            toArray: async () => [...records.values()].filter((record) =>
+                record.action === filter.action &&
+                filter.$or.some((entry: any) => entry.scope === record.scope && entry.key === record.key)
+            )
+        }),
+        findOneAndUpdate: async ({ action, scope, key }: any) => {
+            const id = `${action}:${scope}:${key}`;
+            const record = records.get(id) || { action, scope, key, attempts: 0 };
+            record.attempts += 1;
+            record.lastAttemptAt = new Date();
+            record.expiresAt = new Date(Date.now() + 60 * 60 * 1000);
+            records.set(id, record);
+            return { ...record };
+        }
+    };
+    return { db: { collection: () => collection } as any, records };
+};
+
+// Every sign-in fails, the way the login controller counts a wrong password
+const loginApp = (db: any) => {
+    const app = express();
+    // The test client plays the proxy: it connects over loopback and appends the caller's address
+    app.set("trust proxy", "loopback");
+    app.use(express.json());
+    app.post("/login", async (req, res) => {
+        const throttle = { account: req.body.email, ip: getClientIp(req) };
+        await assertNotThrottled(db, "login", throttle);
+        await recordAuthAttempt(db, "login", throttle);
+        res.status(401).json({ code: "INVALID_CREDENTIALS" });
+    });
+    app.use(errorHandler);
+    return app;
+};
+
+describe("login throttling per IP", () => {
+    it("keeps counting when the caller forges X-Forwarded-For", async () => {
+        const { db, records } = stubDb();
+        const server = loginApp(db).listen(0);
+        const { port } = server.address() as AddressInfo;
+
+        try {
+            const statuses: number[] = [];
+            for (let attempt = 1; attempt <= 4; attempt++) {
+                const res = await fetch(`http://127.0.0.1:${port}/login`, {
+                    method: "POST",
+                    headers: {
+                        "Content-Type": "application/json",
+                        // A fresh made-up address every time, followed by the one the proxy saw
+                        "X-Forwarded-For": `10.0.0.${attempt}, 203.0.113.7`
+                    },
+                    body: JSON.stringify({ email: `user-${attempt}@example.com`, password: "wrong" })
+                });
+                statuses.push(res.status);
+            }
+
+            const ipRecords = [...records.values()].filter((record) => record.scope === "ip");
+            assert.deepEqual(ipRecords.map((record) => record.key), ["203.0.113.7"]);
+            assert.equal(ipRecords[0].attempts, 3);
+            // The progressive delay on the real address still applies to the fourth attempt
+            assert.deepEqual(statuses, [401, 401, 401, 429]);
+        } finally {
+            server.closeAllConnections();
+            server.close();
+        }
+    });
+});
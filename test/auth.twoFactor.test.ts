@@ -0,0 +1,77 @@
+import { describe, it, mock, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import type * as AuthMiddleware from "../src/middlewares/auth.middleware";
+import * as userStore from "../src/models/user/user.store";
+import { ForbiddenError } from "../src/utils/errors";
+
+// The policy is read when the module loads
+process.env.ADMIN_2FA_REQUIRED = "true";
+const { requirePermission, userHasPermission } = require("../src/middlewares/auth.middleware") as typeof AuthMiddleware;
+
+// Staff member whose permissions are already resolved, so no role lookup is needed
+const staffRequest = (caller: { sessionUser?: any; firebaseUser?: any }): any => ({
+    ...caller,
+    params: {},
+    user: { ...(caller.sessionUser || caller.firebaseUser), permissions: ["orders:read"] }
+});
+
+const responseStub = () => {
+    const res: any = { statusCode: 200, body: undefined };
+    res.status = (code: number) => ((res.statusCode = code), res);
+    res.json = (body: any) => ((res.body = body), res);
+    return res;
+};
+
+// Run the middleware and report what it passed to next()
+const run = async (req: any, ...permissions: Parameters<typeof requirePermission>) => {
+    const res = responseStub();
+    let nextArg: unknown = "not called";
+    await requirePermission(...permissions)(req, res, (arg?: unknown) => { nextArg = arg; });
+    return { res, nextArg };
+};
+
+const enrolled = () => mock.method(userStore, "findUserByIdentifier", async () => ({ twoFactor: { enabled: true } }) as any);
+const notEnrolled = () => mock.method(userStore, "findUserByIdentifier", async () => ({}) as any);
+
+describe("two-factor policy on permission checks", () => {
+    afterEach(() => mock.restoreAll());
+
+    it("lets a session that passed the second factor through", async () => {
+        const { nextArg } = await run(staffRequest({ sessionUser: { uid: "staff-1", twoFactorVerified: true } }), "orders:read");
+        assert.equal(nextArg, undefined);
+    });
+
+    it("asks for the code when the session skipped it", async () => {
+        enrolled();
+        const { nextArg } = await run(staffRequest({ sessionUser: { uid: "staff-1", twoFactorVerified: false } }), "orders:read");
+        assert.ok(nextArg instanceof ForbiddenError);
+        assert.equal(nextArg.code, "TWO_FACTOR_REQUIRED");
+    });
+
+    it("asks staff without two-factor to set it up", async () => {
+        notEnrolled();
+        const { nextArg } = await run(staffRequest({ sessionUser: { uid: "staff-1" } }), "orders:read");
+        assert.ok(nextArg instanceof ForbiddenError);
+        assert.equal(nextArg.code, "TWO_FACTOR_SETUP_REQUIRED");
+    });
+
+    it("never accepts Bearer tokens, which are issued after the password alone", async () => {
+        enrolled();
+        const { nextArg } = await run(staffRequest({ firebaseUser: { uid: "staff-1", twoFactorVerified: true } }), "orders:read");
+        assert.ok(nextArg instanceof ForbiddenError);
+        assert.equal(nextArg.code, "TWO_FACTOR_REQUIRED");
+    });
+
+    it("still refuses missing permissions first", async () => {
+        const { res, nextArg } = await run(staffRequest({ sessionUser: { uid: "staff-1", twoFactorVerified: true } }), "orders:write");
+        assert.equal(nextArg, "not called");
+        assert.equal(res.statusCode, 403);
+        assert.deepEqual(res.body.missing, ["orders:write"]);
+    });
+
+    it("applies to permission checks inside controllers", async () => {
+        assert.equal(await userHasPermission(staffRequest({ sessionUser: { uid: "staff-1", twoFactorVerified: true } }), "orders:read"), true);
+        assert.equal(await userHasPermission(staffRequest({ sessionUser: { uid: "staff-1" } }), "orders:read"), false);
+        assert.equal(await userHasPermission(staffRequest({ firebaseUser: { uid: "staff-1" } }), "orders:read"), false);
+    });
+});
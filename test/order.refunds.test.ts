@@ -0,0 +1,122 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createRefund, recordProviderRefund, settleRefund } from "../src/models/order/order.refunds";
+
+// Orders collection understanding the filters and updates used by the refund ledger
+const stubDb = (order: any) => {
+    const refunds = () => order.payment.refunds || [];
+    const findRefund = (elemMatch: any) => refunds().find((refund: any) =>
+        Object.entries(elemMatch).every(([key, value]) => refund[key] === value)
+    );
+
+    const matches = (filter: any): boolean => {
+        if (filter._id && filter._id !== order._id) return false;
+        if (filter["payment.status"]?.$in && !filter["payment.status"].$in.includes(order.payment.status)) return false;
+        const refunded = filter["payment.refundedAmount"];
+        if (refunded?.$exists === false && order.payment.refundedAmount !== undefined) return false;
+        if (typeof refunded === "number" && order.payment.refundedAmount !== refunded) return false;
+        const reference = filter["payment.refunds.providerReference"];
+        if (reference?.$ne && refunds().some((refund: any) => refund.providerReference === reference.$ne)) return false;
+        const elemMatch = filter["payment.refunds"]?.$elemMatch;
+        if (elemMatch && !findRefund(elemMatch)) return false;
+        return true;
+    };
+
+    const apply = (filter: any, update: any) => {
+        const positional = filter["payment.refunds"]?.$elemMatch && findRefund(filter["payment.refunds"].$elemMatch);
+        for (const [path, value] of Object.entries(update.$set || {})) {
+            if (path.startsWith("payment.refunds.$.")) positional[path.slice("payment.refunds.$.".length)] = value;
+            else if (path.startsWith("payment.")) order.payment[path.slice("payment.".length)] = value;
+        }
+        if (update.$push?.["payment.refunds"]) order.payment.refunds = [...refunds(), update.$push["payment.refunds"]];
+    };
+
+    const orders = {
+        findOne: async () => structuredClone(order),
+        findOneAndUpdate: async (filter: any, update: any) => {
+            if (!matches(filter)) return null;
+            apply(filter, update);
+            return structuredClone(order);
+        },
+        updateOne: async (filter: any, update: any) => {
+            if (!matches(filter)) return { matchedCount: 0, modifiedCount: 0 };
+            apply(filter, update);
+            return { matchedCount: 1, modifiedCount: 1 };
+        }
+    };
+    return { collection: () => orders } as any;
+};
+
+const paidOrder = () => ({
+    _id: "order-1", // A string survives structuredClone, unlike ObjectId
+    orderNumber: "ORD-2026-0001",
+    pricing: { grandTotal: 100, currency: "USD" },
+    payment: { status: "paid", provider: "manual", providerReference: "man_1" } as any
+});
+
+describe("refund ledger", () => {
+    it("records the provider reference before the provider confirms the refund", async () => {
+        const order = paidOrder();
+        const { refund } = await createRefund(stubDb(order), structuredClone(order) as any, {
+            amount: 40,
+            reason: "Damaged",
+            refundedBy: { role: "admin" }
+        });
+
+        assert.equal(refund.status, "pending");
+        assert.ok(refund.providerReference);
+        assert.equal(order.payment.refundedAmount, 40);
+        assert.equal(order.payment.status, "partially_refunded");
+    });
+
+    it("confirms the pending entry instead of recording the webhook as a second refund", async () => {
+        const order = paidOrder();
+        const db = stubDb(order);
+        const { refund } = await createRefund(db, structuredClone(order) as any, { amount: 40, reason: "Damaged", refundedBy: { role: "admin" } });
+
+        const event = { refundReference: refund.providerReference, amount: 40 };
+        assert.equal(await recordProviderRefund(db, structuredClone(order) as any, "manual", event), "applied");
+        assert.equal(await recordProviderRefund(db, structuredClone(order) as any, "manual", event), "ignored");
+
+        assert.equal(order.payment.refunds.length, 1);
+        assert.equal(order.payment.refunds[0].status, "succeeded");
+        assert.equal(order.payment.refundedAmount, 40);
+    });
+
+    it("de-duplicates a webhook that read the order before the refund was recorded", async () => {
+        const order = paidOrder();
+        const db = stubDb(order);
+        const staleOrder = structuredClone(order) as any;
+        const { refund } = await createRefund(db, structuredClone(order) as any, { amount: 40, reason: "Damaged", refundedBy: { role: "admin" } });
+
+        const result = await recordProviderRefund(db, staleOrder, "manual", { refundReference: refund.providerReference, amount: 40 });
+
+        assert.equal(result, "applied");
+        assert.equal(order.payment.refunds.length, 1);
+        assert.equal(order.payment.refundedAmount, 40);
+    });
+
+    it("records refunds issued in the provider's dashboard once", async () => {
+        const order = paidOrder();
+        const db = stubDb(order);
+        const event = { refundReference: "dashboard_ref", amount: 100 };
+
+        assert.equal(await recordProviderRefund(db, structuredClone(order) as any, "manual", event), "applied");
+        assert.equal(await recordProviderRefund(db, structuredClone(order) as any, "manual", event), "ignored");
+        assert.equal(order.payment.refunds.length, 1);
+        assert.equal(order.payment.status, "refunded");
+    });
+
+    it("lets an admin settle a pending manual refund", async () => {
+        const order = paidOrder();
+        const db = stubDb(order);
+        const { refund } = await createRefund(db, structuredClone(order) as any, { amount: 40, reason: "Damaged", refundedBy: { role: "admin" } });
+
+        const failed = await settleRefund(db, structuredClone(order) as any, refund.id, { status: "failed", failureReason: "Wallet closed" });
+
+        assert.equal(failed.refund.status, "failed");
+        assert.equal(order.payment.refundedAmount, 0);
+        assert.equal(order.payment.status, "paid");
+        await assert.rejects(settleRefund(db, structuredClone(order) as any, refund.id, { status: "succeeded" }), { statusCode: 409 });
+    });
+});
@@ -0,0 +1,153 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ObjectId } from "mongodb";
+import { createHmacProvider, signWebhookPayload, SIGNATURE_HEADER } from "../src/models/payments/providers/hmac.provider";
+import { processWebhookEvent } from "../src/models/payments/payment.engine";
+import { PaymentProviderError, WebhookRequest } from "../src/models/payments/payment.model";
+
+const SECRET = "test-webhook-secret";
+const provider = createHmacProvider({ name: "webhook", secret: SECRET });
+
+const webhookRequest = (body: any, options: { secret?: string; timestamp?: number; rawBody?: string } = {}): WebhookRequest => {
+    const payload = JSON.stringify(body);
+    return {
+        headers: { [SIGNATURE_HEADER]: signWebhookPayload(options.secret || SECRET, payload, options.timestamp) },
+        rawBody: Buffer.from(options.rawBody ?? payload),
+        body
+    };
+};
+
+// Collections that record every filter they are queried with
+const stubDb = (orders: any[]) => {
+    const orderQueries: any[] = [];
+    const db: any = {
+        collection: (name: string) => {
+            if (name === "paymentEvents") {
+                return {
+                    insertOne: async () => ({ insertedId: new ObjectId() }),
+                    updateOne: async () => ({ modifiedCount: 1 }),
+                    deleteOne: async () => ({ deletedCount: 1 })
+                };
+            }
+            return {
+                findOne: async (filter: any) => {
+                    orderQueries.push(filter);
+                    return orders.find((order) =>
+                        order.payment.provider === filter["payment.provider"] &&
+                        order.payment.providerReference === filter["payment.providerReference"]
+                    ) || null;
+                }
+            };
+        }
+    };
+    return { db, orderQueries };
+};
+
+describe("HMAC webhook signatures", () => {
+    const body = { id: "evt_1", type: "payment.succeeded", data: { reference: "pay_1", amount: 100 } };
+
+    it("accepts a correctly signed delivery", () => {
+        const event = provider.verifyWebhook(webhookRequest(body));
+        assert.equal(event.eventId, "evt_1");
+        assert.equal(event.reference, "pay_1");
+        assert.equal(event.amount, 100);
+    });
+
+    it("rejects a body changed after signing", () => {
+        const request = webhookRequest(body, { rawBody: JSON.stringify({ ...body, data: { ...body.data, amount: 1 } }) });
+        assert.throws(() => provider.verifyWebhook(request), (error: any) => error instanceof PaymentProviderError && error.statusCode === 401);
+    });
+
+    it("rejects a signature made with another secret", () => {
+        assert.throws(() => provider.verifyWebhook(webhookRequest(body, { secret: "other" })), { statusCode: 401 });
+    });
+
+    it("rejects replayed deliveries with an old timestamp", () => {
+        const timestamp = Math.floor(Date.now() / 1000) - 10 * 60;
+        assert.throws(() => provider.verifyWebhook(webhookRequest(body, { timestamp })), { message: "Webhook signature has expired" });
+    });
+
+    it("rejects deliveries without a signature", () => {
+        assert.throws(() => provider.verifyWebhook({ headers: {}, rawBody: Buffer.from("{}"), body: {} }), { statusCode: 401 });
+    });
+});
+
+describe("webhook order matching", () => {
+    const order = {
+        _id: new ObjectId(),
+        orderNumber: "ORD-2026-0001",
+        pricing: { grandTotal: 100, currency: "USD" },
+        payment: { status: "pending", provider: "webhook", providerReference: "pay_known" }
+    };
+
+    it("finds the order by the provider reference stored on it", async () => {
+        const { db } = stubDb([order]);
+        const request = webhookRequest({ id: "evt_2", type: "payment.succeeded", data: { reference: "pay_known", amount: 5, currency: "USD" } });
+
+        const { record } = await processWebhookEvent(db, provider, request);
+
+        assert.deepEqual(record.orderId, order._id);
+        // The amount does not match, which stops before any payment status change
+        assert.equal(record.result, "amount_mismatch");
+    });
+
+    it("never falls back to the order number", async () => {
+        const { db, orderQueries } = stubDb([order]);
+        const request = webhookRequest({
+            id: "evt_3",
+            type: "payment.succeeded",
+            data: { reference: "pay_guessed", orderNumber: order.orderNumber, amount: 100 }
+        });
+
+        const { record } = await processWebhookEvent(db, provider, request);
+
+        assert.equal(record.result, "order_not_found");
+        assert.ok(orderQueries.every((filter) => !("orderNumber" in filter)));
+    });
+
+    it("ignores events without a reference", async () => {
+        const { db, orderQueries } = stubDb([order]);
+        const request = webhookRequest({ id: "evt_4", type: "payment.succeeded", data: { orderNumber: order.orderNumber } });
+
+        const { record } = await processWebhookEvent(db, provider, request);
+
+        assert.equal(record.result, "order_not_found");
+        assert.equal(orderQueries.length, 0);
+    });
+
+    it("does not match a reference issued by another provider", async () => {
+        const { db } = stubDb([{ ...order, payment: { ...order.payment, provider: "manual" } }]);
+        const request = webhookRequest({ id: "evt_5", type: "payment.succeeded", data: { reference: "pay_known", amount: 100 } });
+
+        const { record } = await processWebhookEvent(db, provider, request);
+
+        assert.equal(record.result, "order_not_found");
+    });
+});
+
+describe("fake provider registration", () => {
+    const registryPath = require.resolve("../src/models/payments/payment.registry");
+    const loadRegistry = () => {
+        delete require.cache[registryPath];
+        return require(registryPath) as typeof import("../src/models/payments/payment.registry");
+    };
+
+    it("is not registered without the opt-in flag", () => {
+        delete process.env.PAYMENT_FAKE_PROVIDER;
+        assert.equal(loadRegistry().getPaymentProvider("fake"), undefined);
+    });
+
+    it("refuses to start when enabled without a secret", () => {
+        process.env.PAYMENT_FAKE_PROVIDER = "true";
+        delete process.env.PAYMENT_FAKE_SECRET;
+        assert.throws(loadRegistry, /PAYMENT_FAKE_SECRET/);
+    });
+
+    it("is registered when enabled with a secret", () => {
+        process.env.PAYMENT_FAKE_PROVIDER = "true";
+        process.env.PAYMENT_FAKE_SECRET = "local-secret";
+        assert.ok(loadRegistry().getPaymentProvider("fake"));
+        delete process.env.PAYMENT_FAKE_PROVIDER;
+        delete process.env.PAYMENT_FAKE_SECRET;
+    });
+});
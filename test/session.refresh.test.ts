@@ -0,0 +1,88 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ObjectId } from "mongodb";
+import { createSession, rotateRefreshToken } from "../src/models/auth/session.engine";
+import { UnauthorizedError } from "../src/utils/errors";
+
+const request: any = { headers: {}, ip: "127.0.0.1", socket: {}, get: () => "node-test" };
+
+// Just enough of the sessions collection for refresh token rotation
+const stubDb = () => {
+    const sessions: any[] = [];
+    const collection = {
+        insertOne: async (doc: any) => {
+            const _id = new ObjectId();
+            sessions.push({ ...doc, _id });
+            return { insertedId: _id };
+        },
+        findOneAndUpdate: async (filter: any, update: any) => {
+            const session = sessions.find((entry) =>
+                entry.refreshTokenHash === filter.refreshTokenHash && entry.expiresAt > filter.expiresAt.$gt
+            );
+            if (!session) return null;
+            Object.assign(session, update.$set);
+            session.rotatedTokenHashes = [...session.rotatedTokenHashes, ...update.$push.rotatedTokenHashes.$each];
+            return { ...session };
+        },
+        findOneAndDelete: async (filter: any) => {
+            const index = sessions.findIndex((entry) => entry.rotatedTokenHashes.includes(filter.rotatedTokenHashes));
+            return index === -1 ? null : sessions.splice(index, 1)[0];
+        }
+    };
+    return { db: { collection: () => collection } as any, sessions };
+};
+
+const rejectsWith = (code: string) => (error: any) => error instanceof UnauthorizedError && error.code === code;
+
+describe("refresh token rotation", () => {
+    it("issues a new token and stops accepting the old one", async () => {
+        const { db } = stubDb();
+        const { refreshToken } = await createSession(db, "user-1", request);
+
+        const rotated = await rotateRefreshToken(db, refreshToken, request);
+        assert.notEqual(rotated.refreshToken, refreshToken);
+        assert.equal(rotated.session.uid, "user-1");
+
+        const again = await rotateRefreshToken(db, rotated.refreshToken, request);
+        assert.notEqual(again.refreshToken, rotated.refreshToken);
+    });
+
+    it("never stores the token itself", async () => {
+        const { db, sessions } = stubDb();
+        const { refreshToken } = await createSession(db, "user-1", request);
+        await rotateRefreshToken(db, refreshToken, request);
+
+        assert.ok(!JSON.stringify(sessions).includes(refreshToken));
+    });
+
+    it("revokes the whole session when a rotated token is reused", async () => {
+        const { db, sessions } = stubDb();
+        const { refreshToken: stolen } = await createSession(db, "user-1", request);
+        const { refreshToken: current } = await rotateRefreshToken(db, stolen, request);
+
+        await assert.rejects(rotateRefreshToken(db, stolen, request), rejectsWith("REFRESH_TOKEN_REUSED"));
+        assert.equal(sessions.length, 0);
+
+        // The legitimate holder is signed out too
+        await assert.rejects(rotateRefreshToken(db, current, request), rejectsWith("INVALID_REFRESH_TOKEN"));
+    });
+
+    it("leaves other sessions alone on reuse", async () => {
+        const { db, sessions } = stubDb();
+        const { refreshToken: first } = await createSession(db, "user-1", request);
+        await createSession(db, "user-1", request);
+        await rotateRefreshToken(db, first, request);
+
+        await assert.rejects(rotateRefreshToken(db, first, request), rejectsWith("REFRESH_TOKEN_REUSED"));
+        assert.equal(sessions.length, 1);
+    });
+
+    it("rejects unknown and expired tokens", async () => {
+        const { db, sessions } = stubDb();
+        await assert.rejects(rotateRefreshToken(db, "not-a-token", request), rejectsWith("INVALID_REFRESH_TOKEN"));
+
+        const { refreshToken } = await createSession(db, "user-1", request);
+        sessions[0].expiresAt = new Date(Date.now() - 1000);
+        await assert.rejects(rotateRefreshToken(db, refreshToken, request), rejectsWith("INVALID_REFRESH_TOKEN"));
+    });
+});